@@ -13,7 +13,6 @@ const eslintConfig = [
   {
     ignores: [
       '**/node_modules/**',
-      'src/lib/parsers/rust-parser.ts',
       'src/lib/parsers/rust-parser-simple.ts'
     ],
   },
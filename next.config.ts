@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // Native tree-sitter bindings must be loaded by Node, not bundled
+  serverExternalPackages: ['tree-sitter', 'tree-sitter-rust', 'tree-sitter-python', 'tree-sitter-typescript', 'tree-sitter-go', 'tree-sitter-java', 'tree-sitter-kotlin', 'tree-sitter-c', 'tree-sitter-cpp'],
   typescript: {
     // Exclude problematic files from TypeScript checking
     ignoreBuildErrors: true,
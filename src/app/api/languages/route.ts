@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { ANALYZERS, toLanguageProfile } from '@/lib/analyzers/registry';
+import { CROSS_LANGUAGE_EDGE_TYPES } from '@/lib/analyzers/polyglot';
+
+// List the supported languages with their node and edge types, and the edge
+// types linking languages in merged graphs
+export async function GET() {
+  return NextResponse.json({
+    languages: ANALYZERS.map(toLanguageProfile),
+    crossLanguageEdgeTypes: CROSS_LANGUAGE_EDGE_TYPES
+  });
+}
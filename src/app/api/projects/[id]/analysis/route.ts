@@ -1,8 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import path from 'path';
 import fs from 'fs';
-import { parseRustProject, convertToGraphData } from '@/lib/parsers/rust-parser-simple';
-import { GraphData, HierarchicalData, TreeNode } from '@/types/rust-types';
+import {
+  analyzeProject,
+  clearAnalysisData,
+  getAnalyzer,
+  getProjectLanguages,
+  getSelectedLanguages,
+  loadLanguageGraphData,
+  readProjectData
+} from '@/lib/analyzers/registry';
+import { buildManifest } from '@/lib/analyzers/manifest';
+import { enqueueAnalysisJob, isAnalyzing } from '@/lib/analyzers/jobs';
+import { createFileFilter } from '@/lib/parsers/file-filter';
+import { LanguageData, mergeGraphData, mergeHierarchicalData, mergeRootHierarchicalData, scopedId } from '@/lib/analyzers/polyglot';
+import { LanguageAnalyzer, ProjectManifest } from '@/types/analyzer-types';
+import { GraphData, HierarchicalData, TreeNode } from '@/types/common-types';
 
 // Base directory for project storage
 const PROJECTS_DIR = path.join(process.cwd(), 'projects');
@@ -19,120 +32,184 @@ export async function GET(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
     
+    // The graph is incomplete until the project's analysis job ends
+    if (isAnalyzing(projectDir)) {
+      return NextResponse.json({ error: 'Project is being analyzed' }, { status: 409 });
+    }
+    
     const { searchParams } = new URL(request.url);
     const view = searchParams.get('view') || '3d-force';
     
+    const metadataPath = path.join(projectDir, 'metadata.json');
+    const metadata = fs.existsSync(metadataPath)
+      ? JSON.parse(fs.readFileSync(metadataPath, 'utf8'))
+      : null;
+    
+    // One language's graph if requested, otherwise the merged graph of all of them
+    const language = searchParams.get('language');
+    const languages = language ? [language] : getProjectLanguages(metadata);
+    const unsupported = languages.find(projectLanguage => !getAnalyzer(projectLanguage));
+    
+    if (unsupported) {
+      return NextResponse.json({ error: `Unsupported language: ${unsupported}` }, { status: 400 });
+    }
+    
+    const analyzers = languages.map(projectLanguage => getAnalyzer(projectLanguage)!);
+    
+    // Analyzers with their own hierarchy build it from the parsed project, which keeps
+    // its package, module and file nodes, rather than from '::'-separated graph paths
+    const toHierarchical = (analyzer: LanguageAnalyzer, graphData: GraphData): HierarchicalData => {
+      const projects = analyzer.toHierarchicalData && readProjectData(analyzer, projectDir, metadata);
+      if (analyzer.toHierarchicalData && projects) {
+        return mergeRootHierarchicalData(
+          metadata?.name || 'root',
+          projects.map(({ root, project }) => ({ root, data: analyzer.toHierarchicalData!(project) }))
+        );
+      }
+      return convertToHierarchical(graphData);
+    };
+    
     // Check if we have cached data for this view
-    const viewDataPath = path.join(projectDir, `${view}-data.json`);
+    const viewDataPath = path.join(projectDir, language ? `${view}-${language}-data.json` : `${view}-data.json`);
     
     if (fs.existsSync(viewDataPath)) {
       const viewData = JSON.parse(fs.readFileSync(viewDataPath, 'utf8'));
       return NextResponse.json(viewData);
     }
     
-    // If no cached data, check if we have the basic graph data
+    // Graph of each language, parsing the project again if its data is missing
+    const loadGraphs = async (): Promise<LanguageData<GraphData>[] | null> => {
+      const graphs = [];
+      for (const analyzer of analyzers) {
+        const data = await loadLanguageGraphData(analyzer, projectDir, metadata);
+        if (!data) {
+          return null;
+        }
+        graphs.push({ language: analyzer.id, data });
+      }
+      return graphs;
+    };
+    
+    // The merged graph is kept in graph-data.json; the hierarchy is built per language
     const graphDataPath = path.join(projectDir, 'graph-data.json');
+    const hasMergedGraph = !language && fs.existsSync(graphDataPath);
+    const graphs = hasMergedGraph && view !== 'hierarchical' ? [] : await loadGraphs();
     
-    if (fs.existsSync(graphDataPath)) {
-      const graphData = JSON.parse(fs.readFileSync(graphDataPath, 'utf8'));
-      
-      // Process graph data for the specific view (customize graph for view type)
-      let viewData = graphData;
-      
-      switch (view) {
-        case 'hierarchical':
-          // Transform to hierarchical structure
-          viewData = convertToHierarchical(graphData);
-          break;
-        case 'module-dependency':
-          // Filter to show only module dependencies
-          viewData = filterModuleDependencies(graphData);
-          break;
-        case 'call-graph':
-          // Filter to show only function calls
-          viewData = filterCallGraph(graphData);
-          break;
-        // Default is 3d-force, no transformation needed
-      }
-      
-      // Cache the view-specific data
-      fs.writeFileSync(viewDataPath, JSON.stringify(viewData, null, 2));
-      
-      return NextResponse.json(viewData);
+    if (!graphs) {
+      return NextResponse.json({ error: 'Project data not found' }, { status: 404 });
     }
     
-    // If we don't have graph data, check if we have project data
-    const projectDataPath = path.join(projectDir, 'project-data.json');
-    
-    if (fs.existsSync(projectDataPath)) {
-      const rustProject = JSON.parse(fs.readFileSync(projectDataPath, 'utf8'));
-      const graphData = convertToGraphData(rustProject);
-      
-      // Save the basic graph data
+    let graphData: GraphData;
+    if (language) {
+      graphData = graphs[0].data;
+    } else if (hasMergedGraph) {
+      graphData = JSON.parse(fs.readFileSync(graphDataPath, 'utf8'));
+    } else {
+      graphData = mergeGraphData(graphs);
       fs.writeFileSync(graphDataPath, JSON.stringify(graphData, null, 2));
-      
-      // Process for the specific view
-      let viewData: GraphData | HierarchicalData = graphData;
-      
-      switch (view) {
-        case 'hierarchical':
-          viewData = convertToHierarchical(graphData);
-          break;
-        case 'module-dependency':
-          viewData = filterModuleDependencies(graphData);
-          break;
-        case 'call-graph':
-          viewData = filterCallGraph(graphData);
-          break;
-      }
-      
-      // Cache the view-specific data
-      fs.writeFileSync(viewDataPath, JSON.stringify(viewData, null, 2));
-      
-      return NextResponse.json(viewData);
     }
     
-    // If neither graph data nor project data exists, parse the project
+    // Process graph data for the specific view (customize graph for view type)
+    let viewData: GraphData | HierarchicalData = graphData;
+    
+    switch (view) {
+      case 'hierarchical':
+        // Transform to hierarchical structure, one subtree per language
+        viewData = mergeHierarchicalData(
+          metadata?.name || 'root',
+          analyzers.map((analyzer, index) => ({ language: analyzer.id, data: toHierarchical(analyzer, graphs[index].data) }))
+        );
+        break;
+      case 'module-dependency':
+        // Filter to show only module dependencies
+        viewData = filterModuleDependencies(graphData);
+        break;
+      case 'call-graph':
+        // Filter to show only function calls
+        viewData = filterCallGraph(graphData);
+        break;
+      // Default is 3d-force, no transformation needed
+    }
+    
+    // Cache the view-specific data
+    fs.writeFileSync(viewDataPath, JSON.stringify(viewData, null, 2));
+    
+    return NextResponse.json(viewData);
+  } catch (error) {
+    console.error('Error analyzing project:', error);
+    return NextResponse.json({ 
+      error: 'Failed to analyze project',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+// Analyze a project again with the sub-projects picked by the user
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const projectDir = path.join(PROJECTS_DIR, id);
     const metadataPath = path.join(projectDir, 'metadata.json');
     
-    if (fs.existsSync(metadataPath)) {
-      const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
-      const rustProject = await parseRustProject(metadata.path);
-      
-      // Save the project data
-      fs.writeFileSync(
-        projectDataPath,
-        JSON.stringify(rustProject, null, 2)
-      );
-      
-      // Convert to graph data
-      const graphData = convertToGraphData(rustProject);
-      
-      // Save the basic graph data
-      fs.writeFileSync(graphDataPath, JSON.stringify(graphData, null, 2));
-      
-      // Process for the specific view
-      let viewData: GraphData | HierarchicalData = graphData;
-      
-      switch (view) {
-        case 'hierarchical':
-          viewData = convertToHierarchical(graphData);
-          break;
-        case 'module-dependency':
-          viewData = filterModuleDependencies(graphData);
-          break;
-        case 'call-graph':
-          viewData = filterCallGraph(graphData);
-          break;
-      }
+    if (!fs.existsSync(metadataPath)) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    
+    const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+    
+    // The project's .viscode.json is read again, and projects uploaded before
+    // sub-project detection get their manifest now
+    const filter = createFileFilter(metadata.path);
+    const manifest: ProjectManifest = metadata.manifest || buildManifest(metadata.path, filter);
+    
+    // Without a selection in the body, e.g. to retry a failed analysis, the current one is analyzed again
+    const body = await request.json().catch(() => ({}));
+    const subProjects = body.subProjects ??
+      manifest.subProjects.filter(subProject => subProject.selected).map(subProject => subProject.id);
+    
+    if (!Array.isArray(subProjects) || subProjects.length === 0) {
+      return NextResponse.json({ error: 'At least one sub-project must be selected' }, { status: 400 });
+    }
+    
+    const unknown = subProjects.find((subProjectId: string) =>
+      !manifest.subProjects.some(subProject => subProject.id === subProjectId)
+    );
+    
+    if (unknown) {
+      return NextResponse.json({ error: `Unknown sub-project: ${unknown}` }, { status: 400 });
+    }
+    
+    for (const subProject of manifest.subProjects) {
+      subProject.selected = subProjects.includes(subProject.id);
+    }
+    
+    // Analyze the selection in the background; clients follow the job through
+    // GET /api/projects/:id/status
+    const languages = getSelectedLanguages(manifest.subProjects);
+    const queued = enqueueAnalysisJob(projectDir, async progress => {
+      // Drop the data of the previous selection, including the cached views
+      clearAnalysisData(projectDir);
       
-      // Cache the view-specific data
-      fs.writeFileSync(viewDataPath, JSON.stringify(viewData, null, 2));
+      progress.setPhase('parsing');
+      progress.setTotalFiles(languages.reduce((total, language) => total + (manifest.files[language] || 0), 0));
+      await analyzeProject(manifest.subProjects, metadata.path, projectDir, filter, progress.fileParsed);
       
-      return NextResponse.json(viewData);
+      // Update metadata with the selection, its languages and the config it was analyzed with
+      metadata.manifest = manifest;
+      metadata.language = languages[0];
+      metadata.languages = languages;
+      metadata.config = filter.config;
+      fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
+    });
+    
+    if (!queued) {
+      return NextResponse.json({ error: 'Project is being analyzed' }, { status: 409 });
     }
     
-    return NextResponse.json({ error: 'Project data not found' }, { status: 404 });
+    return NextResponse.json({ success: true, status: 'analyzing', languages, manifest, config: filter.config }, { status: 202 });
   } catch (error) {
     console.error('Error analyzing project:', error);
     return NextResponse.json({ 
@@ -142,47 +219,82 @@ export async function GET(
   }
 }
 
+// Path of a node with the leading `crate` replaced by the crate's name, so
+// items of different crates in one project stay apart
+function getQualifiedPath(node: GraphData['nodes'][number]): string {
+  const nodePath = node.path || '';
+  return node.crate ? nodePath.replace(/^crate(?=::|$)/, node.crate) : nodePath;
+}
+
 // Helper function to convert graph data to hierarchical structure
 function convertToHierarchical(graphData: GraphData): HierarchicalData {
   // Group nodes by module/path
   const modules: Record<string, TreeNode> = {};
+  const isContainer = (node: GraphData['nodes'][number]) => node.type === 'crate' || node.type === 'module';
   
+  // Crate and module nodes stand for the path they define
+  const containers = new Map<string, GraphData['nodes'][number]>();
   for (const node of graphData.nodes) {
-    const pathParts = (node.path || '').split('::');
-    let currentPath = '';
-    
-    for (let i = 0; i < pathParts.length; i++) {
-      const part = pathParts[i];
-      const newPath = currentPath ? `${currentPath}::${part}` : part;
+    if (isContainer(node)) {
+      containers.set(getQualifiedPath(node), node);
+    }
+  }
+  
+  // Create the module for a path and its ancestors, each as a child of its parent
+  const ensureModule = (modulePath: string): TreeNode => {
+    if (!modules[modulePath]) {
+      const separatorIndex = modulePath.lastIndexOf('::');
+      const container = containers.get(modulePath);
+      modules[modulePath] = {
+        id: container ? container.id : `module:${modulePath}`,
+        name: separatorIndex === -1 ? modulePath : modulePath.substring(separatorIndex + 2),
+        path: modulePath,
+        type: container ? container.type : 'module',
+        file: container?.file,
+        visibility: container?.visibility,
+        reachable: container?.reachable,
+        description: container?.description,
+        attributes: container?.attributes,
+        children: []
+      };
       
-      if (!modules[newPath]) {
-        modules[newPath] = {
-          id: `module:${newPath}`,
-          name: part,
-          path: newPath,
-          type: 'module',
-          children: []
-        };
-        
-        // If not the root, add as child to parent
-        if (currentPath && modules[currentPath]) {
-          modules[currentPath].children.push(modules[newPath]);
-        }
+      // If not the root, add as child to parent
+      if (separatorIndex !== -1) {
+        ensureModule(modulePath.substring(0, separatorIndex)).children.push(modules[modulePath]);
       }
-      
-      currentPath = newPath;
     }
+    return modules[modulePath];
+  };
+  
+  // Items defined inside other items, such as methods in impls and traits,
+  // are nested under them rather than under their module
+  const nodesById = new Map(graphData.nodes.map(node => [node.id, node]));
+  const itemParents = new Map<string, string>();
+  for (const link of graphData.links) {
+    const parent = nodesById.get(link.source);
+    if (link.type === 'contains' && parent && !isContainer(parent)) {
+      itemParents.set(link.target, link.source);
+    }
+  }
+  
+  const treeNodes = new Map<string, TreeNode>();
+  for (const node of graphData.nodes) {
+    if (isContainer(node)) {
+      ensureModule(getQualifiedPath(node));
+    } else {
+      treeNodes.set(node.id, { ...node, children: [] } as TreeNode);
+    }
+  }
+  
+  // Add leaf node (function, struct, etc.) to its parent item or module
+  for (const [id, treeNode] of treeNodes) {
+    const parent = treeNodes.get(itemParents.get(id) || '');
+    const nodePath = getQualifiedPath(nodesById.get(id)!);
     
-    // Add leaf node (function, struct, etc.) to its module
-    if (node.type !== 'module' && node.path) {
-      const modulePath = node.path.substring(0, node.path.lastIndexOf('::'));
-      
-      if (modules[modulePath]) {
-        modules[modulePath].children.push({
-          ...node,
-          children: []
-        } as TreeNode);
-      }
+    if (parent) {
+      parent.children.push(treeNode);
+    } else if (nodePath.includes('::')) {
+      ensureModule(nodePath.substring(0, nodePath.lastIndexOf('::'))).children.push(treeNode);
     }
   }
   
@@ -203,26 +315,46 @@ function filterModuleDependencies(graphData: GraphData): GraphData {
   // Create module-to-module links based on dependencies between their children
   const moduleLinks: {source: string; target: string; type: string; value: number}[] = [];
   const moduleMap = new Map<string, string>();
+  const crateModules = new Set<string>();
+  // Name and language of each module; in a merged graph, module IDs are prefixed
+  // like the node IDs, so same-named modules of two languages or roots stay apart
+  const moduleInfo = new Map<string, { name: string; language?: string }>();
   
-  // Map node IDs to their module
+  // Modules of the crates, so items of the crate root, such as the methods of
+  // `crate::Widget`, stay with the crate instead of forming a module of their own
+  const crateModulePaths = new Set(graphData.nodes
+    .filter((node) => node.crate && node.type === 'module')
+    .map((node) => scopedId(node, getQualifiedPath(node))));
+  
+  // Map node IDs to their module: the top-level module below the crate root
+  // for crate items (`my_crate::net`), else the first path segment
   for (const node of graphData.nodes) {
     if (node.path) {
-      const pathParts = node.path.split('::');
-      if (pathParts.length > 0) {
-        moduleMap.set(node.id, pathParts[0]);
+      const pathParts = getQualifiedPath(node).split('::');
+      const topLevelModule = pathParts.slice(0, 2).join('::');
+      const isModuleItem = Boolean(node.crate) && crateModulePaths.has(scopedId(node, topLevelModule));
+      const moduleName = isModuleItem ? topLevelModule : pathParts[0];
+      const moduleId = scopedId(node, moduleName);
+      moduleMap.set(node.id, moduleId);
+      moduleInfo.set(moduleId, { name: moduleName, language: node.language });
+      
+      if (node.type === 'crate') {
+        crateModules.add(moduleId);
       }
     }
   }
   
-  // Find links between modules
+  // Find links between modules. Crate dependencies keep their type, so the
+  // workspace architecture shows apart from the module-level links
   for (const link of graphData.links) {
     const sourceModule = moduleMap.get(link.source);
     const targetModule = moduleMap.get(link.target);
+    const linkType = link.type === 'depends' ? 'depends' : 'contains';
     
     if (sourceModule && targetModule && sourceModule !== targetModule) {
       // Check if this link already exists
       const existingLink = moduleLinks.find(
-        (l) => l.source === sourceModule && l.target === targetModule
+        (l) => l.source === sourceModule && l.target === targetModule && l.type === linkType
       );
       
       if (existingLink) {
@@ -231,21 +363,21 @@ function filterModuleDependencies(graphData: GraphData): GraphData {
         moduleLinks.push({
           source: sourceModule,
           target: targetModule,
-          type: 'contains',
+          type: linkType,
           value: 1
         });
       }
     }
   }
   
-  // Create module nodes
-  const uniqueModules = Array.from(new Set(moduleMap.values()));
-  const nodes = uniqueModules.map((moduleName) => ({
-    id: moduleName,
-    name: moduleName,
-    type: 'module',
-    val: 10,
-    color: '#FF9800'
+  // Create module nodes, with crates standing out from their modules
+  const nodes = Array.from(moduleInfo, ([moduleId, { name, language }]) => ({
+    id: moduleId,
+    name,
+    type: crateModules.has(moduleId) ? 'crate' : 'module',
+    val: crateModules.has(moduleId) ? 14 : 10,
+    color: crateModules.has(moduleId) ? '#00897B' : '#FF9800',
+    language
   }));
   
   return {
@@ -256,8 +388,8 @@ function filterModuleDependencies(graphData: GraphData): GraphData {
 
 // Helper function to filter for function call graph
 function filterCallGraph(graphData: GraphData): GraphData {
-  // Filter only function nodes
-  const functionNodes = graphData.nodes.filter((node) => node.type === 'function');
+  // Filter only function and method nodes
+  const functionNodes = graphData.nodes.filter((node) => node.type === 'function' || node.type === 'method');
   
   // Filter only call dependencies
   const callLinks = graphData.links.filter((link) => {
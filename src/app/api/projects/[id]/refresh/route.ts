@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import fs from 'fs';
+import {
+  DEFAULT_LANGUAGE,
+  analyzeProject,
+  clearAnalysisData,
+  getSelectedLanguages,
+  subProjectId
+} from '@/lib/analyzers/registry';
+import { rebuildManifest } from '@/lib/analyzers/manifest';
+import { enqueueAnalysisJob } from '@/lib/analyzers/jobs';
+import { isValidRef, refreshRepository } from '@/lib/analyzers/git-checkout';
+import { createFileFilter } from '@/lib/parsers/file-filter';
+
+// Base directory for project storage
+const PROJECTS_DIR = path.join(process.cwd(), 'projects');
+
+// Fetch a git-backed project's repository and analyze it again, at the branch,
+// tag or commit of the optional `ref` in the body or else at the one it was
+// cloned at. Only files that changed since the last analysis are parsed again
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const projectDir = path.join(PROJECTS_DIR, id);
+    const metadataPath = path.join(projectDir, 'metadata.json');
+
+    if (!fs.existsSync(metadataPath)) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+
+    if (metadata.type !== 'git') {
+      return NextResponse.json({ error: 'Only projects cloned from a Git repository can be refreshed' }, { status: 400 });
+    }
+
+    // The body is optional
+    const body = await request.json().catch(() => ({}));
+    const ref = typeof body.ref === 'string' && body.ref.trim() ? body.ref.trim() : undefined;
+
+    if (ref && !isValidRef(ref)) {
+      return NextResponse.json({ error: `Invalid branch, tag or commit: ${ref}` }, { status: 400 });
+    }
+
+    // Fetch and analyze the project in the background; clients follow the job
+    // through GET /api/projects/:id/status
+    const queued = enqueueAnalysisJob(projectDir, async progress => {
+      progress.setPhase('fetching');
+      const git = await refreshRepository(metadata.path, metadata.git, ref);
+
+      // Sub-projects may have been added or removed; those found before keep their selection
+      progress.setPhase('detecting');
+      const filter = createFileFilter(metadata.path);
+      const manifest = rebuildManifest(metadata.path, filter, metadata.manifest);
+      if (manifest.subProjects.length === 0) {
+        manifest.subProjects.push({
+          id: subProjectId(DEFAULT_LANGUAGE, '.'),
+          language: DEFAULT_LANGUAGE,
+          root: '.',
+          selected: true
+        });
+      }
+
+      clearAnalysisData(projectDir);
+      const languages = getSelectedLanguages(manifest.subProjects);
+      progress.setPhase('parsing');
+      progress.setTotalFiles(languages.reduce((total, language) => total + (manifest.files[language] || 0), 0));
+      await analyzeProject(manifest.subProjects, metadata.path, projectDir, filter, progress.fileParsed);
+
+      // Update metadata with the new checkout and what was analyzed at it
+      metadata.git = git;
+      metadata.manifest = manifest;
+      metadata.config = filter.config;
+      metadata.language = languages[0];
+      metadata.languages = languages;
+      fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
+    });
+
+    if (!queued) {
+      return NextResponse.json({ error: 'Project is being analyzed' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, status: 'analyzing' }, { status: 202 });
+  } catch (error) {
+    console.error('Error refreshing project:', error);
+    return NextResponse.json({
+      error: 'Failed to refresh project',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
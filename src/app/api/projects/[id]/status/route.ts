@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import fs from 'fs';
+import { readProjectStatus } from '@/lib/analyzers/jobs';
+
+// Base directory for project storage
+const PROJECTS_DIR = path.join(process.cwd(), 'projects');
+
+// Progress of a project's background analysis: its phase, the files parsed so far and any errors
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const projectDir = path.join(PROJECTS_DIR, id);
+
+    if (!fs.existsSync(path.join(projectDir, 'metadata.json'))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(readProjectStatus(projectDir));
+  } catch (error) {
+    console.error('Error reading project status:', error);
+    return NextResponse.json({
+      error: 'Failed to read project status',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
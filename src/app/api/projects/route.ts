@@ -2,10 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import path from 'path';
 import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
-import simpleGit from 'simple-git';
 import extract from 'extract-zip';
-import { parseRustProject, convertToGraphData } from '@/lib/parsers/rust-parser-simple';
-import { parsePythonProject, convertToGraphData as convertPythonToGraphData } from '@/lib/parsers/python-parser';
+import {
+  DEFAULT_LANGUAGE,
+  analyzeProject,
+  getAnalyzer,
+  getSelectedLanguages,
+  getSubProjects,
+  loadLanguageGraphData,
+  subProjectId
+} from '@/lib/analyzers/registry';
+import { buildManifest } from '@/lib/analyzers/manifest';
+import { enqueueAnalysisJob, isAnalyzing, JobProgress, readProjectStatus } from '@/lib/analyzers/jobs';
+import { cloneRepository, getRepositoryName, isValidRef } from '@/lib/analyzers/git-checkout';
+import { createFileFilter } from '@/lib/parsers/file-filter';
+import { ProjectConfig, ProjectManifest } from '@/types/analyzer-types';
+import { GitCheckout } from '@/types/common-types';
 
 // Base directory for project storage
 const PROJECTS_DIR = path.join(process.cwd(), 'projects');
@@ -24,11 +36,11 @@ export async function POST(request: NextRequest) {
     const projectId = uuidv4();
     const projectDir = path.join(PROJECTS_DIR, projectId);
     
-    // Create project directory
-    fs.mkdirSync(projectDir, { recursive: true });
-    
     let projectPath = '';
     let projectName = '';
+    // Extracts or clones the project as the first step of its analysis job,
+    // returning the checkout of a cloned repository
+    let fetchProject: (progress: JobProgress) => Promise<GitCheckout | undefined>;
     
     if (uploadType === 'file') {
       // Handle project upload as zip file
@@ -41,37 +53,45 @@ export async function POST(request: NextRequest) {
       // Get original filename without extension for project name
       projectName = path.parse(file.name).name;
       
-      // Save the zip file
+      // Save the zip file, which is only available during the request
+      fs.mkdirSync(projectDir, { recursive: true });
       const zipPath = path.join(projectDir, file.name);
       const buffer = Buffer.from(await file.arrayBuffer());
       fs.writeFileSync(zipPath, buffer);
       
-      // Extract the zip file
-      await extract(zipPath, { dir: projectDir });
-      
-      // Delete the zip file after extraction
-      fs.unlinkSync(zipPath);
-      
       // The project path is the directory containing the extracted files
       projectPath = projectDir;
+      fetchProject = async progress => {
+        // Extract the zip file, deleting it after extraction
+        progress.setPhase('extracting');
+        await extract(zipPath, { dir: projectDir });
+        fs.unlinkSync(zipPath);
+        return undefined;
+      };
     } else if (uploadType === 'git') {
-      // Handle Git repository clone
+      // Handle Git repository clone, at a branch, tag or commit if one is given
       const gitUrl = formData.get('gitUrl') as string;
+      const gitRef = (formData.get('gitRef') as string | null)?.trim() || undefined;
       
       if (!gitUrl) {
         return NextResponse.json({ error: 'No Git URL provided' }, { status: 400 });
       }
       
-      // Extract repo name from URL for project name
-      const urlParts = gitUrl.split('/');
-      projectName = urlParts[urlParts.length - 1].replace('.git', '');
+      if (gitRef && !isValidRef(gitRef)) {
+        return NextResponse.json({ error: `Invalid branch, tag or commit: ${gitRef}` }, { status: 400 });
+      }
       
-      // Clone the repository
-      const git = simpleGit();
-      await git.clone(gitUrl, projectDir);
+      // Extract repo name from URL for project name
+      projectName = getRepositoryName(gitUrl);
       
-      // The project path is the directory containing the cloned repository
-      projectPath = projectDir;
+      // The repository is cloned into a directory of its own, as the project
+      // directory already holds the metadata and status of the job
+      fs.mkdirSync(projectDir, { recursive: true });
+      projectPath = path.join(projectDir, 'repo');
+      fetchProject = async progress => {
+        progress.setPhase('cloning');
+        return cloneRepository(gitUrl, projectPath, gitRef);
+      };
     } else {
       return NextResponse.json({ error: 'Invalid upload type' }, { status: 400 });
     }
@@ -83,7 +103,14 @@ export async function POST(request: NextRequest) {
       path: string;
       type: string;
       timestamp: number;
+      // Primary language, and every language the project was analyzed in
       language?: string;
+      languages?: string[];
+      manifest?: ProjectManifest;
+      // Effective settings of the project's .viscode.json
+      config?: ProjectConfig;
+      // Repository and checkout of a cloned project
+      git?: GitCheckout;
     } = {
       id: projectId,
       name: projectName,
@@ -97,83 +124,48 @@ export async function POST(request: NextRequest) {
       JSON.stringify(metadata, null, 2)
     );
     
-    // Detect project language by checking for key files
-    const hasPythonFiles = fs.existsSync(path.join(projectPath, 'requirements.txt')) || 
-                           fs.existsSync(path.join(projectPath, 'setup.py')) ||
-                           fs.readdirSync(projectPath).some(file => file.endsWith('.py'));
-                           
-    const hasRustFiles = fs.existsSync(path.join(projectPath, 'Cargo.toml')) ||
-                         fs.readdirSync(projectPath).some(file => file.endsWith('.rs'));
-    
-    // Process based on detected language
-    if (hasPythonFiles) {
-      // Parse Python project
-      const pythonProject = await parsePythonProject(projectPath);
-      
-      // Save the parsed project data
-      fs.writeFileSync(
-        path.join(projectDir, 'project-data.json'),
-        JSON.stringify(pythonProject, null, 2)
-      );
-      
-      // Convert to graph data and save
-      const graphData = convertPythonToGraphData(pythonProject);
-      fs.writeFileSync(
-        path.join(projectDir, 'graph-data.json'),
-        JSON.stringify(graphData, null, 2)
-      );
+    // Fetch and analyze the project in the background; clients follow the job
+    // through GET /api/projects/:id/status
+    enqueueAnalysisJob(projectDir, async progress => {
+      metadata.git = await fetchProject(progress);
       
-      // Update metadata to include language
-      metadata.language = 'python';
-      fs.writeFileSync(
-        path.join(projectDir, 'metadata.json'),
-        JSON.stringify(metadata, null, 2)
-      );
-    } else if (hasRustFiles) {
-      // Parse Rust project
-      const rustProject = await parseRustProject(projectPath);
-      
-      // Save the parsed project data
-      fs.writeFileSync(
-        path.join(projectDir, 'project-data.json'),
-        JSON.stringify(rustProject, null, 2)
-      );
+      // Find the sub-projects of each language, defaulting to Rust at the root if none
+      // can be determined, leaving out what the project's config and .gitignore files exclude
+      progress.setPhase('detecting');
+      const filter = createFileFilter(projectPath);
+      const manifest = buildManifest(projectPath, filter);
+      if (manifest.subProjects.length === 0) {
+        manifest.subProjects.push({
+          id: subProjectId(DEFAULT_LANGUAGE, '.'),
+          language: DEFAULT_LANGUAGE,
+          root: '.',
+          selected: true
+        });
+      }
       
-      // Convert to graph data and save
-      const graphData = convertToGraphData(rustProject);
-      fs.writeFileSync(
-        path.join(projectDir, 'graph-data.json'),
-        JSON.stringify(graphData, null, 2)
-      );
+      const languages = getSelectedLanguages(manifest.subProjects);
+      progress.setPhase('parsing');
+      progress.setTotalFiles(languages.reduce((total, language) => total + (manifest.files[language] || 0), 0));
+      await analyzeProject(manifest.subProjects, projectPath, projectDir, filter, progress.fileParsed);
       
-      // Update metadata to include language
-      metadata.language = 'rust';
+      // Update metadata to include the checkout, manifest, languages and config
+      metadata.manifest = manifest;
+      metadata.config = filter.config;
+      metadata.language = languages[0];
+      metadata.languages = languages;
       fs.writeFileSync(
         path.join(projectDir, 'metadata.json'),
         JSON.stringify(metadata, null, 2)
       );
-    } else {
-      // Default to Rust processing if language can't be determined
-      const rustProject = await parseRustProject(projectPath);
-      
-      fs.writeFileSync(
-        path.join(projectDir, 'project-data.json'),
-        JSON.stringify(rustProject, null, 2)
-      );
-      
-      const graphData = convertToGraphData(rustProject);
-      fs.writeFileSync(
-        path.join(projectDir, 'graph-data.json'),
-        JSON.stringify(graphData, null, 2)
-      );
-    }
+    });
     
     return NextResponse.json({
       success: true,
       projectId,
       name: projectName,
-      message: `Project uploaded and processed successfully`
-    });
+      status: 'analyzing',
+      message: `Project uploaded, analysis started`
+    }, { status: 202 });
   } catch (error) {
     console.error('Error processing project:', error);
     return NextResponse.json({ 
@@ -197,85 +189,54 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Project not found' }, { status: 404 });
       }
       
-      // Check if graph data exists with language-specific filename
-      let graphDataPath = path.join(projectDir, 'graph-data.json');
+      // The graph is incomplete until the project's analysis job ends
+      if (isAnalyzing(projectDir)) {
+        return NextResponse.json({ error: 'Project is being analyzed' }, { status: 409 });
+      }
+      
+      const metadataPath = path.join(projectDir, 'metadata.json');
+      const metadata = fs.existsSync(metadataPath) ? JSON.parse(fs.readFileSync(metadataPath, 'utf8')) : null;
       
-      // If language is specified, try to use language-specific data
+      // Return the graph of one language if requested
       if (language) {
-        const langSpecificPath = path.join(projectDir, `graph-data-${language}.json`);
-        if (fs.existsSync(langSpecificPath)) {
-          graphDataPath = langSpecificPath;
+        const analyzer = getAnalyzer(language);
+        
+        if (!analyzer) {
+          return NextResponse.json({ error: `Unsupported language: ${language}` }, { status: 400 });
+        }
+        
+        const graphData = await loadLanguageGraphData(analyzer, projectDir, metadata);
+        
+        if (!graphData) {
+          return NextResponse.json({ error: 'Project metadata not found' }, { status: 404 });
         }
+        
+        return NextResponse.json(graphData);
       }
       
+      // Otherwise return the merged graph of all languages
+      const graphDataPath = path.join(projectDir, 'graph-data.json');
+      
       if (fs.existsSync(graphDataPath)) {
         const graphData = JSON.parse(fs.readFileSync(graphDataPath, 'utf8'));
         return NextResponse.json(graphData);
-      } else {
-        // If graph data doesn't exist, check if project data exists
-        const projectDataPath = path.join(projectDir, 'project-data.json');
-        
-        if (fs.existsSync(projectDataPath)) {
-          const projectData = JSON.parse(fs.readFileSync(projectDataPath, 'utf8'));
-          
-          // Check metadata for language
-          const metadataPath = path.join(projectDir, 'metadata.json');
-          let graphData;
-          
-          if (fs.existsSync(metadataPath)) {
-            const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
-            const dataLanguage = language || metadata.language || 'rust';
-            
-            if (dataLanguage === 'python') {
-              graphData = convertPythonToGraphData(projectData);
-              
-              // Save language-specific graph data for future requests
-              const pythonGraphPath = path.join(projectDir, 'graph-data-python.json');
-              fs.writeFileSync(pythonGraphPath, JSON.stringify(graphData, null, 2));
-            } else {
-              // Default to Rust
-              graphData = convertToGraphData(projectData);
-              
-              // Save language-specific graph data for future requests
-              const rustGraphPath = path.join(projectDir, 'graph-data-rust.json');
-              fs.writeFileSync(rustGraphPath, JSON.stringify(graphData, null, 2));
-            }
-          } else {
-            // Fallback to Rust if no metadata
-            graphData = convertToGraphData(projectData);
-          }
-          
-          // Save the graph data for future requests (language-agnostic version)
-          fs.writeFileSync(graphDataPath, JSON.stringify(graphData, null, 2));
-          
-          return NextResponse.json(graphData);
-        } else {
-          // If neither graph data nor project data exists, parse the project
-          const metadataPath = path.join(projectDir, 'metadata.json');
-          
-          if (fs.existsSync(metadataPath)) {
-            const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
-            const rustProject = await parseRustProject(metadata.path);
-            
-            // Save the project data
-            fs.writeFileSync(
-              path.join(projectDir, 'project-data.json'),
-              JSON.stringify(rustProject, null, 2)
-            );
-            
-            // Convert and save the graph data
-            const graphData = convertToGraphData(rustProject);
-            fs.writeFileSync(
-              path.join(projectDir, 'graph-data.json'),
-              JSON.stringify(graphData, null, 2)
-            );
-            
-            return NextResponse.json(graphData);
-          } else {
-            return NextResponse.json({ error: 'Project metadata not found' }, { status: 404 });
-          }
-        }
       }
+      
+      if (!metadata) {
+        return NextResponse.json({ error: 'Project metadata not found' }, { status: 404 });
+      }
+      
+      const subProjects = getSubProjects(metadata);
+      const unsupported = subProjects.find(subProject => !getAnalyzer(subProject.language));
+      
+      if (unsupported) {
+        return NextResponse.json({ error: `Unsupported language: ${unsupported.language}` }, { status: 400 });
+      }
+      
+      // Parse the project and save the project and graph data
+      const graphData = await analyzeProject(subProjects, metadata.path, projectDir);
+      
+      return NextResponse.json(graphData);
     } else {
       // Return a list of all projects
       const projects = [];
@@ -288,11 +249,16 @@ export async function GET(request: NextRequest) {
         
         if (fs.existsSync(metadataPath)) {
           const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+          const progress = readProjectStatus(path.join(PROJECTS_DIR, dir));
           projects.push({
             id: metadata.id,
             name: metadata.name,
             type: metadata.type,
-            timestamp: metadata.timestamp
+            timestamp: metadata.timestamp,
+            git: metadata.git,
+            hasGraph: fs.existsSync(path.join(PROJECTS_DIR, dir, 'graph-data.json')),
+            status: progress.status,
+            progress: progress.status === 'ready' ? undefined : progress
           });
         }
       }
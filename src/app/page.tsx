@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import axios from 'axios';
 import ProjectUploader from '@/components/ProjectUploader';
 import ProjectSelector from '@/components/ProjectSelector';
@@ -9,31 +9,100 @@ import HierarchicalView from '@/components/HierarchicalView';
 import NodeInfoPanel from '@/components/NodeInfoPanel';
 import VisibilityControls from '@/components/VisibilityControls';
 import LanguageSelector from '@/components/LanguageSelector';
-import { GraphData, HierarchicalData, ViewMode, TreeNode, CodeLanguage } from '@/types/common-types';
+import SubProjectPicker from '@/components/SubProjectPicker';
+import ProjectConfigPanel from '@/components/ProjectConfigPanel';
+import { describeProgress, waitForAnalysis } from '@/lib/analysis-status';
+import { GraphData, HierarchicalData, ViewMode, TreeNode, CodeLanguage, AnalysisProgress, GitCheckout } from '@/types/common-types';
+import { LanguageProfile, ProjectConfig, ProjectManifest, TypeOption } from '@/types/analyzer-types';
+
+// ID of the combined view of all of a project's languages
+const ALL_LANGUAGES = 'all';
+
+// Drop types listed by several languages, keeping the first
+const uniqueTypes = (types: TypeOption[]): TypeOption[] =>
+  types.filter((type, index) => types.findIndex(other => other.id === type.id) === index);
 
 export default function Home() {
   // Main state
   const [activeView, setActiveView] = useState<ViewMode>('3d-force');
   const [selectedProject, setSelectedProject] = useState<string | null>(null);
   const [projectName, setProjectName] = useState<string>('');
+  // Branch and commit of projects cloned from a Git repository
+  const [gitCheckout, setGitCheckout] = useState<GitCheckout | null>(null);
+  const [isGitProject, setIsGitProject] = useState(false);
   const [graphData, setGraphData] = useState<GraphData | null>(null);
   const [hierarchicalData, setHierarchicalData] = useState<HierarchicalData | null>(null);
   const [selectedNode, setSelectedNode] = useState<TreeNode | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [currentLanguage, setCurrentLanguage] = useState<CodeLanguage>('rust');
-  const [availableLanguages, setAvailableLanguages] = useState<CodeLanguage[]>(['rust']);
+  const [projectLanguages, setProjectLanguages] = useState<CodeLanguage[]>(['rust']);
+  const [manifest, setManifest] = useState<ProjectManifest | null>(null);
+  const [projectConfig, setProjectConfig] = useState<ProjectConfig | null>(null);
+  // Progress of the project's re-analysis, while it runs
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  // Bumped when an upload adds a project, so the projects list loads it
+  const [projectListKey, setProjectListKey] = useState(0);
+  
+  // Supported languages by ID, with their node and edge types
+  const [languageProfiles, setLanguageProfiles] = useState<Record<string, LanguageProfile>>({});
+  const [crossLanguageEdgeTypes, setCrossLanguageEdgeTypes] = useState<TypeOption[]>([]);
+  
+  // Profile of a language, or of the combined view of a project's languages
+  const getProfile = (language: string, languages: string[] = projectLanguages): LanguageProfile | undefined => {
+    if (language !== ALL_LANGUAGES) {
+      return languageProfiles[language];
+    }
+    const profiles = languages.map(id => languageProfiles[id]).filter(Boolean);
+    return {
+      id: ALL_LANGUAGES,
+      label: 'All',
+      nodeTypes: uniqueTypes(profiles.flatMap(profile => profile.nodeTypes)),
+      edgeTypes: uniqueTypes([...profiles.flatMap(profile => profile.edgeTypes), ...crossLanguageEdgeTypes]),
+      publicApiFilter: profiles.some(profile => profile.publicApiFilter)
+    };
+  };
+  const currentProfile = getProfile(currentLanguage);
+  
+  // Display name of each supported language by ID
+  const languageLabels = Object.fromEntries(Object.values(languageProfiles).map(profile => [profile.id, profile.label]));
+  
+  // Polyglot projects can also be viewed as one graph
+  const availableLanguages = projectLanguages.length > 1 ? [...projectLanguages, ALL_LANGUAGES] : projectLanguages;
   
   // Visibility state for filtering graph components
-  const [visibleNodeTypes, setVisibleNodeTypes] = useState<Set<string>>(new Set([
-    'function', 'struct', 'enum', 'trait', 'impl', 'module', 'constant', 'macro', 'use'
-  ]));
-  const [visibleEdgeTypes, setVisibleEdgeTypes] = useState<Set<string>>(new Set([
-    'calls', 'implements', 'uses', 'contains', 'extends'
-  ]));
+  const [visibleNodeTypes, setVisibleNodeTypes] = useState<Set<string>>(new Set());
+  const [visibleEdgeTypes, setVisibleEdgeTypes] = useState<Set<string>>(new Set());
+  const [publicApiOnly, setPublicApiOnly] = useState(false);
   
   // Track loading state
   const [isLoading, setIsLoading] = useState(false);
   
+  // Load the supported languages
+  useEffect(() => {
+    axios.get('/api/languages')
+      .then(response => {
+        const profiles: Record<string, LanguageProfile> = {};
+        for (const profile of response.data.languages as LanguageProfile[]) {
+          profiles[profile.id] = profile;
+        }
+        setLanguageProfiles(profiles);
+        setCrossLanguageEdgeTypes(response.data.crossLanguageEdgeTypes);
+      })
+      .catch(error => console.error('Error loading languages:', error));
+  }, []);
+  
+  // Show every node and edge type of the current language once the languages are loaded
+  useEffect(() => {
+    showAllTypes(currentLanguage);
+  }, [languageProfiles, crossLanguageEdgeTypes]);
+  
+  // Make all node and edge types of a language visible
+  const showAllTypes = (language: string, languages?: string[]) => {
+    const profile = getProfile(language, languages);
+    setVisibleNodeTypes(new Set(profile?.nodeTypes.map(type => type.id)));
+    setVisibleEdgeTypes(new Set(profile?.edgeTypes.map(type => type.id)));
+  };
+  
   // Handle project selection
   const handleSelectProject = async (projectId: string) => {
     try {
@@ -51,45 +120,23 @@ export default function Home() {
       if (metadata.name) {
         setProjectName(metadata.name);
       }
+      setGitCheckout(metadata.git || null);
+      setIsGitProject(metadata.type === 'git');
       
-      // Set available languages based on metadata
-      const languages: CodeLanguage[] = [];
-      if (metadata.language) {
-        languages.push(metadata.language as CodeLanguage);
-        setCurrentLanguage(metadata.language as CodeLanguage);
-      } else {
-        // Default to Rust if no language specified
-        languages.push('rust');
-        setCurrentLanguage('rust');
-      }
-      
-      // Always include Rust for backward compatibility
-      if (!languages.includes('rust')) {
-        languages.push('rust');
-      }
-      
-      setAvailableLanguages(languages);
+      // Set available languages based on metadata, defaulting to Rust if no language is specified;
+      // polyglot projects open on the combined view
+      const languages: CodeLanguage[] = metadata.languages || [metadata.language || 'rust'];
+      const language = languages.length > 1 ? ALL_LANGUAGES : languages[0];
+      setProjectLanguages(languages);
+      setCurrentLanguage(language);
+      setManifest(metadata.manifest || null);
+      setProjectConfig(metadata.config || null);
       
       // Update visible node types based on language
-      if (metadata.language === 'python') {
-        setVisibleNodeTypes(new Set([
-          'function', 'class', 'method', 'module', 'import', 'variable', 'constant', 'decorator'
-        ]));
-        setVisibleEdgeTypes(new Set([
-          'calls', 'imports', 'inherits', 'contains', 'uses'
-        ]));
-      } else {
-        // Default Rust node types
-        setVisibleNodeTypes(new Set([
-          'function', 'struct', 'enum', 'trait', 'impl', 'module', 'constant', 'macro', 'use'
-        ]));
-        setVisibleEdgeTypes(new Set([
-          'calls', 'implements', 'uses', 'contains', 'extends'
-        ]));
-      }
+      showAllTypes(language, languages);
       
       // Fetch the graph data for the selected view
-      const graphResponse = await axios.get(`/api/projects/${projectId}/analysis?view=${activeView}`);
+      const graphResponse = await axios.get(`/api/projects/${projectId}/analysis?view=${activeView}${languageQuery(language)}`);
       
       if (activeView === 'hierarchical') {
         setHierarchicalData(graphResponse.data);
@@ -105,6 +152,53 @@ export default function Home() {
     }
   };
   
+  // Analyze the project again with the picked sub-projects
+  const handleAnalyzeSubProjects = async (subProjectIds: string[]) => {
+    if (!selectedProject) return;
+    
+    setIsLoading(true);
+    try {
+      await axios.post(`/api/projects/${selectedProject}/analysis`, { subProjects: subProjectIds });
+      const result = await waitForAnalysis(selectedProject, setAnalysisProgress);
+      setAnalysisProgress(null);
+      if (result.status !== 'ready') {
+        setError(`Failed to analyze the selected sub-projects: ${result.errors.join('; ') || 'unknown error'}`);
+        setIsLoading(false);
+        return;
+      }
+      await handleSelectProject(selectedProject);
+    } catch (error) {
+      setAnalysisProgress(null);
+      console.error('Error analyzing sub-projects:', error);
+      setError('Failed to analyze the selected sub-projects. Please try again.');
+      setIsLoading(false);
+    }
+  };
+  
+  // Fetch the latest commits of a Git project's repository and analyze it again
+  const handleRefreshProject = async () => {
+    if (!selectedProject) return;
+    
+    setIsLoading(true);
+    setError(null);
+    try {
+      await axios.post(`/api/projects/${selectedProject}/refresh`);
+      const result = await waitForAnalysis(selectedProject, setAnalysisProgress);
+      setAnalysisProgress(null);
+      if (result.status !== 'ready') {
+        setError(`Failed to refresh the project: ${result.errors.join('; ') || 'unknown error'}`);
+        setIsLoading(false);
+        return;
+      }
+      await handleSelectProject(selectedProject);
+    } catch (error) {
+      setAnalysisProgress(null);
+      console.error('Error refreshing project:', error);
+      setError('Failed to refresh the project. Please try again.');
+      setIsLoading(false);
+    }
+  };
+  
   // Handle view mode change
   const handleViewChange = async (view: ViewMode) => {
     if (!selectedProject) return;
@@ -115,7 +209,7 @@ export default function Home() {
     setHierarchicalData(null);
     
     try {
-      const response = await axios.get(`/api/projects/${selectedProject}/analysis?view=${view}`);
+      const response = await axios.get(`/api/projects/${selectedProject}/analysis?view=${view}${languageQuery(currentLanguage)}`);
       
       if (view === 'hierarchical') {
         setHierarchicalData(response.data);
@@ -165,52 +259,37 @@ export default function Home() {
   // Toggle all node and edge types visible or hidden
   const handleToggleAll = (showAll: boolean) => {
     if (showAll) {
-      setVisibleNodeTypes(new Set([
-        'function', 'struct', 'enum', 'trait', 'impl', 'module', 'constant', 'macro', 'use'
-      ]));
-      setVisibleEdgeTypes(new Set([
-        'calls', 'implements', 'uses', 'contains', 'extends'
-      ]));
+      showAllTypes(currentLanguage);
     } else {
       setVisibleNodeTypes(new Set());
       setVisibleEdgeTypes(new Set());
     }
   };
   
+  // Query parameter selecting a language's graph; the combined view is the default
+  const languageQuery = (language: string) => language === ALL_LANGUAGES ? '' : `&language=${language}`;
+  
   // Handle language change
   const handleLanguageChange = async (language: string) => {
-    if (selectedProject && (language === 'rust' || language === 'python')) {
-      setCurrentLanguage(language as CodeLanguage);
+    if (selectedProject && availableLanguages.includes(language)) {
+      setCurrentLanguage(language);
       setIsLoading(true);
+      setGraphData(null);
+      setHierarchicalData(null);
+      setSelectedNode(null);
       
       try {
-        // Fetch data for the selected language
-        const response = await axios.get(`/api/projects?projectId=${selectedProject}&language=${language}`);
-        const data = response.data;
-        
-        setGraphData(data);
-        
-        // Convert to hierarchical data for tree view
-        const convertedData = convertToHierarchicalData(data);
-        setHierarchicalData(convertedData);
+        // Fetch data for the selected language and view
+        const response = await axios.get(`/api/projects/${selectedProject}/analysis?view=${activeView}${languageQuery(language)}`);
         
-        // Update visible node types based on language
-        if (language === 'python') {
-          setVisibleNodeTypes(new Set([
-            'function', 'class', 'method', 'module', 'import', 'variable', 'constant', 'decorator'
-          ]));
-          setVisibleEdgeTypes(new Set([
-            'calls', 'imports', 'inherits', 'contains', 'uses'
-          ]));
+        if (activeView === 'hierarchical') {
+          setHierarchicalData(response.data);
         } else {
-          // Default Rust node types
-          setVisibleNodeTypes(new Set([
-            'function', 'struct', 'enum', 'trait', 'impl', 'module', 'constant', 'macro', 'use'
-          ]));
-          setVisibleEdgeTypes(new Set([
-            'calls', 'implements', 'uses', 'contains', 'extends'
-          ]));
+          setGraphData(response.data);
         }
+        
+        // Update visible node types based on language
+        showAllTypes(language);
       } catch (error) {
         console.error(`Error fetching ${language} data:`, error);
         setError(`Failed to load ${language} visualization data.`);
@@ -220,80 +299,6 @@ export default function Home() {
     }
   };
   
-  // Helper function to convert graph data to hierarchical format
-  const convertToHierarchicalData = (data: GraphData): HierarchicalData => {
-    const moduleMap = new Map<string, TreeNode>();
-    
-    // Create a map of all modules/paths
-    for (const node of data.nodes) {
-      const path = node.path || '';
-      const parts = path.split('.');
-      
-      let currentPath = '';
-      for (let i = 0; i < parts.length; i++) {
-        const part = parts[i];
-        if (!part) continue;
-        
-        currentPath = currentPath ? `${currentPath}.${part}` : part;
-        
-        if (!moduleMap.has(currentPath)) {
-          moduleMap.set(currentPath, {
-            id: `module:${currentPath}`,
-            name: part,
-            type: 'module',
-            path: currentPath,
-            children: []
-          });
-        }
-      }
-    }
-    
-    // Build module hierarchy
-    const rootModules: TreeNode[] = [];
-    
-    moduleMap.forEach((module, modulePath) => {
-      const lastDotIndex = modulePath.lastIndexOf('.');
-      
-      if (lastDotIndex === -1) {
-        // This is a root module
-        rootModules.push(module);
-      } else {
-        // This is a child module
-        const parentPath = modulePath.substring(0, lastDotIndex);
-        const parentModule = moduleMap.get(parentPath);
-        
-        if (parentModule) {
-          parentModule.children.push(module);
-        }
-      }
-    });
-    
-    // Add nodes to their respective modules
-    for (const node of data.nodes) {
-      if (node.type === 'module') continue;
-      
-      const path = node.path || '';
-      const moduleNode = moduleMap.get(path);
-      
-      if (moduleNode) {
-        moduleNode.children.push({
-          id: node.id,
-          name: node.name,
-          type: node.type,
-          path: node.path,
-          file: node.file,
-          signature: node.signature,
-          children: []
-        });
-      }
-    }
-    
-    return {
-      name: projectName || 'Project',
-      children: rootModules
-    };
-  };
-  
   // Type guard to check if a node is a TreeNode
   const isTreeNode = (node: unknown): node is TreeNode => {
     return node !== null && typeof node === 'object' && 'children' in node;
@@ -325,6 +330,13 @@ export default function Home() {
       file: nodeObj.file as string,
       signature: nodeObj.signature as string,
       visibility: nodeObj.visibility as 'public' | 'private' | 'crate' | 'super' | 'in' | undefined,
+      reachable: nodeObj.reachable as boolean | undefined,
+      // Picks the language profile of the node in a project-wide graph
+      language: nodeObj.language as string | undefined,
+      docstring: nodeObj.docstring as string | undefined,
+      decorators: nodeObj.decorators as string[] | undefined,
+      description: nodeObj.description as string | undefined,
+      attributes: nodeObj.attributes as string[] | undefined,
       children: []
     };
   };
@@ -341,15 +353,35 @@ export default function Home() {
                 {projectName}
               </div>
             )}
+            {selectedProject && gitCheckout && (
+              <div
+                className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm font-mono"
+                title={`${gitCheckout.url} at ${gitCheckout.commit}`}
+              >
+                {gitCheckout.branch || gitCheckout.ref || 'detached'} @ {gitCheckout.commit.slice(0, 7)}
+              </div>
+            )}
           </div>
           
           {selectedProject && (
-            <button
-              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
-              onClick={() => setSelectedProject(null)}
-            >
-              ← Back to Projects
-            </button>
+            <div className="flex items-center space-x-2">
+              {isGitProject && (
+                <button
+                  className="px-4 py-2 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  onClick={handleRefreshProject}
+                  disabled={isLoading}
+                  title="Fetch the latest commits and analyze the project again"
+                >
+                  ↻ Refresh
+                </button>
+              )}
+              <button
+                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+                onClick={() => setSelectedProject(null)}
+              >
+                ← Back to Projects
+              </button>
+            </div>
           )}
         </div>
       </header>
@@ -360,10 +392,13 @@ export default function Home() {
           // Project Selection Screen
           <div className="w-full p-8 flex flex-col items-center">
             <div className="w-full max-w-4xl">
-              <ProjectUploader onUploadComplete={handleUploadComplete} />
+              <ProjectUploader
+                onUploadComplete={handleUploadComplete}
+                onUploaded={() => setProjectListKey(key => key + 1)}
+              />
               
               <div className="mt-12">
-                <ProjectSelector onSelectProject={handleSelectProject} />
+                <ProjectSelector onSelectProject={handleSelectProject} refreshKey={projectListKey} />
               </div>
             </div>
           </div>
@@ -420,12 +455,26 @@ export default function Home() {
                 </button>
               </nav>
               
+              {/* Sub-project Picker */}
+              {selectedProject && manifest && manifest.subProjects.length > 1 && (
+                <div className="border-t border-gray-300 my-4 pt-4">
+                  <SubProjectPicker
+                    manifest={manifest}
+                    languageLabels={languageLabels}
+                    onAnalyze={handleAnalyzeSubProjects}
+                  />
+                </div>
+              )}
+              
               {/* Language Selector */}
               {selectedProject && availableLanguages.length > 1 && (
                 <div className="border-t border-gray-300 my-4 pt-4">
                   <LanguageSelector
                     currentLanguage={currentLanguage}
-                    availableLanguages={availableLanguages}
+                    availableLanguages={availableLanguages.map(language => ({
+                      id: language,
+                      label: getProfile(language)?.label || language
+                    }))}
                     onLanguageChange={handleLanguageChange}
                   />
                 </div>
@@ -438,9 +487,23 @@ export default function Home() {
                   onNodeTypeToggle={handleNodeTypeToggle}
                   onEdgeTypeToggle={handleEdgeTypeToggle}
                   onToggleAll={handleToggleAll}
-                  language={currentLanguage}
+                  nodeTypes={currentProfile?.nodeTypes || []}
+                  edgeTypes={currentProfile?.edgeTypes || []}
+                  publicApiFilter={currentProfile?.publicApiFilter}
+                  publicApiOnly={publicApiOnly}
+                  onPublicApiToggle={() => setPublicApiOnly(!publicApiOnly)}
                 />
               </div>
+              
+              {/* Effective .viscode.json settings */}
+              {selectedProject && projectConfig && (
+                <div className="border-t border-gray-300 my-4 pt-4">
+                  <ProjectConfigPanel
+                    config={projectConfig}
+                    languageLabels={languageLabels}
+                  />
+                </div>
+              )}
             </div>
             
             {/* Main Visualization Area */}
@@ -449,7 +512,9 @@ export default function Home() {
                 <div className="absolute inset-0 flex items-center justify-center bg-white bg-opacity-80 z-10">
                   <div className="text-center">
                     <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-gray-800"></div>
-                    <p className="mt-4 text-gray-600">Loading visualization...</p>
+                    <p className="mt-4 text-gray-600">
+                      {analysisProgress ? `${describeProgress(analysisProgress, languageLabels)}...` : 'Loading visualization...'}
+                    </p>
                   </div>
                 </div>
               )}
@@ -476,6 +541,7 @@ export default function Home() {
                       data={hierarchicalData} 
                       onNodeClick={handleNodeClick} 
                       visibleNodeTypes={visibleNodeTypes}
+                      publicApiOnly={!!currentProfile?.publicApiFilter && publicApiOnly}
                     />
                   ) : graphData ? (
                     <ForceGraph3D 
@@ -483,6 +549,7 @@ export default function Home() {
                       onNodeClick={handleNodeClick} 
                       visibleNodeTypes={visibleNodeTypes}
                       visibleEdgeTypes={visibleEdgeTypes}
+                      publicApiOnly={!!currentProfile?.publicApiFilter && publicApiOnly}
                     />
                   ) : (
                     <div className="h-full flex items-center justify-center">
@@ -498,6 +565,7 @@ export default function Home() {
                   <NodeInfoPanel 
                     node={selectedNode} 
                     onClose={() => setSelectedNode(null)} 
+                    profile={languageProfiles[selectedNode.language || currentLanguage]}
                   />
                 </div>
               )}
@@ -29,19 +29,34 @@ interface ForceGraph3DProps {
   onNodeClick?: (node: GraphNode) => void;
   visibleNodeTypes?: Set<string>;
   visibleEdgeTypes?: Set<string>;
+  // Show only items reachable from a crate root, i.e. the crate's public API
+  publicApiOnly?: boolean;
 }
 
 const ForceGraph3DComponent: React.FC<ForceGraph3DProps> = ({ 
   data, 
   onNodeClick,
   visibleNodeTypes = new Set(data.nodes.map(node => node.type)),
-  visibleEdgeTypes = new Set(data.links.map(link => link.type || ''))
+  visibleEdgeTypes = new Set(data.links.map(link => link.type || '')),
+  publicApiOnly = false
 }) => {
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   
   // Filter data based on visible types
   const filteredData = useMemo(() => {
-    const visibleNodes = data.nodes.filter(node => visibleNodeTypes.has(node.type));
+    // Nodes outside the project, such as derived std traits, carry no reachability
+    // and are kept only when linked to a reachable node
+    const apiNodeIds = new Set(data.nodes.filter(node => node.reachable).map(node => node.id));
+    const linkedToApi = new Set(data.links.flatMap(link => {
+      const sourceId = typeof link.source === 'string' ? link.source : (link.source as any)?.id || '';
+      const targetId = typeof link.target === 'string' ? link.target : (link.target as any)?.id || '';
+      return apiNodeIds.has(sourceId) ? [targetId] : apiNodeIds.has(targetId) ? [sourceId] : [];
+    }));
+    const isInApi = (node: GraphData['nodes'][number]) => node.reachable === undefined
+      ? linkedToApi.has(node.id)
+      : node.reachable;
+    
+    const visibleNodes = data.nodes.filter(node => visibleNodeTypes.has(node.type) && (!publicApiOnly || isInApi(node)));
     const visibleNodeIds = new Set(visibleNodes.map(node => node.id));
     
     // Only include links where both source and target nodes are visible and link type is visible
@@ -61,7 +76,7 @@ const ForceGraph3DComponent: React.FC<ForceGraph3DProps> = ({
       nodes: visibleNodes,
       links: visibleLinks
     };
-  }, [data, visibleNodeTypes, visibleEdgeTypes]);
+  }, [data, visibleNodeTypes, visibleEdgeTypes, publicApiOnly]);
   
   useEffect(() => {
     // Initialize graph with current window dimensions
@@ -8,12 +8,15 @@ interface HierarchicalViewProps {
   data: HierarchicalData;
   onNodeClick?: (node: TreeNode) => void;
   visibleNodeTypes?: Set<string>;
+  // Show only items reachable from a crate root, i.e. the crate's public API
+  publicApiOnly?: boolean;
 }
 
 const HierarchicalView: React.FC<HierarchicalViewProps> = ({ 
   data, 
   onNodeClick,
-  visibleNodeTypes = new Set()  // Default to all types visible if not specified
+  visibleNodeTypes = new Set(),  // Default to all types visible if not specified
+  publicApiOnly = false
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [containerHeight, setContainerHeight] = useState(800); // Default height
@@ -37,14 +40,25 @@ const HierarchicalView: React.FC<HierarchicalViewProps> = ({
   // Node colors based on type
   const nodeColors: Record<string, string> = {
     function: '#4285F4',  // Blue
+    method: '#03A9F4',    // Light Blue
     struct: '#EA4335',    // Red
+    class: '#EA4335',     // Red
     enum: '#FBBC05',      // Yellow
+    record: '#E91E63',    // Pink
+    union: '#9C27B0',     // Purple
     trait: '#34A853',     // Green
+    interface: '#34A853', // Green
     impl: '#9C27B0',      // Purple
     module: '#FF9800',    // Orange
+    package: '#E65100',   // Dark Orange
+    namespace: '#3F51B5', // Indigo
+    file: '#FFC107',      // Amber
+    crate: '#00897B',     // Teal
     constant: '#795548',  // Brown
+    field: '#795548',     // Brown
+    type: '#8BC34A',      // Light Green
     macro: '#607D8B',     // Grey-Blue
-    use: '#9E9E9E',       // Grey
+    external: '#BDBDBD',  // Light Grey
     root: '#000000'       // Black
   };
   
@@ -73,10 +87,11 @@ const HierarchicalView: React.FC<HierarchicalViewProps> = ({
     
     // Filter function that preserves structure but removes non-visible node types
     const filterNode = (node: TreeNode): TreeNode | null => {
-      // Always keep module nodes to maintain structure
-      const isVisible = node.type === 'module' || visibleNodeTypes.has(node.type);
+      // Always keep crate, module, package, file and namespace nodes to maintain structure
+      const isContainer = ['module', 'package', 'crate', 'file', 'namespace'].includes(node.type);
+      const isVisible = isContainer || visibleNodeTypes.has(node.type);
       
-      if (!isVisible && node.type !== 'module') {
+      if (!isVisible || (publicApiOnly && !isContainer && !node.reachable)) {
         return null;
       }
       
@@ -85,8 +100,13 @@ const HierarchicalView: React.FC<HierarchicalViewProps> = ({
         .map(filterNode)
         .filter((n): n is TreeNode => n !== null);
       
-      // If not a module and all children were filtered out, don't render this node
-      if (node.type !== 'module' && filteredChildren.length === 0 && node.children.length > 0) {
+      // Private modules stay only for the items they re-export
+      if (publicApiOnly && isContainer && !node.reachable && filteredChildren.length === 0) {
+        return null;
+      }
+      
+      // If not a container and all children were filtered out, don't render this node
+      if (!isContainer && filteredChildren.length === 0 && node.children.length > 0) {
         return null;
       }
       
@@ -106,7 +126,7 @@ const HierarchicalView: React.FC<HierarchicalViewProps> = ({
       name: data.name,
       children: filteredChildren
     };
-  }, [data, visibleNodeTypes]);
+  }, [data, visibleNodeTypes, publicApiOnly]);
   
   // Extend the d3 HierarchyNode interface to include collapse functionality
   interface CollapsibleNode extends d3.HierarchyNode<TreeNode> {
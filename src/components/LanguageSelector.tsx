@@ -2,9 +2,14 @@
 
 import React from 'react';
 
+type LanguageOption = {
+  id: string;
+  label: string;
+};
+
 type LanguageSelectorProps = {
   currentLanguage: string;
-  availableLanguages: string[];
+  availableLanguages: LanguageOption[];
   onLanguageChange: (language: string) => void;
 };
 
@@ -23,15 +28,15 @@ export default function LanguageSelector({
       <div className="flex border rounded-md overflow-hidden">
         {availableLanguages.map((lang) => (
           <button
-            key={lang}
-            onClick={() => onLanguageChange(lang)}
+            key={lang.id}
+            onClick={() => onLanguageChange(lang.id)}
             className={`px-3 py-1 text-sm ${
-              currentLanguage === lang
+              currentLanguage === lang.id
                 ? 'bg-blue-500 text-white'
                 : 'bg-white text-gray-700 hover:bg-gray-100'
             }`}
           >
-            {lang.charAt(0).toUpperCase() + lang.slice(1)}
+            {lang.label}
           </button>
         ))}
       </div>
@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { TreeNode } from '@/types/common-types';
+import { InfoPanelSection, LanguageProfile } from '@/types/analyzer-types';
 
 interface GraphNode {
   id: string;
@@ -14,6 +15,8 @@ interface GraphNode {
   language?: string;
   docstring?: string;
   decorators?: string[];
+  description?: string;
+  attributes?: string[];
   children?: never;
   [key: string]: unknown;
 }
@@ -23,232 +26,192 @@ type NodeType = TreeNode | GraphNode;
 interface NodeInfoPanelProps {
   node: NodeType;
   onClose: () => void;
+  // Language of the node, for its colors and info panel layout
+  profile?: LanguageProfile;
 }
 
+// Info panel sections of the node types shared between languages
+const DEFAULT_SECTIONS: Record<string, InfoPanelSection[]> = {
+  function: ['signature', 'path', 'file'],
+  struct: ['definition', 'path', 'visibility', 'file'],
+  enum: ['definition', 'path', 'visibility', 'file'],
+  interface: ['definition', 'path', 'visibility', 'file'],
+  type: ['definition', 'path', 'visibility', 'file'],
+  module: ['path', 'children', 'file'],
+  package: ['path', 'children', 'file'],
+  trait: ['definition', 'path', 'file'],
+  impl: ['definition', 'path', 'file'],
+  class: ['signature', 'path', 'docstring'],
+  method: ['signature', 'class', 'docstring'],
+  import: ['module', 'fileName']
+};
+
+// Sections of node types without a layout
+const FALLBACK_SECTIONS: InfoPanelSection[] = ['name', 'type', 'path'];
+
 // Type guard to check if node is a TreeNode
 const isTreeNode = (node: NodeType): node is TreeNode => {
   return node !== null && typeof node === 'object' && 'children' in node && Array.isArray((node as any).children);
 };
 
-const NodeInfoPanel: React.FC<NodeInfoPanelProps> = ({ node, onClose }) => {
+const NodeInfoPanel: React.FC<NodeInfoPanelProps> = ({ node, onClose, profile }) => {
   if (!node) return null;
   
-  // Generate type-specific content
-  const renderNodeDetails = () => {
-    switch (node.type) {
-      case 'function':
+  // Color from the language's palette, falling back to the shared one
+  const colorForType = (type: string): string =>
+    profile?.nodeTypes.find(nodeType => nodeType.id === type)?.color || getColorForType(type);
+  
+  // Render one section of the details
+  const renderSection = (section: InfoPanelSection) => {
+    switch (section) {
+      case 'signature':
+      case 'definition':
         return (
-          <>
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Signature</h3>
-              <pre className="mt-1 text-sm bg-gray-100 p-2 rounded overflow-x-auto">
-                {node.signature || 'No signature available'}
-              </pre>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Path</h3>
-              <p className="mt-1 text-sm">{node.path || 'Root'}</p>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">File</h3>
-              <p className="mt-1 text-sm truncate" title={node.file}>
-                {node.file ? node.file.split('/').pop() : 'Unknown'}
-              </p>
-              <p className="text-xs text-gray-500 truncate">{node.file}</p>
-            </div>
-          </>
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">{section === 'signature' ? 'Signature' : 'Definition'}</h3>
+            <pre className="mt-1 text-sm bg-gray-100 p-2 rounded overflow-x-auto">
+              {node.signature || `No ${section} available`}
+            </pre>
+          </div>
         );
         
-      case 'struct':
-      case 'enum':
+      case 'path':
         return (
-          <>
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Definition</h3>
-              <pre className="mt-1 text-sm bg-gray-100 p-2 rounded overflow-x-auto">
-                {node.signature || 'No definition available'}
-              </pre>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Path</h3>
-              <p className="mt-1 text-sm">{node.path || 'Root'}</p>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Visibility</h3>
-              <span className={`mt-1 inline-block px-2 py-1 text-xs rounded ${
-                node.visibility === 'public' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-              }`}>
-                {node.visibility || 'private'}
-              </span>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">File</h3>
-              <p className="mt-1 text-sm truncate" title={node.file}>
-                {node.file ? node.file.split('/').pop() : 'Unknown'}
-              </p>
-              <p className="text-xs text-gray-500 truncate">{node.file}</p>
-            </div>
-          </>
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">Path</h3>
+            <p className="mt-1 text-sm">{node.path || 'Root'}</p>
+          </div>
+        );
+        
+      case 'class':
+        return (
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">Class</h3>
+            <p className="mt-1 text-sm">{(node.path || '').split('.').pop() || 'Unknown'}</p>
+          </div>
         );
         
       case 'module':
         return (
-          <>
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Path</h3>
-              <p className="mt-1 text-sm">{node.path || 'Root'}</p>
-            </div>
-            
-            {node.children && (
-              <div className="mb-4">
-                <h3 className="font-semibold text-gray-700">Contains</h3>
-                <p className="mt-1 text-sm">{node.children.length} elements</p>
-                
-                <div className="mt-2 max-h-40 overflow-y-auto">
-                  <ul className="text-xs space-y-1">
-                    {node.children.map((child: any, index: number) => (
-                      <li key={index} className="truncate">
-                        <span className={`inline-block w-2 h-2 rounded-full mr-1`} style={{ 
-                          backgroundColor: getColorForType(child.type)
-                        }}></span>
-                        <span className="text-gray-500">{child.type}:</span> {child.name}
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-              </div>
-            )}
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">File</h3>
-              <p className="mt-1 text-sm truncate" title={node.file}>
-                {node.file ? node.file.split('/').pop() : 'Unknown'}
-              </p>
-              <p className="text-xs text-gray-500 truncate">{node.file}</p>
-            </div>
-          </>
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">Module</h3>
+            <p className="mt-1 text-sm">{node.path || 'Unknown'}</p>
+          </div>
         );
         
-      case 'trait':
-      case 'impl':
+      case 'visibility':
         return (
-          <>
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Definition</h3>
-              <pre className="mt-1 text-sm bg-gray-100 p-2 rounded overflow-x-auto">
-                {node.signature || 'No definition available'}
-              </pre>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Path</h3>
-              <p className="mt-1 text-sm">{node.path || 'Root'}</p>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">File</h3>
-              <p className="mt-1 text-sm truncate" title={node.file}>
-                {node.file ? node.file.split('/').pop() : 'Unknown'}
-              </p>
-              <p className="text-xs text-gray-500 truncate">{node.file}</p>
-            </div>
-          </>
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">Visibility</h3>
+            <span className={`mt-1 inline-block px-2 py-1 text-xs rounded ${
+              node.visibility === 'public' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+            }`}>
+              {node.visibility || 'private'}
+            </span>
+          </div>
         );
         
-      case 'class':
+      case 'file':
         return (
-          <>
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Signature</h3>
-              <pre className="mt-1 text-sm bg-gray-100 p-2 rounded overflow-x-auto">
-                {node.signature || 'No signature available'}
-              </pre>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Path</h3>
-              <p className="mt-1 text-sm">{node.path || 'Root'}</p>
-            </div>
-            
-            {node.docstring && (
-              <div className="mb-4">
-                <h3 className="font-semibold text-gray-700">Docstring</h3>
-                <pre className="mt-1 text-sm bg-gray-100 p-2 rounded overflow-x-auto whitespace-pre-wrap">
-                  {node.docstring}
-                </pre>
-              </div>
-            )}
-          </>
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">File</h3>
+            <p className="mt-1 text-sm truncate" title={node.file}>
+              {node.file ? node.file.split('/').pop() : 'Unknown'}
+            </p>
+            <p className="text-xs text-gray-500 truncate">{node.file}</p>
+          </div>
         );
         
-      case 'method':
+      case 'fileName':
         return (
-          <>
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Signature</h3>
-              <pre className="mt-1 text-sm bg-gray-100 p-2 rounded overflow-x-auto">
-                {node.signature || 'No signature available'}
-              </pre>
-            </div>
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">File</h3>
+            <p className="mt-1 text-sm">{node.file?.split('/').pop() || 'Unknown'}</p>
+          </div>
+        );
+        
+      case 'children':
+        return node.children && (
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">Contains</h3>
+            <p className="mt-1 text-sm">{node.children.length} elements</p>
             
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Class</h3>
-              <p className="mt-1 text-sm">{(node.path || '').split('.').pop() || 'Unknown'}</p>
+            <div className="mt-2 max-h-40 overflow-y-auto">
+              <ul className="text-xs space-y-1">
+                {node.children.map((child: any, index: number) => (
+                  <li key={index} className="truncate">
+                    <span className={`inline-block w-2 h-2 rounded-full mr-1`} style={{ 
+                      backgroundColor: colorForType(child.type)
+                    }}></span>
+                    <span className="text-gray-500">{child.type}:</span> {child.name}
+                  </li>
+                ))}
+              </ul>
             </div>
-            
-            {node.docstring && (
-              <div className="mb-4">
-                <h3 className="font-semibold text-gray-700">Docstring</h3>
-                <pre className="mt-1 text-sm bg-gray-100 p-2 rounded overflow-x-auto whitespace-pre-wrap">
-                  {node.docstring}
-                </pre>
-              </div>
-            )}
-          </>
+          </div>
         );
-      
-      case 'import':
+        
+      case 'docstring':
+        return node.docstring && (
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">Docstring</h3>
+            <pre className="mt-1 text-sm bg-gray-100 p-2 rounded overflow-x-auto whitespace-pre-wrap">
+              {node.docstring}
+            </pre>
+          </div>
+        );
+        
+      case 'name':
         return (
-          <>
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Module</h3>
-              <p className="mt-1 text-sm">{node.path || 'Unknown'}</p>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">File</h3>
-              <p className="mt-1 text-sm">{node.file?.split('/').pop() || 'Unknown'}</p>
-            </div>
-          </>
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">Name</h3>
+            <p className="mt-1 text-sm">{node.name}</p>
+          </div>
         );
         
-      default:
+      case 'type':
         return (
-          <>
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Name</h3>
-              <p className="mt-1 text-sm">{node.name}</p>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Type</h3>
-              <p className="mt-1 text-sm">{node.type}</p>
-            </div>
-            
-            <div className="mb-4">
-              <h3 className="font-semibold text-gray-700">Path</h3>
-              <p className="mt-1 text-sm">{node.path || 'Root'}</p>
-            </div>
-          </>
+          <div key={section} className="mb-4">
+            <h3 className="font-semibold text-gray-700">Type</h3>
+            <p className="mt-1 text-sm">{node.type}</p>
+          </div>
         );
     }
   };
   
+  // Generate type-specific content, laid out by the language where it has its own node types
+  const renderNodeDetails = () => {
+    const sections = profile?.infoPanel?.[node.type] || DEFAULT_SECTIONS[node.type] || FALLBACK_SECTIONS;
+    return <>{sections.map(renderSection)}</>;
+  };
+  
+  // Rust doc comments and attributes, shown below the details of any item
+  const renderDocumentation = () => (
+    <>
+      {node.description && (
+        <div className="mb-4">
+          <h3 className="font-semibold text-gray-700">Documentation</h3>
+          <pre className="mt-1 text-sm bg-gray-100 p-2 rounded overflow-x-auto whitespace-pre-wrap">
+            {node.description}
+          </pre>
+        </div>
+      )}
+      
+      {node.attributes && node.attributes.length > 0 && (
+        <div className="mb-4">
+          <h3 className="font-semibold text-gray-700">Attributes</h3>
+          <ul className="mt-1 text-xs space-y-1">
+            {node.attributes.map((attribute, index) => (
+              <li key={index}>
+                <code className="bg-gray-100 px-1 rounded">{attribute}</code>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+  
   // Function to safely get the filename from a file path
   const getFileName = (filePath?: string): string => {
     if (!filePath) return 'Unknown';
@@ -288,7 +251,7 @@ const NodeInfoPanel: React.FC<NodeInfoPanelProps> = ({ node, onClose }) => {
       <div className="flex justify-between items-center mb-4">
         <div className="flex items-center">
           <div className="w-3 h-3 rounded-full mr-2" style={{ 
-            backgroundColor: getColorForType(node.type)
+            backgroundColor: colorForType(node.type)
           }}></div>
           
           <h2 className="text-lg font-bold">{node.name}</h2>
@@ -312,6 +275,8 @@ const NodeInfoPanel: React.FC<NodeInfoPanelProps> = ({ node, onClose }) => {
       </div>
       
       {renderNodeDetails()}
+      
+      {renderDocumentation()}
     </div>
   );
 };
@@ -320,14 +285,24 @@ const NodeInfoPanel: React.FC<NodeInfoPanelProps> = ({ node, onClose }) => {
 function getColorForType(type: string): string {
   const colors: Record<string, string> = {
     function: '#4285F4',  // Blue
+    method: '#03A9F4',    // Light Blue
     struct: '#EA4335',    // Red
+    class: '#EA4335',     // Red
     enum: '#FBBC05',      // Yellow
+    record: '#E91E63',    // Pink
+    union: '#9C27B0',     // Purple
     trait: '#34A853',     // Green
+    interface: '#34A853', // Green
     impl: '#9C27B0',      // Purple
     module: '#FF9800',    // Orange
+    package: '#E65100',   // Dark Orange
+    namespace: '#3F51B5', // Indigo
+    file: '#FFC107',      // Amber
     constant: '#795548',  // Brown
+    field: '#795548',     // Brown
+    type: '#8BC34A',      // Light Green
     macro: '#607D8B',     // Grey-Blue
-    use: '#9E9E9E',       // Grey
+    external: '#BDBDBD',  // Light Grey
   };
   
   return colors[type] || '#9E9E9E';
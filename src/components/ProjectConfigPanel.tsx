@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+import { ProjectConfig } from '@/types/analyzer-types';
+
+interface ProjectConfigPanelProps {
+  config: ProjectConfig;
+  // Display name of each language by ID
+  languageLabels: Record<string, string>;
+}
+
+// Format a size in bytes, e.g. `1 MiB`
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) {
+    return `${+(bytes / (1024 * 1024)).toFixed(1)} MiB`;
+  }
+  if (bytes >= 1024) {
+    return `${+(bytes / 1024).toFixed(1)} KiB`;
+  }
+  return `${bytes} B`;
+};
+
+const PatternList: React.FC<{ patterns: string[]; empty: string }> = ({ patterns, empty }) => (
+  patterns.length === 0
+    ? <span className="text-gray-500">{empty}</span>
+    : <span className="font-mono break-all">{patterns.join(', ')}</span>
+);
+
+// The settings the project was analyzed with, from its .viscode.json or the defaults
+const ProjectConfigPanel: React.FC<ProjectConfigPanelProps> = ({ config, languageLabels }) => {
+  const overrides = Object.entries(config.languages);
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold mb-2">Analysis Config</h2>
+      <p className="text-xs text-gray-500 mb-2">
+        {config.file ? `From ${config.file}` : 'Defaults (no .viscode.json)'}
+      </p>
+      <dl className="space-y-1 text-xs">
+        <div>
+          <dt className="inline font-medium">Include: </dt>
+          <dd className="inline"><PatternList patterns={config.include} empty="all files" /></dd>
+        </div>
+        <div>
+          <dt className="inline font-medium">Exclude: </dt>
+          <dd className="inline"><PatternList patterns={config.exclude} empty="none" /></dd>
+        </div>
+        <div>
+          <dt className="inline font-medium">.gitignore: </dt>
+          <dd className="inline">{config.gitignore ? 'honored' : 'ignored'}</dd>
+        </div>
+        <div>
+          <dt className="inline font-medium">Test files: </dt>
+          <dd className="inline" title={config.testPatterns.join(', ')}>
+            {config.tests === 'exclude' ? 'excluded' : 'included'}
+          </dd>
+        </div>
+        <div>
+          <dt className="inline font-medium">Max file size: </dt>
+          <dd className="inline">{formatSize(config.maxFileSize)}</dd>
+        </div>
+        {overrides.length > 0 && (
+          <div>
+            <dt className="inline font-medium">Languages: </dt>
+            <dd className="inline">
+              {overrides
+                .map(([language, enabled]) => `${languageLabels[language] || language} ${enabled ? 'on' : 'off'}`)
+                .join(', ')}
+            </dd>
+          </div>
+        )}
+      </dl>
+    </div>
+  );
+};
+
+export default ProjectConfigPanel;
@@ -2,35 +2,45 @@
 
 import React, { useEffect, useState } from 'react';
 import axios from 'axios';
-import { UploadedProject } from '@/types/rust-types';
+import { UploadedProject } from '@/types/common-types';
+import { STATUS_POLL_INTERVAL_MS, describeProgress } from '@/lib/analysis-status';
 
 interface ProjectSelectorProps {
   onSelectProject: (projectId: string) => void;
+  // Changes when a project was added, to load the list again
+  refreshKey?: number;
 }
 
-const ProjectSelector: React.FC<ProjectSelectorProps> = ({ onSelectProject }) => {
+const ProjectSelector: React.FC<ProjectSelectorProps> = ({ onSelectProject, refreshKey }) => {
   const [projects, setProjects] = useState<UploadedProject[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
   // Load the list of available projects
+  const fetchProjects = async () => {
+    try {
+      const response = await axios.get('/api/projects');
+      setProjects(response.data.projects || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching projects:', err);
+      setError('Failed to load projects. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
   useEffect(() => {
-    const fetchProjects = async () => {
-      try {
-        setLoading(true);
-        const response = await axios.get('/api/projects');
-        setProjects(response.data.projects || []);
-        setError(null);
-      } catch (err) {
-        console.error('Error fetching projects:', err);
-        setError('Failed to load projects. Please try again.');
-      } finally {
-        setLoading(false);
-      }
-    };
-    
     fetchProjects();
-  }, []);
+  }, [refreshKey]);
+  
+  // Keep the list live while projects are analyzed
+  useEffect(() => {
+    if (!projects.some(project => project.status === 'analyzing')) return;
+    
+    const timeout = setTimeout(fetchProjects, STATUS_POLL_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [projects]);
   
   // Format the timestamp to a readable date
   const formatDate = (dateStr: string) => {
@@ -43,9 +53,31 @@ const ProjectSelector: React.FC<ProjectSelectorProps> = ({ onSelectProject }) =>
     });
   };
   
-  // Handle project selection
-  const handleProjectSelect = (projectId: string) => {
-    onSelectProject(projectId);
+  // Handle project selection; projects can be visualized once their analysis succeeded,
+  // and after a failed one when the graph of an earlier analysis is still there
+  const canVisualize = (project: UploadedProject) =>
+    project.status === 'ready' || (project.status === 'error' && !!project.hasGraph);
+  
+  const handleProjectSelect = (project: UploadedProject) => {
+    if (canVisualize(project)) {
+      onSelectProject(project.id);
+    }
+  };
+  
+  // Run a failed analysis again: cloned projects fetch their repository again,
+  // others re-analyze their selected sub-projects
+  const handleRetry = async (project: UploadedProject, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      if (project.git) {
+        await axios.post(`/api/projects/${project.id}/refresh`);
+      } else {
+        await axios.post(`/api/projects/${project.id}/analysis`, {});
+      }
+    } catch (err) {
+      console.error('Error retrying analysis:', err);
+    }
+    await fetchProjects();
   };
   
   if (loading) {
@@ -89,8 +121,10 @@ const ProjectSelector: React.FC<ProjectSelectorProps> = ({ onSelectProject }) =>
         {projects.map((project) => (
           <div
             key={project.id}
-            className="border rounded-lg overflow-hidden hover:shadow-md transition cursor-pointer"
-            onClick={() => handleProjectSelect(project.id)}
+            className={`border rounded-lg overflow-hidden transition ${
+              canVisualize(project) ? 'hover:shadow-md cursor-pointer' : 'opacity-75 cursor-default'
+            }`}
+            onClick={() => handleProjectSelect(project)}
           >
             <div className="p-4">
               <div className="flex items-center">
@@ -111,6 +145,11 @@ const ProjectSelector: React.FC<ProjectSelectorProps> = ({ onSelectProject }) =>
                   <p className="text-sm text-gray-500">
                     {project.type === 'git' ? 'Git Repository' : 'Uploaded Project'}
                   </p>
+                  {project.git && (
+                    <p className="text-xs text-gray-500 font-mono">
+                      {project.git.branch || project.git.ref || 'detached'} @ {project.git.commit.slice(0, 7)}
+                    </p>
+                  )}
                 </div>
               </div>
               
@@ -120,9 +159,32 @@ const ProjectSelector: React.FC<ProjectSelectorProps> = ({ onSelectProject }) =>
             </div>
             
             <div className="bg-gray-50 px-4 py-2 border-t">
-              <button className="text-sm text-blue-600 hover:text-blue-800">
-                Visualize
-              </button>
+              {project.status === 'analyzing' && (
+                <p className="text-sm text-gray-600 flex items-center">
+                  <span className="inline-block animate-spin rounded-full h-3 w-3 border-b-2 border-gray-600 mr-2"></span>
+                  {project.progress ? describeProgress(project.progress) : 'Analyzing'}...
+                </p>
+              )}
+              {project.status === 'error' && (
+                <div className="flex items-center justify-between space-x-2">
+                  <p className="text-sm text-red-600 truncate" title={project.progress?.errors.join('\n')}>
+                    Analysis failed{project.progress?.errors.length ? `: ${project.progress.errors[0]}` : ''}
+                  </p>
+                  {(project.type !== 'git' || project.git) && (
+                    <button
+                      className="text-sm text-blue-600 hover:text-blue-800 shrink-0"
+                      onClick={(e) => handleRetry(project, e)}
+                    >
+                      Retry
+                    </button>
+                  )}
+                </div>
+              )}
+              {project.status === 'ready' && (
+                <button className="text-sm text-blue-600 hover:text-blue-800">
+                  Visualize
+                </button>
+              )}
             </div>
           </div>
         ))}
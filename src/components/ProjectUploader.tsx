@@ -3,15 +3,29 @@
 import React, { useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import axios from 'axios';
+import { AnalysisProgress } from '@/types/common-types';
+import { describeProgress, waitForAnalysis } from '@/lib/analysis-status';
 
 type UploadMethod = 'file' | 'git';
 
-export default function ProjectUploader({ onUploadComplete }: { onUploadComplete: (projectId: string) => void }) {
+// Share of the source files parsed so far, as a percentage
+const analysisPercent = (analysis: AnalysisProgress): number =>
+  analysis.totalFiles ? Math.min(100, Math.round((analysis.filesParsed * 100) / analysis.totalFiles)) : 0;
+
+// `onUploaded` is told as soon as the project exists, before its analysis is done
+export default function ProjectUploader({ onUploadComplete, onUploaded }: {
+  onUploadComplete: (projectId: string) => void;
+  onUploaded?: (projectId: string) => void;
+}) {
   const [uploadMethod, setUploadMethod] = useState<UploadMethod>('file');
   const [gitUrl, setGitUrl] = useState('');
+  // Branch, tag or commit to check out, by default the repository's default branch
+  const [gitRef, setGitRef] = useState('');
   const [isUploading, setIsUploading] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
   const [progress, setProgress] = useState(0);
+  // Progress of the analysis once the upload is done
+  const [analysis, setAnalysis] = useState<AnalysisProgress | null>(null);
   
   // Handle file drop for zip uploads
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -46,6 +60,7 @@ export default function ProjectUploader({ onUploadComplete }: { onUploadComplete
     setIsUploading(true);
     setErrorMessage('');
     setProgress(0);
+    setAnalysis(null);
     
     try {
       const formData = new FormData();
@@ -55,6 +70,9 @@ export default function ProjectUploader({ onUploadComplete }: { onUploadComplete
         formData.append('file', file);
       } else if (uploadMethod === 'git') {
         formData.append('gitUrl', gitUrl);
+        if (gitRef.trim()) {
+          formData.append('gitRef', gitRef.trim());
+        }
       }
       
       const response = await axios.post('/api/projects', formData, {
@@ -70,7 +88,14 @@ export default function ProjectUploader({ onUploadComplete }: { onUploadComplete
       });
       
       if (response.data.success) {
-        onUploadComplete(response.data.projectId);
+        // The project is analyzed in the background; follow it until it is ready
+        onUploaded?.(response.data.projectId);
+        const result = await waitForAnalysis(response.data.projectId, setAnalysis);
+        if (result.status === 'ready') {
+          onUploadComplete(response.data.projectId);
+        } else {
+          setErrorMessage(`Analysis failed: ${result.errors.join('; ') || 'unknown error'}`);
+        }
       } else {
         setErrorMessage(response.data.error || 'Upload failed');
       }
@@ -79,6 +104,7 @@ export default function ProjectUploader({ onUploadComplete }: { onUploadComplete
       setErrorMessage(error instanceof Error ? error.message : 'Upload failed');
     } finally {
       setIsUploading(false);
+      setAnalysis(null);
     }
   };
   
@@ -155,7 +181,24 @@ export default function ProjectUploader({ onUploadComplete }: { onUploadComplete
               required
             />
             <p className="mt-1 text-sm text-gray-500">
-              Enter the URL of a public Git repository containing a Rust project
+              Enter the URL of a public Git repository, a local path, a file:// URL or a bare repository
+            </p>
+          </div>
+          <div>
+            <label htmlFor="gitRef" className="block mb-2 text-sm font-medium text-gray-700">
+              Branch, Tag or Commit (optional)
+            </label>
+            <input
+              type="text"
+              id="gitRef"
+              placeholder="main"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              value={gitRef}
+              onChange={(e) => setGitRef(e.target.value)}
+              disabled={isUploading}
+            />
+            <p className="mt-1 text-sm text-gray-500">
+              Leave empty to analyze the repository&apos;s default branch
             </p>
           </div>
           <button
@@ -172,16 +215,19 @@ export default function ProjectUploader({ onUploadComplete }: { onUploadComplete
       {isUploading && (
         <div className="mt-6">
           <p className="text-sm font-medium text-gray-700 mb-1">
-            {uploadMethod === 'file' ? 'Uploading and Processing...' : 'Cloning and Processing...'}
+            {analysis
+              ? `${describeProgress(analysis)}...`
+              : uploadMethod === 'file' ? 'Uploading...' : 'Submitting...'}
           </p>
           <div className="w-full bg-gray-200 rounded-full h-2.5">
             <div
               className="bg-blue-500 h-2.5 rounded-full transition-all duration-300"
-              style={{ width: `${progress}%` }}
+              style={{ width: `${analysis ? analysisPercent(analysis) : progress}%` }}
             ></div>
           </div>
           <p className="text-sm text-gray-500 mt-1">
-            {progress}% - This may take a while for large projects
+            {analysis ? analysisPercent(analysis) : progress}% - This may take a while for large projects.
+            {analysis && ' The project also appears in your projects list while it is analyzed.'}
           </p>
         </div>
       )}
@@ -0,0 +1,73 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ProjectManifest } from '@/types/analyzer-types';
+
+interface SubProjectPickerProps {
+  manifest: ProjectManifest;
+  // Display name of each language by ID
+  languageLabels: Record<string, string>;
+  onAnalyze: (subProjectIds: string[]) => void;
+}
+
+const SubProjectPicker: React.FC<SubProjectPickerProps> = ({ manifest, languageLabels, onAnalyze }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Start from the sub-projects analyzed last
+  useEffect(() => {
+    setSelected(new Set(manifest.subProjects.filter(subProject => subProject.selected).map(subProject => subProject.id)));
+  }, [manifest]);
+
+  // Toggle whether a sub-project is analyzed
+  const handleToggle = (subProjectId: string) => {
+    const newSelected = new Set(selected);
+    if (newSelected.has(subProjectId)) {
+      newSelected.delete(subProjectId);
+    } else {
+      newSelected.add(subProjectId);
+    }
+    setSelected(newSelected);
+  };
+
+  const unchanged = manifest.subProjects.every(subProject => subProject.selected === selected.has(subProject.id));
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold mb-2">Sub-projects</h2>
+      <div className="space-y-1 max-h-40 overflow-y-auto pr-2">
+        {manifest.subProjects.map(subProject => (
+          <label key={subProject.id} className="flex items-center cursor-pointer w-full">
+            <input
+              type="checkbox"
+              className="form-checkbox rounded text-blue-500"
+              checked={selected.has(subProject.id)}
+              onChange={() => handleToggle(subProject.id)}
+            />
+            <span className="ml-2 text-sm truncate" title={subProject.manifest}>
+              {subProject.root === '.' ? '(root)' : subProject.root}
+            </span>
+            <span className="ml-auto pl-2 text-xs text-gray-500 whitespace-nowrap">
+              {languageLabels[subProject.language] || subProject.language}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        {Object.entries(manifest.files)
+          .map(([language, count]) => `${count} ${languageLabels[language] || language} files`)
+          .join(', ')}
+      </p>
+
+      <button
+        className="mt-2 w-full text-sm px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+        disabled={selected.size === 0 || unchanged}
+        onClick={() => onAnalyze([...selected])}
+      >
+        Analyze selected
+      </button>
+    </div>
+  );
+};
+
+export default SubProjectPicker;
@@ -1,11 +1,8 @@
 // src/components/VisibilityControls.tsx
 'use client';
 
-import React, { useMemo } from 'react';
-import { 
-  getNodeTypesByLanguage, 
-  getEdgeTypesByLanguage 
-} from './NodeTypeConfig';
+import React from 'react';
+import { TypeOption } from '@/types/analyzer-types';
 
 interface VisibilityControlsProps {
   visibleNodeTypes: Set<string>;
@@ -13,7 +10,13 @@ interface VisibilityControlsProps {
   onNodeTypeToggle: (type: string) => void;
   onEdgeTypeToggle: (type: string) => void;
   onToggleAll: (showAll: boolean) => void;
-  language?: string;
+  // Node and edge types of the current language
+  nodeTypes: TypeOption[];
+  edgeTypes: TypeOption[];
+  // Whether the language supports restricting the graph to the public API
+  publicApiFilter?: boolean;
+  publicApiOnly?: boolean;
+  onPublicApiToggle?: () => void;
 }
 
 const VisibilityControls: React.FC<VisibilityControlsProps> = ({
@@ -22,11 +25,12 @@ const VisibilityControls: React.FC<VisibilityControlsProps> = ({
   onNodeTypeToggle,
   onEdgeTypeToggle,
   onToggleAll,
-  language = 'rust' // Default to Rust if not specified
+  nodeTypes,
+  edgeTypes,
+  publicApiFilter = false,
+  publicApiOnly = false,
+  onPublicApiToggle
 }) => {
-  // Get node and edge types based on the language
-  const nodeTypes = useMemo(() => getNodeTypesByLanguage(language), [language]);
-  const edgeTypes = useMemo(() => getEdgeTypesByLanguage(language), [language]);
   return (
     <div className="space-y-6">
       <div className="flex justify-between mb-2">
@@ -96,6 +100,24 @@ const VisibilityControls: React.FC<VisibilityControlsProps> = ({
           ))}
         </div>
       </div>
+      
+      {publicApiFilter && onPublicApiToggle && (
+        <div>
+          <h3 className="font-semibold mb-2 text-sm text-gray-700">API Surface</h3>
+          <label className="flex items-center cursor-pointer w-full">
+            <input
+              type="checkbox"
+              className="form-checkbox rounded text-blue-500"
+              checked={publicApiOnly}
+              onChange={onPublicApiToggle}
+            />
+            <span className="ml-2 text-sm">Public API only</span>
+          </label>
+          <p className="mt-1 text-xs text-gray-500">
+            Items reachable from a crate root: public, in public modules or re-exported
+          </p>
+        </div>
+      )}
     </div>
   );
 };
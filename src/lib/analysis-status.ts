@@ -0,0 +1,55 @@
+// Client-side helpers for following a project's background analysis through
+// GET /api/projects/:id/status
+
+import axios from 'axios';
+import { AnalysisPhase, AnalysisProgress } from '@/types/common-types';
+
+// How often the status of a running analysis is polled
+export const STATUS_POLL_INTERVAL_MS = 1000;
+
+// An analysis whose status has not changed for this long is given up on
+const STALE_STATUS_MS = 30 * 60 * 1000;
+
+const PHASE_LABELS: Record<AnalysisPhase, string> = {
+  queued: 'Waiting for other analyses',
+  extracting: 'Extracting archive',
+  cloning: 'Cloning repository',
+  fetching: 'Fetching repository',
+  detecting: 'Detecting languages and sub-projects',
+  parsing: 'Parsing',
+  done: 'Done',
+  failed: 'Failed'
+};
+
+// Describe a progress for display, e.g. `Parsing Python: 120 of 450 files`
+export const describeProgress = (progress: AnalysisProgress, languageLabels: Record<string, string> = {}): string => {
+  if (progress.phase !== 'parsing') {
+    return PHASE_LABELS[progress.phase];
+  }
+  const language = progress.language ? ` ${languageLabels[progress.language] || progress.language}` : '';
+  const total = progress.totalFiles ? ` of ${progress.totalFiles}` : '';
+  return `${PHASE_LABELS.parsing}${language}: ${progress.filesParsed}${total} files`;
+};
+
+// Poll a project's status until its analysis ends, reporting each update. An
+// analysis that stops reporting progress is returned as failed
+export const waitForAnalysis = async (
+  projectId: string,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<AnalysisProgress> => {
+  let lastUpdate = { updatedAt: 0, seenAt: Date.now() };
+  for (;;) {
+    const { data } = await axios.get<AnalysisProgress>(`/api/projects/${projectId}/status`);
+    onProgress?.(data);
+    if (data.status !== 'analyzing') {
+      return data;
+    }
+
+    if (data.updatedAt !== lastUpdate.updatedAt) {
+      lastUpdate = { updatedAt: data.updatedAt, seenAt: Date.now() };
+    } else if (Date.now() - lastUpdate.seenAt >= STALE_STATUS_MS) {
+      return { ...data, status: 'error', phase: 'failed', errors: [...data.errors, 'The analysis stopped reporting progress'] };
+    }
+    await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+  }
+};
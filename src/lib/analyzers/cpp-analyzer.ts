@@ -0,0 +1,47 @@
+// This module is server-only and should not be imported from client components
+// C and C++ analyzer: translation units, the include graph and namespaces
+
+import fs from 'fs';
+import path from 'path';
+import { LanguageAnalyzer } from '../../types/analyzer-types';
+import { CppProject } from '../../types/cpp-types';
+import { parseCppProject, convertToGraphData, convertToHierarchicalData, findCppFiles } from '../parsers/cpp-parser';
+import { findCompileCommandsPath } from '../parsers/cpp-build';
+
+export const cppAnalyzer: LanguageAnalyzer<CppProject> = {
+  id: 'cpp',
+  label: 'C/C++',
+  fileGlobs: ['**/*.{c,h,cc,cpp,cxx,c++,hh,hpp,hxx,h++,ipp,inl,tpp}'],
+  manifestFiles: ['CMakeLists.txt', 'meson.build', 'Makefile'],
+  nodeTypes: [
+    { id: 'function', label: 'Functions', color: '#4285F4' },
+    { id: 'method', label: 'Methods', color: '#03A9F4' },
+    { id: 'class', label: 'Classes', color: '#EA4335' },
+    { id: 'struct', label: 'Structs', color: '#EA4335' },
+    { id: 'union', label: 'Unions', color: '#9C27B0' },
+    { id: 'enum', label: 'Enums', color: '#FBBC05' },
+    { id: 'namespace', label: 'Namespaces', color: '#3F51B5' },
+    { id: 'file', label: 'Files', color: '#FFC107' },
+    { id: 'external', label: 'System Headers', color: '#BDBDBD' }
+  ],
+  edgeTypes: [
+    { id: 'calls', label: 'Function Calls', color: '#4285F4' },
+    { id: 'includes', label: 'Includes', color: '#607D8B' },
+    { id: 'extends', label: 'Extends', color: '#9C27B0' },
+    { id: 'contains', label: 'Contains', color: '#EA4335' }
+  ],
+  infoPanel: {
+    union: ['definition', 'path', 'visibility', 'file'],
+    namespace: ['path', 'children', 'file'],
+    file: ['path', 'children', 'file']
+  },
+
+  // C and C++ projects are built with CMake, Meson or make, or come with a compilation database
+  detect: projectPath =>
+    ['CMakeLists.txt', 'meson.build'].some(file => fs.existsSync(path.join(projectPath, file))) ||
+    !!findCompileCommandsPath(projectPath) ||
+    (fs.existsSync(path.join(projectPath, 'Makefile')) && findCppFiles(projectPath).length > 0),
+  parse: parseCppProject,
+  toGraphData: convertToGraphData,
+  toHierarchicalData: convertToHierarchicalData
+};
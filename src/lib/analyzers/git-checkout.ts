@@ -0,0 +1,64 @@
+// This module is server-only and should not be imported from client components
+// Clones and refreshes the repositories of git-backed projects at a branch, tag
+// or commit. Remote URLs, local paths, `file://` URLs and bare repositories all
+// work, as everything goes through the git command line
+
+import simpleGit, { SimpleGit } from 'simple-git';
+import { GitCheckout } from '../../types/common-types';
+
+// Branch, tag or commit names; a leading dash would be read as an option
+export const isValidRef = (ref: string): boolean => /^[^-\s]\S*$/.test(ref);
+
+// Name of a project cloned from a URL or path, e.g. `repo` for `file:///srv/git/repo.git/`
+export const getRepositoryName = (url: string): string => {
+  const name = url.replace(/[\\/]+$/, '').split(/[\\/:]/).pop() || url;
+  return name.replace(/\.git$/, '');
+};
+
+// Check out a ref of a fetched repository. Branches are reset to their remote
+// branch, as the clone is only ever read; tags and commits are checked out detached
+const checkoutRef = async (git: SimpleGit, ref: string) => {
+  const remoteBranches = await git.branch(['-r']);
+  if (remoteBranches.all.includes(`origin/${ref}`)) {
+    await git.checkout(['-B', ref, `origin/${ref}`]);
+  } else {
+    await git.checkout(['--detach', ref]);
+  }
+};
+
+// Current branch and commit of a repository; the branch is absent when detached
+const describeCheckout = async (git: SimpleGit, url: string, ref?: string): Promise<GitCheckout> => {
+  const commit = (await git.revparse(['HEAD'])).trim();
+  const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+  return { url, ref, branch: branch === 'HEAD' ? undefined : branch, commit };
+};
+
+// Clone a repository and check out a ref, by default the remote's default branch.
+// Bare repositories whose HEAD names a branch that was never pushed have none
+export const cloneRepository = async (url: string, repoPath: string, ref?: string): Promise<GitCheckout> => {
+  await simpleGit().clone(url, repoPath);
+  const git = simpleGit(repoPath);
+  if (ref) {
+    await checkoutRef(git, ref);
+  } else if ((await git.branchLocal()).all.length === 0) {
+    throw new Error('The repository has no default branch to check out; enter a branch, tag or commit');
+  }
+  return describeCheckout(git, url, ref);
+};
+
+// Fetch a project's repository and check out a ref: the given one, else the one
+// it was cloned at, else its current branch, updated to the remote. Projects
+// cloned before checkouts were recorded have no checkout and use their remote
+export const refreshRepository = async (repoPath: string, checkout?: GitCheckout, ref?: string): Promise<GitCheckout> => {
+  const git = simpleGit(repoPath);
+  await git.fetch(['--prune', '--tags', '--force', 'origin']);
+
+  const current = await describeCheckout(git, '');
+  const target = ref || checkout?.ref || current.branch;
+  if (target) {
+    await checkoutRef(git, target);
+  }
+
+  const url = checkout?.url || (await git.raw(['remote', 'get-url', 'origin'])).trim();
+  return describeCheckout(git, url, ref || checkout?.ref);
+};
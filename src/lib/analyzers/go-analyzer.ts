@@ -0,0 +1,39 @@
+// This module is server-only and should not be imported from client components
+// Go analyzer: modules, packages and implicit interface satisfaction
+
+import { LanguageAnalyzer } from '../../types/analyzer-types';
+import { GoProject } from '../../types/go-types';
+import { parseGoProject, convertToGraphData, convertToHierarchicalData } from '../parsers/go-parser';
+import { findGoModules, findGoWorkspaceModules } from '../parsers/go-module';
+
+export const goAnalyzer: LanguageAnalyzer<GoProject> = {
+  id: 'go',
+  label: 'Go',
+  fileGlobs: ['**/*.go'],
+  manifestFiles: ['go.mod', 'go.work'],
+  nodeTypes: [
+    { id: 'function', label: 'Functions', color: '#4285F4' },
+    { id: 'method', label: 'Methods', color: '#03A9F4' },
+    { id: 'struct', label: 'Structs', color: '#EA4335' },
+    { id: 'interface', label: 'Interfaces', color: '#34A853' },
+    { id: 'type', label: 'Named Types', color: '#8BC34A' },
+    { id: 'package', label: 'Packages', color: '#FF9800' },
+    { id: 'module', label: 'Modules', color: '#FF5722' },
+    { id: 'external', label: 'External Packages', color: '#BDBDBD' }
+  ],
+  edgeTypes: [
+    { id: 'calls', label: 'Function Calls', color: '#4285F4' },
+    { id: 'imports', label: 'Imports', color: '#607D8B' },
+    { id: 'implements', label: 'Implements', color: '#34A853' },
+    { id: 'embeds', label: 'Embeds', color: '#9C27B0' },
+    { id: 'contains', label: 'Contains', color: '#EA4335' }
+  ],
+
+  // Go modules may sit below the root, as in repositories with several modules
+  detect: projectPath => findGoModules(projectPath).length > 0,
+  // The modules of a go.work workspace are parsed with it, to resolve imports across them
+  getMemberRoots: findGoWorkspaceModules,
+  parse: parseGoProject,
+  toGraphData: convertToGraphData,
+  toHierarchicalData: convertToHierarchicalData
+};
@@ -0,0 +1,44 @@
+// This module is server-only and should not be imported from client components
+// Java and Kotlin analyzer: Maven and Gradle modules, packages and types
+
+import { LanguageAnalyzer } from '../../types/analyzer-types';
+import { JavaProject } from '../../types/java-types';
+import { parseJavaProject, convertToGraphData, convertToHierarchicalData } from '../parsers/java-parser';
+import { findJvmMemberDirs, findJvmModules } from '../parsers/jvm-build';
+
+export const javaAnalyzer: LanguageAnalyzer<JavaProject> = {
+  id: 'java',
+  label: 'Java/Kotlin',
+  fileGlobs: ['**/*.{java,kt}'],
+  manifestFiles: ['pom.xml', 'settings.gradle', 'settings.gradle.kts', 'build.gradle', 'build.gradle.kts'],
+  nodeTypes: [
+    { id: 'class', label: 'Classes', color: '#EA4335' },
+    { id: 'interface', label: 'Interfaces', color: '#34A853' },
+    { id: 'enum', label: 'Enums', color: '#FBBC05' },
+    { id: 'record', label: 'Records', color: '#E91E63' },
+    { id: 'method', label: 'Methods', color: '#03A9F4' },
+    { id: 'function', label: 'Functions', color: '#4285F4' },
+    { id: 'field', label: 'Fields', color: '#795548' },
+    { id: 'package', label: 'Packages', color: '#FF9800' },
+    { id: 'module', label: 'Modules', color: '#FF5722' },
+    { id: 'external', label: 'External Packages', color: '#BDBDBD' }
+  ],
+  edgeTypes: [
+    { id: 'calls', label: 'Method Calls', color: '#4285F4' },
+    { id: 'imports', label: 'Imports', color: '#607D8B' },
+    { id: 'extends', label: 'Extends', color: '#9C27B0' },
+    { id: 'implements', label: 'Implements', color: '#34A853' },
+    { id: 'contains', label: 'Contains', color: '#EA4335' }
+  ],
+  infoPanel: {
+    record: ['definition', 'path', 'visibility', 'file']
+  },
+
+  // Maven and Gradle builds keep their sources in nested module directories
+  detect: projectPath => findJvmModules(projectPath).length > 0,
+  // Maven and Gradle multi-module builds are parsed whole, to resolve imports across modules
+  getMemberRoots: rootPath => findJvmMemberDirs(rootPath),
+  parse: parseJavaProject,
+  toGraphData: convertToGraphData,
+  toHierarchicalData: convertToHierarchicalData
+};
@@ -0,0 +1,118 @@
+// This module is server-only and should not be imported from client components
+// Runs project analysis in the background, one job at a time, and records the
+// progress of each job in the project's status.json for GET /api/projects/:id/status
+
+import fs from 'fs';
+import path from 'path';
+import { AnalysisPhase, AnalysisProgress } from '../../types/common-types';
+
+// Reports the progress of a running job
+export type JobProgress = {
+  setPhase(phase: AnalysisPhase): void;
+  setTotalFiles(totalFiles: number): void;
+  fileParsed(language: string): void;
+};
+
+const STATUS_FILE = 'status.json';
+
+// While files are parsed, progress is written at most this often
+const WRITE_INTERVAL_MS = 500;
+
+// Identifies this server process, by its PID and start time; both stay the same
+// when the module is reloaded in development, unlike a value generated here
+const PROCESS_ID = `${process.pid}@${Math.round(performance.timeOrigin)}`;
+
+// Jobs run one after another, so large projects don't compete for the CPU
+let queue: Promise<void> = Promise.resolve();
+
+// Read the progress of a project's analysis. Projects analyzed before background
+// analysis have no status.json and are ready; analyses of an earlier server process
+// were cut short by its restart and have failed
+export const readProjectStatus = (projectDir: string): AnalysisProgress => {
+  const statusPath = path.join(projectDir, STATUS_FILE);
+  if (!fs.existsSync(statusPath)) {
+    return { status: 'ready', phase: 'done', filesParsed: 0, errors: [], updatedAt: fs.statSync(projectDir).mtimeMs };
+  }
+
+  const status: AnalysisProgress = JSON.parse(fs.readFileSync(statusPath, 'utf8'));
+  if (status.status === 'analyzing' && status.processId !== PROCESS_ID) {
+    return {
+      ...status,
+      status: 'error',
+      phase: 'failed',
+      language: undefined,
+      errors: [...status.errors, 'The analysis was interrupted by a server restart']
+    };
+  }
+  return status;
+};
+
+// Check whether a project is queued or being analyzed
+export const isAnalyzing = (projectDir: string): boolean =>
+  readProjectStatus(projectDir).status === 'analyzing';
+
+// Queue a job analyzing a project. The project is marked as analyzing right away,
+// and as ready or failed when the job ends. Returns false, queueing nothing, when
+// the project is already queued or being analyzed; the check and the mark happen
+// together, so concurrent requests cannot both start a job
+export const enqueueAnalysisJob = (projectDir: string, run: (progress: JobProgress) => Promise<void>): boolean => {
+  if (isAnalyzing(projectDir)) {
+    return false;
+  }
+
+  const status: AnalysisProgress = {
+    status: 'analyzing',
+    phase: 'queued',
+    filesParsed: 0,
+    errors: [],
+    updatedAt: Date.now(),
+    processId: PROCESS_ID
+  };
+
+  const writeStatus = () => {
+    status.updatedAt = Date.now();
+    fs.writeFileSync(path.join(projectDir, STATUS_FILE), JSON.stringify(status, null, 2));
+  };
+  writeStatus();
+
+  const progress: JobProgress = {
+    setPhase: phase => {
+      status.phase = phase;
+      status.language = undefined;
+      writeStatus();
+    },
+    setTotalFiles: totalFiles => {
+      status.totalFiles = totalFiles;
+      writeStatus();
+    },
+    fileParsed: language => {
+      status.filesParsed++;
+      if (language !== status.language || Date.now() - status.updatedAt >= WRITE_INTERVAL_MS) {
+        status.language = language;
+        writeStatus();
+      }
+    }
+  };
+
+  queue = queue.then(async () => {
+    try {
+      await run(progress);
+      status.status = 'ready';
+      status.phase = 'done';
+    } catch (error) {
+      console.error(`Error analyzing project ${path.basename(projectDir)}:`, error);
+      status.status = 'error';
+      status.phase = 'failed';
+      status.errors.push((error instanceof Error ? error.message : String(error)).trim());
+    }
+
+    // The project may have been deleted while it was analyzed
+    try {
+      status.language = undefined;
+      writeStatus();
+    } catch (error) {
+      console.error(`Error writing the status of project ${path.basename(projectDir)}:`, error);
+    }
+  });
+  return true;
+};
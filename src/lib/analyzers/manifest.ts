@@ -0,0 +1,162 @@
+// This module is server-only and should not be imported from client components
+// Walks an upload to count source files per language and find the sub-projects
+// of each language by their build files and manifests, e.g. the services and
+// crates of a monorepo. Files and directories the project's .gitignore files or
+// .viscode.json exclude are left out
+
+import fs from 'fs';
+import path from 'path';
+import { FileFilter, LanguageAnalyzer, ProjectManifest, SubProject } from '../../types/analyzer-types';
+import { createFileFilter } from '../parsers/file-filter';
+import { ANALYZERS, matchesFileGlobs, subProjectId } from './registry';
+
+// Directories holding dependencies, build output or tool state rather than project code
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules', 'target', 'build', 'dist', 'out', 'bin', 'obj', 'vendor', '__pycache__', 'venv', 'env'
+]);
+
+const isIgnoredDirectory = (name: string): boolean => {
+  return name.startsWith('.') || name.startsWith('cmake-build-') || IGNORED_DIRECTORIES.has(name);
+};
+
+// Manifests and source files found in the walk, by language; paths are relative to the project root
+type WalkResult = {
+  manifests: Map<string, { root: string; file: string }[]>;
+  sourceFiles: Map<string, string[]>;
+};
+
+const walk = (projectPath: string, dir: string, filter: FileFilter, result: WalkResult) => {
+  const entries = fs.readdirSync(path.join(projectPath, dir), { withFileTypes: true });
+  for (const entry of entries) {
+    const relativePath = dir === '.' ? entry.name : `${dir}/${entry.name}`;
+    const fullPath = path.join(projectPath, relativePath);
+    if (entry.isDirectory()) {
+      if (!isIgnoredDirectory(entry.name) && !filter.excludesDirectory(fullPath)) {
+        walk(projectPath, relativePath, filter, result);
+      }
+    } else if (entry.isFile()) {
+      const languages = ANALYZERS.filter(analyzer => matchesFileGlobs(analyzer, relativePath));
+      const sourceFile = languages.length > 0 && !filter.excludesFile(fullPath);
+      for (const analyzer of ANALYZERS) {
+        if (analyzer.manifestFiles.includes(entry.name)) {
+          result.manifests.get(analyzer.id)!.push({ root: dir, file: entry.name });
+        }
+        if (sourceFile && languages.includes(analyzer)) {
+          result.sourceFiles.get(analyzer.id)!.push(relativePath);
+        }
+      }
+    }
+  }
+};
+
+// Whether a path lies in a directory, both relative to the project root
+const isWithin = (filePath: string, root: string): boolean =>
+  root === '.' || filePath.startsWith(`${root}/`);
+
+// Deepest directory containing all the files, `.` for the project root
+const commonAncestor = (files: string[]): string => {
+  const [first, ...rest] = files.map(file => file.split('/').slice(0, -1));
+  let length = first.length;
+  for (const segments of rest) {
+    while (length > 0 && segments.slice(0, length).join('/') !== first.slice(0, length).join('/')) {
+      length--;
+    }
+  }
+  return first.slice(0, length).join('/') || '.';
+};
+
+// Path relative to the project root with forward slashes, `.` for the root itself
+const toRelativeRoot = (projectPath: string, dir: string): string =>
+  path.relative(projectPath, dir).split(path.sep).join('/') || '.';
+
+// Sub-projects of one language: the directories with one of its manifests, nested
+// ones included, e.g. the services of a monorepo with a root package.json. Members
+// of an enclosing build, such as the crates of a Cargo workspace, are parsed with
+// it, and roots whose source files all belong to nested sub-projects are left out.
+// Source files outside every root get a sub-project at the directory containing
+// them, so every counted file can be analyzed. The config's language overrides
+// skip a language or analyze it from the root when nothing was found
+const findSubProjects = (
+  analyzer: LanguageAnalyzer,
+  projectPath: string,
+  filter: FileFilter,
+  result: WalkResult
+): SubProject[] => {
+  const override = filter.config.languages[analyzer.id];
+  if (override === false) {
+    return [];
+  }
+
+  const sourceFiles = result.sourceFiles.get(analyzer.id)!;
+  const roots = new Map<string, string>();
+  const members = new Set<string>();
+  // Outer roots first, so they claim their members; the project root is the outermost
+  const depth = (root: string) => root === '.' ? 0 : root.split('/').length;
+  const manifests = [...result.manifests.get(analyzer.id)!].sort((a, b) => depth(a.root) - depth(b.root));
+  for (const manifest of manifests) {
+    if (!roots.has(manifest.root) && !members.has(manifest.root) && sourceFiles.some(file => isWithin(file, manifest.root))) {
+      roots.set(manifest.root, manifest.file);
+      for (const member of analyzer.getMemberRoots?.(path.join(projectPath, manifest.root)) || []) {
+        members.add(toRelativeRoot(projectPath, member));
+      }
+    }
+  }
+
+  // Each source file belongs to the innermost root above it
+  const ownedRoots = new Set(sourceFiles.map(file =>
+    [...roots.keys()].filter(root => isWithin(file, root)).sort((a, b) => b.length - a.length)[0]
+  ));
+
+  const subProjects: SubProject[] = [...roots].filter(([root]) => ownedRoots.has(root)).map(([root, manifest]) => ({
+    id: subProjectId(analyzer.id, root),
+    language: analyzer.id,
+    root,
+    manifest,
+    selected: true
+  }));
+
+  // Languages without a manifest are analyzed from the root when their build
+  // files are there, as before the recursive pass, and otherwise from the
+  // directory containing their source files, e.g. `fw` for C sources in fw/src
+  const unclaimedFiles = sourceFiles.filter(file => ![...roots.keys()].some(root => isWithin(file, root)));
+  if (unclaimedFiles.length > 0) {
+    const root = subProjects.length === 0 && (override || analyzer.detect(projectPath)) ? '.' : commonAncestor(unclaimedFiles);
+    subProjects.push({ id: subProjectId(analyzer.id, root), language: analyzer.id, root, selected: true });
+  }
+  return subProjects;
+};
+
+// Count the source files of each language and find its sub-projects
+export const buildManifest = (projectPath: string, filter: FileFilter = createFileFilter(projectPath)): ProjectManifest => {
+  const result: WalkResult = {
+    manifests: new Map(ANALYZERS.map(analyzer => [analyzer.id, []])),
+    sourceFiles: new Map(ANALYZERS.map(analyzer => [analyzer.id, []]))
+  };
+  walk(projectPath, '.', filter, result);
+
+  const files: Record<string, number> = {};
+  for (const [language, sourceFiles] of result.sourceFiles) {
+    if (sourceFiles.length > 0 && filter.config.languages[language] !== false) {
+      files[language] = sourceFiles.length;
+    }
+  }
+
+  return {
+    files,
+    subProjects: ANALYZERS.flatMap(analyzer => findSubProjects(analyzer, projectPath, filter, result))
+  };
+};
+
+// Find the sub-projects again after a project's files changed, e.g. when its
+// repository was refreshed. Sub-projects found before keep whether they were
+// selected; new ones, or all of them if none of the selected ones remain, are
+// selected as on upload
+export const rebuildManifest = (projectPath: string, filter: FileFilter, previous?: ProjectManifest): ProjectManifest => {
+  const manifest = buildManifest(projectPath, filter);
+  const selection = new Map(previous?.subProjects.map(subProject => [subProject.id, subProject.selected]));
+  const kept = manifest.subProjects.map(subProject => ({ ...subProject, selected: selection.get(subProject.id) ?? subProject.selected }));
+  if (kept.some(subProject => subProject.selected)) {
+    manifest.subProjects = kept;
+  }
+  return manifest;
+};
@@ -0,0 +1,190 @@
+// This module is server-only and should not be imported from client components
+// Merges the graphs of a project's languages, and of a language's sub-project
+// roots, into one and links items that cross a language boundary, such as PyO3
+// bindings and C ABI functions
+
+import { TypeOption } from '../../types/analyzer-types';
+import { GraphData, HierarchicalData, TreeNode } from '../../types/common-types';
+
+type GraphNode = GraphData['nodes'][number];
+type GraphLink = GraphData['links'][number];
+
+// Graph or hierarchy of one of a project's languages
+export type LanguageData<Data> = {
+  language: string;
+  data: Data;
+};
+
+// Edge types that only appear in merged graphs
+export const CROSS_LANGUAGE_EDGE_TYPES: TypeOption[] = [
+  { id: 'ffi', label: 'Cross-Language Bindings', color: '#00BCD4' }
+];
+
+// PyO3 attributes exposing a Rust item to Python, e.g. `#[pyclass(name = "Counter")]`
+const PYO3_EXPORT = /^#\[(?:pyo3::)?(pyfunction|pyclass|pymodule)\b/;
+const PYO3_NAME = /^#\[(?:pyo3::)?(?:pyfunction|pyclass|pymodule|pyo3)\s*\([\s\S]*?\bname\s*=\s*"([^"]+)"/;
+
+// Rust functions callable from C: `#[no_mangle]` or declared `extern "C"`
+const isCAbiFunction = (node: GraphNode): boolean =>
+  node.type === 'function' && (
+    (node.attributes || []).some(attribute => /^#\[(?:unsafe\()?no_mangle\b/.test(attribute)) ||
+    /\bextern\s+"C"\s+fn\b/.test(node.signature || '')
+  );
+
+// Name under which PyO3 exposes a Rust item to Python, if it does
+const getPythonName = (node: GraphNode): { kind: string; name: string } | null => {
+  const attributes = node.attributes || [];
+  const exportAttribute = attributes.map(attribute => attribute.match(PYO3_EXPORT)).find(Boolean);
+  if (!exportAttribute) {
+    return null;
+  }
+  const rename = attributes.map(attribute => attribute.match(PYO3_NAME)).find(Boolean);
+  return { kind: exportAttribute[1], name: rename ? rename[1] : node.name };
+};
+
+// Link Python references to native modules with the PyO3 items they name. Python
+// sees these items as external symbols such as `mycore._mycore.add`; when the crate
+// defines a #[pymodule], the symbol must come from a module of that name
+const linkPyO3Bindings = (rust: GraphData, python: GraphData): GraphLink[] => {
+  const exported = rust.nodes
+    .map(node => ({ node, binding: getPythonName(node) }))
+    .filter((entry): entry is { node: GraphNode; binding: { kind: string; name: string } } => !!entry.binding);
+  const moduleNames = new Set(exported.filter(entry => entry.binding.kind === 'pymodule').map(entry => entry.binding.name));
+
+  const links: GraphLink[] = [];
+  for (const node of python.nodes) {
+    if (node.type !== 'external') {
+      continue;
+    }
+    const segments = node.name.split('.');
+    const name = segments[segments.length - 1];
+    for (const { node: target, binding } of exported) {
+      if (binding.name !== name) {
+        continue;
+      }
+      const fromModule = binding.kind === 'pymodule' || moduleNames.size === 0 ||
+        segments.slice(0, -1).some(segment => moduleNames.has(segment));
+      if (fromModule) {
+        links.push({ source: node.id, target: target.id, type: 'ffi', value: 1 });
+      }
+    }
+  }
+  return links;
+};
+
+// Link C and C++ declarations with the Rust functions that define them
+const linkCAbiFunctions = (rust: GraphData, cpp: GraphData): GraphLink[] => {
+  const definitions = new Map<string, GraphNode>();
+  for (const node of rust.nodes) {
+    if (isCAbiFunction(node)) {
+      definitions.set(node.name, node);
+    }
+  }
+
+  const links: GraphLink[] = [];
+  for (const node of cpp.nodes) {
+    // Only functions in the global namespace have an unmangled name
+    const target = node.type === 'function' && !node.path ? definitions.get(node.name) : undefined;
+    if (target) {
+      links.push({ source: node.id, target: target.id, type: 'ffi', value: 1 });
+    }
+  }
+  return links;
+};
+
+// Cross-language links between the graphs of a project's languages, by language pair
+const CROSS_LANGUAGE_LINKERS: { from: string; to: string; link: (from: GraphData, to: GraphData) => GraphLink[] }[] = [
+  { from: 'rust', to: 'python', link: linkPyO3Bindings },
+  { from: 'rust', to: 'cpp', link: linkCAbiFunctions }
+];
+
+// ID of a node in a merged graph; IDs are only unique within a language or root
+const mergedId = (prefix: string, id: string) => `${prefix}:${id}`;
+
+// ID of a node derived from a graph node, such as the module of the module
+// dependency view, prefixed like the merged ID of that node
+export const scopedId = (node: GraphNode, id: string) => node.scope ? mergedId(node.scope, id) : id;
+
+// Give the nodes and links of a graph merged-graph IDs, and the nodes their scope
+const prefixGraph = (prefix: string, data: GraphData): GraphData => ({
+  nodes: data.nodes.map(node => ({ ...node, id: mergedId(prefix, node.id), scope: node.scope ? mergedId(prefix, node.scope) : prefix })),
+  links: data.links.map(link => ({ ...link, source: mergedId(prefix, link.source), target: mergedId(prefix, link.target) }))
+});
+
+// Merge the graphs of a language's sub-project roots, e.g. two services of a monorepo.
+// A language analyzed from one root keeps its node IDs
+export const mergeRootGraphData = (graphs: { root: string; data: GraphData }[]): GraphData => {
+  if (graphs.length === 1) {
+    return graphs[0].data;
+  }
+  const prefixed = graphs.map(({ root, data }) => prefixGraph(root, data));
+  return {
+    nodes: prefixed.flatMap(graph => graph.nodes),
+    links: prefixed.flatMap(graph => graph.links)
+  };
+};
+
+// Merge the graphs of a project's languages, tagging each node with its language.
+// A project with one language keeps its node IDs
+export const mergeGraphData = (graphs: LanguageData<GraphData>[]): GraphData => {
+  if (graphs.length === 1) {
+    const { language, data } = graphs[0];
+    return {
+      nodes: data.nodes.map(node => ({ ...node, language: node.language || language })),
+      links: data.links
+    };
+  }
+
+  const nodes: GraphNode[] = [];
+  const links: GraphLink[] = [];
+  for (const { language, data } of graphs) {
+    const prefixed = prefixGraph(language, data);
+    nodes.push(...prefixed.nodes.map(node => ({ ...node, language: node.language || language })));
+    links.push(...prefixed.links);
+  }
+
+  const byLanguage = new Map(graphs.map(graph => [graph.language, graph.data]));
+  for (const linker of CROSS_LANGUAGE_LINKERS) {
+    const from = byLanguage.get(linker.from);
+    const to = byLanguage.get(linker.to);
+    if (!from || !to) {
+      continue;
+    }
+    // Links run from the referencing language to the defining one
+    for (const link of linker.link(from, to)) {
+      links.push({ ...link, source: mergedId(linker.to, link.source), target: mergedId(linker.from, link.target) });
+    }
+  }
+
+  return { nodes, links };
+};
+
+// Give a tree node and its descendants merged-graph IDs, and their language if given
+const prefixTreeNode = (prefix: string, node: TreeNode, language?: string): TreeNode => ({
+  ...node,
+  id: mergedId(prefix, node.id),
+  language: node.language || language,
+  children: node.children.map(child => prefixTreeNode(prefix, child, language))
+});
+
+// Merge the hierarchies of a language's sub-project roots under one root
+export const mergeRootHierarchicalData = (name: string, trees: { root: string; data: HierarchicalData }[]): HierarchicalData => {
+  if (trees.length === 1) {
+    return trees[0].data;
+  }
+  return {
+    name,
+    children: trees.flatMap(({ root, data }) => data.children.map(child => prefixTreeNode(root, child)))
+  };
+};
+
+// Merge the hierarchies of a project's languages under one root
+export const mergeHierarchicalData = (name: string, trees: LanguageData<HierarchicalData>[]): HierarchicalData => {
+  if (trees.length === 1) {
+    return trees[0].data;
+  }
+  return {
+    name,
+    children: trees.flatMap(({ language, data }) => data.children.map(child => prefixTreeNode(language, child, language)))
+  };
+};
@@ -0,0 +1,39 @@
+// This module is server-only and should not be imported from client components
+// Python analyzer: packages, modules and their imports
+
+import fs from 'fs';
+import path from 'path';
+import { LanguageAnalyzer } from '../../types/analyzer-types';
+import { PythonProject } from '../../types/python-types';
+import { parsePythonProject, convertToGraphData, convertToHierarchicalData } from '../parsers/python-parser';
+
+export const pythonAnalyzer: LanguageAnalyzer<PythonProject> = {
+  id: 'python',
+  label: 'Python',
+  fileGlobs: ['**/*.py'],
+  manifestFiles: ['pyproject.toml', 'setup.py', 'requirements.txt'],
+  nodeTypes: [
+    { id: 'function', label: 'Functions', color: '#4285F4' },
+    { id: 'class', label: 'Classes', color: '#EA4335' },
+    { id: 'method', label: 'Methods', color: '#FBBC05' },
+    { id: 'package', label: 'Packages', color: '#E65100' },
+    { id: 'module', label: 'Modules', color: '#FF9800' },
+    { id: 'import', label: 'Imports', color: '#607D8B' },
+    { id: 'variable', label: 'Variables', color: '#9E9E9E' },
+    { id: 'constant', label: 'Constants', color: '#795548' },
+    { id: 'decorator', label: 'Decorators', color: '#9C27B0' },
+    { id: 'external', label: 'External Symbols', color: '#BDBDBD' }
+  ],
+  edgeTypes: [
+    { id: 'calls', label: 'Function Calls', color: '#4285F4' },
+    { id: 'imports', label: 'Imports', color: '#607D8B' },
+    { id: 'inherits', label: 'Inheritance', color: '#9C27B0' },
+    { id: 'contains', label: 'Contains', color: '#EA4335' },
+    { id: 'uses', label: 'Uses', color: '#FBBC05' }
+  ],
+
+  detect: projectPath => ['requirements.txt', 'setup.py', 'pyproject.toml'].some(file => fs.existsSync(path.join(projectPath, file))),
+  parse: parsePythonProject,
+  toGraphData: convertToGraphData,
+  toHierarchicalData: convertToHierarchicalData
+};
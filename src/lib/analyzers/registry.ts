@@ -0,0 +1,271 @@
+// This module is server-only and should not be imported from client components
+// Registry of the language analyzers. Adding a language means writing its
+// analyzer module and listing it here
+
+import fs from 'fs';
+import path from 'path';
+import { FileFilter, FileParsedListener, LanguageAnalyzer, LanguageProfile, ParseCache, ProjectManifest, SubProject } from '../../types/analyzer-types';
+import { GraphData, ViewMode } from '../../types/common-types';
+import { createFileFilter, excludeDirectories } from '../parsers/file-filter';
+import { openParseCache } from '../parsers/parse-cache';
+import { mergeGraphData, mergeRootGraphData } from './polyglot';
+import { pythonAnalyzer } from './python-analyzer';
+import { rustAnalyzer } from './rust-analyzer';
+import { goAnalyzer } from './go-analyzer';
+import { javaAnalyzer } from './java-analyzer';
+import { cppAnalyzer } from './cpp-analyzer';
+import { typeScriptAnalyzer } from './typescript-analyzer';
+
+// Analyzers in detection order; the first one to recognise a project is its primary language
+export const ANALYZERS: LanguageAnalyzer[] = [
+  pythonAnalyzer,
+  rustAnalyzer,
+  goAnalyzer,
+  javaAnalyzer,
+  cppAnalyzer,
+  typeScriptAnalyzer
+];
+
+// Language of projects that no analyzer recognises
+export const DEFAULT_LANGUAGE = rustAnalyzer.id;
+
+// Look up an analyzer by language ID
+export const getAnalyzer = (language: string): LanguageAnalyzer | undefined =>
+  ANALYZERS.find(analyzer => analyzer.id === language);
+
+// Convert a glob such as `**/*.{ts,tsx}` to a regular expression over relative paths
+const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      const alternatives = glob.slice(i + 1, end).split(',').map(alt => alt.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+      source += `(?:${alternatives.join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Compiled file globs, by glob
+const globPatterns = new Map<string, RegExp>();
+
+// Check whether a relative path matches one of an analyzer's file globs
+export const matchesFileGlobs = (analyzer: LanguageAnalyzer, relativePath: string): boolean => {
+  const normalizedPath = relativePath.split(path.sep).join('/');
+  return analyzer.fileGlobs.some(glob => {
+    if (!globPatterns.has(glob)) {
+      globPatterns.set(glob, globToRegExp(glob));
+    }
+    return globPatterns.get(glob)!.test(normalizedPath);
+  });
+};
+
+// What the registry reads from a project's metadata.json
+type StoredProject = {
+  path: string;
+  // Primary language, the only one recorded for projects analyzed before polyglot support
+  language?: string;
+  languages?: string[];
+  // Absent for projects analyzed before sub-project detection, which were analyzed from the root
+  manifest?: ProjectManifest;
+};
+
+// Parsed project of one sub-project root, as stored in project-data-<language>.json
+export type RootProject = {
+  root: string;
+  project: unknown;
+};
+
+// Languages a project was analyzed in
+export const getProjectLanguages = (metadata: Omit<StoredProject, 'path'> | null): string[] =>
+  metadata?.languages || [metadata?.language || DEFAULT_LANGUAGE];
+
+// ID of a sub-project, unique within a project
+export const subProjectId = (language: string, root: string) => `${language}:${root}`;
+
+// Sub-projects of a project; projects analyzed before sub-project detection were
+// analyzed from the root in each of their languages
+export const getSubProjects = (metadata: Omit<StoredProject, 'path'> | null): SubProject[] =>
+  metadata?.manifest?.subProjects || getProjectLanguages(metadata).map(language => ({
+    id: subProjectId(language, '.'),
+    language,
+    root: '.',
+    selected: true
+  }));
+
+// Languages of the selected sub-projects, in detection order
+export const getSelectedLanguages = (subProjects: SubProject[]): string[] =>
+  ANALYZERS
+    .filter(analyzer => subProjects.some(subProject => subProject.selected && subProject.language === analyzer.id))
+    .map(analyzer => analyzer.id);
+
+// A root a language is analyzed from, without the roots of the language's other
+// sub-projects nested in it, which are analyzed on their own if selected
+export type LanguageRoot = {
+  root: string;
+  nestedRoots: string[];
+};
+
+// Whether a root lies below another, both relative to the project root
+const isNestedRoot = (root: string, parent: string): boolean =>
+  root !== parent && (parent === '.' || root.startsWith(`${parent}/`));
+
+// Roots a language is analyzed from
+const getLanguageRoots = (subProjects: SubProject[], language: string): LanguageRoot[] => {
+  const languageRoots = subProjects
+    .filter(subProject => subProject.language === language)
+    .map(subProject => subProject.root);
+  return subProjects
+    .filter(subProject => subProject.selected && subProject.language === language)
+    .map(({ root }) => ({ root, nestedRoots: languageRoots.filter(other => isNestedRoot(other, root)) }));
+};
+
+// Paths of a language's parsed project and graph data
+const languageDataPaths = (projectDir: string, language: string) => ({
+  projectData: path.join(projectDir, `project-data-${language}.json`),
+  graphData: path.join(projectDir, `graph-data-${language}.json`)
+});
+
+// Convert the parsed projects of a language's roots to one graph, tagging the nodes with the language
+const toLanguageGraphData = (analyzer: LanguageAnalyzer, projects: RootProject[]): GraphData => {
+  const graphData = mergeRootGraphData(projects.map(({ root, project }) => ({ root, data: analyzer.toGraphData(project) })));
+  for (const node of graphData.nodes) {
+    node.language = node.language || analyzer.id;
+  }
+  return graphData;
+};
+
+// Parse the roots of a language and write its project and graph data. The filter
+// applies the project's .gitignore files and .viscode.json from the project root down,
+// and the cache holds the results of files parsed by earlier analyses
+export const analyzeLanguage = async (
+  analyzer: LanguageAnalyzer,
+  roots: LanguageRoot[],
+  projectPath: string,
+  projectDir: string,
+  filter: FileFilter = createFileFilter(projectPath),
+  onFileParsed?: FileParsedListener,
+  cache?: ParseCache
+): Promise<GraphData> => {
+  const paths = languageDataPaths(projectDir, analyzer.id);
+  const projects: RootProject[] = [];
+  for (const { root, nestedRoots } of roots) {
+    const rootFilter = excludeDirectories(filter, nestedRoots.map(nestedRoot => path.join(projectPath, nestedRoot)));
+    projects.push({ root, project: await analyzer.parse(path.join(projectPath, root), rootFilter, onFileParsed, cache) });
+  }
+  fs.writeFileSync(paths.projectData, JSON.stringify(projects, null, 2));
+
+  const graphData = toLanguageGraphData(analyzer, projects);
+  fs.writeFileSync(paths.graphData, JSON.stringify(graphData, null, 2));
+  return graphData;
+};
+
+// Analyze the selected sub-projects, each language from its own roots, and write
+// the merged graph to graph-data.json. Only files that changed since the last
+// analysis are parsed again; cached results no file used any more are deleted
+export const analyzeProject = async (
+  subProjects: SubProject[],
+  projectPath: string,
+  projectDir: string,
+  filter: FileFilter = createFileFilter(projectPath),
+  onFileParsed?: (language: string, filePath: string) => void
+): Promise<GraphData> => {
+  const cache = openParseCache(projectDir);
+  const graphs = [];
+  for (const language of getSelectedLanguages(subProjects)) {
+    const roots = getLanguageRoots(subProjects, language);
+    const data = await analyzeLanguage(
+      getAnalyzer(language)!, roots, projectPath, projectDir, filter, filePath => onFileParsed?.(language, filePath), cache
+    );
+    graphs.push({ language, data });
+  }
+  cache.prune();
+
+  const graphData = mergeGraphData(graphs);
+  fs.writeFileSync(
+    path.join(projectDir, 'graph-data.json'),
+    JSON.stringify(graphData, null, 2)
+  );
+  return graphData;
+};
+
+// Views whose data is cached in the project directory
+const VIEWS: ViewMode[] = ['3d-force', 'hierarchical', 'module-dependency', 'call-graph'];
+
+// Remove the project and graph data of every language and the cached views,
+// before analyzing a project again
+export const clearAnalysisData = (projectDir: string) => {
+  const dataFiles = ['graph-data.json', 'project-data.json', ...VIEWS.map(view => `${view}-data.json`)];
+  for (const analyzer of ANALYZERS) {
+    const paths = languageDataPaths(projectDir, analyzer.id);
+    dataFiles.push(paths.projectData, paths.graphData, ...VIEWS.map(view => `${view}-${analyzer.id}-data.json`));
+  }
+  for (const dataFile of dataFiles) {
+    fs.rmSync(path.resolve(projectDir, dataFile), { force: true });
+  }
+};
+
+// Read the parsed projects of a language. Projects analyzed before polyglot support
+// keep one in project-data.json for their one language, and projects analyzed before
+// sub-project detection one parsed from the root
+export const readProjectData = (
+  analyzer: LanguageAnalyzer,
+  projectDir: string,
+  metadata: StoredProject | null
+): RootProject[] | null => {
+  const candidates = [languageDataPaths(projectDir, analyzer.id).projectData];
+  if (!metadata?.languages && (metadata?.language || DEFAULT_LANGUAGE) === analyzer.id) {
+    candidates.push(path.join(projectDir, 'project-data.json'));
+  }
+  const projectDataPath = candidates.find(candidate => fs.existsSync(candidate));
+  if (!projectDataPath) {
+    return null;
+  }
+  const projectData = JSON.parse(fs.readFileSync(projectDataPath, 'utf8'));
+  return Array.isArray(projectData) ? projectData : [{ root: '.', project: projectData }];
+};
+
+// Read a language's graph, converting the parsed projects or parsing the project
+// again when it is missing
+export const loadLanguageGraphData = async (
+  analyzer: LanguageAnalyzer,
+  projectDir: string,
+  metadata: StoredProject | null
+): Promise<GraphData | null> => {
+  const paths = languageDataPaths(projectDir, analyzer.id);
+  if (fs.existsSync(paths.graphData)) {
+    return JSON.parse(fs.readFileSync(paths.graphData, 'utf8'));
+  }
+
+  const projects = readProjectData(analyzer, projectDir, metadata);
+  if (projects) {
+    const graphData = toLanguageGraphData(analyzer, projects);
+    fs.writeFileSync(paths.graphData, JSON.stringify(graphData, null, 2));
+    return graphData;
+  }
+
+  return metadata
+    ? analyzeLanguage(analyzer, getLanguageRoots(getSubProjects(metadata), analyzer.id), metadata.path, projectDir)
+    : null;
+};
+
+// Strip the server-side parts of an analyzer for the client
+export const toLanguageProfile = (analyzer: LanguageAnalyzer): LanguageProfile => ({
+  id: analyzer.id,
+  label: analyzer.label,
+  nodeTypes: analyzer.nodeTypes,
+  edgeTypes: analyzer.edgeTypes,
+  infoPanel: analyzer.infoPanel,
+  publicApiFilter: analyzer.publicApiFilter
+});
@@ -0,0 +1,43 @@
+// This module is server-only and should not be imported from client components
+// Rust analyzer: Cargo workspaces and crates
+
+import { LanguageAnalyzer } from '../../types/analyzer-types';
+import { RustProject } from '../../types/rust-types';
+import { parseRustProject, convertToGraphData } from '../parsers/rust-parser';
+import { findCargoPackages, findWorkspaceMembers } from '../parsers/cargo-manifest';
+
+export const rustAnalyzer: LanguageAnalyzer<RustProject> = {
+  id: 'rust',
+  label: 'Rust',
+  fileGlobs: ['**/*.rs'],
+  manifestFiles: ['Cargo.toml'],
+  nodeTypes: [
+    { id: 'function', label: 'Functions', color: '#4285F4' },
+    { id: 'method', label: 'Methods', color: '#03A9F4' },
+    { id: 'struct', label: 'Structs', color: '#EA4335' },
+    { id: 'enum', label: 'Enums', color: '#FBBC05' },
+    { id: 'trait', label: 'Traits', color: '#34A853' },
+    { id: 'impl', label: 'Implementations', color: '#9C27B0' },
+    { id: 'module', label: 'Modules', color: '#FF9800' },
+    { id: 'crate', label: 'Crates', color: '#00897B' },
+    { id: 'constant', label: 'Constants', color: '#795548' },
+    { id: 'type', label: 'Types', color: '#8BC34A' },
+    { id: 'macro', label: 'Macros', color: '#607D8B' }
+  ],
+  edgeTypes: [
+    { id: 'calls', label: 'Function Calls', color: '#4285F4' },
+    { id: 'implements', label: 'Implements', color: '#34A853' },
+    { id: 'uses', label: 'Uses', color: '#FBBC05' },
+    { id: 'contains', label: 'Contains', color: '#EA4335' },
+    { id: 'extends', label: 'Extends', color: '#9C27B0' },
+    { id: 'depends', label: 'Crate Dependencies', color: '#00897B' }
+  ],
+  publicApiFilter: true,
+
+  // Cargo packages may sit anywhere below the root, e.g. in workspace member dirs
+  detect: projectPath => findCargoPackages(projectPath).length > 0,
+  // Workspace members are parsed with their workspace, to resolve paths across its crates
+  getMemberRoots: findWorkspaceMembers,
+  parse: parseRustProject,
+  toGraphData: convertToGraphData
+};
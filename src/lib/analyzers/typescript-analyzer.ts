@@ -0,0 +1,41 @@
+// This module is server-only and should not be imported from client components
+// TypeScript and JavaScript analyzer: modules, exports and tsconfig path aliases
+
+import fs from 'fs';
+import path from 'path';
+import { LanguageAnalyzer } from '../../types/analyzer-types';
+import { TypeScriptProject } from '../../types/typescript-types';
+import { parseTypeScriptProject, convertToGraphData, convertToHierarchicalData } from '../parsers/typescript-parser';
+import { findWorkspacePackages } from '../parsers/node-workspace';
+
+export const typeScriptAnalyzer: LanguageAnalyzer<TypeScriptProject> = {
+  id: 'typescript',
+  label: 'TypeScript',
+  fileGlobs: ['**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}'],
+  manifestFiles: ['package.json', 'tsconfig.json', 'jsconfig.json'],
+  nodeTypes: [
+    { id: 'function', label: 'Functions', color: '#4285F4' },
+    { id: 'class', label: 'Classes', color: '#EA4335' },
+    { id: 'method', label: 'Methods', color: '#03A9F4' },
+    { id: 'interface', label: 'Interfaces', color: '#34A853' },
+    { id: 'type', label: 'Type Aliases', color: '#8BC34A' },
+    { id: 'enum', label: 'Enums', color: '#FBBC05' },
+    { id: 'module', label: 'Modules', color: '#FF9800' },
+    { id: 'external', label: 'External Packages', color: '#BDBDBD' }
+  ],
+  edgeTypes: [
+    { id: 'calls', label: 'Function Calls', color: '#4285F4' },
+    { id: 'imports', label: 'Imports', color: '#607D8B' },
+    { id: 'extends', label: 'Extends', color: '#9C27B0' },
+    { id: 'implements', label: 'Implements', color: '#34A853' },
+    { id: 'contains', label: 'Contains', color: '#EA4335' }
+  ],
+
+  // Node packages and TypeScript projects have a manifest or config at the root
+  detect: projectPath => ['package.json', 'tsconfig.json', 'jsconfig.json'].some(file => fs.existsSync(path.join(projectPath, file))),
+  // The packages of an npm, Yarn or pnpm workspace are parsed with it
+  getMemberRoots: findWorkspacePackages,
+  parse: parseTypeScriptProject,
+  toGraphData: convertToGraphData,
+  toHierarchicalData: convertToHierarchicalData
+};
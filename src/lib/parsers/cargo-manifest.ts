@@ -0,0 +1,307 @@
+// This module is server-only and should not be imported from client components
+// Reads Cargo.toml manifests to find a project's packages, workspace members,
+// crate targets and the dependencies between packages of the same project
+
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'smol-toml';
+import { FileFilter } from '../../types/analyzer-types';
+import { expandDirectoryPattern } from './file-filter';
+
+// A library or binary target: a crate and the root file of its module tree
+export type RustCrate = {
+  // Crate name as used in paths, e.g. `my_crate` for package `my-crate`. A binary
+  // that shares its name with another crate of the project gets a `_bin` suffix
+  name: string;
+  kind: 'lib' | 'bin';
+  file: string;
+  // Name of the Cargo package the crate belongs to, if it has a manifest
+  packageName?: string;
+};
+
+export type CargoPackage = {
+  name: string;
+  version?: string;
+  manifestPath: string;
+  features: string[];
+  // Names of the project's packages this package depends on
+  dependencies: string[];
+  // The same packages by the names its code uses for them, e.g. `core2` for
+  // `core2 = { path = "../core", package = "demo-core" }`
+  dependencyNames: Record<string, string>;
+  crates: RustCrate[];
+};
+
+// Only the parts of a manifest that are read here
+type DependencySpec = string | { path?: string, package?: string, workspace?: boolean };
+
+type CargoManifest = {
+  package?: { name?: string, version?: unknown, autobins?: boolean };
+  workspace?: {
+    members?: string[];
+    exclude?: string[];
+    dependencies?: Record<string, DependencySpec>;
+  };
+  lib?: { name?: string, path?: string };
+  bin?: { name?: string, path?: string }[];
+  features?: Record<string, unknown>;
+  dependencies?: Record<string, DependencySpec>;
+  'build-dependencies'?: Record<string, DependencySpec>;
+  target?: Record<string, { dependencies?: Record<string, DependencySpec> }>;
+};
+
+const readManifest = (manifestPath: string): CargoManifest | null => {
+  try {
+    return parse(fs.readFileSync(manifestPath, 'utf8')) as CargoManifest;
+  } catch (error) {
+    console.error(`Error reading Cargo manifest ${manifestPath}:`, error);
+    return null;
+  }
+};
+
+// Find every Cargo.toml below a directory, skipping hidden, build and dependency dirs
+// and those the filter excludes
+const findManifests = (dir: string, filter?: FileFilter): string[] => {
+  const manifests: string[] = [];
+
+  try {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.name.startsWith('.') ||
+          entry.name === 'node_modules' ||
+          entry.name === 'target') {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        if (!filter?.excludesDirectory(fullPath)) {
+          manifests.push(...findManifests(fullPath, filter));
+        }
+      } else if (entry.name === 'Cargo.toml') {
+        manifests.push(fullPath);
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading directory ${dir}:`, error);
+  }
+
+  return manifests;
+};
+
+// Member directories of the workspace whose Cargo.toml is in a directory, if any
+export const findWorkspaceMembers = (workspaceDir: string): string[] => {
+  const manifestPath = path.join(workspaceDir, 'Cargo.toml');
+  const workspace = fs.existsSync(manifestPath) ? readManifest(manifestPath)?.workspace : undefined;
+  if (!workspace) {
+    return [];
+  }
+
+  const excluded = new Set((workspace.exclude || []).map(dir => path.join(workspaceDir, dir)));
+  return (workspace.members || [])
+    .flatMap(pattern => expandDirectoryPattern(workspaceDir, pattern))
+    .filter(memberDir => !excluded.has(memberDir));
+};
+
+// Library and binary targets of a package, following Cargo's target
+// auto-discovery: src/lib.rs, src/main.rs, src/bin/*.rs and src/bin/*/main.rs
+const findTargets = (packageDir: string, packageName: string, manifest: CargoManifest): RustCrate[] => {
+  const crates: RustCrate[] = [];
+  const srcDir = path.join(packageDir, 'src');
+
+  const libPath = manifest.lib?.path
+    ? path.join(packageDir, manifest.lib.path)
+    : path.join(srcDir, 'lib.rs');
+  if (fs.existsSync(libPath)) {
+    crates.push({
+      name: (manifest.lib?.name || packageName).replace(/-/g, '_'),
+      kind: 'lib',
+      file: libPath,
+      packageName
+    });
+  }
+
+  const bins = new Map<string, string>();
+
+  for (const bin of manifest.bin || []) {
+    const binName = bin.name || packageName;
+    const binPath = bin.path
+      ? path.join(packageDir, bin.path)
+      : [
+          path.join(srcDir, 'bin', `${binName}.rs`),
+          path.join(srcDir, 'bin', binName, 'main.rs'),
+          ...(binName === packageName ? [path.join(srcDir, 'main.rs')] : [])
+        ].find(file => fs.existsSync(file));
+
+    if (binPath && fs.existsSync(binPath)) {
+      bins.set(binPath, binName);
+    }
+  }
+
+  if (manifest.package?.autobins !== false) {
+    const mainPath = path.join(srcDir, 'main.rs');
+    if (fs.existsSync(mainPath) && !bins.has(mainPath)) {
+      bins.set(mainPath, packageName);
+    }
+
+    const binDir = path.join(srcDir, 'bin');
+    if (fs.existsSync(binDir)) {
+      for (const entry of fs.readdirSync(binDir, { withFileTypes: true })) {
+        const binPath = entry.isDirectory()
+          ? path.join(binDir, entry.name, 'main.rs')
+          : path.join(binDir, entry.name);
+
+        if ((entry.isDirectory() || entry.name.endsWith('.rs')) && fs.existsSync(binPath) && !bins.has(binPath)) {
+          bins.set(binPath, entry.name.replace(/\.rs$/, ''));
+        }
+      }
+    }
+  }
+
+  for (const [binPath, binName] of bins) {
+    crates.push({ name: binName.replace(/-/g, '_'), kind: 'bin', file: binPath, packageName });
+  }
+
+  return crates;
+};
+
+// Find the Cargo packages of a project: every package manifest below the project
+// directory plus the members listed by its workspaces. Dependencies are resolved
+// to packages of the project by `path`, by `workspace = true` or by name
+export const findCargoPackages = (projectPath: string, filter?: FileFilter): CargoPackage[] => {
+  const manifests = new Map<string, CargoManifest>();
+
+  // Workspace members may live outside the directories found by the walk
+  for (const manifestPath of findManifests(projectPath, filter)) {
+    const manifest = manifests.get(manifestPath) || readManifest(manifestPath);
+    if (!manifest) continue;
+    manifests.set(manifestPath, manifest);
+
+    const workspaceDir = path.dirname(manifestPath);
+    const excluded = new Set((manifest.workspace?.exclude || []).map(dir => path.join(workspaceDir, dir)));
+
+    for (const pattern of manifest.workspace?.members || []) {
+      for (const memberDir of expandDirectoryPattern(workspaceDir, pattern)) {
+        const memberManifest = path.join(memberDir, 'Cargo.toml');
+        if (excluded.has(memberDir) || filter?.excludesDirectory(memberDir)) continue;
+        if (!manifests.has(memberManifest) && fs.existsSync(memberManifest)) {
+          const member = readManifest(memberManifest);
+          if (member) {
+            manifests.set(memberManifest, member);
+          }
+        }
+      }
+    }
+  }
+
+  // Workspaces by directory, so members can look up `workspace = true` dependencies
+  const workspaces = [...manifests.entries()]
+    .filter(([, manifest]) => manifest.workspace)
+    .map(([manifestPath, manifest]) => ({ dir: path.dirname(manifestPath), manifest }));
+
+  const packages: CargoPackage[] = [];
+  const packagesByDir = new Map<string, CargoPackage>();
+  const dependencySpecs = new Map<CargoPackage, { name: string, spec: DependencySpec, baseDir: string }[]>();
+
+  for (const [manifestPath, manifest] of manifests) {
+    const packageName = manifest.package?.name;
+    if (!packageName) continue;
+
+    const packageDir = path.dirname(manifestPath);
+    const cargoPackage: CargoPackage = {
+      name: packageName,
+      version: typeof manifest.package?.version === 'string' ? manifest.package.version : undefined,
+      manifestPath,
+      features: Object.keys(manifest.features || {}),
+      dependencies: [],
+      dependencyNames: {},
+      crates: findTargets(packageDir, packageName, manifest)
+    };
+
+    // The innermost workspace that contains the package
+    const workspace = workspaces
+      .filter(({ dir }) => packageDir === dir || packageDir.startsWith(`${dir}${path.sep}`))
+      .sort((a, b) => b.dir.length - a.dir.length)[0];
+
+    const dependencyTables = [
+      manifest.dependencies,
+      manifest['build-dependencies'],
+      ...Object.values(manifest.target || {}).map(target => target.dependencies)
+    ];
+
+    const specs = dependencyTables.flatMap(table => Object.entries(table || {}).map(([name, spec]) => {
+      // `foo.workspace = true` inherits the workspace's declaration of foo
+      const inherited = typeof spec === 'object' && spec.workspace && workspace
+        ? workspace.manifest.workspace?.dependencies?.[name]
+        : undefined;
+      return inherited
+        ? { name, spec: inherited, baseDir: workspace!.dir }
+        : { name, spec, baseDir: packageDir };
+    }));
+
+    packages.push(cargoPackage);
+    packagesByDir.set(packageDir, cargoPackage);
+    dependencySpecs.set(cargoPackage, specs);
+  }
+
+  const packageNames = new Set(packages.map(cargoPackage => cargoPackage.name));
+
+  for (const cargoPackage of packages) {
+    const dependencies = new Set<string>();
+
+    for (const { name, spec, baseDir } of dependencySpecs.get(cargoPackage) || []) {
+      const dependencyPath = typeof spec === 'object' ? spec.path : undefined;
+      const dependencyName = typeof spec === 'object' && spec.package ? spec.package : name;
+
+      const target = dependencyPath
+        ? packagesByDir.get(path.resolve(baseDir, dependencyPath))?.name
+        : packageNames.has(dependencyName) ? dependencyName : undefined;
+
+      if (target && target !== cargoPackage.name) {
+        dependencies.add(target);
+        cargoPackage.dependencyNames[name.replace(/-/g, '_')] = target;
+      }
+    }
+
+    cargoPackage.dependencies = [...dependencies];
+  }
+
+  // Libraries keep their names, since other crates refer to them by name
+  const crateNames = new Set<string>();
+  const allCrates = packages.flatMap(cargoPackage => cargoPackage.crates);
+  for (const crate of [...allCrates.filter(c => c.kind === 'lib'), ...allCrates.filter(c => c.kind === 'bin')]) {
+    const baseName = crateNames.has(crate.name) ? `${crate.name}_${crate.kind}` : crate.name;
+    let uniqueName = baseName;
+    for (let i = 2; crateNames.has(uniqueName); i++) {
+      uniqueName = `${baseName}_${i}`;
+    }
+    crate.name = uniqueName;
+    crateNames.add(uniqueName);
+  }
+
+  return packages;
+};
+
+// Crates of a project. Without any Cargo.toml, a conventional root file
+// (src/lib.rs, src/main.rs, lib.rs or main.rs) still starts a crate
+export const findRustCrates = (projectPath: string, packages = findCargoPackages(projectPath)): RustCrate[] => {
+  const crates = packages.flatMap(cargoPackage => cargoPackage.crates);
+
+  if (crates.length === 0) {
+    const rootFile = ['src/lib.rs', 'src/main.rs', 'lib.rs', 'main.rs']
+      .map(file => path.join(projectPath, file))
+      .find(file => fs.existsSync(file));
+
+    if (rootFile) {
+      crates.push({
+        name: path.basename(projectPath).replace(/-/g, '_'),
+        kind: path.basename(rootFile) === 'lib.rs' ? 'lib' : 'bin',
+        file: rootFile
+      });
+    }
+  }
+
+  return crates;
+};
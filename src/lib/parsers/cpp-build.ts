@@ -0,0 +1,133 @@
+// This module is server-only and should not be imported from client components
+// Reads compile_commands.json for the include paths of a C or C++ project and
+// resolves `#include` directives against the project tree
+
+import fs from 'fs';
+import path from 'path';
+
+// Include directories by translation unit, read from compile_commands.json
+export type CompileDatabase = {
+  // Include directories by absolute source file path
+  byFile: Map<string, string[]>;
+  // Include directories of all translation units, for headers, which have no entry of their own
+  includeDirs: string[];
+};
+
+// Dependency, build output and IDE directories, which hold no project sources
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'build', 'out', 'bin', 'obj', 'Debug', 'Release']);
+
+export const isIgnoredCppDirectory = (name: string): boolean => {
+  return name.startsWith('.') || name.startsWith('cmake-build-') || IGNORED_DIRECTORIES.has(name);
+};
+
+// compile_commands.json at the root or in a build directory right below it
+export const findCompileCommandsPath = (projectPath: string): string | undefined => {
+  const rootPath = path.join(projectPath, 'compile_commands.json');
+  if (fs.existsSync(rootPath)) return rootPath;
+
+  try {
+    return fs.readdirSync(projectPath, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => path.join(projectPath, entry.name, 'compile_commands.json'))
+      .find(candidate => fs.existsSync(candidate));
+  } catch {
+    return undefined;
+  }
+};
+
+// Split a shell command line into arguments, honoring quotes
+const splitCommand = (command: string): string[] => {
+  return [...command.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g)]
+    .map(match => (match[1] ?? match[2] ?? match[3]).replace(/\\(.)/g, '$1'));
+};
+
+// Include directories named by compiler arguments, e.g. `-Iinc`, `-I inc` or `-isystem /opt/inc`
+const getIncludeArguments = (args: string[]): string[] => {
+  const dirs: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = ['-I', '-iquote', '-isystem', '-idirafter', '/I'].find(prefix => args[i].startsWith(prefix));
+    if (!flag) continue;
+
+    const value = args[i].length > flag.length ? args[i].substring(flag.length) : args[++i];
+    if (value) dirs.push(value);
+  }
+
+  return dirs;
+};
+
+// Read the include directories of each translation unit. The database usually
+// holds absolute paths of the machine it was generated on, so paths are moved
+// to wherever the project now lives
+export const readCompileCommands = (projectPath: string): CompileDatabase | null => {
+  const databasePath = findCompileCommandsPath(projectPath);
+  if (!databasePath) return null;
+
+  try {
+    const entries: { directory: string, file: string, command?: string, arguments?: string[] }[] =
+      JSON.parse(fs.readFileSync(databasePath, 'utf8'));
+
+    // Find the original project root from an entry whose file moved, by the
+    // longest tail of its path that exists in the project
+    let originalRoot: string | null = null;
+    for (const entry of entries) {
+      const file = path.resolve(entry.directory, entry.file);
+      if (fs.existsSync(file)) continue;
+
+      const parts = file.split(/[\\/]/);
+      for (let i = 1; i < parts.length && originalRoot === null; i++) {
+        if (fs.existsSync(path.join(projectPath, ...parts.slice(i)))) {
+          originalRoot = parts.slice(0, i).join('/') || '/';
+        }
+      }
+      if (originalRoot !== null) break;
+    }
+
+    const relocate = (target: string): string => {
+      return originalRoot && (target === originalRoot || target.startsWith(`${originalRoot}/`))
+        ? path.join(projectPath, target.substring(originalRoot.length))
+        : target;
+    };
+
+    const byFile = new Map<string, string[]>();
+    const includeDirs = new Set<string>();
+    for (const entry of entries) {
+      const directory = relocate(entry.directory);
+      const args = entry.arguments || splitCommand(entry.command || '');
+      const dirs = getIncludeArguments(args).map(dir => relocate(path.resolve(directory, dir)));
+
+      byFile.set(relocate(path.resolve(entry.directory, entry.file)), dirs);
+      dirs.forEach(dir => includeDirs.add(dir));
+    }
+
+    return { byFile, includeDirs: [...includeDirs] };
+  } catch (error) {
+    console.error(`Error reading ${databasePath}:`, error);
+    return null;
+  }
+};
+
+// Create a function resolving an included header to a project file. Quoted
+// includes are looked up next to the including file first; then the include
+// directories of the file's translation unit are searched, or without a
+// compilation database, `include` directories and the project root. A quoted
+// include naming a unique project file by its trailing path resolves to it
+export const createIncludeResolver = (projectPath: string, files: string[], database: CompileDatabase | null) => {
+  const fileSet = new Set(files);
+  const defaultDirs = database
+    ? database.includeDirs
+    : [projectPath, ...new Set(files.map(file => path.dirname(file)).filter(dir => path.basename(dir) === 'include'))];
+
+  return (fromFile: string, header: string, system: boolean): string | undefined => {
+    const candidates = [
+      ...(system ? [] : [path.dirname(fromFile)]),
+      ...(database?.byFile.get(fromFile) || defaultDirs)
+    ].map(dir => path.resolve(dir, header));
+
+    const found = candidates.find(candidate => fileSet.has(candidate));
+    if (found || system) return found;
+
+    const matches = files.filter(file => file.endsWith(`${path.sep}${path.normalize(header)}`));
+    return matches.length === 1 ? matches[0] : undefined;
+  };
+};
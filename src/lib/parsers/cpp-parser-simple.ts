@@ -0,0 +1,505 @@
+// This module is server-only and should not be imported from client components
+// Uses regular expressions to parse C and C++ code. Kept as a fallback for
+// when the tree-sitter parsers are disabled or unavailable
+
+import fs from 'fs';
+import path from 'path';
+import {
+  CppNode,
+  CppDependency,
+  CppInclude,
+  CppUsingDirective,
+  CppSymbol,
+  CppTypeDeclaration,
+  CppCallSite
+} from '../../types/cpp-types';
+
+// Generate a unique ID for a C or C++ node
+const generateId = (type: string, name: string, path: string): string => {
+  return `${type}:${path}:${name}`;
+};
+
+// Join a namespace or class and a name into a qualified name
+const qualify = (scope: string, name: string): string => {
+  return scope ? `${scope}::${name}` : name;
+};
+
+// Name of a function with its parameter types, which tells overloads apart,
+// e.g. `geo::add(double,double)`
+const overloadName = (name: string, parameters: string[]): string => {
+  return `${name}(${parameters.join(',')})`;
+};
+
+// Keywords that look like calls or declarations to the regular expressions
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'sizeof', 'alignof', 'decltype', 'typeid', 'else', 'do', 'case', 'new', 'delete', 'throw', 'static_assert', 'defined', 'noexcept', 'alignas', 'using', 'typedef', 'template', 'operator', 'const_cast', 'static_cast', 'dynamic_cast', 'reinterpret_cast']);
+
+const TYPE_KINDS: Record<string, CppTypeDeclaration['kind']> = {
+  class: 'class',
+  struct: 'struct',
+  union: 'union',
+  enum: 'enum'
+};
+
+// Replace comments, string and character literals and the text of
+// preprocessor directives with spaces, keeping the indices of everything else
+const maskCode = (code: string): string => {
+  const chars = code.split('');
+
+  const blank = (start: number, end: number) => {
+    for (let i = start; i < end && i < chars.length; i++) {
+      if (chars[i] !== '\n') chars[i] = ' ';
+    }
+  };
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+
+    if (char === '/' && code[i + 1] === '/') {
+      const end = code.indexOf('\n', i);
+      blank(i, end === -1 ? code.length : end);
+      i = end === -1 ? code.length : end;
+    } else if (char === '/' && code[i + 1] === '*') {
+      const end = code.indexOf('*/', i + 2);
+      blank(i, end === -1 ? code.length : end + 2);
+      i = end === -1 ? code.length : end + 1;
+    } else if (char === '"' || char === '\'') {
+      let end = i + 1;
+      for (; end < code.length && code[end] !== char && code[end] !== '\n'; end++) {
+        if (code[end] === '\\') end++;
+      }
+      blank(i + 1, end);
+      i = end;
+    } else if (char === '#' && /^[ \t]*$/.test(code.substring(code.lastIndexOf('\n', i - 1) + 1, i))) {
+      // Directives may continue over lines ending in a backslash
+      let end = i;
+      do {
+        end = code.indexOf('\n', end + 1);
+      } while (end !== -1 && code[end - 1] === '\\');
+      blank(i + 1, end === -1 ? code.length : end);
+      i = end === -1 ? code.length : end;
+    }
+  }
+
+  return chars.join('');
+};
+
+// Index just past the brace that closes the one at openIndex, in masked code
+const findClosingBrace = (code: string, openIndex: number): number => {
+  let depth = 0;
+
+  for (let i = openIndex; i < code.length; i++) {
+    if (code[i] === '{') depth++;
+    if (code[i] === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return code.length;
+};
+
+// Remove template arguments, e.g. `std::map<int, std::vector<T>>` becomes `std::map`
+const stripTemplateArguments = (text: string): string => {
+  let result = text;
+  while (/<[^<>]*>/.test(result)) {
+    result = result.replace(/<[^<>]*>/g, '');
+  }
+  return result;
+};
+
+// Split a comma-separated list that may contain parentheses or template arguments
+const splitTopLevel = (list: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if (char === '(' || char === '<') depth++;
+    if (char === ')' || char === '>') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+};
+
+// Name of a type as written, without qualifiers, e.g. `Buffer` for `const Buffer &`
+const getTypeName = (text: string): string | undefined => {
+  const name = stripTemplateArguments(text)
+    .replace(/\b(const|volatile|struct|class|union|enum|typename|static|inline|constexpr|mutable|unsigned|signed)\b/g, '')
+    .replace(/[*&\s]/g, '');
+  return /^(::)?\w+(::\w+)*$/.test(name) && !KEYWORDS.has(name) && name !== 'auto' ? name : undefined;
+};
+
+// Words that end a type rather than name a parameter, e.g. `unsigned long`
+const BUILTIN_TYPES = new Set(['void', 'bool', 'char', 'wchar_t', 'char8_t', 'char16_t', 'char32_t', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned', 'const', 'volatile', 'auto']);
+
+// Parameter type as it tells overloads apart: without namespace or class
+// qualifiers, so a definition matches its declaration however it names the
+// types, and without the `const` of a parameter passed by value
+const normalizeParameterType = (text: string): string => {
+  const type = text
+    .replace(/\b(struct|class|union|enum|typename)\s+/g, '')
+    .replace(/(\b\w+\s*)?::\s*/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([*&<>,()[\]])\s*/g, '$1')
+    .trim();
+  return /[*&[(]/.test(type) ? type : type.replace(/\b(const|volatile)\b/g, '').replace(/\s+/g, ' ').trim();
+};
+
+// Types of a parameter list, without names or default values; `(void)` declares none
+const getParameterTypes = (params: string): string[] => {
+  const types = splitTopLevel(params).map(param => {
+    const text = param.replace(/=[\s\S]*$/, '').trim();
+    // `void (*cb)(int)` and `Args... args`
+    if (/\(\s*[*&]+\s*\w+\s*\)/.test(text)) return normalizeParameterType(text.replace(/(\(\s*[*&]+)\s*\w+\s*\)/, '$1)'));
+    if (/\.\.\.\s*\w+$/.test(text)) return normalizeParameterType(text.replace(/\w+$/, ''));
+
+    const array = text.match(/(\s*\[[^\]]*\])*$/)![0];
+    const named = text.substring(0, text.length - array.length).match(/^([\s\S]*?[\s*&>])(\w+)$/);
+    const typeWords = named ? named[1].replace(/\b(const|volatile|struct|class|union|enum|typename)\b/g, '') : '';
+    return normalizeParameterType(named && /\w/.test(typeWords) && !BUILTIN_TYPES.has(named[2]) ? `${named[1]}${array}` : text);
+  });
+  return types.length === 1 && types[0] === 'void' ? [] : types;
+};
+
+// Number of arguments of a call whose parenthesis opens at openIndex, in masked code
+const countArguments = (code: string, openIndex: number): number => {
+  let depth = 0;
+  let commas = 0;
+  let empty = true;
+
+  for (let i = openIndex; i < code.length; i++) {
+    const char = code[i];
+    if ((char === ')' || char === ']' || char === '}') && --depth === 0) break;
+    if (i > openIndex && /\S/.test(char)) empty = false;
+    if (char === '(' || char === '[' || char === '{') depth++;
+    if (char === ',' && depth === 1) commas++;
+  }
+
+  return empty ? 0 : commas + 1;
+};
+
+// Parse a single C or C++ file using regex patterns; relativePath names the
+// file in the IDs of functions with internal linkage
+export const parseCppFile = (filePath: string, relativePath: string): {
+  nodes: CppNode[];
+  dependencies: CppDependency[];
+  includes: CppInclude[];
+  usings: CppUsingDirective[];
+  calls: CppCallSite[];
+  declarations: CppTypeDeclaration[];
+  symbols: CppSymbol[];
+  prototypes: string[];
+} => {
+  try {
+    const code = fs.readFileSync(filePath, 'utf8');
+    const masked = maskCode(code);
+    const nodes: CppNode[] = [];
+    const dependencies: CppDependency[] = [];
+    const includes: CppInclude[] = [];
+    const usings: CppUsingDirective[] = [];
+    const calls: CppCallSite[] = [];
+    const declarations: CppTypeDeclaration[] = [];
+    const symbols: CppSymbol[] = [];
+    const nodeIds = new Set<string>();
+    const prototypes = new Set<string>();
+
+    const fileId = generateId('file', relativePath, '');
+    nodes.push({
+      id: fileId,
+      type: 'file',
+      name: path.basename(filePath),
+      path: relativePath,
+      file: filePath
+    });
+    nodeIds.add(fileId);
+
+    const addNode = (node: CppNode, parentId: string | null, isDefinition = true) => {
+      if (nodeIds.has(node.id)) {
+        // A definition takes over the node of an earlier declaration
+        if (isDefinition && prototypes.has(node.id)) {
+          const index = nodes.findIndex(existing => existing.id === node.id);
+          nodes[index] = { ...nodes[index], signature: node.signature, description: nodes[index].description || node.description };
+          prototypes.delete(node.id);
+        }
+        return;
+      }
+
+      nodeIds.add(node.id);
+      nodes.push(node);
+      if (!isDefinition) prototypes.add(node.id);
+      if (parentId) {
+        dependencies.push({
+          source: parentId,
+          target: node.id,
+          type: 'contains'
+        });
+      }
+    };
+
+    // Doxygen comment before a declaration: a `/** */` block or `///` lines
+    const getDescription = (index: number): string | undefined => {
+      const before = code.substring(0, index).replace(/\s*$/, '');
+      if (before.endsWith('*/')) {
+        const start = before.lastIndexOf('/*');
+        if (start === -1 || !/^\/\*[*!]/.test(before.substring(start))) return undefined;
+        return before.substring(start + 3, before.length - 2)
+          .split('\n')
+          .map(line => line.replace(/^\s*\* ?/, ''))
+          .join('\n')
+          .trim();
+      }
+
+      const lines = before.split('\n');
+      const comments: string[] = [];
+      while (lines.length > 0 && /^\s*\/\/[/!]/.test(lines[lines.length - 1])) {
+        comments.unshift(lines.pop()!.replace(/^\s*\/\/[/!]\s?/, ''));
+      }
+      return comments.length > 0 ? comments.join('\n').trim() : undefined;
+    };
+
+    // Extract includes and using directives
+    const includeRegex = /^[ \t]*#[ \t]*include[ \t]*([<"])([^>"\n]+)[>"]/gm;
+    let includeMatch;
+    while ((includeMatch = includeRegex.exec(code)) !== null) {
+      // Skip directives in comments
+      if (masked[includeMatch.index + includeMatch[0].indexOf('#')] !== '#') continue;
+      includes.push({ file: filePath, header: includeMatch[2].trim(), system: includeMatch[1] === '<' });
+    }
+
+    // Extract namespaces with the brace ranges of their bodies
+    const namespaces: { name: string, local: boolean, start: number, end: number }[] = [];
+    const findEnclosingNamespace = (index: number) => {
+      return namespaces.filter(namespace => index > namespace.start && index < namespace.end)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+    };
+
+    const namespaceRegex = /\b(?:inline\s+)?namespace\s+((?:\w+\s*::\s*)*\w+)?\s*\{/g;
+    let namespaceMatch;
+    while ((namespaceMatch = namespaceRegex.exec(masked)) !== null) {
+      const start = namespaceMatch.index + namespaceMatch[0].length - 1;
+      const outer = findEnclosingNamespace(namespaceMatch.index);
+      let name = outer?.name || '';
+      let parentId = name ? generateId('namespace', name, '') : fileId;
+
+      for (const segment of namespaceMatch[1] ? namespaceMatch[1].split('::').map(part => part.trim()) : []) {
+        name = qualify(name, segment);
+        const namespaceId = generateId('namespace', name, '');
+        addNode({
+          id: namespaceId,
+          type: 'namespace',
+          name: segment,
+          path: name,
+          file: filePath,
+          signature: `namespace ${name}`,
+          description: getDescription(namespaceMatch.index)
+        }, parentId);
+        parentId = namespaceId;
+      }
+
+      namespaces.push({ name, local: !!outer?.local || !namespaceMatch[1], start, end: findClosingBrace(masked, start) });
+    }
+
+    const usingRegex = /\busing\s+namespace\s+((?:::)?\w+(?:\s*::\s*\w+)*)\s*;/g;
+    let usingMatch;
+    while ((usingMatch = usingRegex.exec(masked)) !== null) {
+      usings.push({
+        file: filePath,
+        namespace: findEnclosingNamespace(usingMatch.index)?.name || '',
+        target: usingMatch[1].replace(/\s/g, '')
+      });
+    }
+
+    // Bodies of functions, to tell members from local declarations
+    const bodies: [number, number][] = [];
+    const isInBody = (index: number) => bodies.some(([start, end]) => index > start && index < end);
+
+    // Extract functions first so types declared in their bodies are skipped
+    const functionMatches: { match: RegExpExecArray, start: number, end: number }[] = [];
+    const functionRegex = /^[ \t]*(?:template\s*<[^;{}]*?>\s*)?((?:[\w:<>,*&~]+[ \t*&]+)*?)(~?\w+(?:\s*(?:<[^<>;{}()]*>)?\s*::\s*~?\w+)*)\s*\(([^;{}]*?)\)\s*((?:const|noexcept|override|final|volatile|&|\s)*)(?:->\s*[^;{]+?)?\s*(:[^;{]*)?(\{|;|=\s*(?:0|default|delete)\s*;)/gm;
+    let functionMatch;
+    while ((functionMatch = functionRegex.exec(masked)) !== null) {
+      const [match, returnType, name, , , , bodyStart] = functionMatch;
+      const simpleName = name.split('::').pop()!.trim();
+      if (KEYWORDS.has(simpleName) || KEYWORDS.has(returnType.trim().split(/\s+/)[0]) || isInBody(functionMatch.index)) continue;
+
+      const start = functionMatch.index + match.length - 1;
+      const end = bodyStart === '{' ? findClosingBrace(masked, start) : start;
+      if (bodyStart === '{') bodies.push([start, end]);
+      functionMatches.push({ match: functionMatch, start, end });
+      functionRegex.lastIndex = end;
+    }
+
+    // Extract classes, structs, unions and enums with the brace ranges of their bodies
+    const types: { declaration: CppTypeDeclaration, start: number, end: number }[] = [];
+    const findEnclosingType = (index: number) => {
+      return types.filter(type => index > type.start && index < type.end)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+    };
+
+    // Access of a member: the last access specifier in its class before it
+    const getAccess = (enclosing: { declaration: CppTypeDeclaration, start: number } | undefined, index: number): CppNode['visibility'] => {
+      if (!enclosing) return undefined;
+      const specifiers = [...masked.substring(enclosing.start, index).matchAll(/\b(public|protected|private)\s*:(?!:)/g)];
+      const last = specifiers[specifiers.length - 1]?.[1];
+      return (last || (enclosing.declaration.kind === 'class' ? 'private' : 'public')) as CppNode['visibility'];
+    };
+
+    const typeRegex = /\b(typedef\s+)?(class|struct|union|enum(?:\s+class|\s+struct)?)\s+(?:\[\[[^\]]*\]\]\s*)?(\w+(?:\s*::\s*\w+)*)?\s*(?:final\s*)?(:[^;{]*)?\{/g;
+    let typeMatch;
+    while ((typeMatch = typeRegex.exec(masked)) !== null) {
+      const [match, typedef, keyword, writtenName, baseList] = typeMatch;
+      if (isInBody(typeMatch.index)) continue;
+
+      const start = typeMatch.index + match.length - 1;
+      const end = findClosingBrace(masked, start);
+      const alias = typedef ? masked.substring(end).match(/^\s*(\w+)\s*;/)?.[1] : undefined;
+      const name = writtenName ? writtenName.replace(/\s/g, '') : alias;
+      if (!name) continue;
+
+      const kind = TYPE_KINDS[keyword.split(/\s+/)[0]];
+      const namespace = findEnclosingNamespace(typeMatch.index);
+      const outer = findEnclosingType(typeMatch.index);
+      const scopeName = outer ? outer.declaration.name : namespace?.name || '';
+      const qualifiedName = qualify(scopeName, name);
+      const id = generateId(kind, qualifiedName, namespace?.local ? relativePath : '');
+
+      addNode({
+        id,
+        type: kind,
+        name: name.split('::').pop()!,
+        path: namespace?.name || '',
+        file: filePath,
+        signature: code.substring(typeMatch.index, start).replace(/\s+/g, ' ').trim(),
+        description: getDescription(typeMatch.index),
+        visibility: getAccess(outer, typeMatch.index)
+      }, outer ? outer.declaration.id : namespace?.name ? generateId('namespace', namespace.name, '') : fileId);
+
+      const declaration: CppTypeDeclaration = {
+        id,
+        name: qualifiedName,
+        namespace: namespace?.name || '',
+        file: filePath,
+        kind,
+        bases: kind === 'enum' ? [] : splitTopLevel((baseList || '').replace(/^:/, ''))
+          .map(base => getTypeName(base.replace(/\b(public|protected|private|virtual)\b/g, '')))
+          .filter((base): base is string => !!base),
+        fields: {}
+      };
+
+      types.push({ declaration, start, end });
+      declarations.push(declaration);
+      if (alias && alias !== name) {
+        declarations.push({ ...declaration, name: qualify(scopeName, alias) });
+      }
+    }
+
+    // Extract data members for resolving calls through them
+    const fieldRegex = /^[ \t]*((?:[\w:]+(?:<[^;=(){}]*>)?)(?:[ \t]*[*&])*)[ \t]+[*&]?(\w+)\s*(?:\[[^\]]*\]\s*)*(?:=[^;]*|\{[^;}]*\})?;/gm;
+    let fieldMatch;
+    while ((fieldMatch = fieldRegex.exec(masked)) !== null) {
+      const enclosing = findEnclosingType(fieldMatch.index);
+      const typeName = getTypeName(fieldMatch[1]);
+      if (!enclosing || !typeName || isInBody(fieldMatch.index) || findEnclosingType(fieldMatch.index) !== enclosing) continue;
+      enclosing.declaration.fields[fieldMatch[2]] = typeName;
+    }
+
+    for (const { match: declarationMatch, start, end } of functionMatches) {
+      const [match, returnType, writtenName, params, , initializers, bodyStart] = declarationMatch;
+      const qualifiedParts = stripTemplateArguments(writtenName).replace(/\s/g, '').split('::');
+      const name = qualifiedParts.pop()!;
+      const qualifier = qualifiedParts.join('::');
+      const namespace = findEnclosingNamespace(declarationMatch.index);
+      const namespaceName = namespace?.name || '';
+      const enclosing = findEnclosingType(declarationMatch.index);
+      const enclosingName = enclosing?.declaration.name.split('::').pop();
+
+      // Without a return type, only constructors and destructors declare functions
+      const isConstructor = name.replace(/^~/, '') === (qualifier ? qualifiedParts[qualifiedParts.length - 1] : enclosingName);
+      if (!returnType.trim() && !isConstructor) continue;
+      if (initializers && !isConstructor) continue;
+
+      const isStatic = /\bstatic\b/.test(returnType);
+      const className = enclosing ? enclosing.declaration.name : qualifier ? qualify(namespaceName, qualifier) : undefined;
+      const type = className ? 'method' : 'function';
+      const local = enclosing ? !!namespace?.local : !!namespace?.local || (!className && isStatic);
+      const qualifiedName = qualify(className || namespaceName, name);
+      const parameters = getParameterTypes(params);
+      const id = generateId(type, overloadName(qualifiedName, parameters), local ? relativePath : '');
+      const isDefinition = bodyStart === '{';
+
+      addNode({
+        id,
+        type,
+        name,
+        path: namespaceName,
+        file: filePath,
+        signature: code.substring(declarationMatch.index, declarationMatch.index + match.length).replace(/\s+/g, ' ').replace(/[\s{;]+$/, '').trim(),
+        description: getDescription(declarationMatch.index),
+        visibility: enclosing ? getAccess(enclosing, declarationMatch.index) : className ? undefined : local ? 'private' : 'public'
+      }, enclosing ? enclosing.declaration.id : className ? null : namespaceName ? generateId('namespace', namespaceName, '') : fileId, isDefinition);
+
+      if (!symbols.some(symbol => symbol.id === id)) {
+        symbols.push({ id, name: qualifiedName, file: filePath, kind: type, local, parameters });
+      }
+      if (!isDefinition) continue;
+
+      // Constructor member initializers, e.g. `fd_(clamp(fd))`, hold calls too
+      const body = `${initializers || ''}${masked.substring(start, end)}`;
+
+      // Types of parameters and locals, without regard to scope
+      const locals = new Map<string, string | undefined>();
+      for (const param of splitTopLevel(params)) {
+        const paramMatch = param.replace(/=[\s\S]*$/, '').match(/^([\s\S]*?)\s*[*&\s]\s*(\w+)\s*(?:\[[^\]]*\])?$/);
+        if (paramMatch) locals.set(paramMatch[2], getTypeName(paramMatch[1]));
+      }
+
+      const localRegex = /(?:^|[;{}(]\s*)((?:const\s+)?(?:::)?\w+(?:::\w+)*(?:<[^;=(){}]*>)?)\s*[*&]*\s+[*&]*(\w+)\s*(=\s*new\s+(\w+(?:::\w+)*)|=|;|\(|\{|:)/g;
+      let localMatch;
+      while ((localMatch = localRegex.exec(body)) !== null) {
+        const [, typeText, localName, initializer, createdType] = localMatch;
+        if (KEYWORDS.has(typeText) || typeText === 'return') continue;
+
+        const typeName = /^(const\s+)?auto$/.test(typeText) ? createdType : getTypeName(typeText);
+        locals.set(localName, typeName);
+        // `Socket s(3);` and `Socket s{3};` construct the declared type
+        if (typeName && (initializer === '(' || initializer === '{')) {
+          calls.push({ source: id, file: filePath, namespace: namespaceName, className, callee: typeName, isConstructor: true });
+        }
+      }
+
+      const callRegex = /(?<![\w.>:])(new\s+)?((?:::)?[A-Za-z_]\w*(?:\s*(?:::|\.|->)\s*~?[A-Za-z_]\w*)*)\s*(?:<[^<>();]*>\s*)?\(/g;
+      let callMatch;
+      while ((callMatch = callRegex.exec(body)) !== null) {
+        const callee = callMatch[2].replace(/\s/g, '').replace(/->/g, '.');
+        const root = callee.split('.')[0];
+        if (KEYWORDS.has(callee) || KEYWORDS.has(root)) continue;
+        // A call through a local of unknown type is not resolvable; a local
+        // followed by parentheses is its declaration
+        if (locals.has(root) && (callee === root || !locals.get(root))) continue;
+
+        calls.push({
+          source: id,
+          file: filePath,
+          namespace: namespaceName,
+          className,
+          callee,
+          receiverType: callee.includes('.') ? locals.get(root) : undefined,
+          isConstructor: !!callMatch[1] || undefined,
+          arguments: callMatch[1] ? undefined : countArguments(body, callMatch.index + callMatch[0].length - 1)
+        });
+      }
+    }
+
+    return { nodes, dependencies, includes, usings, calls, declarations, symbols, prototypes: [...prototypes] };
+  } catch (error) {
+    console.error(`Error parsing C/C++ file ${filePath}:`, error);
+    return { nodes: [], dependencies: [], includes: [], usings: [], calls: [], declarations: [], symbols: [], prototypes: [] };
+  }
+};
@@ -0,0 +1,1228 @@
+// This module is server-only and should not be imported from client components
+// Uses tree-sitter to parse C and C++ code, falling back to the regex parser
+// when a native binding cannot be loaded or VISCODE_CPP_PARSER=regex is set
+
+import type Parser from 'tree-sitter';
+import fs from 'fs';
+import path from 'path';
+import {
+  CppNode,
+  CppDependency,
+  CppInclude,
+  CppUsingDirective,
+  CppSymbol,
+  CppTypeDeclaration,
+  CppCallSite,
+  CppProject,
+  CppGraphData,
+  CppHierarchicalData,
+  CppTreeNode
+} from '../../types/cpp-types';
+import { FileFilter, FileParsedListener, ParseCache } from '../../types/analyzer-types';
+import { parseCppFile as parseCppFileSimple } from './cpp-parser-simple';
+import { loadTreeSitterParser } from './tree-sitter-loader';
+import { createIncludeResolver, isIgnoredCppDirectory, readCompileCommands } from './cpp-build';
+import { parseWithCache } from './parse-cache';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+// Version of the results of parseCppFile, part of their parse cache key
+const PARSER_VERSION = 2;
+
+const C_EXTENSIONS = new Set(['.c', '.h']);
+const CPP_EXTENSIONS = new Set(['.cc', '.cpp', '.cxx', '.c++', '.hh', '.hpp', '.hxx', '.h++', '.ipp', '.inl', '.tpp']);
+
+// Whether a file name is a C or C++ source or header
+export const isCppFile = (name: string): boolean => {
+  const extension = path.extname(name).toLowerCase();
+  return C_EXTENSIONS.has(extension) || CPP_EXTENSIONS.has(extension);
+};
+
+// Helper to recursively find all C and C++ files in a directory, without those the filter excludes
+export const findCppFiles = (dir: string, filter?: FileFilter): string[] => {
+  const files: string[] = [];
+
+  try {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!isIgnoredCppDirectory(entry.name) && !filter?.excludesDirectory(fullPath)) {
+          files.push(...findCppFiles(fullPath, filter));
+        }
+      } else if (isCppFile(entry.name) && !filter?.excludesFile(fullPath)) {
+        files.push(fullPath);
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading directory ${dir}:`, error);
+  }
+
+  return files;
+};
+
+// Generate a unique ID for a C or C++ node
+const generateId = (type: string, name: string, path: string): string => {
+  return `${type}:${path}:${name}`;
+};
+
+// Join a namespace or class and a name into a qualified name
+const qualify = (scope: string, name: string): string => {
+  return scope ? `${scope}::${name}` : name;
+};
+
+// Name of a function with its parameter types, which tells overloads apart,
+// e.g. `geo::add(double,double)`
+const overloadName = (name: string, parameters: string[]): string => {
+  return `${name}(${parameters.join(',')})`;
+};
+
+// Parameter type as it tells overloads apart: without namespace or class
+// qualifiers, so a definition matches its declaration however it names the
+// types, and without the `const` of a parameter passed by value
+const normalizeParameterType = (text: string): string => {
+  const type = text
+    .replace(/\b(struct|class|union|enum|typename)\s+/g, '')
+    .replace(/(\b\w+\s*)?::\s*/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([*&<>,()[\]])\s*/g, '$1')
+    .trim();
+  return /[*&[(]/.test(type) ? type : type.replace(/\b(const|volatile)\b/g, '').replace(/\s+/g, ' ').trim();
+};
+
+// Whether a function with these parameter types can take a number of arguments
+const acceptsArguments = (parameters: string[], count: number): boolean => {
+  return parameters[parameters.length - 1] === '...' ? count >= parameters.length - 1 : count === parameters.length;
+};
+
+// Load the tree-sitter grammar for C or C++
+export const loadCppParser = (language: 'c' | 'cpp'): Promise<Parser | null> => {
+  return language === 'c'
+    ? loadTreeSitterParser('c', () => import('tree-sitter-c'))
+    : loadTreeSitterParser('cpp', () => import('tree-sitter-cpp'));
+};
+
+// Strip the delimiters from a Doxygen comment: `/** */`, `/*! */`, `///` or `//!`
+export const cleanDoxygenComment = (comment: string): string => {
+  return comment
+    .replace(/^\/\*[*!]/, '')
+    .replace(/\*\/$/, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*(\/\/[/!]|\*(?!\/))\s?/, ''))
+    .join('\n')
+    .trim();
+};
+
+// Result of parsing one file; includes, calls and bases are resolved
+// project-wide in parseCppProject
+export type CppFileParseResult = {
+  nodes: CppNode[];
+  dependencies: CppDependency[];
+  includes: CppInclude[];
+  usings: CppUsingDirective[];
+  calls: CppCallSite[];
+  declarations: CppTypeDeclaration[];
+  symbols: CppSymbol[];
+  // IDs of functions and methods the file declares without defining them
+  prototypes: string[];
+};
+
+// Parameters and local variables visible in a function body, with their types as written
+type CppLocals = Map<string, string | undefined>;
+
+// Where declarations are: the enclosing namespace, whether names have
+// internal linkage, and the node that contains them
+type CppScope = {
+  namespace: string;
+  local: boolean;
+  parentId: string;
+};
+
+// The class whose members are being processed
+type CppClassScope = {
+  name: string;
+  id: string;
+  access: CppNode['visibility'];
+  local: boolean;
+};
+
+// Statements that open a scope for the names they declare
+const BLOCK_SCOPES = new Set(['compound_statement', 'for_statement', 'for_range_loop', 'lambda_expression', 'catch_clause']);
+
+const TYPE_KINDS: Record<string, CppTypeDeclaration['kind']> = {
+  class_specifier: 'class',
+  struct_specifier: 'struct',
+  union_specifier: 'union',
+  enum_specifier: 'enum'
+};
+
+// Declarators that wrap the declared name, e.g. `*p`, `&r`, `a[4]` or `x = 1`
+const WRAPPING_DECLARATORS = new Set(['pointer_declarator', 'reference_declarator', 'array_declarator', 'init_declarator', 'attributed_declarator']);
+
+// Preprocessor conditionals, whose branches hold declarations
+const PREPROCESSOR_BLOCKS = new Set(['preproc_if', 'preproc_ifdef', 'preproc_else', 'preproc_elif', 'preproc_elifdef']);
+
+// Take the fields of a definition over those of a declaration, keeping
+// what only the declaration has, such as its doc comment or access
+const mergeDefinition = (declared: CppNode, defined: CppNode): CppNode => {
+  const merged = { ...declared };
+  for (const [key, value] of Object.entries(defined)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+};
+
+// Parse a single C or C++ file; relativePath names the file in the IDs of
+// functions with internal linkage
+export const parseCppFile = (filePath: string, relativePath: string, parser: Parser): CppFileParseResult => {
+  try {
+    const code = fs.readFileSync(filePath, 'utf8');
+    const tree = parser.parse(code);
+    const nodesById = new Map<string, CppNode>();
+    const dependencies: CppDependency[] = [];
+    const includes: CppInclude[] = [];
+    const usings: CppUsingDirective[] = [];
+    const calls: CppCallSite[] = [];
+    const declarations: CppTypeDeclaration[] = [];
+    const symbols = new Map<string, CppSymbol>();
+    const prototypes = new Set<string>();
+
+    const getText = (node: SyntaxNode): string => {
+      return code.substring(node.startIndex, node.endIndex);
+    };
+
+    // Collapse whitespace so multi-line signatures render on one line
+    const normalize = (text: string): string => {
+      return text.replace(/\s+/g, ' ').replace(/\(\s/g, '(').replace(/,?\s\)/g, ')');
+    };
+
+    // Declaration text up to its body, e.g. `int Socket::send(const char *data) const`
+    const getHeader = (node: SyntaxNode, bodyNode: SyntaxNode | null): string => {
+      const text = code.substring(node.startIndex, bodyNode ? bodyNode.startIndex : node.endIndex);
+      return normalize(text).replace(/[\s;{]+$/, '').trim();
+    };
+
+    // Doxygen comments right before a declaration; consecutive `///` lines form one comment
+    const getDescription = (node: SyntaxNode): string | undefined => {
+      const comments: string[] = [];
+      let current = node;
+      let comment = node.previousNamedSibling;
+
+      while (comment?.type === 'comment' && !code.substring(comment.endIndex, current.startIndex).trim()) {
+        const text = getText(comment);
+        if (!/^\/(\*[*!]|\/[/!])/.test(text)) break;
+        comments.unshift(cleanDoxygenComment(text));
+        if (text.startsWith('/*')) break;
+        current = comment;
+        comment = comment.previousNamedSibling;
+      }
+
+      return comments.length > 0 ? comments.join('\n') : undefined;
+    };
+
+    // Name written as `a::b::c`, without template arguments
+    const getQualifiedName = (node: SyntaxNode): string => {
+      return getText(node).replace(/<[^<>]*(<[^<>]*>[^<>]*)*>/g, '').replace(/\s+/g, '');
+    };
+
+    // Name of a type as written, without qualifiers or template arguments,
+    // e.g. `Buffer` for `const Buffer&` and `std::vector` for `std::vector<int>`
+    const getTypeName = (node: SyntaxNode | null): string | undefined => {
+      if (!node) return undefined;
+
+      switch (node.type) {
+        case 'type_identifier':
+        case 'qualified_identifier':
+          return getQualifiedName(node);
+        case 'template_type':
+          return getTypeName(node.childForFieldName('name'));
+        case 'class_specifier':
+        case 'struct_specifier':
+        case 'union_specifier':
+        case 'enum_specifier': {
+          const nameNode = node.childForFieldName('name');
+          return nameNode ? getQualifiedName(nameNode) : undefined;
+        }
+        default:
+          return undefined;
+      }
+    };
+
+    // Declarator wrapped by another; reference declarators have no field for it
+    const getInnerDeclarator = (node: SyntaxNode): SyntaxNode | null => {
+      return node.childForFieldName('declarator') || (node.type === 'reference_declarator' ? node.namedChildren[node.namedChildren.length - 1] || null : null);
+    };
+
+    // Name declared by a declarator, e.g. `p` for `*p = nullptr`
+    const getDeclaredName = (node: SyntaxNode | null): string | undefined => {
+      if (!node) return undefined;
+      if (node.type === 'identifier' || node.type === 'field_identifier') return getText(node);
+      if (WRAPPING_DECLARATORS.has(node.type)) return getDeclaredName(getInnerDeclarator(node));
+      if (node.type === 'parenthesized_declarator') return getDeclaredName(node.namedChildren[0] || null);
+      return undefined;
+    };
+
+    // Identifier a parameter declarator names, e.g. `cb` for `(*cb)(int)`
+    const getParameterName = (node: SyntaxNode | null): SyntaxNode | null => {
+      if (!node) return null;
+      if (node.type === 'identifier') return node;
+      if (WRAPPING_DECLARATORS.has(node.type) || node.type === 'function_declarator') return getParameterName(getInnerDeclarator(node));
+      if (node.type === 'parenthesized_declarator' || node.type === 'variadic_declarator') return getParameterName(node.namedChildren[0] || null);
+      return null;
+    };
+
+    // Types of the parameters of a function declarator, without their names
+    // or default values; `(void)` declares none
+    const getParameterTypes = (functionDeclarator: SyntaxNode): string[] => {
+      const types: string[] = [];
+      for (const parameter of functionDeclarator.childForFieldName('parameters')?.children || []) {
+        if (parameter.type === '...') {
+          types.push('...');
+          continue;
+        }
+        if (!parameter.type.endsWith('parameter_declaration')) continue;
+
+        const declarator = parameter.childForFieldName('declarator');
+        const end = parameter.type === 'optional_parameter_declaration'
+          ? (declarator || parameter.childForFieldName('type') || parameter).endIndex
+          : parameter.endIndex;
+        const nameNode = getParameterName(declarator);
+        types.push(normalizeParameterType(nameNode
+          ? code.substring(parameter.startIndex, nameNode.startIndex) + code.substring(nameNode.endIndex, end)
+          : code.substring(parameter.startIndex, end)));
+      }
+      return types.length === 1 && types[0] === 'void' ? [] : types;
+    };
+
+    // Function declarator of a function declaration or definition; null for
+    // variables, including function pointers
+    const getFunctionDeclarator = (node: SyntaxNode | null): SyntaxNode | null => {
+      if (!node) return null;
+      if (node.type === 'function_declarator') {
+        const inner = node.childForFieldName('declarator');
+        return inner && inner.type !== 'parenthesized_declarator' ? node : null;
+      }
+      return WRAPPING_DECLARATORS.has(node.type) && node.type !== 'init_declarator'
+        ? getFunctionDeclarator(getInnerDeclarator(node))
+        : null;
+    };
+
+    // Name of a declared function with the classes or namespaces qualifying
+    // it, e.g. `Socket` and `send` for `Socket::send`
+    const getFunctionName = (node: SyntaxNode): { qualifier: string, name: string } => {
+      if (node.type === 'qualified_identifier') {
+        const scope = node.childForFieldName('scope');
+        const inner = getFunctionName(node.childForFieldName('name')!);
+        const scopeName = scope ? getQualifiedName(scope) : '';
+        return { qualifier: [scopeName, inner.qualifier].filter(Boolean).join('::'), name: inner.name };
+      }
+      if (node.type === 'template_function') {
+        return getFunctionName(node.childForFieldName('name')!);
+      }
+      return { qualifier: '', name: normalize(getText(node)) };
+    };
+
+    // Dotted name of a member access chain with `->` written as `.`, e.g.
+    // `this.buf_`; null for anything else, such as `get().buf_`
+    const getDottedName = (node: SyntaxNode | null): string | null => {
+      if (!node) return null;
+
+      switch (node.type) {
+        case 'identifier':
+        case 'field_identifier':
+          return getText(node);
+        case 'this':
+          return 'this';
+        case 'qualified_identifier':
+        case 'template_function':
+          return getQualifiedName(node);
+        case 'parenthesized_expression':
+          return getDottedName(node.namedChildren[0] || null);
+        case 'field_expression': {
+          const objectName = getDottedName(node.childForFieldName('argument'));
+          const fieldNode = node.childForFieldName('field');
+          return objectName && fieldNode ? `${objectName}.${getQualifiedName(fieldNode)}` : null;
+        }
+        default:
+          return null;
+      }
+    };
+
+    const fileId = generateId('file', relativePath, '');
+    nodesById.set(fileId, {
+      id: fileId,
+      type: 'file',
+      name: path.basename(filePath),
+      path: relativePath,
+      file: filePath
+    });
+
+    const addNode = (node: CppNode, parentId: string | null, isDefinition = true) => {
+      const existing = nodesById.get(node.id);
+      if (!existing) {
+        nodesById.set(node.id, node);
+        if (!isDefinition) prototypes.add(node.id);
+      } else if (isDefinition && prototypes.has(node.id)) {
+        nodesById.set(node.id, mergeDefinition(existing, node));
+        prototypes.delete(node.id);
+      }
+
+      if (parentId) {
+        dependencies.push({
+          source: parentId,
+          target: node.id,
+          type: 'contains'
+        });
+      }
+    };
+
+    // Record the calls and constructions in a function body, tracking the
+    // types of locals so calls through them can be resolved
+    const collectCalls = (node: SyntaxNode, source: string, namespace: string, className: string | undefined, locals: CppLocals) => {
+      const addCall = (callee: string, isConstructor = false, argumentCount?: number) => {
+        const root = callee.split('.')[0];
+        // A call through a local of unknown type is not resolvable
+        if (callee.includes('.') && locals.has(root) && !locals.get(root)) return;
+        calls.push({
+          source,
+          file: filePath,
+          namespace,
+          className,
+          callee,
+          receiverType: callee.includes('.') ? locals.get(root) : undefined,
+          isConstructor: isConstructor || undefined,
+          arguments: argumentCount
+        });
+      };
+
+      switch (node.type) {
+        case 'call_expression': {
+          const callee = getDottedName(node.childForFieldName('function'));
+          const argumentList = node.childForFieldName('arguments');
+          if (callee) addCall(callee, false, argumentList?.namedChildren.filter(child => child.type !== 'comment').length);
+          break;
+        }
+
+        case 'new_expression': {
+          const typeName = getTypeName(node.childForFieldName('type'));
+          if (typeName) addCall(typeName, true);
+          break;
+        }
+
+        case 'declaration': {
+          const typeNode = node.childForFieldName('type');
+          const typeName = getTypeName(typeNode);
+
+          for (const declarator of node.childrenForFieldName('declarator')) {
+            const value = declarator.type === 'init_declarator' ? declarator.childForFieldName('value') : null;
+            // `Socket s(3);` and `Socket s{3};` construct the declared type
+            if (value && typeName && (value.type === 'argument_list' || value.type === 'initializer_list')) {
+              addCall(typeName, true);
+            }
+            if (value) collectCalls(value, source, namespace, className, locals);
+
+            const name = getDeclaredName(declarator);
+            if (!name) continue;
+            // `auto s = new Socket(...)` takes the type of the created object
+            const inferredType = typeNode?.type === 'placeholder_type_specifier' && value?.type === 'new_expression'
+              ? getTypeName(value.childForFieldName('type'))
+              : typeName;
+            locals.set(name, inferredType);
+          }
+          return;
+        }
+
+        case 'for_range_loop': {
+          const loopLocals = new Map(locals);
+          const name = getDeclaredName(node.childForFieldName('declarator'));
+          if (name) loopLocals.set(name, getTypeName(node.childForFieldName('type')));
+          for (const child of node.namedChildren) {
+            collectCalls(child, source, namespace, className, loopLocals);
+          }
+          return;
+        }
+
+        case 'parameter_declaration':
+        case 'optional_parameter_declaration': {
+          const name = getDeclaredName(node.childForFieldName('declarator'));
+          if (name) locals.set(name, getTypeName(node.childForFieldName('type')));
+          return;
+        }
+      }
+
+      const childLocals = BLOCK_SCOPES.has(node.type) ? new Map(locals) : locals;
+      for (const child of node.namedChildren) {
+        collectCalls(child, source, namespace, className, childLocals);
+      }
+    };
+
+    // Functions, methods declared or defined in a class, and methods defined
+    // out of line; overloads are told apart by their parameter types
+    const processFunction = (node: SyntaxNode, scope: CppScope, classScope: CppClassScope | null, isDefinition: boolean): boolean => {
+      const declarator = getFunctionDeclarator(node.childForFieldName('declarator'));
+      const nameNode = declarator?.childForFieldName('declarator');
+      if (!declarator || !nameNode) return false;
+
+      const { qualifier, name } = getFunctionName(nameNode);
+      const isStatic = node.namedChildren.some(child => child.type === 'storage_class_specifier' && getText(child) === 'static');
+      const className = classScope ? classScope.name : qualifier ? qualify(scope.namespace, qualifier) : undefined;
+      const type = className ? 'method' : 'function';
+      const local = classScope ? classScope.local : scope.local || (!className && isStatic);
+      const qualifiedName = qualify(className || scope.namespace, name);
+      const parameters = getParameterTypes(declarator);
+      const id = generateId(type, overloadName(qualifiedName, parameters), local ? relativePath : '');
+      const body = node.childForFieldName('body');
+
+      // Out-of-line definitions get their class as parent when resolved
+      addNode({
+        id,
+        type,
+        name,
+        path: scope.namespace,
+        file: filePath,
+        signature: getHeader(node, body),
+        description: getDescription(node),
+        visibility: classScope ? classScope.access : className ? undefined : local ? 'private' : 'public'
+      }, classScope ? classScope.id : className ? null : scope.parentId, isDefinition);
+
+      if (!symbols.has(id)) {
+        symbols.set(id, { id, name: qualifiedName, file: filePath, kind: type, local, parameters });
+      }
+
+      if (body) {
+        const locals: CppLocals = new Map();
+        const parameters = declarator.childForFieldName('parameters');
+        if (parameters) collectCalls(parameters, id, scope.namespace, className, locals);
+        // Constructor member initializers, e.g. `fd_(clamp(fd))`
+        for (const initializers of node.namedChildren.filter(child => child.type === 'field_initializer_list')) {
+          collectCalls(initializers, id, scope.namespace, className, locals);
+        }
+        collectCalls(body, id, scope.namespace, className, locals);
+      }
+      return true;
+    };
+
+    // Classes, structs, unions and enums with a body, and their members;
+    // alias is the typedef name of a C struct
+    const processType = (node: SyntaxNode, scope: CppScope, outer: CppClassScope | null, alias?: string) => {
+      const kind = TYPE_KINDS[node.type];
+      const body = node.childForFieldName('body');
+      const nameNode = node.childForFieldName('name');
+      const name = nameNode ? getQualifiedName(nameNode) : alias;
+      if (!kind || !body || !name) return;
+
+      const qualifiedName = qualify(outer ? outer.name : scope.namespace, name);
+      const id = generateId(kind, qualifiedName, scope.local ? relativePath : '');
+
+      addNode({
+        id,
+        type: kind,
+        name: name.split('::').pop()!,
+        path: scope.namespace,
+        file: filePath,
+        signature: getHeader(node, body),
+        description: getDescription(node) || (node.parent ? getDescription(node.parent) : undefined),
+        visibility: outer ? outer.access : undefined
+      }, outer ? outer.id : scope.parentId);
+
+      const declaration: CppTypeDeclaration = {
+        id,
+        name: qualifiedName,
+        namespace: scope.namespace,
+        file: filePath,
+        kind,
+        bases: [],
+        fields: {}
+      };
+
+      const baseClause = node.namedChildren.find(child => child.type === 'base_class_clause');
+      for (const base of baseClause?.namedChildren || []) {
+        const baseName = getTypeName(base);
+        if (baseName) declaration.bases.push(baseName);
+      }
+
+      const classScope: CppClassScope = {
+        name: qualifiedName,
+        id,
+        access: kind === 'class' ? 'private' : 'public',
+        local: scope.local
+      };
+
+      const processMembers = (container: SyntaxNode) => {
+        for (const member of container.namedChildren) {
+          switch (member.type) {
+            case 'access_specifier':
+              classScope.access = getText(member).replace(/\s*:$/, '') as CppNode['visibility'];
+              break;
+
+            case 'field_declaration': {
+              // Method declarations; function pointer fields are data members
+              if (processFunction(member, scope, classScope, false)) break;
+
+              const typeNode = member.childForFieldName('type');
+              if (typeNode && TYPE_KINDS[typeNode.type]) processType(typeNode, scope, classScope);
+
+              const typeName = getTypeName(typeNode);
+              for (const declarator of member.childrenForFieldName('declarator')) {
+                const fieldName = getDeclaredName(declarator);
+                if (fieldName && typeName) declaration.fields[fieldName] = typeName;
+              }
+              break;
+            }
+
+            case 'declaration':
+              processFunction(member, scope, classScope, false);
+              break;
+
+            case 'function_definition':
+              processFunction(member, scope, classScope, true);
+              break;
+
+            case 'template_declaration':
+            case 'preproc_if':
+            case 'preproc_ifdef':
+            case 'preproc_else':
+            case 'preproc_elif':
+              processMembers(member);
+              break;
+
+            default:
+              if (TYPE_KINDS[member.type]) processType(member, scope, classScope);
+          }
+        }
+      };
+      if (kind !== 'enum') processMembers(body);
+
+      declarations.push(declaration);
+      if (alias && alias !== name) {
+        declarations.push({ ...declaration, name: qualify(outer ? outer.name : scope.namespace, alias) });
+      }
+    };
+
+    // Declarations at file or namespace level
+    const processBlock = (container: SyntaxNode, scope: CppScope) => {
+      for (const child of container.namedChildren) {
+        switch (child.type) {
+          case 'preproc_include': {
+            const pathNode = child.childForFieldName('path');
+            if (pathNode) {
+              includes.push({
+                file: filePath,
+                header: getText(pathNode).slice(1, -1),
+                system: pathNode.type === 'system_lib_string'
+              });
+            }
+            break;
+          }
+
+          case 'namespace_definition': {
+            const nameNode = child.childForFieldName('name');
+            const body = child.childForFieldName('body');
+            let namespace = scope.namespace;
+            let parentId = scope.parentId;
+
+            // `namespace a::b { }` opens both namespaces; an anonymous namespace
+            // gives its members internal linkage
+            for (const segment of nameNode ? getText(nameNode).split('::').map(part => part.trim()) : []) {
+              namespace = qualify(namespace, segment);
+              const namespaceId = generateId('namespace', namespace, '');
+              addNode({
+                id: namespaceId,
+                type: 'namespace',
+                name: segment,
+                path: namespace,
+                file: filePath,
+                signature: `namespace ${namespace}`,
+                description: getDescription(child)
+              }, parentId);
+              parentId = namespaceId;
+            }
+
+            if (body) processBlock(body, { namespace, local: scope.local || !nameNode, parentId });
+            break;
+          }
+
+          case 'using_declaration':
+            if (child.children.some(part => part.type === 'namespace')) {
+              const target = child.namedChildren[child.namedChildren.length - 1];
+              if (target) usings.push({ file: filePath, namespace: scope.namespace, target: getQualifiedName(target) });
+            }
+            break;
+
+          case 'linkage_specification': {
+            const body = child.childForFieldName('body');
+            if (body?.type === 'declaration_list') {
+              processBlock(body, scope);
+            } else if (body) {
+              processBlock(child, scope);
+            }
+            break;
+          }
+
+          case 'template_declaration':
+            processBlock(child, scope);
+            break;
+
+          case 'function_definition':
+            processFunction(child, scope, null, true);
+            break;
+
+          case 'declaration': {
+            if (processFunction(child, scope, null, false)) break;
+            // `struct point { ... } origin;` declares a type along with a variable
+            const typeNode = child.childForFieldName('type');
+            if (typeNode && TYPE_KINDS[typeNode.type]) processType(typeNode, scope, null);
+            break;
+          }
+
+          case 'type_definition': {
+            const typeNode = child.childForFieldName('type');
+            const aliasNode = child.childrenForFieldName('declarator').find(declarator => declarator.type === 'type_identifier');
+            if (typeNode && TYPE_KINDS[typeNode.type]) processType(typeNode, scope, null, aliasNode ? getText(aliasNode) : undefined);
+            break;
+          }
+
+          default:
+            if (TYPE_KINDS[child.type]) {
+              processType(child, scope, null);
+            } else if (PREPROCESSOR_BLOCKS.has(child.type)) {
+              processBlock(child, scope);
+            }
+        }
+      }
+    };
+
+    processBlock(tree.rootNode, { namespace: '', local: false, parentId: fileId });
+
+    return {
+      nodes: [...nodesById.values()],
+      dependencies,
+      includes,
+      usings,
+      calls,
+      declarations,
+      symbols: [...symbols.values()],
+      prototypes: [...prototypes]
+    };
+  } catch (error) {
+    console.error(`Error parsing C/C++ file ${filePath}:`, error);
+    return { nodes: [], dependencies: [], includes: [], usings: [], calls: [], declarations: [], symbols: [], prototypes: [] };
+  }
+};
+
+// Resolve includes, calls and base classes to the IDs of project nodes.
+// Names are looked up from the caller's namespace outwards and through the
+// file's `using namespace` directives; system headers that are not part of
+// the project become `external` nodes. Duplicate edges are merged
+const resolveCppDependencies = (
+  projectPath: string,
+  nodes: CppNode[],
+  dependencies: CppDependency[],
+  includes: CppInclude[],
+  usings: CppUsingDirective[],
+  calls: CppCallSite[],
+  declarations: CppTypeDeclaration[],
+  symbols: CppSymbol[],
+  resolveInclude: (fromFile: string, header: string, system: boolean) => string | undefined
+): { nodes: CppNode[], dependencies: CppDependency[] } => {
+  const namespaces = new Set(nodes.filter(node => node.type === 'namespace').map(node => node.path));
+
+  // Types, functions and methods by qualified name
+  const types = new Map<string, CppTypeDeclaration[]>();
+  for (const declaration of declarations) {
+    types.set(declaration.name, [...(types.get(declaration.name) || []), declaration]);
+  }
+
+  // Types with internal linkage are preferred in their own file
+  const pickType = (name: string, file: string): CppTypeDeclaration | undefined => {
+    const candidates = types.get(name) || [];
+    return candidates.find(candidate => candidate.file === file) || candidates[0];
+  };
+
+  const usingsByFile = new Map<string, CppUsingDirective[]>();
+  for (const directive of usings) {
+    usingsByFile.set(directive.file, [...(usingsByFile.get(directive.file) || []), directive]);
+  }
+
+  // Namespaces to look names up in: the enclosing ones from the innermost out,
+  // then those named by `using namespace` directives of the file
+  const getLookupScopes = (namespace: string, file: string): string[] => {
+    const segments = namespace ? namespace.split('::') : [];
+    const scopes = segments.map((_, index) => segments.slice(0, segments.length - index).join('::'));
+    scopes.push('');
+
+    for (const directive of usingsByFile.get(file) || []) {
+      const directiveSegments = directive.namespace ? directive.namespace.split('::') : [];
+      const target = directiveSegments
+        .map((_, index) => qualify(directiveSegments.slice(0, directiveSegments.length - index).join('::'), directive.target))
+        .find(candidate => namespaces.has(candidate)) || directive.target;
+      scopes.push(target);
+    }
+    return scopes;
+  };
+
+  // Resolve a type name as written: a nested class of the enclosing classes,
+  // then a type of the enclosing or used namespaces
+  const resolveType = (typeText: string, file: string, namespace: string, className?: string): CppTypeDeclaration | undefined => {
+    const name = typeText.replace(/<[\s\S]*$/, '').replace(/\b(const|volatile|struct|class|union|enum|typename)\b/g, '').replace(/[*&\s]/g, '');
+    if (!name) return undefined;
+    if (name.startsWith('::')) return pickType(name.substring(2), file);
+
+    const classSegments = className ? className.split('::') : [];
+    for (let i = classSegments.length; i > 0; i--) {
+      const nested = pickType(qualify(classSegments.slice(0, i).join('::'), name), file);
+      if (nested) return nested;
+    }
+    for (const scope of getLookupScopes(namespace, file)) {
+      const declaration = pickType(qualify(scope, name), file);
+      if (declaration) return declaration;
+    }
+    return undefined;
+  };
+
+  // Out-of-line definitions name their class as written, e.g. `Socket::send`
+  // after `using namespace acme::net`, or a namespace, as in `void util::log()`;
+  // move them to the ID of the method or function they define
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const renamedSymbols = new Map<string, CppSymbol>();
+  const movedDependencies: CppDependency[] = [];
+  for (const symbol of symbols) {
+    const node = nodesById.get(symbol.id);
+    const separator = symbol.name.lastIndexOf('::');
+    const qualifier = symbol.name.substring(0, separator);
+    if (symbol.kind !== 'method' || !node || types.has(qualifier)) continue;
+
+    const declaration = resolveType(qualifier, symbol.file, '');
+    if (!declaration && !namespaces.has(qualifier)) continue;
+
+    const type = declaration ? 'method' : 'function';
+    const name = declaration ? `${declaration.name}::${node.name}` : symbol.name;
+    const id = generateId(type, overloadName(name, symbol.parameters), symbol.local ? path.relative(projectPath, symbol.file) : '');
+    const moved: CppNode = { ...node, id, type, path: declaration ? declaration.namespace : qualifier };
+    const existing = nodesById.get(id);
+
+    nodesById.delete(node.id);
+    nodesById.set(id, existing ? mergeDefinition(existing, moved) : moved);
+    renamedSymbols.set(symbol.id, { ...symbol, id, name, kind: type });
+    if (!declaration && !existing) {
+      movedDependencies.push({ source: generateId('namespace', qualifier, ''), target: id, type: 'contains' });
+    }
+  }
+
+  const renameId = (id: string) => renamedSymbols.get(id)?.id || id;
+  const resolvedNodes = [...nodesById.values()];
+  const resolvedSymbols = new Map<string, CppSymbol>();
+  for (const symbol of symbols) {
+    const resolvedSymbol = renamedSymbols.get(symbol.id) || symbol;
+    if (!resolvedSymbols.has(resolvedSymbol.id)) {
+      resolvedSymbols.set(resolvedSymbol.id, resolvedSymbol);
+    }
+  }
+
+  const functions = new Map<string, CppSymbol[]>();
+  for (const symbol of resolvedSymbols.values()) {
+    functions.set(symbol.name, [...(functions.get(symbol.name) || []), symbol]);
+  }
+
+  // Functions with internal linkage are only visible in their own file; of
+  // overloads, the first that takes as many arguments as given is picked
+  const pickFunction = (name: string, file: string, argumentCount?: number): CppSymbol | undefined => {
+    const candidates = functions.get(name) || [];
+    const local = candidates.filter(candidate => candidate.local && candidate.file === file);
+    const visible = local.length > 0 ? local : candidates.filter(candidate => !candidate.local);
+    return visible.find(candidate => argumentCount === undefined || acceptsArguments(candidate.parameters, argumentCount)) || visible[0];
+  };
+
+  // Base classes of each type, resolved where the type is declared
+  const basesByType = new Map<string, CppTypeDeclaration[]>();
+  const resolvedDependencies: CppDependency[] = [
+    ...dependencies.map(dep => ({ ...dep, source: renameId(dep.source), target: renameId(dep.target) })),
+    ...movedDependencies
+  ];
+  for (const declaration of declarations) {
+    if (basesByType.has(declaration.id)) continue;
+
+    const outerName = declaration.name.split('::').slice(0, -1).join('::') || undefined;
+    const bases = declaration.bases
+      .map(base => resolveType(base, declaration.file, declaration.namespace, outerName))
+      .filter((base): base is CppTypeDeclaration => !!base && base.id !== declaration.id);
+    basesByType.set(declaration.id, bases);
+    bases.forEach(base => resolvedDependencies.push({ source: declaration.id, target: base.id, type: 'extends' }));
+  }
+
+  // A method declared on a class or inherited from its bases
+  const findMethod = (declaration: CppTypeDeclaration, name: string, argumentCount?: number): string | undefined => {
+    const queue = [declaration];
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (visited.has(current.id)) continue;
+      visited.add(current.id);
+
+      const method = pickFunction(`${current.name}::${name}`, current.file, argumentCount);
+      if (method) return method.id;
+      queue.push(...(basesByType.get(current.id) || []));
+    }
+    return undefined;
+  };
+
+  // Type of a data member declared on a class or inherited from its bases
+  const findField = (declaration: CppTypeDeclaration, name: string): CppTypeDeclaration | undefined => {
+    const queue = [declaration];
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (visited.has(current.id)) continue;
+      visited.add(current.id);
+
+      const fieldType = current.fields[name];
+      if (fieldType) return resolveType(fieldType, current.file, current.namespace, current.name);
+      queue.push(...(basesByType.get(current.id) || []));
+    }
+    return undefined;
+  };
+
+  // Methods belong to their class, including those only defined out of line
+  const containedIds = new Set(resolvedDependencies.filter(dep => dep.type === 'contains').map(dep => dep.target));
+  for (const symbol of resolvedSymbols.values()) {
+    if (symbol.kind !== 'method' || containedIds.has(symbol.id)) continue;
+    const className = symbol.name.split('::').slice(0, -1).join('::');
+    const declaration = pickType(className, symbol.file);
+    if (declaration) {
+      resolvedDependencies.push({ source: declaration.id, target: symbol.id, type: 'contains' });
+    }
+  }
+
+  const externalNodes = new Map<string, CppNode>();
+  for (const include of includes) {
+    const source = generateId('file', path.relative(projectPath, include.file), '');
+    const resolved = resolveInclude(include.file, include.header, include.system);
+    let target: string;
+
+    if (resolved) {
+      target = generateId('file', path.relative(projectPath, resolved), '');
+    } else {
+      target = generateId('external', include.header, '');
+      if (!externalNodes.has(target)) {
+        externalNodes.set(target, {
+          id: target,
+          type: 'external',
+          name: include.header,
+          path: include.header,
+          file: ''
+        });
+      }
+    }
+
+    resolvedDependencies.push({ source, target, type: 'includes' });
+  }
+
+  for (const call of calls.map(site => ({ ...site, source: renameId(site.source) }))) {
+    const enclosing = call.className ? resolveType(call.className, call.file, '') : undefined;
+    const segments = call.callee.split('.');
+    const method = segments[segments.length - 1];
+    let target: string | undefined;
+
+    if (call.isConstructor) {
+      target = resolveType(call.callee, call.file, call.namespace, call.className)?.id;
+    } else if (segments.length === 1) {
+      // A method of the enclosing class, a function of the enclosing or used
+      // namespaces, a static or base class method such as `Base::init`, or a
+      // construction written as a call
+      const name = call.callee.replace(/^::/, '');
+      target = !name.includes('::') && enclosing ? findMethod(enclosing, name, call.arguments) : undefined;
+
+      const scopes = call.callee.startsWith('::') ? [''] : getLookupScopes(call.namespace, call.file);
+      for (const scope of scopes) {
+        if (target) break;
+        target = pickFunction(qualify(scope, name), call.file, call.arguments)?.id;
+      }
+
+      if (!target && name.includes('::')) {
+        const owner = resolveType(name.substring(0, name.lastIndexOf('::')), call.file, call.namespace, call.className);
+        target = owner ? findMethod(owner, name.substring(name.lastIndexOf('::') + 2), call.arguments) : undefined;
+      }
+      target = target || resolveType(name, call.file, call.namespace, call.className)?.id;
+    } else {
+      // Find the type of the object, then follow data members to the called method
+      const [root] = segments;
+      let type = root === 'this'
+        ? enclosing
+        : call.receiverType
+          ? resolveType(call.receiverType, call.file, call.namespace, call.className)
+          : enclosing ? findField(enclosing, root) : undefined;
+
+      for (const field of segments.slice(1, -1)) {
+        type = type ? findField(type, field) : undefined;
+      }
+      target = type ? findMethod(type, method, call.arguments) : undefined;
+    }
+
+    if (target && target !== call.source) {
+      resolvedDependencies.push({ source: call.source, target, type: 'calls' });
+    }
+  }
+
+  // Merge repeated edges, counting them in the weight
+  const mergedDependencies = new Map<string, CppDependency>();
+  for (const dep of resolvedDependencies) {
+    const key = `${dep.type}|${dep.source}|${dep.target}`;
+    const existing = mergedDependencies.get(key);
+    if (existing) {
+      existing.weight = (existing.weight || 1) + (dep.weight || 1);
+    } else {
+      mergedDependencies.set(key, { ...dep });
+    }
+  }
+
+  return {
+    nodes: [...resolvedNodes, ...externalNodes.values()],
+    dependencies: [...mergedDependencies.values()]
+  };
+};
+
+// Parse a C or C++ project and generate a CppProject object
+export const parseCppProject = async (
+  projectPath: string,
+  filter?: FileFilter,
+  onFileParsed?: FileParsedListener,
+  cache?: ParseCache
+): Promise<CppProject> => {
+  const sourceFiles = findCppFiles(projectPath, filter);
+  const database = readCompileCommands(projectPath);
+  const resolveInclude = createIncludeResolver(projectPath, sourceFiles, database);
+
+  // Headers are C++ when the project has any C++ sources
+  const hasCppSources = sourceFiles.some(file => CPP_EXTENSIONS.has(path.extname(file).toLowerCase()));
+
+  // The regex parser can be forced for comparison or to work around parser bugs
+  const useRegexParser = process.env.VISCODE_CPP_PARSER === 'regex';
+
+  const nodesById = new Map<string, CppNode>();
+  const declaredOnly = new Set<string>();
+  const allDependencies: CppDependency[] = [];
+  const allIncludes: CppInclude[] = [];
+  const allUsings: CppUsingDirective[] = [];
+  const allCalls: CppCallSite[] = [];
+  const allDeclarations: CppTypeDeclaration[] = [];
+  const symbolsById = new Map<string, CppSymbol>();
+
+  // Parse the files that changed since the last analysis
+  const tasks: { filePath: string, relativePath: string, language: 'c' | 'cpp', regex: boolean }[] = [];
+  for (const filePath of sourceFiles) {
+    const extension = path.extname(filePath).toLowerCase();
+    const language = extension === '.c' || (extension === '.h' && !hasCppSources) ? 'c' : 'cpp';
+    tasks.push({
+      filePath,
+      relativePath: path.relative(projectPath, filePath),
+      language,
+      regex: useRegexParser || !(await loadCppParser(language))
+    });
+  }
+  const results = await parseWithCache(cache, `cpp:${PARSER_VERSION}`, tasks, async changed => {
+    const parsed: CppFileParseResult[] = [];
+    for (const { filePath, relativePath, language, regex } of changed) {
+      const parser = regex ? null : await loadCppParser(language);
+      parsed.push(parser
+        ? parseCppFile(filePath, relativePath, parser)
+        : parseCppFileSimple(filePath, relativePath));
+      onFileParsed?.(filePath);
+    }
+    return parsed;
+  }, onFileParsed);
+
+  for (const result of results) {
+    // A definition takes over the node of a declaration in a header
+    const prototypes = new Set(result.prototypes);
+    for (const node of result.nodes) {
+      const existing = nodesById.get(node.id);
+      if (!existing) {
+        nodesById.set(node.id, node);
+        if (prototypes.has(node.id)) declaredOnly.add(node.id);
+      } else if (declaredOnly.has(node.id) && !prototypes.has(node.id)) {
+        nodesById.set(node.id, mergeDefinition(existing, node));
+        declaredOnly.delete(node.id);
+      }
+    }
+    for (const symbol of result.symbols) {
+      if (!symbolsById.has(symbol.id)) {
+        symbolsById.set(symbol.id, symbol);
+      }
+    }
+
+    allDependencies.push(...result.dependencies);
+    allIncludes.push(...result.includes);
+    allUsings.push(...result.usings);
+    allCalls.push(...result.calls);
+    allDeclarations.push(...result.declarations);
+  }
+
+  const resolved = resolveCppDependencies(
+    projectPath,
+    [...nodesById.values()],
+    allDependencies,
+    allIncludes,
+    allUsings,
+    allCalls,
+    allDeclarations,
+    [...symbolsById.values()],
+    resolveInclude
+  );
+
+  // Create project name from directory name
+  const projectName = path.basename(projectPath);
+
+  return {
+    name: projectName,
+    root: projectPath,
+    nodes: resolved.nodes,
+    dependencies: resolved.dependencies
+  };
+};
+
+// Convert CppProject to GraphData for visualization
+export const convertToGraphData = (project: CppProject): CppGraphData => {
+  const nodeTypes = {
+    file: { val: 12, color: '#FFC107' },
+    namespace: { val: 15, color: '#3F51B5' },
+    class: { val: 10, color: '#EA4335' },
+    struct: { val: 10, color: '#EA4335' },
+    union: { val: 8, color: '#9C27B0' },
+    enum: { val: 6, color: '#FBBC05' },
+    function: { val: 5, color: '#4285F4' },
+    method: { val: 3, color: '#03A9F4' },
+    external: { val: 2, color: '#BDBDBD' }
+  };
+
+  // Map nodes to graph format
+  const graphNodes = project.nodes.map(node => {
+    const nodeType = nodeTypes[node.type];
+
+    return {
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      val: nodeType.val,
+      color: nodeType.color,
+      group: node.type === 'file' ? path.dirname(node.path) : node.path,
+      path: node.path,
+      file: node.file,
+      signature: node.signature,
+      description: node.description,
+      visibility: node.visibility
+    };
+  });
+
+  // Map dependencies to links
+  const links = project.dependencies.map(dep => ({
+    source: dep.source,
+    target: dep.target,
+    type: dep.type,
+    value: dep.weight || 1
+  }));
+
+  return {
+    nodes: graphNodes,
+    links
+  };
+};
+
+// Convert CppProject to hierarchical data for tree visualization: directories,
+// then files, then the namespaces opened in each file, then the declarations
+// in them, with members under their class
+export const convertToHierarchicalData = (project: CppProject): CppHierarchicalData => {
+  const toTreeNode = (node: CppNode): CppTreeNode => ({
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    path: node.path,
+    file: node.file,
+    signature: node.signature,
+    description: node.description,
+    visibility: node.visibility,
+    children: []
+  });
+
+  const roots: CppTreeNode[] = [];
+  const directories = new Map<string, CppTreeNode>();
+  const getDirectory = (dir: string): CppTreeNode[] => {
+    if (dir === '.' || dir === '') return roots;
+
+    const existing = directories.get(dir);
+    if (existing) return existing.children;
+
+    const treeNode: CppTreeNode = { id: `module:${dir}`, name: path.basename(dir), type: 'module', path: dir, children: [] };
+    directories.set(dir, treeNode);
+    getDirectory(path.dirname(dir)).push(treeNode);
+    return treeNode.children;
+  };
+
+  const files = new Map<string, CppTreeNode>();
+  for (const node of project.nodes) {
+    if (node.type === 'file') {
+      const treeNode = toTreeNode(node);
+      files.set(node.path, treeNode);
+      getDirectory(path.dirname(node.path)).push(treeNode);
+    }
+  }
+
+  // Namespaces as opened in each file, keyed by `file|namespace`
+  const fileNamespaces = new Map<string, CppTreeNode>();
+  const getNamespace = (file: string, namespace: string): CppTreeNode | undefined => {
+    const fileNode = files.get(file);
+    if (!namespace || !fileNode) return fileNode;
+
+    const key = `${file}|${namespace}`;
+    const existing = fileNamespaces.get(key);
+    if (existing) return existing;
+
+    const parent = getNamespace(file, namespace.includes('::') ? namespace.substring(0, namespace.lastIndexOf('::')) : '')!;
+    const treeNode: CppTreeNode = {
+      id: `namespace:${key}`,
+      name: namespace.split('::').pop()!,
+      type: 'namespace',
+      path: namespace,
+      signature: `namespace ${namespace}`,
+      children: []
+    };
+    fileNamespaces.set(key, treeNode);
+    parent.children.push(treeNode);
+    return treeNode;
+  };
+
+  // Members and nested types nest under their class
+  const typeIds = new Set(project.nodes.filter(node => ['class', 'struct', 'union', 'enum'].includes(node.type)).map(node => node.id));
+  const parentIds = new Map<string, string>();
+  for (const dep of project.dependencies) {
+    if (dep.type === 'contains' && typeIds.has(dep.source)) {
+      parentIds.set(dep.target, dep.source);
+    }
+  }
+
+  const treeNodes = new Map<string, CppTreeNode>();
+  for (const node of project.nodes) {
+    if (node.type !== 'file' && node.type !== 'namespace') {
+      treeNodes.set(node.id, toTreeNode(node));
+    }
+  }
+
+  for (const node of project.nodes) {
+    const treeNode = treeNodes.get(node.id);
+    if (!treeNode) continue;
+
+    const parent = treeNodes.get(parentIds.get(node.id) || '') ||
+      (node.type !== 'external' ? getNamespace(path.relative(project.root, node.file), node.path) : undefined);
+    (parent ? parent.children : roots).push(treeNode);
+  }
+
+  return {
+    name: project.name,
+    children: roots
+  };
+};
@@ -0,0 +1,208 @@
+// This module is server-only and should not be imported from client components
+// Decides which files the walkers collect: a project's .gitignore files and the
+// include/exclude settings of its .viscode.json keep vendored code, generated
+// modules and fixtures out of the graph
+
+import fs from 'fs';
+import path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { FileFilter, ProjectConfig } from '../../types/analyzer-types';
+
+// Name of the config file, read from the project root
+export const CONFIG_FILE = '.viscode.json';
+
+// Test files and directories of the supported languages
+const DEFAULT_TEST_PATTERNS = [
+  'test/', 'tests/', '__tests__/', 'testdata/', '**/src/test/',
+  'test_*.py', '*_test.py', 'conftest.py',
+  '*_test.go',
+  '*.test.*', '*.spec.*',
+  '*Test.java', '*Tests.java', '*Test.kt', '*Tests.kt',
+  '*_test.c', '*_test.cc', '*_test.cpp', '*_unittest.cc'
+];
+
+// Settings of projects without a .viscode.json
+export const DEFAULT_PROJECT_CONFIG: ProjectConfig = {
+  include: [],
+  exclude: [],
+  gitignore: true,
+  tests: 'include',
+  testPatterns: DEFAULT_TEST_PATTERNS,
+  maxFileSize: 1024 * 1024,
+  languages: {}
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Check the settings of a config file, naming the first invalid one
+const validateConfig = (config: Record<string, unknown>) => {
+  for (const key of ['include', 'exclude', 'testPatterns']) {
+    if (key in config && !isStringArray(config[key])) {
+      throw new Error(`Invalid ${CONFIG_FILE}: "${key}" must be an array of strings`);
+    }
+  }
+  if ('gitignore' in config && typeof config.gitignore !== 'boolean') {
+    throw new Error(`Invalid ${CONFIG_FILE}: "gitignore" must be true or false`);
+  }
+  if ('tests' in config && config.tests !== 'include' && config.tests !== 'exclude') {
+    throw new Error(`Invalid ${CONFIG_FILE}: "tests" must be "include" or "exclude"`);
+  }
+  if ('maxFileSize' in config && (typeof config.maxFileSize !== 'number' || config.maxFileSize <= 0)) {
+    throw new Error(`Invalid ${CONFIG_FILE}: "maxFileSize" must be a positive number of bytes`);
+  }
+  const languages = config.languages;
+  if ('languages' in config && (
+    typeof languages !== 'object' || languages === null || Array.isArray(languages) ||
+    Object.values(languages).some(value => typeof value !== 'boolean')
+  )) {
+    throw new Error(`Invalid ${CONFIG_FILE}: "languages" must map language IDs to true or false`);
+  }
+};
+
+// Read the .viscode.json at a project's root, filling in the defaults
+export const loadProjectConfig = (projectPath: string): ProjectConfig => {
+  const configPath = path.join(projectPath, CONFIG_FILE);
+  if (!fs.existsSync(configPath)) {
+    return DEFAULT_PROJECT_CONFIG;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`Invalid ${CONFIG_FILE}: expected an object`);
+  }
+  validateConfig(config as Record<string, unknown>);
+  return { ...DEFAULT_PROJECT_CONFIG, ...config, file: CONFIG_FILE };
+};
+
+// Expand a pattern of directories below a base directory into those it matches,
+// e.g. the members `crates/*` of a Cargo workspace or `packages/**` of an npm
+// one. `**` matches any depth, without hidden directories and node_modules
+export const expandDirectoryPattern = (baseDir: string, pattern: string): string[] => {
+  const subdirectories = (dir: string): string[] => {
+    try {
+      return fs.readdirSync(dir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory())
+        .map(entry => path.join(dir, entry.name));
+    } catch {
+      return [];
+    }
+  };
+  const descendants = (dir: string): string[] => [
+    dir,
+    ...subdirectories(dir)
+      .filter(subdir => !path.basename(subdir).startsWith('.') && path.basename(subdir) !== 'node_modules')
+      .flatMap(descendants)
+  ];
+
+  let dirs = [baseDir];
+
+  for (const segment of pattern.split('/').filter(segment => segment && segment !== '.')) {
+    if (segment === '**') {
+      dirs = dirs.flatMap(descendants);
+      continue;
+    }
+    if (!/[*?[]/.test(segment)) {
+      dirs = dirs.map(dir => path.join(dir, segment));
+      continue;
+    }
+
+    const segmentRegex = new RegExp(`^${segment
+      .replace(/[.+^${}()|\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.')}$`);
+
+    dirs = dirs.flatMap(dir => subdirectories(dir).filter(subdir => segmentRegex.test(path.basename(subdir))));
+  }
+
+  return [...new Set(dirs)];
+};
+
+// A filter that also excludes some directories and everything below them, e.g.
+// the nested sub-projects of a root, which are analyzed on their own
+export const excludeDirectories = (filter: FileFilter, dirs: string[]): FileFilter => {
+  if (dirs.length === 0) {
+    return filter;
+  }
+  const isExcluded = (fullPath: string) => dirs.some(dir => fullPath === dir || fullPath.startsWith(`${dir}${path.sep}`));
+  return {
+    config: filter.config,
+    excludesDirectory: fullPath => isExcluded(fullPath) || filter.excludesDirectory(fullPath),
+    excludesFile: fullPath => isExcluded(fullPath) || filter.excludesFile(fullPath)
+  };
+};
+
+// Create the filter of a project from its config and .gitignore files. Paths
+// outside the project root are never excluded
+export const createFileFilter = (projectPath: string, config = loadProjectConfig(projectPath)): FileFilter => {
+  const include = config.include.length > 0 ? ignore().add(config.include) : null;
+  const exclude = ignore().add(config.exclude);
+  const tests = config.tests === 'exclude' ? ignore().add(config.testPatterns) : null;
+
+  // Rules of the .gitignore in each directory, by path relative to the root
+  const gitignores = new Map<string, Ignore | null>();
+  const getGitignore = (dir: string): Ignore | null => {
+    if (!gitignores.has(dir)) {
+      const gitignorePath = path.join(projectPath, dir, '.gitignore');
+      gitignores.set(dir, fs.existsSync(gitignorePath) ? ignore().add(fs.readFileSync(gitignorePath, 'utf8')) : null);
+    }
+    return gitignores.get(dir)!;
+  };
+
+  // Whether the .gitignore of the path's directory or of a directory above ignores it
+  const isGitignored = (relativePath: string, isDirectory: boolean): boolean => {
+    const segments = relativePath.split('/');
+    return segments.some((_, i) => {
+      const rules = getGitignore(segments.slice(0, i).join('/'));
+      return !!rules && rules.ignores(segments.slice(i).join('/') + (isDirectory ? '/' : ''));
+    });
+  };
+
+  // Path relative to the project root with forward slashes, or null outside it
+  const toRelativePath = (fullPath: string): string | null => {
+    const relativePath = path.relative(projectPath, fullPath);
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return null;
+    }
+    return relativePath.split(path.sep).join('/');
+  };
+
+  const isTooLarge = (fullPath: string): boolean => {
+    try {
+      return fs.statSync(fullPath).size > config.maxFileSize;
+    } catch {
+      return false;
+    }
+  };
+
+  return {
+    config,
+
+    excludesDirectory: fullPath => {
+      const relativePath = toRelativePath(fullPath);
+      if (!relativePath) {
+        return false;
+      }
+      return (config.gitignore && isGitignored(relativePath, true)) ||
+        exclude.ignores(`${relativePath}/`) ||
+        !!tests?.ignores(`${relativePath}/`);
+    },
+
+    excludesFile: fullPath => {
+      const relativePath = toRelativePath(fullPath);
+      if (!relativePath) {
+        return false;
+      }
+      return (config.gitignore && isGitignored(relativePath, false)) ||
+        exclude.ignores(relativePath) ||
+        !!tests?.ignores(relativePath) ||
+        (!!include && !include.ignores(relativePath)) ||
+        isTooLarge(fullPath);
+    }
+  };
+};
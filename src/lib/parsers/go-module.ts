@@ -0,0 +1,148 @@
+// This module is server-only and should not be imported from client components
+// Reads go.mod files to find a project's Go modules and maps package
+// directories to their import paths
+
+import fs from 'fs';
+import path from 'path';
+import { FileFilter } from '../../types/analyzer-types';
+
+export type GoModule = {
+  // Module path declared by the `module` directive, e.g. `example.com/app`
+  path: string;
+  // Directory containing the go.mod file
+  dir: string;
+  goVersion?: string;
+  // Versions of required modules by module path
+  requires: Record<string, string>;
+};
+
+// Directories the go tool ignores, besides those starting with `.` or `_`
+const IGNORED_DIRECTORIES = new Set(['vendor', 'testdata', 'node_modules']);
+
+// Whether the go tool skips a directory when listing packages
+export const isIgnoredGoDirectory = (name: string): boolean => {
+  return name.startsWith('.') || name.startsWith('_') || IGNORED_DIRECTORIES.has(name);
+};
+
+// Unquote a module path, which may be written as a Go string literal
+const unquote = (value: string): string => {
+  return value.replace(/^["`](.*)["`]$/, '$1');
+};
+
+// Parse the `module`, `go` and `require` directives of a go.mod file
+const readGoMod = (goModPath: string): GoModule | null => {
+  try {
+    const lines = fs.readFileSync(goModPath, 'utf8').split('\n').map(line => line.replace(/\/\/.*$/, '').trim());
+    const goModule: GoModule = { path: '', dir: path.dirname(goModPath), requires: {} };
+    let block: string | null = null;
+
+    for (const line of lines) {
+      if (!line) continue;
+
+      if (block) {
+        if (line === ')') {
+          block = null;
+        } else if (block === 'require') {
+          const [modulePath, version] = line.split(/\s+/);
+          goModule.requires[unquote(modulePath)] = version || '';
+        }
+        continue;
+      }
+
+      const [directive, ...args] = line.split(/\s+/);
+      if (args[0] === '(') {
+        block = directive;
+      } else if (directive === 'module' && args[0]) {
+        goModule.path = unquote(args[0]);
+      } else if (directive === 'go' && args[0]) {
+        goModule.goVersion = args[0];
+      } else if (directive === 'require' && args[0]) {
+        goModule.requires[unquote(args[0])] = args[1] || '';
+      }
+    }
+
+    return goModule.path ? goModule : null;
+  } catch (error) {
+    console.error(`Error reading ${goModPath}:`, error);
+    return null;
+  }
+};
+
+// Find the Go modules of a project: every go.mod below the root, outside
+// directories the go tool ignores and those the filter excludes
+export const findGoModules = (projectPath: string, filter?: FileFilter): GoModule[] => {
+  const modules: GoModule[] = [];
+
+  const visit = (dir: string) => {
+    try {
+      const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          if (!isIgnoredGoDirectory(entry.name) && !filter?.excludesDirectory(fullPath)) {
+            visit(fullPath);
+          }
+        } else if (entry.name === 'go.mod') {
+          const goModule = readGoMod(fullPath);
+          if (goModule) {
+            modules.push(goModule);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Error reading directory ${dir}:`, error);
+    }
+  };
+
+  visit(projectPath);
+  return modules;
+};
+
+// Directories of the modules the go.work file in a directory uses, if it has
+// one: `use ./app` or a `use ( ... )` block
+export const findGoWorkspaceModules = (workspaceDir: string): string[] => {
+  const goWorkPath = path.join(workspaceDir, 'go.work');
+  if (!fs.existsSync(goWorkPath)) {
+    return [];
+  }
+
+  const dirs: string[] = [];
+  let inUseBlock = false;
+  for (const line of fs.readFileSync(goWorkPath, 'utf8').split('\n').map(text => text.replace(/\/\/.*$/, '').trim())) {
+    if (inUseBlock) {
+      if (line === ')') {
+        inUseBlock = false;
+      } else if (line) {
+        dirs.push(path.resolve(workspaceDir, unquote(line)));
+      }
+      continue;
+    }
+
+    const [directive, ...args] = line.split(/\s+/);
+    if (directive === 'use' && args[0] === '(') {
+      inUseBlock = true;
+    } else if (directive === 'use' && args[0]) {
+      dirs.push(path.resolve(workspaceDir, unquote(args[0])));
+    }
+  }
+  return dirs;
+};
+
+// Import path of the package in a directory: the path of the nearest module
+// containing it joined with the directory's path within the module. Outside
+// any module, the path relative to the project root stands in for it, with
+// `.` for the root itself
+export const getGoImportPath = (projectPath: string, modules: GoModule[], dir: string): string => {
+  const goModule = modules
+    .filter(candidate => dir === candidate.dir || dir.startsWith(`${candidate.dir}${path.sep}`))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+
+  const relativePath = path.relative(goModule ? goModule.dir : projectPath, dir).split(path.sep).join('/');
+  if (!goModule) {
+    return relativePath || '.';
+  }
+
+  return relativePath ? `${goModule.path}/${relativePath}` : goModule.path;
+};
@@ -0,0 +1,260 @@
+// This module is server-only and should not be imported from client components
+// Uses regular expressions to parse Go code. Kept as a fallback for when the
+// tree-sitter parser in go-parser.ts is disabled or unavailable
+
+import fs from 'fs';
+import path from 'path';
+import {
+  GoNode,
+  GoDependency,
+  GoImport,
+  GoCallSite,
+  GoDeclaration,
+  GoMethodShape
+} from '../../types/go-types';
+
+// Generate a unique ID for a Go node
+const generateId = (type: string, name: string, path: string): string => {
+  return `${type}:${path}:${name}`;
+};
+
+// Keywords and builtins that look like calls to the regular expressions
+const KEYWORDS = new Set(['if', 'for', 'switch', 'select', 'func', 'return', 'go', 'defer', 'range', 'make', 'new', 'len', 'cap', 'append', 'copy', 'delete', 'panic', 'recover', 'print', 'println']);
+
+// Identifiers starting with an upper-case letter are exported from their package
+const isExported = (name: string): boolean => /^\p{Lu}/u.test(name);
+
+// Index just past the brace that closes the one at openIndex, skipping strings, runes and comments
+const findClosingBrace = (code: string, openIndex: number): number => {
+  let depth = 0;
+
+  for (let i = openIndex; i < code.length; i++) {
+    const char = code[i];
+
+    if (char === '"' || char === '\'' || char === '`') {
+      // Skip to the closing quote; raw strings have no escapes
+      for (i++; i < code.length && code[i] !== char; i++) {
+        if (code[i] === '\\' && char !== '`') i++;
+      }
+    } else if (char === '/' && code[i + 1] === '/') {
+      i = code.indexOf('\n', i);
+      if (i === -1) return code.length;
+    } else if (char === '/' && code[i + 1] === '*') {
+      i = code.indexOf('*/', i + 2);
+      if (i === -1) return code.length;
+      i++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return code.length;
+};
+
+// Number of values in a parameter or result list as written; `a, b int` declares two
+const countValues = (list: string): number => {
+  const inner = list.trim().replace(/^\(([\s\S]*)\)$/, '$1').trim();
+  return inner ? inner.split(',').length : 0;
+};
+
+// Parse a single Go file using regex patterns
+export const parseGoFile = (filePath: string, packagePath: string): {
+  package: string;
+  nodes: GoNode[];
+  dependencies: GoDependency[];
+  imports: GoImport[];
+  calls: GoCallSite[];
+  declarations: GoDeclaration[];
+} => {
+  try {
+    const code = fs.readFileSync(filePath, 'utf8');
+    const nodes: GoNode[] = [];
+    const dependencies: GoDependency[] = [];
+    const imports: GoImport[] = [];
+    const calls: GoCallSite[] = [];
+    const declarations: GoDeclaration[] = [];
+    const nodeIds = new Set<string>();
+
+    // Package clause; an external test package is a package of its own
+    const packageName = code.match(/^package\s+(\w+)/m)?.[1] || path.basename(path.dirname(filePath));
+    const packageImportPath = packageName.endsWith('_test') ? `${packagePath}_test` : packagePath;
+    const packageId = generateId('package', packageName, packageImportPath);
+
+    nodes.push({
+      id: packageId,
+      type: 'package',
+      name: packageName,
+      path: packageImportPath,
+      file: path.dirname(filePath),
+      signature: `package ${packageName}`
+    });
+    nodeIds.add(packageId);
+
+    const addNode = (node: GoNode, parentId: string | null) => {
+      if (nodeIds.has(node.id)) return;
+
+      nodeIds.add(node.id);
+      nodes.push(node);
+      if (parentId) {
+        dependencies.push({
+          source: parentId,
+          target: node.id,
+          type: 'contains'
+        });
+      }
+    };
+
+    // Extract imports, both single and grouped
+    const importSpecRegex = /^\s*(?:import\s+)?([\w.]+\s+)?"([^"]+)"/;
+    const importBlockRegex = /^import\s*\(([^)]*)\)/gm;
+    const importLineRegex = /^import\s+[^(\n]*$/gm;
+    const addImport = (line: string) => {
+      const specMatch = line.match(importSpecRegex);
+      if (specMatch) {
+        imports.push({
+          package: packageImportPath,
+          file: filePath,
+          alias: specMatch[1]?.trim(),
+          importPath: specMatch[2]
+        });
+      }
+    };
+
+    let importMatch;
+    while ((importMatch = importBlockRegex.exec(code)) !== null) {
+      importMatch[1].split('\n').forEach(addImport);
+    }
+    while ((importMatch = importLineRegex.exec(code)) !== null) {
+      addImport(importMatch[0]);
+    }
+
+    // Extract functions and methods with the calls in their bodies
+    const functionRegex = /^func\s+(?:\(\s*(?:(\w+)\s+)?(\*?\s*\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)\s*(?:\[[^\]]*\])?\s*\(([^)]*)\)\s*([^{\n]*)\{/gm;
+    let functionMatch;
+
+    while ((functionMatch = functionRegex.exec(code)) !== null) {
+      const [header, receiverName, receiverType, name, params, results] = functionMatch;
+      const receiverTypeName = receiverType?.replace(/[*\s]/g, '');
+      const qualifiedName = receiverTypeName ? `${receiverTypeName}.${name}` : name;
+      const type = receiverTypeName ? 'method' : 'function';
+      const id = generateId(type, qualifiedName, packageImportPath);
+
+      addNode({
+        id,
+        type,
+        name,
+        path: packageImportPath,
+        file: filePath,
+        signature: header.replace(/\s*\{$/, '').replace(/\s+/g, ' '),
+        visibility: isExported(name) ? 'public' : 'private'
+      }, type === 'function' ? packageId : null);
+
+      const resultList = results.trim();
+      declarations.push({
+        id,
+        package: packageImportPath,
+        file: filePath,
+        kind: type,
+        name: qualifiedName,
+        shape: { name, params: countValues(params), results: countValues(resultList) },
+        resultType: resultList.replace(/^\(/, '').split(',')[0].trim().split(/\s+/).pop() || undefined
+      });
+
+      // Only the receiver's type is known; calls through it resolve to its methods
+      const bodyStart = functionMatch.index + header.length - 1;
+      const body = code.substring(bodyStart, findClosingBrace(code, bodyStart));
+      const callRegex = /(?<![\w.])([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)\s*\(/g;
+      let callMatch;
+
+      while ((callMatch = callRegex.exec(body)) !== null) {
+        const callee = callMatch[1];
+        const root = callee.split('.')[0];
+        if (KEYWORDS.has(callee)) continue;
+
+        calls.push({
+          source: id,
+          package: packageImportPath,
+          file: filePath,
+          callee,
+          receiverType: receiverName && root === receiverName && callee !== root ? receiverType.replace(/\s/g, '') : undefined
+        });
+      }
+    }
+
+    // Extract struct and interface types, whose bodies list fields and methods,
+    // and other named types, at the top level or in a `type ( ... )` group
+    const typeRegex = /^(?:type\s+|\t| {2,})(\w+)(?:\[[^\]]*\])?\s+(=\s*)?(?:(struct|interface)\s*\{|([^\s{][^\n]*))/gm;
+    const typeBlocks: [number, number][] = [];
+    const typeBlockRegex = /^type\s*\(/gm;
+    let blockMatch;
+    while ((blockMatch = typeBlockRegex.exec(code)) !== null) {
+      const end = code.indexOf('\n)', blockMatch.index);
+      typeBlocks.push([blockMatch.index, end === -1 ? code.length : end]);
+    }
+
+    let typeMatch;
+    while ((typeMatch = typeRegex.exec(code)) !== null) {
+      const [match, name, alias, kind, otherType] = typeMatch;
+      const inBlock = typeBlocks.some(([start, end]) => typeMatch!.index > start && typeMatch!.index < end);
+      if (!match.startsWith('type') && !inBlock) continue;
+
+      const nodeType = kind === 'struct' ? 'struct' : kind === 'interface' ? 'interface' : 'type';
+      const id = generateId(nodeType, name, packageImportPath);
+
+      addNode({
+        id,
+        type: nodeType,
+        name,
+        path: packageImportPath,
+        file: filePath,
+        signature: kind ? `type ${name} ${kind}` : `type ${name} ${alias || ''}${otherType.trim()}`.substring(0, 80),
+        visibility: isExported(name) ? 'public' : 'private'
+      }, packageId);
+
+      const declaration: GoDeclaration = { id, package: packageImportPath, file: filePath, kind: nodeType, name };
+
+      if (kind) {
+        const bodyStart = typeMatch.index + match.length - 1;
+        const bodyLines = code.substring(bodyStart + 1, findClosingBrace(code, bodyStart) - 1).split('\n')
+          .map(line => line.replace(/\/\/.*$/, '').replace(/`[^`]*`/g, '').trim())
+          .filter(Boolean);
+        declaration.embedded = [];
+
+        if (kind === 'struct') {
+          declaration.fields = {};
+          for (const line of bodyLines) {
+            const fieldMatch = line.match(/^(\w+(?:\s*,\s*\w+)*)\s+(\S.*)$/);
+            const embeddedMatch = line.match(/^(\*?[\w.]+)$/);
+            if (fieldMatch) {
+              fieldMatch[1].split(',').forEach(fieldName => { declaration.fields![fieldName.trim()] = fieldMatch[2].trim(); });
+            } else if (embeddedMatch) {
+              declaration.embedded.push(embeddedMatch[1]);
+              declaration.fields[embeddedMatch[1].replace(/^\*/, '').split('.').pop()!] = embeddedMatch[1];
+            }
+          }
+        } else {
+          const methods: GoMethodShape[] = [];
+          for (const line of bodyLines) {
+            const methodMatch = line.match(/^(\w+)\s*\(([^)]*)\)\s*(.*)$/);
+            if (methodMatch) {
+              methods.push({ name: methodMatch[1], params: countValues(methodMatch[2]), results: countValues(methodMatch[3]) });
+            } else {
+              declaration.embedded.push(line);
+            }
+          }
+          declaration.methods = methods;
+        }
+      }
+
+      declarations.push(declaration);
+    }
+
+    return { package: packageImportPath, nodes, dependencies, imports, calls, declarations };
+  } catch (error) {
+    console.error(`Error parsing Go file ${filePath}:`, error);
+    return { package: packagePath, nodes: [], dependencies: [], imports: [], calls: [], declarations: [] };
+  }
+};
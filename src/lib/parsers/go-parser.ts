@@ -0,0 +1,1059 @@
+// This module is server-only and should not be imported from client components
+// Uses tree-sitter to parse Go code, falling back to the regex parser when the
+// native binding cannot be loaded or VISCODE_GO_PARSER=regex is set
+
+import type Parser from 'tree-sitter';
+import fs from 'fs';
+import path from 'path';
+import {
+  GoNode,
+  GoDependency,
+  GoImport,
+  GoCallSite,
+  GoDeclaration,
+  GoMethodShape,
+  GoProject,
+  GoGraphData,
+  GoHierarchicalData,
+  GoTreeNode
+} from '../../types/go-types';
+import { FileFilter, FileParsedListener, ParseCache } from '../../types/analyzer-types';
+import { parseGoFile as parseGoFileSimple } from './go-parser-simple';
+import { loadTreeSitterParser } from './tree-sitter-loader';
+import { GoModule, findGoModules, getGoImportPath, isIgnoredGoDirectory } from './go-module';
+import { parseWithCache } from './parse-cache';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+// Version of the results of parseGoFile, part of their parse cache key
+const PARSER_VERSION = 1;
+
+// Helper to recursively find all Go files in a directory, skipping the
+// directories the go tool ignores and files the filter excludes
+export const findGoFiles = (dir: string, filter?: FileFilter): string[] => {
+  const files: string[] = [];
+
+  try {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!isIgnoredGoDirectory(entry.name) && !filter?.excludesDirectory(fullPath)) {
+          files.push(...findGoFiles(fullPath, filter));
+        }
+      } else if (entry.name.endsWith('.go') && !filter?.excludesFile(fullPath)) {
+        files.push(fullPath);
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading directory ${dir}:`, error);
+  }
+
+  return files;
+};
+
+// Generate a unique ID for a Go node
+const generateId = (type: string, name: string, path: string): string => {
+  return `${type}:${path}:${name}`;
+};
+
+// Identifiers starting with an upper-case letter are exported from their package
+const isExported = (name: string): boolean => {
+  return /^\p{Lu}/u.test(name);
+};
+
+// Load the tree-sitter grammar for Go
+export const loadGoParser = (): Promise<Parser | null> => {
+  return loadTreeSitterParser('go', () => import('tree-sitter-go'));
+};
+
+// Result of parsing one file; imports, calls and declarations are resolved
+// project-wide in parseGoProject
+export type GoFileParseResult = {
+  // Import path of the file's package, with `_test` appended for an external test package
+  package: string;
+  nodes: GoNode[];
+  dependencies: GoDependency[];
+  imports: GoImport[];
+  calls: GoCallSite[];
+  declarations: GoDeclaration[];
+};
+
+// Parameters, receivers and local variables visible in a function body, with
+// the type of those whose type is locally known
+type GoLocals = Map<string, string | undefined>;
+
+// Statements that open a scope for the names they declare
+const BLOCK_SCOPES = new Set(['block', 'if_statement', 'for_statement', 'expression_switch_statement', 'type_switch_statement', 'select_statement', 'expression_case', 'type_case', 'communication_case', 'default_case']);
+
+// Parse a single Go file
+export const parseGoFile = (filePath: string, packagePath: string, parser: Parser): GoFileParseResult => {
+  try {
+    const code = fs.readFileSync(filePath, 'utf8');
+    const tree = parser.parse(code);
+    const nodes: GoNode[] = [];
+    const dependencies: GoDependency[] = [];
+    const imports: GoImport[] = [];
+    const calls: GoCallSite[] = [];
+    const declarations: GoDeclaration[] = [];
+    const nodeIds = new Set<string>();
+
+    const getText = (node: SyntaxNode): string => {
+      return code.substring(node.startIndex, node.endIndex);
+    };
+
+    // Collapse whitespace so multi-line signatures render on one line
+    const normalize = (text: string): string => {
+      return text.replace(/\s+/g, ' ').replace(/\(\s/g, '(').replace(/,?\s\)/g, ')');
+    };
+
+    // Doc comment: the comment lines directly above a declaration
+    const getDescription = (node: SyntaxNode): string | undefined => {
+      const lines: string[] = [];
+      let end = node.startIndex;
+
+      for (let comment = node.previousNamedSibling; comment?.type === 'comment'; comment = comment.previousNamedSibling) {
+        if ((code.substring(comment.endIndex, end).match(/\n/g) || []).length > 1) break;
+        lines.unshift(getText(comment).replace(/^\/\/ ?/, '').replace(/^\/\*|\*\/$/g, '').trim());
+        end = comment.startIndex;
+      }
+
+      return lines.length > 0 ? lines.join('\n').trim() || undefined : undefined;
+    };
+
+    // Name of a named type without pointer and type arguments, e.g. `Store` for `*Store[T]`
+    const getBaseTypeName = (node: SyntaxNode | null): string | undefined => {
+      if (!node) return undefined;
+
+      switch (node.type) {
+        case 'pointer_type':
+        case 'parenthesized_type':
+          return getBaseTypeName(node.namedChildren[0] || null);
+        case 'generic_type':
+          return getBaseTypeName(node.childForFieldName('type'));
+        case 'qualified_type':
+          return getBaseTypeName(node.childForFieldName('name'));
+        case 'type_identifier':
+          return getText(node);
+        default:
+          return undefined;
+      }
+    };
+
+    // Dotted name of a plain name or selector chain, e.g. `s.store.Get`;
+    // null for anything else, such as `New().Get` or `items[0].Run`
+    const getDottedName = (node: SyntaxNode | null): string | null => {
+      if (!node) return null;
+
+      switch (node.type) {
+        case 'identifier':
+          return getText(node);
+        case 'parenthesized_expression':
+          return getDottedName(node.namedChildren[0] || null);
+        case 'selector_expression': {
+          const operandName = getDottedName(node.childForFieldName('operand'));
+          const fieldNode = node.childForFieldName('field');
+          return operandName && fieldNode ? `${operandName}.${getText(fieldNode)}` : null;
+        }
+        default:
+          return null;
+      }
+    };
+
+    // Number of values in a parameter or result list; `a, b int` declares two
+    const countValues = (node: SyntaxNode | null): number => {
+      if (!node) return 0;
+      if (node.type !== 'parameter_list') return 1;
+
+      return node.namedChildren
+        .filter(param => param.type === 'parameter_declaration' || param.type === 'variadic_parameter_declaration')
+        .reduce((count, param) => count + Math.max(1, param.childrenForFieldName('name').length), 0);
+    };
+
+    // Type of the first value of a result list, as written
+    const getFirstResultType = (node: SyntaxNode | null): string | undefined => {
+      if (!node) return undefined;
+      if (node.type !== 'parameter_list') return normalize(getText(node));
+
+      const first = node.namedChildren.find(param => param.type === 'parameter_declaration');
+      const typeNode = first?.childForFieldName('type');
+      return typeNode ? normalize(getText(typeNode)) : undefined;
+    };
+
+    // Add parameters to the locals, with their declared types
+    const addParameters = (parameters: SyntaxNode | null, locals: GoLocals) => {
+      for (const param of parameters?.namedChildren || []) {
+        const typeNode = param.childForFieldName('type');
+        for (const nameNode of param.childrenForFieldName('name')) {
+          locals.set(getText(nameNode), param.type === 'parameter_declaration' && typeNode ? normalize(getText(typeNode)) : undefined);
+        }
+      }
+    };
+
+    // Type of a value when it is evident from the expression: a composite
+    // literal, `&T{}`, `new(T)`, or `f()` for the result of calling f
+    const inferType = (node: SyntaxNode | undefined): string | undefined => {
+      if (!node) return undefined;
+
+      switch (node.type) {
+        case 'composite_literal': {
+          const typeNode = node.childForFieldName('type');
+          return typeNode ? normalize(getText(typeNode)) : undefined;
+        }
+        case 'unary_expression': {
+          const operandType = getText(node).startsWith('&') ? inferType(node.childForFieldName('operand') || undefined) : undefined;
+          return operandType ? `*${operandType}` : undefined;
+        }
+        case 'call_expression': {
+          const functionNode = node.childForFieldName('function');
+          const argument = node.childForFieldName('arguments')?.namedChildren[0];
+          if (functionNode?.type === 'identifier' && getText(functionNode) === 'new' && argument) {
+            return `*${normalize(getText(argument))}`;
+          }
+          const callee = getDottedName(functionNode);
+          return callee ? `${callee}()` : undefined;
+        }
+        default:
+          return undefined;
+      }
+    };
+
+    // Bind names assigned from a list of values, typing each from its value.
+    // With a single multi-valued call on the right, the first name gets its first result
+    const assignLocals = (names: string[], values: SyntaxNode[], locals: GoLocals) => {
+      names.forEach((name, index) => {
+        const value = values.length === names.length ? values[index] : index === 0 ? values[0] : undefined;
+        locals.set(name, inferType(value));
+      });
+    };
+
+    // Package clause; an external test package is a package of its own
+    const packageClause = tree.rootNode.namedChildren.find(child => child.type === 'package_clause');
+    const packageName = packageClause?.namedChildren[0] ? getText(packageClause.namedChildren[0]) : path.basename(path.dirname(filePath));
+    const packageImportPath = packageName.endsWith('_test') ? `${packagePath}_test` : packagePath;
+    const packageId = generateId('package', packageName, packageImportPath);
+    const packageDoc = packageClause ? getDescription(packageClause) : undefined;
+
+    nodes.push({
+      id: packageId,
+      type: 'package',
+      name: packageName,
+      path: packageImportPath,
+      file: path.dirname(filePath),
+      signature: `package ${packageName}`,
+      // Only the package doc comment is kept, which by convention starts "Package name"
+      description: packageDoc?.startsWith('Package ') ? packageDoc : undefined
+    });
+    nodeIds.add(packageId);
+
+    const addNode = (node: GoNode, parentId: string | null) => {
+      if (nodeIds.has(node.id)) return;
+
+      nodeIds.add(node.id);
+      nodes.push(node);
+      if (parentId) {
+        dependencies.push({
+          source: parentId,
+          target: node.id,
+          type: 'contains'
+        });
+      }
+    };
+
+    // Record the calls in a function body or initializer, tracking the locals
+    // that shadow package-level names and the types of those that are known
+    const collectCalls = (node: SyntaxNode, source: string, locals: GoLocals) => {
+      switch (node.type) {
+        case 'func_literal': {
+          const literalLocals = new Map(locals);
+          addParameters(node.childForFieldName('parameters'), literalLocals);
+          const body = node.childForFieldName('body');
+          if (body) collectCalls(body, source, literalLocals);
+          return;
+        }
+
+        case 'call_expression': {
+          const callee = getDottedName(node.childForFieldName('function'));
+          if (callee) {
+            const [root, ...rest] = callee.split('.');
+            // A call through a local of unknown type, or of a local function value, is not resolvable
+            if (!locals.has(root)) {
+              calls.push({ source, package: packageImportPath, file: filePath, callee });
+            } else if (locals.get(root) && rest.length > 0) {
+              calls.push({ source, package: packageImportPath, file: filePath, callee, receiverType: locals.get(root) });
+            }
+          }
+          break;
+        }
+
+        case 'short_var_declaration': {
+          const right = node.childForFieldName('right');
+          if (right) collectCalls(right, source, locals);
+          const names = (node.childForFieldName('left')?.namedChildren || []).filter(child => child.type === 'identifier').map(getText);
+          assignLocals(names, right?.namedChildren || [], locals);
+          return;
+        }
+
+        case 'var_spec': {
+          const value = node.childForFieldName('value');
+          if (value) collectCalls(value, source, locals);
+          const names = node.childrenForFieldName('name').map(getText);
+          const typeNode = node.childForFieldName('type');
+          if (typeNode) {
+            names.forEach(name => locals.set(name, normalize(getText(typeNode))));
+          } else {
+            assignLocals(names, value?.namedChildren || [], locals);
+          }
+          return;
+        }
+
+        case 'range_clause': {
+          const right = node.childForFieldName('right');
+          if (right) collectCalls(right, source, locals);
+          for (const child of node.childForFieldName('left')?.namedChildren || []) {
+            if (child.type === 'identifier') locals.set(getText(child), undefined);
+          }
+          return;
+        }
+
+        case 'type_switch_statement':
+          for (const child of node.childForFieldName('alias')?.namedChildren || []) {
+            if (child.type === 'identifier') locals.set(getText(child), undefined);
+          }
+          break;
+      }
+
+      // Names declared in a block, or in the header of a statement, go out of scope after it
+      const childLocals = BLOCK_SCOPES.has(node.type) ? new Map(locals) : locals;
+      for (const child of node.namedChildren) {
+        collectCalls(child, source, childLocals);
+      }
+    };
+
+    // Functions and methods; methods are attached to their receiver type
+    // when dependencies are resolved, since it may be declared in another file
+    const processFunction = (node: SyntaxNode) => {
+      const nameNode = node.childForFieldName('name');
+      if (!nameNode) return;
+
+      const name = getText(nameNode);
+      const locals: GoLocals = new Map();
+      let qualifiedName = name;
+
+      if (node.type === 'method_declaration') {
+        const receiver = node.childForFieldName('receiver');
+        const receiverType = getBaseTypeName(receiver?.namedChildren[0]?.childForFieldName('type') || null);
+        if (!receiverType) return;
+
+        qualifiedName = `${receiverType}.${name}`;
+        addParameters(receiver, locals);
+      }
+
+      const parameters = node.childForFieldName('parameters');
+      const result = node.childForFieldName('result');
+      const body = node.childForFieldName('body');
+      const type = node.type === 'method_declaration' ? 'method' : 'function';
+      const id = generateId(type, qualifiedName, packageImportPath);
+
+      addNode({
+        id,
+        type,
+        name,
+        path: packageImportPath,
+        file: filePath,
+        signature: normalize(code.substring(node.startIndex, body ? body.startIndex : node.endIndex)).trim(),
+        description: getDescription(node),
+        visibility: isExported(name) ? 'public' : 'private'
+      }, type === 'function' ? packageId : null);
+
+      declarations.push({
+        id,
+        package: packageImportPath,
+        file: filePath,
+        kind: type,
+        name: qualifiedName,
+        shape: { name, params: countValues(parameters), results: countValues(result) },
+        resultType: getFirstResultType(result)
+      });
+
+      addParameters(parameters, locals);
+      if (body) collectCalls(body, id, locals);
+    };
+
+    // Type declarations: structs, interfaces, and other named types and aliases
+    const processTypeSpec = (spec: SyntaxNode, declaration: SyntaxNode) => {
+      const nameNode = spec.childForFieldName('name');
+      const typeNode = spec.childForFieldName('type');
+      if (!nameNode || !typeNode) return;
+
+      const name = getText(nameNode);
+      const kind = spec.type === 'type_alias' ? 'type'
+        : typeNode.type === 'struct_type' ? 'struct'
+        : typeNode.type === 'interface_type' ? 'interface'
+        : 'type';
+      const id = generateId(kind, name, packageImportPath);
+
+      // Struct and interface bodies are left out of the signature
+      const header = normalize(code.substring(spec.startIndex, typeNode.startIndex));
+      const signature = kind === 'type'
+        ? `type ${normalize(getText(spec))}`.substring(0, 80)
+        : `type ${header}${kind}`;
+
+      addNode({
+        id,
+        type: kind,
+        name,
+        path: packageImportPath,
+        file: filePath,
+        signature,
+        // A spec inside a `type ( ... )` group has its own doc comment
+        description: getDescription(declaration.namedChildren.length > 1 ? spec : declaration),
+        visibility: isExported(name) ? 'public' : 'private'
+      }, packageId);
+
+      const typeDeclaration: GoDeclaration = { id, package: packageImportPath, file: filePath, kind, name };
+
+      if (kind === 'struct') {
+        typeDeclaration.fields = {};
+        typeDeclaration.embedded = [];
+        const fieldList = typeNode.namedChildren.find(child => child.type === 'field_declaration_list');
+
+        for (const field of fieldList?.namedChildren || []) {
+          const fieldType = field.childForFieldName('type');
+          if (field.type !== 'field_declaration' || !fieldType) continue;
+
+          const typeText = normalize(getText(fieldType));
+          const names = field.childrenForFieldName('name').map(getText);
+          if (names.length === 0) {
+            // An embedded field is named after its type
+            typeDeclaration.embedded.push(typeText);
+            typeDeclaration.fields[getBaseTypeName(fieldType) || typeText] = typeText;
+          }
+          names.forEach(fieldName => { typeDeclaration.fields![fieldName] = typeText; });
+        }
+      } else if (kind === 'interface') {
+        typeDeclaration.methods = [];
+        typeDeclaration.embedded = [];
+
+        for (const element of typeNode.namedChildren) {
+          const elementName = element.childForFieldName('name');
+          if (element.type === 'method_elem' && elementName) {
+            typeDeclaration.methods.push({
+              name: getText(elementName),
+              params: countValues(element.childForFieldName('parameters')),
+              results: countValues(element.childForFieldName('result'))
+            });
+          } else if (element.type === 'type_elem') {
+            // Embedded interfaces, or type sets such as `~int | ~string`,
+            // which never resolve to an interface
+            typeDeclaration.embedded.push(normalize(getText(element)));
+          }
+        }
+      }
+
+      declarations.push(typeDeclaration);
+    };
+
+    for (const child of tree.rootNode.namedChildren) {
+      switch (child.type) {
+        case 'import_declaration':
+          for (const spec of child.descendantsOfType('import_spec')) {
+            const pathNode = spec.childForFieldName('path');
+            const aliasNode = spec.childForFieldName('name');
+            if (!pathNode) continue;
+
+            imports.push({
+              package: packageImportPath,
+              file: filePath,
+              alias: aliasNode ? getText(aliasNode) : undefined,
+              importPath: getText(pathNode).slice(1, -1)
+            });
+          }
+          break;
+
+        case 'function_declaration':
+        case 'method_declaration':
+          processFunction(child);
+          break;
+
+        case 'type_declaration':
+          for (const spec of child.namedChildren) {
+            if (spec.type === 'type_spec' || spec.type === 'type_alias') {
+              processTypeSpec(spec, child);
+            }
+          }
+          break;
+
+        case 'var_declaration':
+        case 'const_declaration':
+          // Package-level initializers run as part of the package
+          collectCalls(child, packageId, new Map());
+          break;
+      }
+    }
+
+    return { package: packageImportPath, nodes, dependencies, imports, calls, declarations };
+  } catch (error) {
+    console.error(`Error parsing Go file ${filePath}:`, error);
+    return { package: packagePath, nodes: [], dependencies: [], imports: [], calls: [], declarations: [] };
+  }
+};
+
+// Name a package is referred to by when imported without an alias, for packages
+// outside the project: the last path element without a major version suffix
+// and `go-` or `-go` affixes, e.g. `yaml` for `gopkg.in/yaml.v3` and `isatty`
+// for `github.com/mattn/go-isatty`
+const getDefaultPackageName = (importPath: string): string => {
+  const elements = importPath.split('/');
+  let name = elements[elements.length - 1];
+  if (/^v\d+$/.test(name) && elements.length > 1) {
+    name = elements[elements.length - 2];
+  }
+  return name.replace(/\.v\d+$/, '').replace(/^go-|-go$/g, '').replace(/[^\w]/g, '');
+};
+
+// What a type or name resolves to: a project declaration or a package outside the project
+type ResolvedType = { declaration?: GoDeclaration, external?: string };
+
+// Resolve import, call and embedding targets to the IDs of project nodes,
+// following each file's imports, and infer which types implement which
+// interfaces. Imports of packages outside the project become `external`
+// nodes; duplicate edges are merged
+const resolveGoDependencies = (
+  nodes: GoNode[],
+  dependencies: GoDependency[],
+  imports: GoImport[],
+  calls: GoCallSite[],
+  declarations: GoDeclaration[],
+  modules: GoModule[]
+): { nodes: GoNode[], dependencies: GoDependency[] } => {
+  const packageIds = new Map<string, string>();
+  const packageNames = new Map<string, string>();
+  for (const node of nodes) {
+    if (node.type === 'package') {
+      packageIds.set(node.path, node.id);
+      packageNames.set(node.path, node.name);
+    }
+  }
+
+  // Declarations keyed by `importPath:name`, with methods as `importPath:Type.Method`
+  const symbols = new Map<string, GoDeclaration>();
+  const methodsByType = new Map<string, GoDeclaration[]>();
+  for (const declaration of declarations) {
+    const key = `${declaration.package}:${declaration.name}`;
+    if (!symbols.has(key)) {
+      symbols.set(key, declaration);
+    }
+    if (declaration.kind === 'method') {
+      const typeKey = `${declaration.package}:${declaration.name.split('.')[0]}`;
+      methodsByType.set(typeKey, [...(methodsByType.get(typeKey) || []), declaration]);
+    }
+  }
+
+  // Names the imported packages go by in each file, and the dot imports whose
+  // exported names are used unqualified
+  const importsByFile = new Map<string, Map<string, string>>();
+  const dotImportsByFile = new Map<string, string[]>();
+  for (const imp of imports) {
+    if (imp.alias === '.') {
+      dotImportsByFile.set(imp.file, [...(dotImportsByFile.get(imp.file) || []), imp.importPath]);
+    } else if (imp.alias !== '_') {
+      if (!importsByFile.has(imp.file)) {
+        importsByFile.set(imp.file, new Map());
+      }
+      const name = imp.alias || packageNames.get(imp.importPath) || getDefaultPackageName(imp.importPath);
+      importsByFile.get(imp.file)!.set(name, imp.importPath);
+    }
+  }
+
+  // Versions of the modules required by the project's go.mod files
+  const requires = new Map<string, string>();
+  for (const goModule of modules) {
+    for (const [modulePath, version] of Object.entries(goModule.requires)) {
+      requires.set(modulePath, version);
+    }
+  }
+
+  const externalNodes = new Map<string, GoNode>();
+  const toExternal = (importPath: string): string => {
+    const id = generateId('external', importPath, '');
+    if (!externalNodes.has(id)) {
+      const required = [...requires.keys()].find(modulePath => importPath === modulePath || importPath.startsWith(`${modulePath}/`));
+      externalNodes.set(id, {
+        id,
+        type: 'external',
+        name: importPath,
+        path: importPath,
+        file: '',
+        signature: required ? `${required} ${requires.get(required)}` : undefined
+      });
+    }
+    return id;
+  };
+
+  // Look up a name as written in a file: `Name` in the file's package or a
+  // dot-imported one, or `pkg.Name` through the file's imports
+  const lookup = (packagePath: string, file: string, name: string): ResolvedType => {
+    const [qualifier, member] = name.split('.');
+
+    if (member !== undefined) {
+      const importPath = importsByFile.get(file)?.get(qualifier);
+      if (importPath === undefined) return {};
+
+      const declaration = symbols.get(`${importPath}:${member}`);
+      if (declaration) return { declaration };
+      return packageIds.has(importPath) ? {} : { external: importPath };
+    }
+
+    for (const candidate of [packagePath, ...(dotImportsByFile.get(file) || [])]) {
+      const declaration = symbols.get(`${candidate}:${name}`);
+      if (declaration) return { declaration };
+    }
+    return {};
+  };
+
+  // Resolve a type as written, e.g. `*Store`, `db.Conn` or `List[T]`, or the
+  // result type of a call written as `New()`
+  const resolveType = (typeText: string, packagePath: string, file: string, depth = 0): ResolvedType => {
+    if (depth > 5) return {};
+
+    if (typeText.endsWith('()')) {
+      const resolved = lookup(packagePath, file, typeText.slice(0, -2));
+      const declaration = resolved.declaration;
+      if (declaration?.kind === 'function' && declaration.resultType) {
+        return resolveType(declaration.resultType, declaration.package, declaration.file, depth + 1);
+      }
+      // A conversion, such as `Celsius(t)`, has the type converted to
+      return declaration?.kind === 'function' || declaration?.kind === 'method' ? {} : resolved;
+    }
+
+    const typeName = typeText.replace(/^\*+/, '').replace(/\[.*$/, '').trim();
+    const resolved = lookup(packagePath, file, typeName);
+    return resolved.declaration?.kind === 'function' || resolved.declaration?.kind === 'method' ? {} : resolved;
+  };
+
+  // Methods of an interface including those of embedded interfaces, or
+  // undefined when an embedded type is not a project interface
+  const getInterfaceMethods = (declaration: GoDeclaration, depth = 0): GoMethodShape[] | undefined => {
+    if (depth > 10) return undefined;
+
+    const methods = [...(declaration.methods || [])];
+    for (const embedded of declaration.embedded || []) {
+      const resolved = resolveType(embedded, declaration.package, declaration.file);
+      const embeddedMethods = resolved.declaration?.kind === 'interface'
+        ? getInterfaceMethods(resolved.declaration, depth + 1)
+        : undefined;
+      if (!embeddedMethods) return undefined;
+      methods.push(...embeddedMethods);
+    }
+    return methods;
+  };
+
+  // Method set of a type: its own methods, with value or pointer receivers,
+  // and those promoted from embedded fields
+  const getMethodSet = (declaration: GoDeclaration, depth = 0): Map<string, GoMethodShape> => {
+    const methodSet = new Map<string, GoMethodShape>();
+    if (depth > 10) return methodSet;
+
+    for (const method of methodsByType.get(`${declaration.package}:${declaration.name}`) || []) {
+      if (method.shape) methodSet.set(method.shape.name, method.shape);
+    }
+
+    for (const embedded of declaration.embedded || []) {
+      const resolved = resolveType(embedded, declaration.package, declaration.file).declaration;
+      const promoted = resolved?.kind === 'interface'
+        ? getInterfaceMethods(resolved) || []
+        : resolved ? [...getMethodSet(resolved, depth + 1).values()] : [];
+      for (const shape of promoted) {
+        if (!methodSet.has(shape.name)) methodSet.set(shape.name, shape);
+      }
+    }
+    return methodSet;
+  };
+
+  // Target of a method call on a type: the method declared on it or promoted
+  // from an embedded field, or the interface declaring it. Methods of types
+  // from other packages of the project are found the same way; calls on
+  // types from outside the project go to the external package
+  const findMethod = (declaration: GoDeclaration, name: string, depth = 0): string | undefined => {
+    if (depth > 10) return undefined;
+
+    const method = symbols.get(`${declaration.package}:${declaration.name}.${name}`);
+    if (method) return method.id;
+    if (declaration.methods?.some(shape => shape.name === name)) return declaration.id;
+
+    const embeddedTypes = (declaration.embedded || []).map(embedded => resolveType(embedded, declaration.package, declaration.file));
+    for (const embedded of embeddedTypes) {
+      const target = embedded.declaration ? findMethod(embedded.declaration, name, depth + 1) : undefined;
+      if (target) return target;
+    }
+    const external = embeddedTypes.find(embedded => embedded.external)?.external;
+    return external ? toExternal(external) : undefined;
+  };
+
+  // Type of a struct field, looking through embedded fields
+  const findField = (declaration: GoDeclaration, name: string, depth = 0): ResolvedType => {
+    if (depth > 10) return {};
+
+    const fieldType = declaration.fields?.[name];
+    if (fieldType) return resolveType(fieldType, declaration.package, declaration.file);
+
+    for (const embedded of declaration.embedded || []) {
+      const resolved = resolveType(embedded, declaration.package, declaration.file).declaration;
+      const field = resolved ? findField(resolved, name, depth + 1) : {};
+      if (field.declaration || field.external) return field;
+    }
+    return {};
+  };
+
+  const resolvedDependencies: GoDependency[] = [...dependencies];
+
+  // Methods belong to their receiver type, wherever in the package it is declared
+  for (const declaration of declarations) {
+    if (declaration.kind !== 'method') continue;
+
+    const receiver = symbols.get(`${declaration.package}:${declaration.name.split('.')[0]}`);
+    const source = receiver?.id || packageIds.get(declaration.package);
+    if (source) {
+      resolvedDependencies.push({ source, target: declaration.id, type: 'contains' });
+    }
+  }
+
+  for (const imp of imports) {
+    const source = packageIds.get(imp.package);
+    if (source) {
+      const target = packageIds.get(imp.importPath) || toExternal(imp.importPath);
+      resolvedDependencies.push({ source, target, type: 'imports' });
+    }
+  }
+
+  // Embedded fields and interfaces
+  for (const declaration of declarations) {
+    for (const embedded of declaration.embedded || []) {
+      const resolved = resolveType(embedded, declaration.package, declaration.file);
+      const target = resolved.declaration?.id || (resolved.external ? toExternal(resolved.external) : undefined);
+      if (target) {
+        resolvedDependencies.push({ source: declaration.id, target, type: 'embeds' });
+      }
+    }
+  }
+
+  for (const call of calls) {
+    const [root, ...rest] = call.callee.split('.');
+    let target: string | undefined;
+
+    if (call.receiverType) {
+      // `s.store.Get()`: follow the fields from the receiver's type to the method
+      let type = resolveType(call.receiverType, call.package, call.file);
+      for (const field of rest.slice(0, -1)) {
+        type = type.declaration ? findField(type.declaration, field) : type;
+      }
+      const method = rest[rest.length - 1];
+      target = type.declaration ? findMethod(type.declaration, method) : type.external ? toExternal(type.external) : undefined;
+    } else if (rest.length === 0) {
+      const declaration = lookup(call.package, call.file, root).declaration;
+      target = declaration?.kind === 'function' ? declaration.id : undefined;
+    } else if (importsByFile.get(call.file)?.has(root)) {
+      // `pkg.Func()`, or a method expression such as `pkg.Type.Method()`
+      const resolved = lookup(call.package, call.file, `${root}.${rest[0]}`);
+      if (resolved.declaration?.kind === 'function' && rest.length === 1) {
+        target = resolved.declaration.id;
+      } else if (resolved.declaration && rest.length === 2) {
+        target = findMethod(resolved.declaration, rest[1]);
+      } else if (resolved.external) {
+        target = toExternal(resolved.external);
+      }
+    }
+
+    if (target) {
+      resolvedDependencies.push({ source: call.source, target, type: 'calls' });
+    }
+  }
+
+  // Go types satisfy interfaces implicitly: a type implements an interface
+  // when its method set has every method of the interface with the same
+  // number of parameters and results. Interfaces without methods, and those
+  // embedding interfaces from outside the project, are left out
+  const interfaces = declarations
+    .filter(declaration => declaration.kind === 'interface')
+    .map(declaration => ({ declaration, methods: getInterfaceMethods(declaration) || [] }))
+    .filter(entry => entry.methods.length > 0);
+
+  for (const declaration of declarations) {
+    if (declaration.kind !== 'struct' && declaration.kind !== 'type') continue;
+
+    const methodSet = getMethodSet(declaration);
+    if (methodSet.size === 0) continue;
+
+    for (const entry of interfaces) {
+      const satisfies = entry.methods.every(method => {
+        const shape = methodSet.get(method.name);
+        return shape && shape.params === method.params && shape.results === method.results;
+      });
+      if (satisfies) {
+        resolvedDependencies.push({ source: declaration.id, target: entry.declaration.id, type: 'implements' });
+      }
+    }
+  }
+
+  // Merge repeated edges, counting them in the weight
+  const mergedDependencies = new Map<string, GoDependency>();
+  for (const dep of resolvedDependencies) {
+    const key = `${dep.type}|${dep.source}|${dep.target}`;
+    const existing = mergedDependencies.get(key);
+    if (existing) {
+      existing.weight = (existing.weight || 1) + (dep.weight || 1);
+    } else {
+      mergedDependencies.set(key, { ...dep });
+    }
+  }
+
+  return {
+    nodes: [...nodes, ...externalNodes.values()],
+    dependencies: [...mergedDependencies.values()]
+  };
+};
+
+// Parse a Go project and generate a GoProject object
+export const parseGoProject = async (
+  projectPath: string,
+  filter?: FileFilter,
+  onFileParsed?: FileParsedListener,
+  cache?: ParseCache
+): Promise<GoProject> => {
+  const modules = findGoModules(projectPath, filter);
+  const goFiles = findGoFiles(projectPath, filter);
+
+  // The regex parser can be forced for comparison or to work around parser bugs
+  const parser = process.env.VISCODE_GO_PARSER === 'regex' ? null : await loadGoParser();
+
+  const nodesById = new Map<string, GoNode>();
+  const allDependencies: GoDependency[] = [];
+  const allImports: GoImport[] = [];
+  const allCalls: GoCallSite[] = [];
+  const allDeclarations: GoDeclaration[] = [];
+
+  // Parse the files that changed since the last analysis, each as part of the
+  // package of its directory
+  const tasks = goFiles.map(filePath => ({
+    filePath,
+    packagePath: getGoImportPath(projectPath, modules, path.dirname(filePath))
+  }));
+  const kind = `go:${PARSER_VERSION}:${parser ? 'tree-sitter' : 'regex'}`;
+  const results = await parseWithCache(cache, kind, tasks, async changed => changed.map(({ filePath, packagePath }) => {
+    const result: GoFileParseResult = parser
+      ? parseGoFile(filePath, packagePath, parser)
+      : parseGoFileSimple(filePath, packagePath);
+    onFileParsed?.(filePath);
+    return result;
+  }), onFileParsed);
+
+  for (const result of results) {
+    // Every file declares its package; the doc comment may be in any of them
+    for (const node of result.nodes) {
+      const existing = nodesById.get(node.id);
+      if (!existing) {
+        nodesById.set(node.id, node);
+      } else if (!existing.description && node.description) {
+        existing.description = node.description;
+      }
+    }
+
+    allDependencies.push(...result.dependencies);
+    allImports.push(...result.imports);
+    allCalls.push(...result.calls);
+    allDeclarations.push(...result.declarations);
+  }
+
+  // Modules contain the packages whose import paths they are the longest prefix of
+  const moduleNodes: GoNode[] = modules.map(goModule => ({
+    id: generateId('module', goModule.path, goModule.path),
+    type: 'module',
+    name: goModule.path,
+    path: goModule.path,
+    file: path.join(goModule.dir, 'go.mod'),
+    signature: goModule.goVersion ? `module ${goModule.path} (go ${goModule.goVersion})` : `module ${goModule.path}`,
+    visibility: 'public'
+  }));
+
+  for (const node of nodesById.values()) {
+    if (node.type !== 'package') continue;
+
+    const owner = moduleNodes
+      .filter(moduleNode => node.path === moduleNode.path || node.path.startsWith(`${moduleNode.path}/`))
+      .sort((a, b) => b.path.length - a.path.length)[0];
+    if (owner) {
+      allDependencies.push({ source: owner.id, target: node.id, type: 'contains' });
+    }
+  }
+
+  const resolved = resolveGoDependencies(
+    [...moduleNodes, ...nodesById.values()],
+    allDependencies,
+    allImports,
+    allCalls,
+    allDeclarations,
+    modules
+  );
+
+  // Create project name from directory name
+  const projectName = path.basename(projectPath);
+
+  return {
+    name: projectName,
+    root: projectPath,
+    nodes: resolved.nodes,
+    dependencies: resolved.dependencies
+  };
+};
+
+// Convert GoProject to GraphData for visualization
+export const convertToGraphData = (project: GoProject): GoGraphData => {
+  const nodeTypes = {
+    module: { val: 20, color: '#FF5722' },
+    package: { val: 15, color: '#FF9800' },
+    struct: { val: 10, color: '#EA4335' },
+    interface: { val: 8, color: '#34A853' },
+    function: { val: 5, color: '#4285F4' },
+    method: { val: 3, color: '#03A9F4' },
+    type: { val: 4, color: '#8BC34A' },
+    external: { val: 2, color: '#BDBDBD' }
+  };
+
+  // Map nodes to graph format
+  const graphNodes = project.nodes.map(node => {
+    const nodeType = nodeTypes[node.type];
+
+    return {
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      val: nodeType.val,
+      color: nodeType.color,
+      group: node.path,
+      path: node.path,
+      file: node.file,
+      signature: node.signature,
+      description: node.description,
+      visibility: node.visibility
+    };
+  });
+
+  // Map dependencies to links
+  const links = project.dependencies.map(dep => ({
+    source: dep.source,
+    target: dep.target,
+    type: dep.type,
+    value: dep.weight || 1
+  }));
+
+  return {
+    nodes: graphNodes,
+    links
+  };
+};
+
+// Convert GoProject to hierarchical data for tree visualization, with
+// packages nested by their `/`-separated import paths
+export const convertToHierarchicalData = (project: GoProject): GoHierarchicalData => {
+  const packages: Record<string, GoTreeNode> = {};
+
+  // Package nodes stand for their import path, and a module for its path
+  // when it has no package at its root
+  const containers = new Map<string, GoNode>();
+  for (const node of project.nodes) {
+    if (node.type === 'module' && !containers.has(node.path)) {
+      containers.set(node.path, node);
+    } else if (node.type === 'package') {
+      containers.set(node.path, node);
+    }
+  }
+
+  // Create package nodes, using the parsed package where there is one
+  for (const node of project.nodes) {
+    const pathParts = node.path.split('/');
+    let currentPath = '';
+
+    for (const part of pathParts) {
+      currentPath = currentPath ? `${currentPath}/${part}` : part;
+
+      if (!packages[currentPath]) {
+        const container = containers.get(currentPath);
+        packages[currentPath] = {
+          id: container ? container.id : `package:${currentPath}`,
+          name: container?.type === 'package' ? container.name : part,
+          type: container ? container.type : 'package',
+          path: currentPath,
+          file: container?.file,
+          signature: container?.signature,
+          description: container?.description,
+          children: []
+        };
+      }
+    }
+  }
+
+  // Build the package hierarchy
+  Object.keys(packages).forEach(packagePath => {
+    const lastSlashIndex = packagePath.lastIndexOf('/');
+    if (lastSlashIndex !== -1) {
+      const parentPath = packagePath.substring(0, lastSlashIndex);
+      if (packages[parentPath]) {
+        packages[parentPath].children.push(packages[packagePath]);
+      }
+    }
+  });
+
+  // Nest methods under their receiver type
+  const parentIds = new Map<string, string>();
+  for (const dep of project.dependencies) {
+    if (dep.type === 'contains') {
+      parentIds.set(dep.target, dep.source);
+    }
+  }
+
+  const treeNodes = new Map<string, GoTreeNode>();
+  for (const node of project.nodes) {
+    if (node.type !== 'module' && node.type !== 'package') {
+      treeNodes.set(node.id, {
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        path: node.path,
+        file: node.file,
+        signature: node.signature,
+        description: node.description,
+        visibility: node.visibility,
+        children: []
+      });
+    }
+  }
+
+  // Add nodes to their receiver type, or else to their package
+  for (const node of project.nodes) {
+    const treeNode = treeNodes.get(node.id);
+    if (!treeNode) {
+      continue;
+    }
+
+    const parent = treeNodes.get(parentIds.get(node.id) || '');
+    if (parent) {
+      parent.children.push(treeNode);
+    } else if (packages[node.path]) {
+      packages[node.path].children.push(treeNode);
+    }
+  }
+
+  // Find root packages (those without parents)
+  const rootPackages = Object.values(packages).filter(treeNode => {
+    const packagePath = treeNode.path || '';
+    return !packagePath.includes('/') || !packages[packagePath.substring(0, packagePath.lastIndexOf('/'))];
+  });
+
+  return {
+    name: project.name,
+    children: rootPackages
+  };
+};
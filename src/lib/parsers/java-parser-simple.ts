@@ -0,0 +1,399 @@
+// This module is server-only and should not be imported from client components
+// Uses regular expressions to parse Java and Kotlin code. Kept as a fallback
+// for when the tree-sitter parsers are disabled or unavailable
+
+import fs from 'fs';
+import path from 'path';
+import {
+  JavaNode,
+  JavaDependency,
+  JavaImport,
+  JavaCallSite,
+  JavaTypeDeclaration
+} from '../../types/java-types';
+
+// Generate a unique ID for a Java or Kotlin node
+const generateId = (type: string, name: string, path: string): string => {
+  return `${type}:${path}:${name}`;
+};
+
+// Keywords that look like calls or declarations to the regular expressions
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'synchronized', 'new', 'this', 'throw', 'else', 'when', 'fun', 'try', 'do', 'assert', 'yield', 'case', 'package', 'import']);
+
+// Annotations written before a declaration, e.g. `@Override` or `@Named("x")`
+const ANNOTATIONS = String.raw`(?:@[\w.]+(?:\([^)]*\))?\s+)*`;
+
+// Index just past the brace that closes the one at openIndex, skipping strings, chars and comments
+const findClosingBrace = (code: string, openIndex: number): number => {
+  let depth = 0;
+
+  for (let i = openIndex; i < code.length; i++) {
+    const char = code[i];
+
+    if (char === '"' || char === '\'') {
+      for (i++; i < code.length && code[i] !== char && code[i] !== '\n'; i++) {
+        if (code[i] === '\\') i++;
+      }
+    } else if (char === '/' && code[i + 1] === '/') {
+      i = code.indexOf('\n', i);
+      if (i === -1) return code.length;
+    } else if (char === '/' && code[i + 1] === '*') {
+      i = code.indexOf('*/', i + 2);
+      if (i === -1) return code.length;
+      i++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return code.length;
+};
+
+// Remove type arguments, e.g. `Map<String, List<User>>` becomes `Map`
+const stripTypeArguments = (text: string): string => {
+  let result = text;
+  while (/<[^<>]*>/.test(result)) {
+    result = result.replace(/<[^<>]*>/g, '');
+  }
+  return result;
+};
+
+// Split a comma-separated list that may contain parentheses
+const splitTopLevel = (list: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+};
+
+// Parse a single Java or Kotlin file using regex patterns
+export const parseJavaFile = (filePath: string): {
+  package: string;
+  nodes: JavaNode[];
+  dependencies: JavaDependency[];
+  imports: JavaImport[];
+  calls: JavaCallSite[];
+  declarations: JavaTypeDeclaration[];
+} => {
+  try {
+    const code = fs.readFileSync(filePath, 'utf8');
+    const isKotlin = filePath.endsWith('.kt');
+    const nodes: JavaNode[] = [];
+    const dependencies: JavaDependency[] = [];
+    const imports: JavaImport[] = [];
+    const calls: JavaCallSite[] = [];
+    const declarations: JavaTypeDeclaration[] = [];
+    const nodeIds = new Set<string>();
+
+    const packageName = code.match(/^\s*package\s+([\w.]+)/m)?.[1] || '';
+    const packageId = generateId('package', packageName, packageName);
+
+    nodes.push({
+      id: packageId,
+      type: 'package',
+      name: packageName || '(default)',
+      path: packageName,
+      file: path.dirname(filePath),
+      signature: packageName ? `package ${packageName}` : undefined
+    });
+    nodeIds.add(packageId);
+
+    // Overloads share a node, which lists the signature of each
+    const addNode = (node: JavaNode, parentId: string) => {
+      if (nodeIds.has(node.id)) {
+        const existing = nodes.find(other => other.id === node.id);
+        if (existing && node.signature && (node.type === 'method' || node.type === 'function') &&
+            !existing.signature?.split('\n').includes(node.signature)) {
+          existing.signature = existing.signature ? `${existing.signature}\n${node.signature}` : node.signature;
+          existing.description = existing.description || node.description;
+        }
+        return;
+      }
+
+      nodeIds.add(node.id);
+      nodes.push(node);
+      dependencies.push({
+        source: parentId,
+        target: node.id,
+        type: 'contains'
+      });
+    };
+
+    // Javadoc or KDoc comment before a declaration, skipping annotations
+    const getDescription = (index: number): string | undefined => {
+      const before = code.substring(0, index).replace(/(\s*@[\w.]+(\([^)]*\))?)*\s*$/, '');
+      if (!before.endsWith('*/')) return undefined;
+
+      const start = before.lastIndexOf('/**');
+      if (start === -1 || before.substring(start, before.length - 2).includes('*/')) return undefined;
+      return before.substring(start + 3, before.length - 2)
+        .split('\n')
+        .map(line => line.replace(/^\s*\* ?/, ''))
+        .join('\n')
+        .trim();
+    };
+
+    const getVisibility = (modifiers: string, inInterface: boolean): JavaNode['visibility'] => {
+      const modifier = modifiers.match(/\b(public|protected|private|internal)\b/)?.[1];
+      if (modifier) return modifier as JavaNode['visibility'];
+      return isKotlin || inInterface ? 'public' : 'package';
+    };
+
+    // Extract imports
+    const importRegex = /^\s*import\s+(static\s+)?([\w.]+?)(\.\*)?(?:\s+as\s+(\w+))?\s*;?[ \t]*$/gm;
+    let importMatch;
+    while ((importMatch = importRegex.exec(code)) !== null) {
+      imports.push({
+        file: filePath,
+        package: packageName,
+        name: importMatch[2],
+        wildcard: !!importMatch[3],
+        static: !!importMatch[1],
+        alias: importMatch[4]
+      });
+    }
+
+    // Extract type declarations; nesting follows from the brace ranges of their bodies
+    const typeRegex = isKotlin
+      ? new RegExp(String.raw`^[ \t]*${ANNOTATIONS}((?:(?:public|protected|private|internal|abstract|open|sealed|data|enum|annotation|inner|value|final)\s+)*)(class|interface|object)\s+(\w+)([^{\n]*)`, 'gm')
+      : new RegExp(String.raw`^[ \t]*${ANNOTATIONS}((?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp)\s+)*)(class|interface|enum|record|@interface)\s+(\w+)([^{;]*)\{`, 'gm');
+    const types: { declaration: JavaTypeDeclaration, start: number, end: number }[] = [];
+    let typeMatch;
+
+    while ((typeMatch = typeRegex.exec(code)) !== null) {
+      const [match, modifiers, keyword, name, rest] = typeMatch;
+      const braceIndex = code.indexOf('{', typeMatch.index + match.length - 1);
+      const lineEnd = code.indexOf('\n', typeMatch.index + match.length);
+      // Kotlin classes may have no body
+      const hasBody = !isKotlin || (braceIndex !== -1 && (lineEnd === -1 || braceIndex <= lineEnd) && /\{\s*$/.test(code.substring(typeMatch.index, braceIndex + 1)));
+      const start = hasBody ? braceIndex : typeMatch.index + match.length;
+      const end = hasBody ? findClosingBrace(code, start) : start;
+
+      const outer = types.filter(type => typeMatch!.index > type.start && typeMatch!.index < type.end)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+      const className = outer ? `${outer.declaration.name}.${name}` : name;
+      const kind: JavaTypeDeclaration['kind'] = keyword === 'interface' || keyword === '@interface'
+        ? 'interface'
+        : keyword === 'enum' || /\benum\b/.test(modifiers) ? 'enum' : keyword === 'record' ? 'record' : 'class';
+      const id = generateId(kind, className, packageName);
+
+      addNode({
+        id,
+        type: kind,
+        name,
+        path: packageName,
+        file: filePath,
+        signature: `${modifiers}${keyword} ${name}${rest}`.replace(/\s+/g, ' ').replace(/[\s{]+$/, '').trim(),
+        description: getDescription(typeMatch.index),
+        visibility: getVisibility(modifiers, outer?.declaration.kind === 'interface')
+      }, outer ? outer.declaration.id : packageId);
+
+      const declaration: JavaTypeDeclaration = {
+        id,
+        package: packageName,
+        file: filePath,
+        name: className,
+        kind,
+        extends: [],
+        implements: [],
+        fields: {}
+      };
+
+      const header = stripTypeArguments(rest);
+      let fieldList = '';
+      if (isKotlin) {
+        // `(val repo: Repo) : Base(repo), Handler`; supertypes called with
+        // constructor arguments are superclasses
+        const paramsMatch = header.match(/^\s*(?:\w+\s+)*(?:constructor\s*)?\(/);
+        let supertypeStart = 0;
+        if (paramsMatch) {
+          let depth = 0;
+          for (let i = paramsMatch[0].length - 1; i < header.length; i++) {
+            if (header[i] === '(') depth++;
+            if (header[i] === ')') depth--;
+            if (depth === 0) {
+              fieldList = header.substring(paramsMatch[0].length, i);
+              supertypeStart = i + 1;
+              break;
+            }
+          }
+        }
+        const supertypes = header.substring(supertypeStart).match(/^\s*:\s*(.*?)\s*(\bwhere\b.*)?$/)?.[1] || '';
+        for (const supertype of splitTopLevel(supertypes)) {
+          const typeName = supertype.match(/^([\w.]+)/)?.[1];
+          if (!typeName) continue;
+          declaration[/^[\w.]+\s*\(/.test(supertype) || kind === 'interface' ? 'extends' : 'implements'].push(typeName);
+        }
+      } else {
+        const extendsList = header.match(/\bextends\s+(.+?)(?=\bimplements\b|\bpermits\b|$)/)?.[1] || '';
+        const implementsList = header.match(/\bimplements\s+(.+?)(?=\bpermits\b|$)/)?.[1] || '';
+        declaration.extends.push(...extendsList.split(',').map(type => type.trim()).filter(Boolean));
+        declaration.implements.push(...implementsList.split(',').map(type => type.trim()).filter(Boolean));
+        if (keyword === 'record') fieldList = header.match(/^\s*\(([^)]*)\)/)?.[1] || '';
+      }
+
+      // Kotlin `val` and `var` constructor parameters and Java record components are fields
+      for (const param of splitTopLevel(fieldList)) {
+        const fieldMatch = isKotlin
+          ? param.match(/^(?:@[\w.]+\s+)*((?:\w+\s+)*?)(val|var)\s+(\w+)\s*:\s*([\w.]+)/)
+          : param.match(/^(?:@[\w.]+\s+)*()()([\w.]+)(?:\[\])*\s+(\w+)$/);
+        if (!fieldMatch) continue;
+
+        const [, fieldModifiers, binding, first, second] = fieldMatch;
+        const [fieldName, fieldType] = isKotlin ? [first, second] : [second, first];
+        declaration.fields[fieldName] = fieldType;
+        addNode({
+          id: generateId('field', `${className}.${fieldName}`, packageName),
+          type: 'field',
+          name: fieldName,
+          path: packageName,
+          file: filePath,
+          signature: isKotlin ? `${binding} ${fieldName}: ${fieldType}` : `${fieldType} ${fieldName}`,
+          visibility: isKotlin ? getVisibility(fieldModifiers, false) : 'private'
+        }, id);
+      }
+
+      types.push({ declaration, start, end });
+      declarations.push(declaration);
+    }
+
+    // The innermost type whose body contains an index
+    const findEnclosingType = (index: number) => {
+      return types.filter(type => index > type.start && index < type.end)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+    };
+
+    // Bodies of methods and functions, to tell members from local declarations
+    const bodies: [number, number][] = [];
+    const isInBody = (index: number) => bodies.some(([start, end]) => index > start && index < end);
+
+    // Extract methods, constructors and Kotlin functions with the calls in their bodies
+    const functionRegex = isKotlin
+      ? new RegExp(String.raw`^[ \t]*${ANNOTATIONS}((?:(?:public|protected|private|internal|override|open|abstract|suspend|inline|operator|infix|final|tailrec|external)\s+)*)fun\s+(?:<[^>]+>\s+)?(?:[\w.<>?]+\.)?()(\w+)\s*\(([^)]*)\)[^{=\n]*(\{|=)?`, 'gm')
+      : new RegExp(String.raw`^[ \t]*${ANNOTATIONS}((?:(?:public|protected|private|static|final|abstract|synchronized|native|default|strictfp)\s+)*)(?:<[^>]+>\s+)?([\w.<>\[\],? ]+?\s+)?(\w+)\s*\(([^)]*)\)\s*(?:throws\s+[\w.,\s]+?)?\s*(\{|;)`, 'gm');
+    let functionMatch;
+
+    while ((functionMatch = functionRegex.exec(code)) !== null) {
+      const [match, modifiers, returnType, name, params, bodyStart] = functionMatch;
+      if (KEYWORDS.has(name) || (returnType && KEYWORDS.has(returnType.trim())) || isInBody(functionMatch.index)) continue;
+
+      const enclosing = findEnclosingType(functionMatch.index);
+      // Java constructors have no return type and are named after their class
+      if (!isKotlin && (!enclosing || (!returnType && name !== enclosing.declaration.name.split('.').pop()))) continue;
+
+      const className = enclosing?.declaration.name;
+      const type = className ? 'method' : 'function';
+      const id = className
+        ? generateId('method', `${className}.${name}`, packageName)
+        : generateId('function', name, packageName);
+
+      addNode({
+        id,
+        type,
+        name,
+        path: packageName,
+        file: filePath,
+        signature: match.replace(/^\s*(@[\w.]+(\([^)]*\))?\s+)*/, '').replace(/[\s{=;]+$/, '').replace(/\s+/g, ' ').trim(),
+        description: getDescription(functionMatch.index),
+        visibility: getVisibility(modifiers, enclosing?.declaration.kind === 'interface')
+      }, enclosing ? enclosing.declaration.id : packageId);
+
+      if (!bodyStart || bodyStart === ';') continue;
+      const openIndex = functionMatch.index + match.length - 1;
+      const closeIndex = bodyStart === '{' ? findClosingBrace(code, openIndex) : (code.indexOf('\n', openIndex) + 1 || code.length);
+      bodies.push([openIndex, closeIndex]);
+      const body = code.substring(openIndex, closeIndex);
+
+      // Types of parameters and locals, without regard to scope
+      const locals = new Map<string, string | undefined>();
+      const localRegex = isKotlin
+        ? /\b(?:val|var)\s+(\w+)\s*(?::\s*([\w.]+))?(?:\s*=\s*([A-Z][\w.]*)\s*\()?/g
+        : /\b([A-Z][\w.]*)(?:<[^;=()]*>)?\s+(\w+)\s*[=;:]/g;
+      for (const param of splitTopLevel(stripTypeArguments(params))) {
+        const paramMatch = isKotlin ? param.match(/(\w+)\s*:\s*([\w.]+)/) : param.match(/([\w.]+)(?:\.\.\.|\[\])*\s+(\w+)$/);
+        if (paramMatch) {
+          locals.set(isKotlin ? paramMatch[1] : paramMatch[2], isKotlin ? paramMatch[2] : paramMatch[1]);
+        }
+      }
+      let localMatch;
+      while ((localMatch = localRegex.exec(body)) !== null) {
+        if (isKotlin) {
+          locals.set(localMatch[1], localMatch[2] || (localMatch[3] ? `${localMatch[3]}()` : undefined));
+        } else {
+          locals.set(localMatch[2], localMatch[1]);
+        }
+      }
+
+      const callRegex = /(?<![\w$.])(new\s+)?([A-Za-z_$][\w$]*(?:\s*\.\s*[A-Za-z_$][\w$]*)*)\s*(?:<[^<>()]*>\s*)?\(/g;
+      let callMatch;
+      while ((callMatch = callRegex.exec(body)) !== null) {
+        const callee = callMatch[2].replace(/\s/g, '');
+        const root = callee.split('.')[0];
+        const isConstructor = !!callMatch[1] || (!isKotlin && callee === 'super');
+        if (KEYWORDS.has(callee) || (callee === 'super' && !isConstructor)) continue;
+        if (locals.has(root) && !locals.get(root) && callee !== root) continue;
+
+        calls.push({
+          source: id,
+          file: filePath,
+          package: packageName,
+          className,
+          callee,
+          receiverType: locals.get(root) && callee !== root ? locals.get(root) : undefined,
+          isConstructor: isConstructor || undefined
+        });
+      }
+    }
+
+    // Extract fields and properties declared in type bodies, or at the top level of Kotlin files
+    const fieldRegex = isKotlin
+      ? /^[ \t]*((?:(?:public|protected|private|internal|override|open|const|lateinit|abstract|final)\s+)*)(val|var)\s+(\w+)\s*(?::\s*([\w.<>?, ]+?))?\s*(?:=\s*([A-Z][\w.]*)?[^\n]*)?$/gm
+      : /^[ \t]*((?:(?:public|protected|private|static|final|transient|volatile)\s+)*)()([\w.]+(?:<[^;=()]*>)?(?:\[\])*)\s+(\w+)\s*(?:=\s*(?:new\s+)?([A-Z][\w.]*)?[^;]*)?;/gm;
+    let fieldMatch;
+
+    while ((fieldMatch = fieldRegex.exec(code)) !== null) {
+      const [, modifiers, binding, first, second, initializer] = fieldMatch;
+      const [name, typeText] = isKotlin ? [first, second] : [second, first];
+      if (isInBody(fieldMatch.index) || KEYWORDS.has(typeText || '')) continue;
+
+      const enclosing = findEnclosingType(fieldMatch.index);
+      if (!enclosing && !isKotlin) continue;
+
+      const className = enclosing?.declaration.name;
+      const typeName = typeText ? stripTypeArguments(typeText).replace(/[?\[\]\s]/g, '') : initializer ? `${initializer}()` : undefined;
+      if (enclosing && typeName) enclosing.declaration.fields[name] = typeName;
+
+      addNode({
+        id: generateId('field', className ? `${className}.${name}` : name, packageName),
+        type: 'field',
+        name,
+        path: packageName,
+        file: filePath,
+        signature: isKotlin ? `${binding} ${name}${typeText ? `: ${typeText.trim()}` : ''}` : `${typeText} ${name}`,
+        description: getDescription(fieldMatch.index),
+        visibility: getVisibility(modifiers, enclosing?.declaration.kind === 'interface')
+      }, enclosing ? enclosing.declaration.id : packageId);
+    }
+
+    return { package: packageName, nodes, dependencies, imports, calls, declarations };
+  } catch (error) {
+    console.error(`Error parsing Java file ${filePath}:`, error);
+    return { package: '', nodes: [], dependencies: [], imports: [], calls: [], declarations: [] };
+  }
+};
@@ -0,0 +1,1000 @@
+// This module is server-only and should not be imported from client components
+// Uses tree-sitter to parse Java code, and Kotlin code through kotlin-parser.ts,
+// falling back to the regex parser when a native binding cannot be loaded or
+// VISCODE_JAVA_PARSER=regex is set
+
+import type Parser from 'tree-sitter';
+import fs from 'fs';
+import path from 'path';
+import {
+  JavaNode,
+  JavaDependency,
+  JavaImport,
+  JavaCallSite,
+  JavaTypeDeclaration,
+  JavaProject,
+  JavaGraphData,
+  JavaHierarchicalData,
+  JavaTreeNode
+} from '../../types/java-types';
+import { FileFilter, FileParsedListener, ParseCache } from '../../types/analyzer-types';
+import { parseJavaFile as parseJavaFileSimple } from './java-parser-simple';
+import { parseKotlinFile } from './kotlin-parser';
+import { loadTreeSitterParser } from './tree-sitter-loader';
+import { findJvmModules, findOwningModule, isIgnoredJvmDirectory } from './jvm-build';
+import { parseWithCache } from './parse-cache';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+// Version of the results of parseJavaFile and parseKotlinFile, part of their parse cache key
+const PARSER_VERSION = 2;
+
+// Helper to recursively find all Java and Kotlin files in a directory, without those the filter excludes
+export const findJavaFiles = (dir: string, filter?: FileFilter): string[] => {
+  const files: string[] = [];
+
+  try {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!isIgnoredJvmDirectory(entry.name) && !filter?.excludesDirectory(fullPath)) {
+          files.push(...findJavaFiles(fullPath, filter));
+        }
+      } else if ((entry.name.endsWith('.java') || entry.name.endsWith('.kt')) && !filter?.excludesFile(fullPath)) {
+        files.push(fullPath);
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading directory ${dir}:`, error);
+  }
+
+  return files;
+};
+
+// Generate a unique ID for a Java or Kotlin node
+const generateId = (type: string, name: string, path: string): string => {
+  return `${type}:${path}:${name}`;
+};
+
+// Load the tree-sitter grammar for Java or Kotlin
+export const loadJavaParser = (language: 'java' | 'kotlin'): Promise<Parser | null> => {
+  return language === 'java'
+    ? loadTreeSitterParser('java', () => import('tree-sitter-java'))
+    : loadTreeSitterParser('kotlin', () => import('tree-sitter-kotlin'));
+};
+
+// Strip the delimiters and leading asterisks from a Javadoc or KDoc comment
+export const cleanDocComment = (comment: string): string => {
+  return comment
+    .replace(/^\/\*\*/, '')
+    .replace(/\*\/$/, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*\* ?/, ''))
+    .join('\n')
+    .trim();
+};
+
+// Result of parsing one file; imports, calls and supertypes are resolved
+// project-wide in parseJavaProject
+export type JavaFileParseResult = {
+  package: string;
+  nodes: JavaNode[];
+  dependencies: JavaDependency[];
+  imports: JavaImport[];
+  calls: JavaCallSite[];
+  declarations: JavaTypeDeclaration[];
+};
+
+// Parameters and local variables visible in a method body, with their types as written
+type JavaLocals = Map<string, string | undefined>;
+
+// Statements that open a scope for the names they declare
+const BLOCK_SCOPES = new Set(['block', 'for_statement', 'enhanced_for_statement', 'lambda_expression', 'catch_clause', 'switch_block', 'try_with_resources_statement']);
+
+const TYPE_KINDS: Record<string, JavaTypeDeclaration['kind']> = {
+  class_declaration: 'class',
+  interface_declaration: 'interface',
+  annotation_type_declaration: 'interface',
+  enum_declaration: 'enum',
+  record_declaration: 'record'
+};
+
+// Parse a single Java file
+export const parseJavaFile = (filePath: string, parser: Parser): JavaFileParseResult => {
+  try {
+    const code = fs.readFileSync(filePath, 'utf8');
+    const tree = parser.parse(code);
+    const nodes: JavaNode[] = [];
+    const dependencies: JavaDependency[] = [];
+    const imports: JavaImport[] = [];
+    const calls: JavaCallSite[] = [];
+    const declarations: JavaTypeDeclaration[] = [];
+    const nodeIds = new Set<string>();
+
+    const getText = (node: SyntaxNode): string => {
+      return code.substring(node.startIndex, node.endIndex);
+    };
+
+    // Collapse whitespace so multi-line signatures render on one line
+    const normalize = (text: string): string => {
+      return text.replace(/\s+/g, ' ').replace(/\(\s/g, '(').replace(/,?\s\)/g, ')');
+    };
+
+    // Declaration text up to its body, without annotations, e.g. `public List<User> list(String q)`
+    const getHeader = (node: SyntaxNode, bodyNode: SyntaxNode | null): string => {
+      const text = code.substring(node.startIndex, bodyNode ? bodyNode.startIndex : node.endIndex);
+      return normalize(text.replace(/@[\w.]+(\s*\((?:[^()]|\([^()]*\))*\))?/g, '')).replace(/[\s;{]+$/, '').trim();
+    };
+
+    // Javadoc comment right before a declaration
+    const getDescription = (node: SyntaxNode): string | undefined => {
+      const comment = node.previousNamedSibling;
+      const isAdjacent = comment && !code.substring(comment.endIndex, node.startIndex).trim();
+      return comment?.type === 'block_comment' && isAdjacent && getText(comment).startsWith('/**')
+        ? cleanDocComment(getText(comment))
+        : undefined;
+    };
+
+    // Access modifier of a declaration; members of interfaces are public
+    const getVisibility = (node: SyntaxNode, inInterface: boolean): JavaNode['visibility'] => {
+      const modifiers = node.namedChildren.find(child => child.type === 'modifiers');
+      const modifier = modifiers?.children.find(child => ['public', 'protected', 'private'].includes(child.type));
+      if (modifier) return modifier.type as JavaNode['visibility'];
+      return inInterface ? 'public' : 'package';
+    };
+
+    // Name of a type as written, without type arguments or array brackets,
+    // e.g. `List` for `List<User>` and `Map.Entry` for a scoped type
+    const getTypeName = (node: SyntaxNode | null): string | undefined => {
+      if (!node) return undefined;
+
+      switch (node.type) {
+        case 'generic_type':
+          return getTypeName(node.namedChildren[0] || null);
+        case 'type_identifier':
+        case 'scoped_type_identifier':
+        case 'identifier':
+        case 'scoped_identifier':
+          return getText(node);
+        default:
+          return undefined;
+      }
+    };
+
+    // Dotted name of a plain name or field access chain, e.g. `this.repo`;
+    // null for anything else, such as `load().then`
+    const getDottedName = (node: SyntaxNode | null): string | null => {
+      if (!node) return null;
+
+      switch (node.type) {
+        case 'identifier':
+        case 'this':
+        case 'super':
+          return getText(node);
+        case 'parenthesized_expression':
+          return getDottedName(node.namedChildren[0] || null);
+        case 'field_access': {
+          const objectName = getDottedName(node.childForFieldName('object'));
+          const fieldNode = node.childForFieldName('field');
+          return objectName && fieldNode ? `${objectName}.${getText(fieldNode)}` : null;
+        }
+        default:
+          return null;
+      }
+    };
+
+    const packageDeclaration = tree.rootNode.namedChildren.find(child => child.type === 'package_declaration');
+    const packageNameNode = packageDeclaration?.namedChildren.find(child => child.type === 'scoped_identifier' || child.type === 'identifier');
+    const packageName = packageNameNode ? getText(packageNameNode) : '';
+    const packageId = generateId('package', packageName, packageName);
+
+    nodes.push({
+      id: packageId,
+      type: 'package',
+      name: packageName || '(default)',
+      path: packageName,
+      file: path.dirname(filePath),
+      signature: packageName ? `package ${packageName}` : undefined
+    });
+    nodeIds.add(packageId);
+
+    // Overloads share a node, which lists the signature of each
+    const addNode = (node: JavaNode, parentId: string) => {
+      if (nodeIds.has(node.id)) {
+        const existing = nodes.find(other => other.id === node.id);
+        if (existing && node.signature && (node.type === 'method' || node.type === 'function') &&
+            !existing.signature?.split('\n').includes(node.signature)) {
+          existing.signature = existing.signature ? `${existing.signature}\n${node.signature}` : node.signature;
+          existing.description = existing.description || node.description;
+        }
+        return;
+      }
+
+      nodeIds.add(node.id);
+      nodes.push(node);
+      dependencies.push({
+        source: parentId,
+        target: node.id,
+        type: 'contains'
+      });
+    };
+
+    // Record the calls in a method body or initializer, tracking the types of
+    // locals so calls through them can be resolved
+    const collectCalls = (node: SyntaxNode, source: string, className: string, locals: JavaLocals) => {
+      const addCall = (callee: string, isConstructor = false) => {
+        const root = callee.split('.')[0];
+        // A call through a local of unknown type is not resolvable
+        if (locals.has(root) && !locals.get(root)) return;
+        calls.push({
+          source,
+          file: filePath,
+          package: packageName,
+          className,
+          callee,
+          receiverType: locals.get(root) && callee !== root ? locals.get(root) : undefined,
+          isConstructor: isConstructor || undefined
+        });
+      };
+
+      switch (node.type) {
+        case 'method_invocation': {
+          const nameNode = node.childForFieldName('name');
+          const objectNode = node.childForFieldName('object');
+          const objectName = objectNode ? getDottedName(objectNode) : '';
+          if (nameNode && objectName !== null) {
+            addCall(objectName ? `${objectName}.${getText(nameNode)}` : getText(nameNode));
+          }
+          break;
+        }
+
+        case 'object_creation_expression': {
+          const typeName = getTypeName(node.childForFieldName('type'));
+          if (typeName) addCall(typeName, true);
+          break;
+        }
+
+        case 'explicit_constructor_invocation': {
+          const constructorNode = node.childForFieldName('constructor');
+          if (constructorNode?.type === 'super') addCall('super', true);
+          break;
+        }
+
+        case 'local_variable_declaration': {
+          const typeNode = node.childForFieldName('type');
+          for (const declarator of node.childrenForFieldName('declarator')) {
+            const value = declarator.childForFieldName('value');
+            if (value) collectCalls(value, source, className, locals);
+
+            const nameNode = declarator.childForFieldName('name');
+            if (!nameNode) continue;
+            // `var x = new Foo()` takes the type of the created object
+            const typeName = typeNode && getText(typeNode) === 'var'
+              ? value?.type === 'object_creation_expression' ? getTypeName(value.childForFieldName('type')) : undefined
+              : getTypeName(typeNode);
+            locals.set(getText(nameNode), typeName);
+          }
+          return;
+        }
+
+        case 'enhanced_for_statement': {
+          const forLocals = new Map(locals);
+          const nameNode = node.childForFieldName('name');
+          if (nameNode) forLocals.set(getText(nameNode), getTypeName(node.childForFieldName('type')));
+          for (const child of node.namedChildren) {
+            collectCalls(child, source, className, forLocals);
+          }
+          return;
+        }
+
+        case 'lambda_expression': {
+          const lambdaLocals = new Map(locals);
+          const parameters = node.childForFieldName('parameters');
+          const names = parameters?.type === 'identifier' ? [parameters] : parameters?.descendantsOfType('identifier') || [];
+          names.forEach(name => lambdaLocals.set(getText(name), undefined));
+          const body = node.childForFieldName('body');
+          if (body) collectCalls(body, source, className, lambdaLocals);
+          return;
+        }
+
+        case 'catch_formal_parameter': {
+          const nameNode = node.childForFieldName('name');
+          if (nameNode) locals.set(getText(nameNode), undefined);
+          return;
+        }
+
+        case 'class_body':
+          // Members of an anonymous class are attributed to the enclosing method
+          break;
+      }
+
+      const childLocals = BLOCK_SCOPES.has(node.type) ? new Map(locals) : locals;
+      for (const child of node.namedChildren) {
+        collectCalls(child, source, className, childLocals);
+      }
+    };
+
+    // Methods and constructors; overloads share a node listing each signature
+    const processMethod = (node: SyntaxNode, className: string, classId: string, inInterface: boolean) => {
+      const isConstructor = node.type !== 'method_declaration';
+      const name = isConstructor ? className.split('.').pop()! : getText(node.childForFieldName('name')!);
+      const body = node.childForFieldName('body');
+      const id = generateId('method', `${className}.${name}`, packageName);
+
+      addNode({
+        id,
+        type: 'method',
+        name,
+        path: packageName,
+        file: filePath,
+        signature: getHeader(node, body),
+        description: getDescription(node),
+        visibility: getVisibility(node, inInterface)
+      }, classId);
+
+      const locals: JavaLocals = new Map();
+      for (const param of node.childForFieldName('parameters')?.namedChildren || []) {
+        const nameNode = param.childForFieldName('name') || param.namedChildren.find(child => child.type === 'variable_declarator')?.childForFieldName('name');
+        if (nameNode) {
+          locals.set(getText(nameNode), getTypeName(param.childForFieldName('type') || param.namedChildren.find(child => child.type.endsWith('type') || child.type === 'type_identifier') || null));
+        }
+      }
+      if (body) collectCalls(body, id, className, locals);
+    };
+
+    // Classes, interfaces, enums, records and annotation types with their members
+    const processType = (node: SyntaxNode, outerName: string | null, parentId: string, inInterface: boolean) => {
+      const kind = TYPE_KINDS[node.type];
+      const nameNode = node.childForFieldName('name');
+      if (!kind || !nameNode) return;
+
+      const name = getText(nameNode);
+      const className = outerName ? `${outerName}.${name}` : name;
+      const id = generateId(kind, className, packageName);
+      const body = node.childForFieldName('body');
+
+      addNode({
+        id,
+        type: kind,
+        name,
+        path: packageName,
+        file: filePath,
+        signature: getHeader(node, body),
+        description: getDescription(node),
+        visibility: getVisibility(node, inInterface)
+      }, parentId);
+
+      const declaration: JavaTypeDeclaration = {
+        id,
+        package: packageName,
+        file: filePath,
+        name: className,
+        kind,
+        extends: [],
+        implements: [],
+        fields: {}
+      };
+
+      const superclass = node.childForFieldName('superclass');
+      if (superclass) {
+        declaration.extends.push(...superclass.namedChildren.map(getTypeName).filter((type): type is string => !!type));
+      }
+      const interfaceList = node.childForFieldName('interfaces') || node.namedChildren.find(child => child.type === 'extends_interfaces');
+      const interfaceTypes = (interfaceList?.namedChildren.find(child => child.type === 'type_list')?.namedChildren || [])
+        .map(getTypeName)
+        .filter((type): type is string => !!type);
+      // Interfaces extend the interfaces they list
+      declaration[node.type === 'interface_declaration' ? 'extends' : 'implements'].push(...interfaceTypes);
+
+      const addField = (fieldName: string, typeNode: SyntaxNode | null, member: SyntaxNode) => {
+        const typeName = getTypeName(typeNode);
+        if (typeName) declaration.fields[fieldName] = typeName;
+
+        addNode({
+          id: generateId('field', `${className}.${fieldName}`, packageName),
+          type: 'field',
+          name: fieldName,
+          path: packageName,
+          file: filePath,
+          signature: typeNode ? `${normalize(getText(typeNode))} ${fieldName}` : fieldName,
+          description: getDescription(member),
+          visibility: getVisibility(member, kind === 'interface')
+        }, id);
+      };
+
+      // Record components are fields
+      for (const param of node.childForFieldName('parameters')?.namedChildren || []) {
+        const paramName = param.childForFieldName('name');
+        if (param.type === 'formal_parameter' && paramName) {
+          addField(getText(paramName), param.childForFieldName('type'), param);
+        }
+      }
+
+      const members = (body?.namedChildren || []).flatMap(member =>
+        member.type === 'enum_body_declarations' ? member.namedChildren : [member]
+      );
+
+      for (const member of members) {
+        switch (member.type) {
+          case 'field_declaration':
+          case 'constant_declaration':
+            for (const declarator of member.childrenForFieldName('declarator')) {
+              const fieldName = declarator.childForFieldName('name');
+              if (fieldName) addField(getText(fieldName), member.childForFieldName('type'), member);
+
+              // Field initializers run as part of the class
+              const value = declarator.childForFieldName('value');
+              if (value) collectCalls(value, id, className, new Map());
+            }
+            break;
+
+          case 'method_declaration':
+          case 'constructor_declaration':
+          case 'compact_constructor_declaration':
+            processMethod(member, className, id, kind === 'interface');
+            break;
+
+          case 'static_initializer':
+          case 'block':
+          case 'enum_constant':
+            collectCalls(member, id, className, new Map());
+            break;
+
+          default:
+            if (TYPE_KINDS[member.type]) {
+              processType(member, className, id, kind === 'interface');
+            }
+        }
+      }
+
+      declarations.push(declaration);
+    };
+
+    for (const child of tree.rootNode.namedChildren) {
+      if (child.type === 'import_declaration') {
+        const nameNode = child.namedChildren.find(part => part.type === 'scoped_identifier' || part.type === 'identifier');
+        if (nameNode) {
+          imports.push({
+            file: filePath,
+            package: packageName,
+            name: getText(nameNode),
+            wildcard: child.namedChildren.some(part => part.type === 'asterisk'),
+            static: child.children.some(part => part.type === 'static')
+          });
+        }
+      } else if (TYPE_KINDS[child.type]) {
+        processType(child, null, packageId, false);
+      }
+    }
+
+    return { package: packageName, nodes, dependencies, imports, calls, declarations };
+  } catch (error) {
+    console.error(`Error parsing Java file ${filePath}:`, error);
+    return { package: '', nodes: [], dependencies: [], imports: [], calls: [], declarations: [] };
+  }
+};
+
+// Join a package and a name into a fully qualified name
+const qualify = (packageName: string, name: string): string => {
+  return packageName ? `${packageName}.${name}` : name;
+};
+
+// Package part of a fully qualified name: the segments before the first
+// capitalized one, e.g. `java.util` for `java.util.Map.Entry`
+const getPackageOf = (qualifiedName: string): string => {
+  const segments = qualifiedName.split('.');
+  const typeIndex = segments.findIndex(segment => /^[A-Z]/.test(segment));
+  return segments.slice(0, typeIndex === -1 ? -1 : typeIndex).join('.');
+};
+
+// Split a node ID (`type:package:name`) into its package and name within the package
+const splitId = (id: string): { path: string, name: string } => {
+  const [, idPath = '', ...rest] = id.split(':');
+  return { path: idPath, name: rest.join(':') };
+};
+
+// What a type name resolves to: a project type or a package outside the project
+type ResolvedType = { declaration?: JavaTypeDeclaration, external?: string };
+
+// Resolve import, call and inheritance targets to the IDs of project nodes,
+// following each file's imports, nested classes and supertypes. Packages
+// outside the project become `external` nodes; duplicate edges are merged
+const resolveJavaDependencies = (
+  nodes: JavaNode[],
+  dependencies: JavaDependency[],
+  imports: JavaImport[],
+  calls: JavaCallSite[],
+  declarations: JavaTypeDeclaration[]
+): { nodes: JavaNode[], dependencies: JavaDependency[] } => {
+  const packageIds = new Map<string, string>();
+  const members = new Map<string, string>();
+  for (const node of nodes) {
+    const { path: packageName, name } = splitId(node.id);
+    if (node.type === 'package') {
+      packageIds.set(node.path, node.id);
+    } else if (node.type === 'method' || node.type === 'function') {
+      // Methods by `pkg.Class.method`, Kotlin top-level functions by `pkg.function`
+      members.set(qualify(packageName, name), node.id);
+    }
+  }
+
+  // Types by fully qualified name
+  const types = new Map<string, JavaTypeDeclaration>();
+  for (const declaration of declarations) {
+    const qualifiedName = qualify(declaration.package, declaration.name);
+    if (!types.has(qualifiedName)) {
+      types.set(qualifiedName, declaration);
+    }
+  }
+
+  const importsByFile = new Map<string, JavaImport[]>();
+  for (const imp of imports) {
+    importsByFile.set(imp.file, [...(importsByFile.get(imp.file) || []), imp]);
+  }
+
+  const externalNodes = new Map<string, JavaNode>();
+  const toExternal = (packageName: string): string => {
+    const id = generateId('external', packageName, '');
+    if (!externalNodes.has(id)) {
+      externalNodes.set(id, {
+        id,
+        type: 'external',
+        name: packageName,
+        path: packageName,
+        file: ''
+      });
+    }
+    return id;
+  };
+
+  // Resolve a type name as written in a file: a nested class of the enclosing
+  // classes, a class of the same package, an imported class, a class of a
+  // wildcard-imported package, or a fully qualified name
+  const resolveType = (typeText: string, file: string, packageName: string, className?: string): ResolvedType => {
+    const name = typeText.replace(/<[\s\S]*$/, '').replace(/(\[\]|\?|\.\.\.|\(\))+$/, '').trim();
+    if (!/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(name)) return {};
+
+    const [first, ...rest] = name.split('.');
+    const fileImports = importsByFile.get(file) || [];
+    const bases: string[] = [];
+
+    const enclosing = className ? className.split('.') : [];
+    for (let i = enclosing.length; i > 0; i--) {
+      bases.push(qualify(packageName, `${enclosing.slice(0, i).join('.')}.${first}`));
+    }
+    bases.push(qualify(packageName, first));
+
+    const singleImport = fileImports.find(imp => !imp.wildcard && (imp.alias ? imp.alias === first : imp.name.endsWith(`.${first}`) || imp.name === first));
+    if (singleImport) bases.push(singleImport.name);
+    for (const imp of fileImports) {
+      if (imp.wildcard) bases.push(`${imp.name}.${first}`);
+    }
+    bases.push(first);
+
+    for (const base of bases) {
+      const declaration = types.get([base, ...rest].join('.'));
+      if (declaration) return { declaration };
+    }
+
+    // Explicitly imported or fully qualified types from outside the project
+    if (singleImport && !types.has(singleImport.name)) {
+      const external = getPackageOf(singleImport.name);
+      return external ? { external } : {};
+    }
+    if (rest.length > 0 && /^[a-z]/.test(first)) {
+      const external = getPackageOf(name);
+      return external && !packageIds.has(external) ? { external } : {};
+    }
+    return {};
+  };
+
+  // Supertypes of each type, resolved in the file declaring it
+  const basesByType = new Map<string, JavaTypeDeclaration[]>();
+  const resolvedDependencies: JavaDependency[] = [...dependencies];
+
+  for (const declaration of declarations) {
+    const bases: JavaTypeDeclaration[] = [];
+    const outerName = declaration.name.split('.').slice(0, -1).join('.') || undefined;
+
+    for (const [type, superTypes] of [['extends', declaration.extends], ['implements', declaration.implements]] as const) {
+      for (const superType of superTypes) {
+        const resolved = resolveType(superType, declaration.file, declaration.package, outerName);
+        if (resolved.declaration) {
+          bases.push(resolved.declaration);
+          // A Kotlin supertype without constructor arguments may still be a class
+          const edgeType = type === 'implements' && resolved.declaration.kind !== 'interface' && declaration.kind !== 'interface'
+            ? 'extends'
+            : type;
+          resolvedDependencies.push({ source: declaration.id, target: resolved.declaration.id, type: edgeType });
+        } else if (resolved.external) {
+          resolvedDependencies.push({ source: declaration.id, target: toExternal(resolved.external), type });
+        }
+      }
+    }
+
+    basesByType.set(declaration.id, bases);
+  }
+
+  // A method declared on a type or inherited from its supertypes
+  const findMethod = (declaration: JavaTypeDeclaration, name: string): string | undefined => {
+    const queue = [declaration];
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (visited.has(current.id)) continue;
+      visited.add(current.id);
+
+      const method = members.get(`${qualify(current.package, current.name)}.${name}`);
+      if (method) return method;
+      queue.push(...(basesByType.get(current.id) || []));
+    }
+    return undefined;
+  };
+
+  // Type of a field declared on a type or inherited from its supertypes
+  const findField = (declaration: JavaTypeDeclaration, name: string): ResolvedType => {
+    const queue = [declaration];
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (visited.has(current.id)) continue;
+      visited.add(current.id);
+
+      const fieldType = current.fields[name];
+      if (fieldType) return resolveType(fieldType, current.file, current.package, current.name);
+      queue.push(...(basesByType.get(current.id) || []));
+    }
+    return {};
+  };
+
+  for (const imp of imports) {
+    const source = packageIds.get(imp.package);
+    if (!source) continue;
+
+    // Imports of a class or its members target the class's package
+    const imported = types.get(imp.name) || (imp.static ? types.get(imp.name.split('.').slice(0, -1).join('.')) : undefined);
+    const importedPackage = imported ? imported.package : getPackageOf(imp.wildcard ? `${imp.name}.*` : imp.name) || imp.name;
+    const target = packageIds.get(importedPackage) || toExternal(importedPackage);
+
+    if (target && target !== source) {
+      resolvedDependencies.push({ source, target, type: 'imports' });
+    }
+  }
+
+  for (const call of calls) {
+    const segments = call.callee.split('.');
+    const method = segments[segments.length - 1];
+    const enclosing = call.className ? call.className.split('.') : [];
+    const enclosingTypes = enclosing
+      .map((_, index) => types.get(qualify(call.package, enclosing.slice(0, enclosing.length - index).join('.'))))
+      .filter((declaration): declaration is JavaTypeDeclaration => !!declaration);
+    const resolveInFile = (typeText: string) => resolveType(typeText, call.file, call.package, call.className);
+    let target: string | undefined;
+
+    if (call.isConstructor) {
+      // `super(...)` calls the superclass constructor, `new Foo()` the class
+      const resolved = call.callee === 'super'
+        ? { declaration: (basesByType.get(enclosingTypes[0]?.id || '') || []).find(base => base.kind !== 'interface') }
+        : resolveInFile(call.callee);
+      target = resolved.declaration?.id || (resolved.external ? toExternal(resolved.external) : undefined);
+    } else if (segments.length === 1) {
+      // A method of the enclosing classes or their supertypes, a statically
+      // imported method, a Kotlin top-level function, or a Kotlin constructor call
+      target = enclosingTypes.map(declaration => findMethod(declaration, method)).find(Boolean);
+
+      const fileImports = importsByFile.get(call.file) || [];
+      for (const imp of fileImports) {
+        if (target) break;
+        const importedName = imp.alias === method ? imp.name : imp.wildcard ? `${imp.name}.${method}` : imp.name.endsWith(`.${method}`) ? imp.name : undefined;
+        target = importedName ? members.get(importedName) : undefined;
+        if (!target && importedName && imp.static && !types.has(importedName)) {
+          const owner = importedName.split('.').slice(0, -1).join('.');
+          target = types.has(owner) ? undefined : toExternal(getPackageOf(owner));
+        }
+      }
+
+      target = target || members.get(qualify(call.package, method));
+      if (!target) {
+        const resolved = resolveInFile(method);
+        target = resolved.declaration?.id;
+      }
+    } else {
+      // Find the type of the receiver, then follow fields to the called method
+      let type: ResolvedType = {};
+      let fieldIndex = 1;
+      const [root] = segments;
+
+      if (root === 'this') {
+        type = { declaration: enclosingTypes[0] };
+      } else if (root === 'super') {
+        const bases = basesByType.get(enclosingTypes[0]?.id || '') || [];
+        type = { declaration: bases.find(base => base.kind !== 'interface') || bases[0] };
+      } else if (call.receiverType) {
+        type = resolveInFile(call.receiverType);
+      } else {
+        type = enclosingTypes.map(declaration => findField(declaration, root)).find(field => field.declaration || field.external) || {};
+        // A static call on a class, possibly qualified, e.g. `Strings.join` or `com.acme.Util.make`
+        for (let end = segments.length - 1; !type.declaration && !type.external && end > 0; end--) {
+          type = resolveInFile(segments.slice(0, end).join('.'));
+          fieldIndex = end;
+        }
+      }
+
+      for (const field of segments.slice(fieldIndex, -1)) {
+        type = type.declaration ? findField(type.declaration, field) : type;
+      }
+
+      target = type.declaration ? findMethod(type.declaration, method) : type.external ? toExternal(type.external) : undefined;
+    }
+
+    if (target && target !== call.source) {
+      resolvedDependencies.push({ source: call.source, target, type: 'calls' });
+    }
+  }
+
+  // Merge repeated edges, counting them in the weight
+  const mergedDependencies = new Map<string, JavaDependency>();
+  for (const dep of resolvedDependencies) {
+    const key = `${dep.type}|${dep.source}|${dep.target}`;
+    const existing = mergedDependencies.get(key);
+    if (existing) {
+      existing.weight = (existing.weight || 1) + (dep.weight || 1);
+    } else {
+      mergedDependencies.set(key, { ...dep });
+    }
+  }
+
+  return {
+    nodes: [...nodes, ...externalNodes.values()],
+    dependencies: [...mergedDependencies.values()]
+  };
+};
+
+// Parse a Java or Kotlin project and generate a JavaProject object
+export const parseJavaProject = async (
+  projectPath: string,
+  filter?: FileFilter,
+  onFileParsed?: FileParsedListener,
+  cache?: ParseCache
+): Promise<JavaProject> => {
+  const modules = findJvmModules(projectPath, filter);
+  const sourceFiles = findJavaFiles(projectPath, filter);
+
+  // The regex parser can be forced for comparison or to work around parser bugs
+  const useRegexParser = process.env.VISCODE_JAVA_PARSER === 'regex';
+
+  const nodesById = new Map<string, JavaNode>();
+  const allDependencies: JavaDependency[] = [];
+  const allImports: JavaImport[] = [];
+  const allCalls: JavaCallSite[] = [];
+  const allDeclarations: JavaTypeDeclaration[] = [];
+  const modulePackages = new Set<string>();
+
+  // Parse the files that changed since the last analysis
+  const tasks: { filePath: string, language: 'java' | 'kotlin', regex: boolean }[] = [];
+  for (const filePath of sourceFiles) {
+    const language = filePath.endsWith('.kt') ? 'kotlin' : 'java';
+    tasks.push({ filePath, language, regex: useRegexParser || !(await loadJavaParser(language)) });
+  }
+  const results = await parseWithCache(cache, `java:${PARSER_VERSION}`, tasks, async changed => {
+    const parsed: JavaFileParseResult[] = [];
+    for (const { filePath, language, regex } of changed) {
+      const parser = regex ? null : await loadJavaParser(language);
+      parsed.push(!parser
+        ? parseJavaFileSimple(filePath)
+        : language === 'kotlin' ? parseKotlinFile(filePath, parser) : parseJavaFile(filePath, parser));
+      onFileParsed?.(filePath);
+    }
+    return parsed;
+  }, onFileParsed);
+
+  for (const [i, result] of results.entries()) {
+    const { filePath } = tasks[i];
+
+    // Items belong to the module of their source file
+    const owner = findOwningModule(modules, filePath);
+    for (const node of result.nodes) {
+      node.module = owner?.name;
+      if (!nodesById.has(node.id)) {
+        nodesById.set(node.id, node);
+      }
+    }
+    if (owner) {
+      modulePackages.add(`${owner.name}\n${result.package}`);
+    }
+
+    allDependencies.push(...result.dependencies);
+    allImports.push(...result.imports);
+    allCalls.push(...result.calls);
+    allDeclarations.push(...result.declarations);
+  }
+
+  // Modules contain the modules in directories below them and the packages
+  // of their sources, and depend on the modules their build file lists
+  const moduleNodes: JavaNode[] = modules.map(jvmModule => ({
+    id: generateId('module', jvmModule.name, jvmModule.name),
+    type: 'module',
+    name: jvmModule.name,
+    path: jvmModule.name,
+    file: jvmModule.buildFile,
+    module: jvmModule.name,
+    signature: jvmModule.coordinates
+  }));
+  const moduleIds = new Map(moduleNodes.map(node => [node.name, node.id]));
+
+  for (const jvmModule of modules) {
+    const parent = findOwningModule(modules.filter(candidate => candidate !== jvmModule), jvmModule.dir);
+    if (parent) {
+      allDependencies.push({ source: moduleIds.get(parent.name)!, target: moduleIds.get(jvmModule.name)!, type: 'contains' });
+    }
+    for (const dependency of jvmModule.dependencies) {
+      allDependencies.push({ source: moduleIds.get(jvmModule.name)!, target: moduleIds.get(dependency)!, type: 'imports' });
+    }
+  }
+  for (const entry of modulePackages) {
+    const [moduleName, packageName] = entry.split('\n');
+    allDependencies.push({ source: moduleIds.get(moduleName)!, target: generateId('package', packageName, packageName), type: 'contains' });
+  }
+
+  const resolved = resolveJavaDependencies(
+    [...moduleNodes, ...nodesById.values()],
+    allDependencies,
+    allImports,
+    allCalls,
+    allDeclarations
+  );
+
+  // Create project name from directory name
+  const projectName = path.basename(projectPath);
+
+  return {
+    name: projectName,
+    root: projectPath,
+    nodes: resolved.nodes,
+    dependencies: resolved.dependencies
+  };
+};
+
+// Convert JavaProject to GraphData for visualization
+export const convertToGraphData = (project: JavaProject): JavaGraphData => {
+  const nodeTypes = {
+    module: { val: 20, color: '#FF5722' },
+    package: { val: 15, color: '#FF9800' },
+    class: { val: 10, color: '#EA4335' },
+    interface: { val: 8, color: '#34A853' },
+    enum: { val: 6, color: '#FBBC05' },
+    record: { val: 7, color: '#E91E63' },
+    method: { val: 3, color: '#03A9F4' },
+    function: { val: 5, color: '#4285F4' },
+    field: { val: 2, color: '#795548' },
+    external: { val: 2, color: '#BDBDBD' }
+  };
+
+  // Map nodes to graph format
+  const graphNodes = project.nodes.map(node => {
+    const nodeType = nodeTypes[node.type];
+
+    return {
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      val: nodeType.val,
+      color: nodeType.color,
+      group: node.module ? `${node.module}/${node.path}` : node.path,
+      path: node.path,
+      file: node.file,
+      signature: node.signature,
+      description: node.description,
+      visibility: node.visibility
+    };
+  });
+
+  // Map dependencies to links
+  const links = project.dependencies.map(dep => ({
+    source: dep.source,
+    target: dep.target,
+    type: dep.type,
+    value: dep.weight || 1
+  }));
+
+  return {
+    nodes: graphNodes,
+    links
+  };
+};
+
+// Convert JavaProject to hierarchical data for tree visualization: modules,
+// then packages nested by their `.`-separated names, then types and members
+export const convertToHierarchicalData = (project: JavaProject): JavaHierarchicalData => {
+  const toTreeNode = (node: JavaNode): JavaTreeNode => ({
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    path: node.path,
+    file: node.file,
+    signature: node.signature,
+    description: node.description,
+    visibility: node.visibility,
+    children: []
+  });
+
+  const parentIds = new Map<string, string>();
+  for (const dep of project.dependencies) {
+    if (dep.type === 'contains') {
+      parentIds.set(dep.target, dep.source);
+    }
+  }
+
+  const roots: JavaTreeNode[] = [];
+  const modules = new Map<string, JavaTreeNode>();
+  for (const node of project.nodes) {
+    if (node.type === 'module') {
+      modules.set(node.id, toTreeNode(node));
+    }
+  }
+  for (const node of project.nodes) {
+    if (node.type !== 'module') continue;
+    const parent = modules.get(parentIds.get(node.id) || '');
+    (parent ? parent.children : roots).push(modules.get(node.id)!);
+  }
+
+  // Package trees by module, keyed by `module|package`
+  const packages = new Map<string, JavaTreeNode>();
+  const packageNodes = new Map(project.nodes.filter(node => node.type === 'package').map(node => [node.path, node]));
+
+  const getPackage = (moduleName: string | undefined, packageName: string): JavaTreeNode => {
+    const key = `${moduleName || ''}|${packageName}`;
+    const existing = packages.get(key);
+    if (existing) return existing;
+
+    // A package split across modules, or a parent package without sources of
+    // its own, gets a tree node of its own in each module
+    const packageNode = packageNodes.get(packageName);
+    const treeNode: JavaTreeNode = packageNode
+      ? { ...toTreeNode(packageNode), name: packageName.split('.').pop() || packageNode.name }
+      : { id: `package:${key}`, name: packageName.split('.').pop()!, type: 'package', path: packageName, children: [] };
+    if (packageNode && packageNode.module !== moduleName) {
+      treeNode.id = `package:${key}`;
+    }
+    packages.set(key, treeNode);
+
+    const parentName = packageName.includes('.') ? packageName.substring(0, packageName.lastIndexOf('.')) : null;
+    const container = parentName !== null
+      ? getPackage(moduleName, parentName)
+      : moduleName ? modules.get(generateId('module', moduleName, moduleName)) : undefined;
+    (container ? container.children : roots).push(treeNode);
+    return treeNode;
+  };
+
+  // Nest types and members under their enclosing declaration, or else their package
+  const treeNodes = new Map<string, JavaTreeNode>();
+  for (const node of project.nodes) {
+    if (node.type !== 'module' && node.type !== 'package') {
+      treeNodes.set(node.id, toTreeNode(node));
+    }
+  }
+
+  for (const node of project.nodes) {
+    const treeNode = treeNodes.get(node.id);
+    if (!treeNode) continue;
+
+    const parent = treeNodes.get(parentIds.get(node.id) || '');
+    if (parent) {
+      parent.children.push(treeNode);
+    } else if (node.type === 'external') {
+      roots.push(treeNode);
+    } else {
+      getPackage(node.module, node.path).children.push(treeNode);
+    }
+  }
+
+  return {
+    name: project.name,
+    children: roots
+  };
+};
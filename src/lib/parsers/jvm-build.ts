@@ -0,0 +1,210 @@
+// This module is server-only and should not be imported from client components
+// Reads Maven pom.xml and Gradle settings and build files to find the modules
+// of a JVM project, their source roots and the dependencies between them
+
+import fs from 'fs';
+import path from 'path';
+import { FileFilter } from '../../types/analyzer-types';
+
+export type JvmModule = {
+  // Maven artifactId, or Gradle project path without the leading colon, e.g. `lib:core`
+  name: string;
+  dir: string;
+  buildFile: string;
+  buildTool: 'maven' | 'gradle';
+  // `groupId:artifactId` for Maven, `:path` for Gradle
+  coordinates: string;
+  // Names of the project's modules this module depends on
+  dependencies: string[];
+};
+
+// Build output, dependency and IDE directories, which hold no project sources
+const IGNORED_DIRECTORIES = new Set(['target', 'build', 'out', 'bin', 'node_modules']);
+
+export const isIgnoredJvmDirectory = (name: string): boolean => {
+  return name.startsWith('.') || IGNORED_DIRECTORIES.has(name);
+};
+
+// Find files with one of the given names below a directory, outside directories the filter excludes
+const findBuildFiles = (dir: string, names: string[], filter?: FileFilter): string[] => {
+  const files: string[] = [];
+
+  try {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!isIgnoredJvmDirectory(entry.name) && !filter?.excludesDirectory(fullPath)) {
+          files.push(...findBuildFiles(fullPath, names, filter));
+        }
+      } else if (names.includes(entry.name)) {
+        files.push(fullPath);
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading directory ${dir}:`, error);
+  }
+
+  return files;
+};
+
+// Remove the XML sections whose `groupId` and `artifactId` are not the project's own
+const stripPomSections = (xml: string, sections: string[]): string => {
+  return sections.reduce(
+    (text, section) => text.replace(new RegExp(`<${section}>[\\s\\S]*?</${section}>`, 'g'), ''),
+    xml.replace(/<!--[\s\S]*?-->/g, '')
+  );
+};
+
+// Read the coordinates of a pom.xml and the artifactIds of its dependencies
+const readPom = (pomPath: string): { groupId?: string, artifactId?: string, dependencies: string[] } | null => {
+  try {
+    const xml = fs.readFileSync(pomPath, 'utf8');
+    const own = stripPomSections(xml, ['parent', 'dependencyManagement', 'dependencies', 'build', 'profiles', 'reporting']);
+    const parentGroupId = xml.match(/<parent>[\s\S]*?<groupId>\s*([^<]+?)\s*<\/groupId>/)?.[1];
+
+    // Dependencies of the project itself, not those of plugins or managed versions
+    const dependencyXml = stripPomSections(xml, ['dependencyManagement', 'build', 'profiles', 'reporting'])
+      .match(/<dependencies>([\s\S]*?)<\/dependencies>/)?.[1] || '';
+    const dependencies = [...dependencyXml.matchAll(/<artifactId>\s*([^<]+?)\s*<\/artifactId>/g)].map(match => match[1]);
+
+    return {
+      groupId: own.match(/<groupId>\s*([^<]+?)\s*<\/groupId>/)?.[1] || parentGroupId,
+      artifactId: own.match(/<artifactId>\s*([^<]+?)\s*<\/artifactId>/)?.[1],
+      dependencies
+    };
+  } catch (error) {
+    console.error(`Error reading ${pomPath}:`, error);
+    return null;
+  }
+};
+
+// Maven modules: every pom.xml below the root, named by their artifactId
+const findMavenModules = (projectPath: string, filter?: FileFilter): JvmModule[] => {
+  const poms = findBuildFiles(projectPath, ['pom.xml'], filter).map(pomPath => ({ pomPath, pom: readPom(pomPath) }));
+  const artifactIds = new Set(poms.map(({ pom }) => pom?.artifactId).filter(Boolean));
+
+  return poms.flatMap(({ pomPath, pom }) => {
+    if (!pom?.artifactId) return [];
+
+    return [{
+      name: pom.artifactId,
+      dir: path.dirname(pomPath),
+      buildFile: pomPath,
+      buildTool: 'maven' as const,
+      coordinates: `${pom.groupId || ''}:${pom.artifactId}`,
+      dependencies: pom.dependencies.filter(dependency => artifactIds.has(dependency) && dependency !== pom.artifactId)
+    }];
+  });
+};
+
+// The settings.gradle(.kts) of a directory, if it has one
+const findGradleSettings = (dir: string): string | undefined => {
+  return ['settings.gradle', 'settings.gradle.kts']
+    .map(name => path.join(dir, name))
+    .find(candidate => fs.existsSync(candidate));
+};
+
+// Directories of the projects a Gradle settings file includes, by project path:
+// `include(":app", ":lib:core")` or `include ':app', 'lib'`
+const readGradleIncludes = (settingsPath: string): Map<string, string> => {
+  const settings = fs.readFileSync(settingsPath, 'utf8').replace(/\/\/.*$/gm, '');
+  const projects = new Map<string, string>();
+
+  for (const include of settings.matchAll(/\binclude\s*\(?([^)\n]*)/g)) {
+    for (const projectName of include[1].matchAll(/["']:?([^"']+)["']/g)) {
+      projects.set(`:${projectName[1]}`, path.join(path.dirname(settingsPath), ...projectName[1].split(':')));
+    }
+  }
+  return projects;
+};
+
+// Directories of the modules a pom.xml lists in `<modules>`, in any profile
+const readPomModules = (pomPath: string): string[] => {
+  try {
+    const xml = fs.readFileSync(pomPath, 'utf8').replace(/<!--[\s\S]*?-->/g, '');
+    return [...xml.matchAll(/<modules>([\s\S]*?)<\/modules>/g)]
+      .flatMap(block => [...block[1].matchAll(/<module>\s*([^<]+?)\s*<\/module>/g)])
+      .map(entry => path.resolve(path.dirname(pomPath), entry[1].replace(/[\\/]pom\.xml$/, '')));
+  } catch (error) {
+    console.error(`Error reading ${pomPath}:`, error);
+    return [];
+  }
+};
+
+// Directories of the modules built with the build in a directory: the modules
+// its pom.xml aggregates, and theirs in turn, or the projects its Gradle
+// settings include
+export const findJvmMemberDirs = (buildDir: string, visited = new Set<string>()): string[] => {
+  const pomPath = path.join(buildDir, 'pom.xml');
+  if (fs.existsSync(pomPath)) {
+    visited.add(buildDir);
+    return readPomModules(pomPath)
+      .filter(dir => !visited.has(dir))
+      .flatMap(dir => [dir, ...findJvmMemberDirs(dir, visited)]);
+  }
+
+  const settingsPath = findGradleSettings(buildDir);
+  return settingsPath ? [...readGradleIncludes(settingsPath).values()] : [];
+};
+
+// Gradle modules: the root project and those included by settings.gradle(.kts),
+// or every directory with a build script when there are no settings
+const findGradleModules = (projectPath: string, filter?: FileFilter): JvmModule[] => {
+  const settingsPath = findGradleSettings(projectPath);
+  const projects = new Map<string, string>();
+
+  if (settingsPath) {
+    projects.set(':', projectPath);
+    for (const [gradlePath, dir] of readGradleIncludes(settingsPath)) {
+      projects.set(gradlePath, dir);
+    }
+  } else {
+    for (const buildFile of findBuildFiles(projectPath, ['build.gradle', 'build.gradle.kts'], filter)) {
+      const relativePath = path.relative(projectPath, path.dirname(buildFile));
+      projects.set(relativePath ? `:${relativePath.split(path.sep).join(':')}` : ':', path.dirname(buildFile));
+    }
+  }
+
+  const rootName = settingsPath
+    ? fs.readFileSync(settingsPath, 'utf8').match(/rootProject\.name\s*=\s*["']([^"']+)["']/)?.[1]
+    : undefined;
+  const moduleName = (gradlePath: string) => gradlePath === ':' ? rootName || path.basename(projectPath) : gradlePath.slice(1);
+
+  return [...projects].flatMap(([gradlePath, dir]) => {
+    const buildFile = ['build.gradle', 'build.gradle.kts'].map(name => path.join(dir, name)).find(candidate => fs.existsSync(candidate));
+    if (!buildFile && gradlePath === ':') return [];
+
+    // `implementation(project(":core"))` and `api project(':lib:util')`
+    const buildScript = buildFile ? fs.readFileSync(buildFile, 'utf8') : '';
+    const dependencies = [...buildScript.matchAll(/\bproject\s*\(\s*(?:path\s*[:=]\s*)?["'](:[^"']*)["']/g)]
+      .map(match => match[1])
+      .filter(dependency => projects.has(dependency) && dependency !== gradlePath)
+      .map(moduleName);
+
+    return [{
+      name: moduleName(gradlePath),
+      dir,
+      buildFile: buildFile || settingsPath!,
+      buildTool: 'gradle' as const,
+      coordinates: gradlePath,
+      dependencies: [...new Set(dependencies)]
+    }];
+  });
+};
+
+// Find the modules of a Maven or Gradle build, preferring Maven when a
+// project has both
+export const findJvmModules = (projectPath: string, filter?: FileFilter): JvmModule[] => {
+  const mavenModules = findMavenModules(projectPath, filter);
+  return mavenModules.length > 0 ? mavenModules : findGradleModules(projectPath, filter);
+};
+
+// The module a file or directory belongs to: the one with the nearest directory above it
+export const findOwningModule = <T extends { dir: string }>(modules: T[], filePath: string): T | undefined => {
+  return modules
+    .filter(candidate => filePath === candidate.dir || filePath.startsWith(`${candidate.dir}${path.sep}`))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+};
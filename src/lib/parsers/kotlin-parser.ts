@@ -0,0 +1,467 @@
+// This module is server-only and should not be imported from client components
+// Uses tree-sitter to parse Kotlin files into the same shape as Java files, so
+// both languages resolve against each other in parseJavaProject
+
+import type Parser from 'tree-sitter';
+import fs from 'fs';
+import path from 'path';
+import {
+  JavaNode,
+  JavaDependency,
+  JavaImport,
+  JavaCallSite,
+  JavaTypeDeclaration
+} from '../../types/java-types';
+import { cleanDocComment, type JavaFileParseResult } from './java-parser';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+// Generate a unique ID for a Kotlin node
+const generateId = (type: string, name: string, path: string): string => {
+  return `${type}:${path}:${name}`;
+};
+
+// Parameters and local variables visible in a function body, with their types as written
+type KotlinLocals = Map<string, string | undefined>;
+
+// Expressions and statements that open a scope for the names they declare
+const BLOCK_SCOPES = new Set(['statements', 'for_statement', 'lambda_literal', 'anonymous_function', 'catch_block', 'when_entry']);
+
+// Parse a single Kotlin file
+export const parseKotlinFile = (filePath: string, parser: Parser): JavaFileParseResult => {
+  try {
+    const code = fs.readFileSync(filePath, 'utf8');
+    const tree = parser.parse(code);
+    const nodes: JavaNode[] = [];
+    const dependencies: JavaDependency[] = [];
+    const imports: JavaImport[] = [];
+    const calls: JavaCallSite[] = [];
+    const declarations: JavaTypeDeclaration[] = [];
+    const nodeIds = new Set<string>();
+
+    const getText = (node: SyntaxNode): string => {
+      return code.substring(node.startIndex, node.endIndex);
+    };
+
+    const findChild = (node: SyntaxNode, type: string): SyntaxNode | undefined => {
+      return node.namedChildren.find(child => child.type === type);
+    };
+
+    // Collapse whitespace so multi-line signatures render on one line
+    const normalize = (text: string): string => {
+      return text.replace(/\s+/g, ' ').replace(/\(\s/g, '(').replace(/,?\s\)/g, ')');
+    };
+
+    // Declaration text up to its body, without annotations, e.g. `fun save(user: User): Boolean`
+    const getHeader = (node: SyntaxNode, bodyNode: SyntaxNode | undefined): string => {
+      const text = code.substring(node.startIndex, bodyNode ? bodyNode.startIndex : node.endIndex);
+      return normalize(text.replace(/@[\w.:]+(\s*\((?:[^()]|\([^()]*\))*\))?/g, '')).replace(/[\s=]+$/, '').trim();
+    };
+
+    // KDoc comment right before a declaration; a comment after the imports is
+    // parsed as part of the import list
+    const getDescription = (node: SyntaxNode): string | undefined => {
+      let comment = node.previousNamedSibling;
+      while (comment && ['import_list', 'import_header', 'package_header'].includes(comment.type)) {
+        comment = comment.lastNamedChild;
+      }
+      const isAdjacent = comment && !code.substring(comment.endIndex, node.startIndex).trim();
+      return comment?.type === 'multiline_comment' && isAdjacent && getText(comment).startsWith('/**')
+        ? cleanDocComment(getText(comment))
+        : undefined;
+    };
+
+    // Kotlin declarations are public unless marked otherwise
+    const getVisibility = (node: SyntaxNode): JavaNode['visibility'] => {
+      const modifier = findChild(findChild(node, 'modifiers') || node, 'visibility_modifier');
+      return modifier ? getText(modifier) as JavaNode['visibility'] : 'public';
+    };
+
+    const hasModifier = (node: SyntaxNode, modifier: string): boolean => {
+      const modifiers = findChild(node, 'modifiers');
+      return !!modifiers?.namedChildren.some(child => getText(child) === modifier);
+    };
+
+    // Name of a type as written, without type arguments or nullability,
+    // e.g. `List` for `List<User>?` and `Map.Entry` for a nested type
+    const getTypeName = (node: SyntaxNode | undefined): string | undefined => {
+      if (!node) return undefined;
+
+      switch (node.type) {
+        case 'nullable_type':
+        case 'type_reference':
+        case 'parenthesized_type':
+          return getTypeName(node.namedChildren[0]);
+        case 'user_type':
+          return node.namedChildren.filter(child => child.type === 'type_identifier').map(getText).join('.') || undefined;
+        default:
+          return undefined;
+      }
+    };
+
+    // Type of a value as far as it can be told without type inference:
+    // constructor-like calls, e.g. `User("x")` or `Repo.create()`
+    const inferType = (node: SyntaxNode | undefined): string | undefined => {
+      if (node?.type !== 'call_expression') return undefined;
+      const callee = getDottedName(node.namedChildren[0]);
+      return callee && /^[A-Z]/.test(callee.split('.').pop()!) ? `${callee}()` : undefined;
+    };
+
+    // Dotted name of a plain name or navigation chain, e.g. `this.repo`; null
+    // for anything else, such as `load().then`
+    const getDottedName = (node: SyntaxNode | undefined): string | null => {
+      if (!node) return null;
+
+      switch (node.type) {
+        case 'simple_identifier':
+          return getText(node);
+        case 'this_expression':
+          return 'this';
+        case 'super_expression':
+          return 'super';
+        case 'parenthesized_expression':
+          return getDottedName(node.namedChildren[0]);
+        case 'navigation_expression': {
+          const objectName = getDottedName(node.namedChildren[0]);
+          const suffix = findChild(node, 'navigation_suffix');
+          const member = suffix && findChild(suffix, 'simple_identifier');
+          return objectName && member ? `${objectName}.${getText(member)}` : null;
+        }
+        default:
+          return null;
+      }
+    };
+
+    const packageHeader = findChild(tree.rootNode, 'package_header');
+    const packageNameNode = packageHeader && findChild(packageHeader, 'identifier');
+    const packageName = packageNameNode ? getText(packageNameNode) : '';
+    const packageId = generateId('package', packageName, packageName);
+
+    nodes.push({
+      id: packageId,
+      type: 'package',
+      name: packageName || '(default)',
+      path: packageName,
+      file: path.dirname(filePath),
+      signature: packageName ? `package ${packageName}` : undefined
+    });
+    nodeIds.add(packageId);
+
+    // Overloads share a node, which lists the signature of each
+    const addNode = (node: JavaNode, parentId: string) => {
+      if (nodeIds.has(node.id)) {
+        const existing = nodes.find(other => other.id === node.id);
+        if (existing && node.signature && (node.type === 'method' || node.type === 'function') &&
+            !existing.signature?.split('\n').includes(node.signature)) {
+          existing.signature = existing.signature ? `${existing.signature}\n${node.signature}` : node.signature;
+          existing.description = existing.description || node.description;
+        }
+        return;
+      }
+
+      nodeIds.add(node.id);
+      nodes.push(node);
+      dependencies.push({
+        source: parentId,
+        target: node.id,
+        type: 'contains'
+      });
+    };
+
+    // Record the calls in a function body or initializer, tracking the types
+    // of locals so calls through them can be resolved
+    const collectCalls = (node: SyntaxNode, source: string, className: string | undefined, locals: KotlinLocals) => {
+      switch (node.type) {
+        case 'call_expression': {
+          const callee = getDottedName(node.namedChildren[0]);
+          const root = callee?.split('.')[0];
+          // A call through a local of unknown type is not resolvable
+          if (callee && root && !(locals.has(root) && !locals.get(root))) {
+            calls.push({
+              source,
+              file: filePath,
+              package: packageName,
+              className,
+              callee,
+              receiverType: locals.get(root) && callee !== root ? locals.get(root) : undefined
+            });
+          }
+          break;
+        }
+
+        case 'property_declaration': {
+          const value = node.namedChildren.find(child => child.type !== 'modifiers' && child.type !== 'binding_pattern_kind' && child.type !== 'variable_declaration');
+          if (value) collectCalls(value, source, className, locals);
+
+          for (const variable of node.descendantsOfType('variable_declaration')) {
+            const nameNode = findChild(variable, 'simple_identifier');
+            if (nameNode) {
+              locals.set(getText(nameNode), getTypeName(variable.namedChildren[1]) || inferType(value));
+            }
+          }
+          return;
+        }
+
+        case 'for_statement': {
+          const forLocals = new Map(locals);
+          for (const variable of node.descendantsOfType('variable_declaration').filter(variable => variable.parent === node || variable.parent?.parent === node)) {
+            const nameNode = findChild(variable, 'simple_identifier');
+            if (nameNode) forLocals.set(getText(nameNode), getTypeName(variable.namedChildren[1]));
+          }
+          for (const child of node.namedChildren) {
+            collectCalls(child, source, className, forLocals);
+          }
+          return;
+        }
+
+        case 'lambda_literal': {
+          const lambdaLocals = new Map(locals);
+          const parameters = findChild(node, 'lambda_parameters');
+          if (parameters) {
+            parameters.descendantsOfType('simple_identifier').forEach(name => lambdaLocals.set(getText(name), undefined));
+          } else {
+            lambdaLocals.set('it', undefined);
+          }
+          for (const child of node.namedChildren) {
+            collectCalls(child, source, className, lambdaLocals);
+          }
+          return;
+        }
+
+        case 'catch_block': {
+          const catchLocals = new Map(locals);
+          const nameNode = findChild(node, 'simple_identifier');
+          if (nameNode) catchLocals.set(getText(nameNode), undefined);
+          for (const child of node.namedChildren) {
+            collectCalls(child, source, className, catchLocals);
+          }
+          return;
+        }
+      }
+
+      const childLocals = BLOCK_SCOPES.has(node.type) ? new Map(locals) : locals;
+      for (const child of node.namedChildren) {
+        collectCalls(child, source, className, childLocals);
+      }
+    };
+
+    // Functions, which are methods inside classes; overloads share a node listing each signature
+    const processFunction = (node: SyntaxNode, className: string | undefined, parentId: string) => {
+      const nameNode = findChild(node, 'simple_identifier');
+      if (!nameNode) return;
+
+      const name = getText(nameNode);
+      const body = findChild(node, 'function_body');
+      const id = className
+        ? generateId('method', `${className}.${name}`, packageName)
+        : generateId('function', name, packageName);
+
+      addNode({
+        id,
+        type: className ? 'method' : 'function',
+        name,
+        path: packageName,
+        file: filePath,
+        signature: getHeader(node, body),
+        description: getDescription(node),
+        visibility: getVisibility(node)
+      }, parentId);
+
+      const locals: KotlinLocals = new Map();
+      const parameters = findChild(node, 'function_value_parameters');
+      for (const param of parameters?.namedChildren.filter(child => child.type === 'parameter') || []) {
+        const paramName = findChild(param, 'simple_identifier');
+        if (paramName) locals.set(getText(paramName), getTypeName(param.namedChildren.find(child => child.type.endsWith('_type'))));
+      }
+      if (body) collectCalls(body, id, className, locals);
+    };
+
+    // Properties, which are fields inside classes
+    const processProperty = (node: SyntaxNode, declaration: JavaTypeDeclaration | undefined, parentId: string) => {
+      const value = node.namedChildren.find(child => !['modifiers', 'binding_pattern_kind', 'variable_declaration', 'getter', 'setter'].includes(child.type));
+      const ownerName = declaration?.name;
+
+      for (const variable of node.namedChildren.filter(child => child.type === 'variable_declaration')) {
+        const nameNode = findChild(variable, 'simple_identifier');
+        if (!nameNode) continue;
+
+        const name = getText(nameNode);
+        const typeNode = variable.namedChildren[1];
+        const typeName = getTypeName(typeNode) || inferType(value);
+        if (declaration && typeName) declaration.fields[name] = typeName;
+
+        const binding = findChild(node, 'binding_pattern_kind');
+        addNode({
+          id: generateId('field', ownerName ? `${ownerName}.${name}` : name, packageName),
+          type: 'field',
+          name,
+          path: packageName,
+          file: filePath,
+          signature: `${binding ? getText(binding) : 'val'} ${name}${typeNode ? `: ${normalize(getText(typeNode))}` : ''}`,
+          description: getDescription(node),
+          visibility: getVisibility(node)
+        }, parentId);
+      }
+
+      // Initializers run as part of the class or file
+      if (value) collectCalls(value, declaration?.id || packageId, ownerName, new Map());
+    };
+
+    // Classes, interfaces, enums and objects with their members; members of a
+    // companion object belong to the enclosing class
+    const processClass = (node: SyntaxNode, outerName: string | null, parentId: string) => {
+      const nameNode = findChild(node, 'type_identifier');
+      if (!nameNode) return;
+
+      const body = findChild(node, 'class_body') || findChild(node, 'enum_class_body');
+      const kind: JavaTypeDeclaration['kind'] = node.children.some(child => child.type === 'interface')
+        ? 'interface'
+        : body?.type === 'enum_class_body' || hasModifier(node, 'enum') ? 'enum' : 'class';
+      const name = getText(nameNode);
+      const className = outerName ? `${outerName}.${name}` : name;
+      const id = generateId(kind, className, packageName);
+
+      addNode({
+        id,
+        type: kind,
+        name,
+        path: packageName,
+        file: filePath,
+        signature: getHeader(node, body),
+        description: getDescription(node),
+        visibility: getVisibility(node)
+      }, parentId);
+
+      const declaration: JavaTypeDeclaration = {
+        id,
+        package: packageName,
+        file: filePath,
+        name: className,
+        kind,
+        extends: [],
+        implements: [],
+        fields: {}
+      };
+
+      // A supertype called with constructor arguments is the superclass; the
+      // others are interfaces, or classes when they resolve to one
+      for (const specifier of node.namedChildren.filter(child => child.type === 'delegation_specifier')) {
+        const invocation = findChild(specifier, 'constructor_invocation');
+        const typeName = getTypeName(findChild(invocation || specifier, 'user_type') || findChild(findChild(specifier, 'explicit_delegation') || specifier, 'user_type'));
+        if (typeName) {
+          declaration[invocation || kind === 'interface' ? 'extends' : 'implements'].push(typeName);
+        }
+        if (invocation) collectCalls(invocation, id, className, new Map());
+      }
+
+      // `val` and `var` constructor parameters are properties
+      const constructor = findChild(node, 'primary_constructor');
+      for (const param of constructor?.namedChildren.filter(child => child.type === 'class_parameter') || []) {
+        const paramName = findChild(param, 'simple_identifier');
+        const binding = findChild(param, 'binding_pattern_kind');
+        if (!paramName || !binding) continue;
+
+        const typeNode = param.namedChildren.find(child => child.type.endsWith('_type'));
+        const typeName = getTypeName(typeNode);
+        if (typeName) declaration.fields[getText(paramName)] = typeName;
+
+        addNode({
+          id: generateId('field', `${className}.${getText(paramName)}`, packageName),
+          type: 'field',
+          name: getText(paramName),
+          path: packageName,
+          file: filePath,
+          signature: `${getText(binding)} ${getText(paramName)}${typeNode ? `: ${normalize(getText(typeNode))}` : ''}`,
+          visibility: getVisibility(param)
+        }, id);
+      }
+
+      const processMembers = (memberBody: SyntaxNode | undefined) => {
+        for (const member of memberBody?.namedChildren || []) {
+          switch (member.type) {
+            case 'function_declaration':
+              processFunction(member, className, id);
+              break;
+
+            case 'property_declaration':
+              processProperty(member, declaration, id);
+              break;
+
+            case 'secondary_constructor': {
+              const constructorId = generateId('method', `${className}.${name}`, packageName);
+              addNode({
+                id: constructorId,
+                type: 'method',
+                name,
+                path: packageName,
+                file: filePath,
+                signature: getHeader(member, findChild(member, 'statements')).replace(/\s*\{$/, ''),
+                description: getDescription(member),
+                visibility: getVisibility(member)
+              }, id);
+              collectCalls(member, constructorId, className, new Map());
+              break;
+            }
+
+            case 'companion_object':
+              processMembers(findChild(member, 'class_body'));
+              break;
+
+            case 'class_declaration':
+            case 'object_declaration':
+              processClass(member, className, id);
+              break;
+
+            case 'anonymous_initializer':
+            case 'enum_entry':
+              collectCalls(member, id, className, new Map());
+              break;
+          }
+        }
+      };
+      processMembers(body);
+
+      declarations.push(declaration);
+    };
+
+    for (const child of tree.rootNode.namedChildren) {
+      switch (child.type) {
+        case 'import_list':
+          for (const header of child.namedChildren.filter(part => part.type === 'import_header')) {
+            const nameNode = findChild(header, 'identifier');
+            const alias = findChild(header, 'import_alias');
+            const aliasName = alias && findChild(alias, 'type_identifier');
+            if (nameNode) {
+              imports.push({
+                file: filePath,
+                package: packageName,
+                name: getText(nameNode),
+                wildcard: !!findChild(header, 'wildcard_import'),
+                static: false,
+                alias: aliasName ? getText(aliasName) : undefined
+              });
+            }
+          }
+          break;
+
+        case 'class_declaration':
+        case 'object_declaration':
+          processClass(child, null, packageId);
+          break;
+
+        case 'function_declaration':
+          processFunction(child, undefined, packageId);
+          break;
+
+        case 'property_declaration':
+          processProperty(child, undefined, packageId);
+          break;
+      }
+    }
+
+    return { package: packageName, nodes, dependencies, imports, calls, declarations };
+  } catch (error) {
+    console.error(`Error parsing Kotlin file ${filePath}:`, error);
+    return { package: '', nodes: [], dependencies: [], imports: [], calls: [], declarations: [] };
+  }
+};
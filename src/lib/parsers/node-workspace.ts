@@ -0,0 +1,54 @@
+// This module is server-only and should not be imported from client components
+// Reads the workspaces of npm, Yarn and pnpm monorepos: the `workspaces` of a
+// package.json and the `packages` of a pnpm-workspace.yaml
+
+import fs from 'fs';
+import path from 'path';
+import { expandDirectoryPattern } from './file-filter';
+
+// Workspace patterns of a package.json: an array, or Yarn's `{ packages: [...] }`
+const readPackageWorkspaces = (packageJsonPath: string): string[] => {
+  try {
+    const workspaces = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')).workspaces;
+    const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+    return Array.isArray(patterns) ? patterns.filter((pattern): pattern is string => typeof pattern === 'string') : [];
+  } catch (error) {
+    console.error(`Error reading ${packageJsonPath}:`, error);
+    return [];
+  }
+};
+
+// Items of the `packages` list of a pnpm-workspace.yaml, the only key read here
+const readPnpmWorkspaces = (workspaceYamlPath: string): string[] => {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of fs.readFileSync(workspaceYamlPath, 'utf8').split('\n').map(text => text.replace(/\s#.*$/, ''))) {
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:/.test(line);
+    } else if (inPackages) {
+      const item = line.match(/^\s*-\s*(.+?)\s*$/)?.[1];
+      if (item) patterns.push(item.replace(/^(["'])(.*)\1$/, '$2'));
+    }
+  }
+  return patterns;
+};
+
+// Directories of the packages of the workspace rooted in a directory, if any.
+// Patterns starting with `!` leave out the directories they match
+export const findWorkspacePackages = (workspaceDir: string): string[] => {
+  const packageJsonPath = path.join(workspaceDir, 'package.json');
+  const workspaceYamlPath = path.join(workspaceDir, 'pnpm-workspace.yaml');
+  const patterns = [
+    ...(fs.existsSync(packageJsonPath) ? readPackageWorkspaces(packageJsonPath) : []),
+    ...(fs.existsSync(workspaceYamlPath) ? readPnpmWorkspaces(workspaceYamlPath) : [])
+  ];
+
+  const excluded = new Set(patterns
+    .filter(pattern => pattern.startsWith('!'))
+    .flatMap(pattern => expandDirectoryPattern(workspaceDir, pattern.substring(1))));
+  return patterns
+    .filter(pattern => !pattern.startsWith('!'))
+    .flatMap(pattern => expandDirectoryPattern(workspaceDir, pattern))
+    .filter(dir => dir !== workspaceDir && !excluded.has(dir) && fs.existsSync(path.join(dir, 'package.json')));
+};
@@ -0,0 +1,110 @@
+// This module is server-only and should not be imported from client components
+// Keeps the result of parsing each file in the parse-cache directory next to a
+// project's metadata.json, so analyzing a project again only parses the files
+// that changed. Cross-file resolution still runs over every file's result
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { FileParsedListener, ParseCache, ParseCacheTask } from '../../types/analyzer-types';
+
+// Directory of the cache, in the project directory
+export const PARSE_CACHE_DIR = 'parse-cache';
+
+const sha256 = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+// Open the parse cache of a project. Each result is stored in a file named
+// after the hash of its parser, its task and the content of the parsed file
+export const openParseCache = (projectDir: string): ParseCache => {
+  const cacheDir = path.join(projectDir, PARSE_CACHE_DIR);
+  // Entries by parser and task, hashed once per analysis; null for unreadable files
+  const entries = new Map<string, string | null>();
+
+  const getEntry = (kind: string, task: ParseCacheTask): string | null => {
+    const taskKey = JSON.stringify([kind, task]);
+    if (!entries.has(taskKey)) {
+      try {
+        entries.set(taskKey, `${sha256(`${taskKey}:${sha256(fs.readFileSync(task.filePath))}`)}.json`);
+      } catch {
+        entries.set(taskKey, null);
+      }
+    }
+    return entries.get(taskKey)!;
+  };
+
+  return {
+    get: (kind, task) => {
+      const entry = getEntry(kind, task);
+      if (!entry) {
+        return undefined;
+      }
+      try {
+        return JSON.parse(fs.readFileSync(path.join(cacheDir, entry), 'utf8'));
+      } catch {
+        return undefined;
+      }
+    },
+
+    set: (kind, task, result) => {
+      const entry = getEntry(kind, task);
+      if (!entry) {
+        return;
+      }
+      try {
+        fs.mkdirSync(cacheDir, { recursive: true });
+        fs.writeFileSync(path.join(cacheDir, entry), JSON.stringify(result));
+      } catch (error) {
+        console.warn(`Could not cache the result of parsing ${task.filePath}:`, error);
+      }
+    },
+
+    prune: () => {
+      if (!fs.existsSync(cacheDir)) {
+        return;
+      }
+      const used = new Set(entries.values());
+      for (const entry of fs.readdirSync(cacheDir)) {
+        if (!used.has(entry)) {
+          fs.rmSync(path.join(cacheDir, entry), { force: true });
+        }
+      }
+    }
+  };
+};
+
+// Parse files through a cache: tasks whose file and inputs are unchanged take
+// their cached result, reported to the listener right away, and the others are
+// parsed together by `parse`. Results are in the order of the tasks
+export const parseWithCache = async <Task extends ParseCacheTask, Result>(
+  cache: ParseCache | undefined,
+  kind: string,
+  tasks: Task[],
+  parse: (tasks: Task[]) => Promise<Result[]>,
+  onFileParsed?: FileParsedListener,
+  // Whether a cached result still holds, for results that depend on other files
+  isValid: (result: Result) => boolean = () => true
+): Promise<Result[]> => {
+  if (!cache) {
+    return parse(tasks);
+  }
+
+  const cached = tasks.map(task => {
+    const result = cache.get(kind, task) as Result | undefined;
+    if (result === undefined || !isValid(result)) {
+      return undefined;
+    }
+    onFileParsed?.(task.filePath);
+    return result;
+  });
+
+  const parsed = await parse(tasks.filter((_, i) => cached[i] === undefined));
+  let next = 0;
+  return tasks.map((task, i) => {
+    if (cached[i] !== undefined) {
+      return cached[i];
+    }
+    const result = parsed[next++];
+    cache.set(kind, task, result);
+    return result;
+  });
+};
@@ -0,0 +1,22 @@
+// This module is server-only and should not be imported from client components
+// Entry point of the parse pool's worker threads (see worker-pool.ts): runs the
+// tasks it is sent and replies with each result or error, under the task's ID
+
+import { parentPort } from 'worker_threads';
+import { ParseTaskKind } from './worker-pool';
+import { parsePythonTask } from './python-parser';
+import { parseRustTask } from './rust-parser';
+
+// Task handlers by kind; each loads its parser on the first task
+const handlers: Record<ParseTaskKind, (task: never) => Promise<unknown>> = {
+  python: parsePythonTask,
+  rust: parseRustTask
+};
+
+parentPort?.on('message', async ({ id, kind, task }: { id: number, kind: ParseTaskKind, task: unknown }) => {
+  try {
+    parentPort?.postMessage({ id, result: await handlers[kind](task as never) });
+  } catch (error) {
+    parentPort?.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
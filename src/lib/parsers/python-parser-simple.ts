@@ -0,0 +1,459 @@
+// This module is server-only and should not be imported from client components
+// Uses regular expressions to parse Python code. Kept as a fallback for when the
+// tree-sitter parser in python-parser.ts is disabled or unavailable
+
+import fs from 'fs';
+import path from 'path';
+import { PythonNode, PythonDependency } from '../../types/python-types';
+
+// Generate a unique ID for a Python node
+const generateId = (type: string, name: string, path: string): string => {
+  return `${type}:${path}:${name}`;
+};
+
+// Parse a single Python file
+export const parsePythonFile = (filePath: string, packagePath: string): { nodes: PythonNode[], dependencies: PythonDependency[], exports?: string[] } => {
+  try {
+    const code = fs.readFileSync(filePath, 'utf8');
+    const nodes: PythonNode[] = [];
+    const dependencies: PythonDependency[] = [];
+    let exportedNames: string[] | undefined;
+    
+    // Get the module name from file path
+    const fileName = path.basename(filePath);
+    const moduleName = fileName.replace(/\.py$/, '');
+    const moduleId = generateId('module', moduleName, packagePath);
+    
+    nodes.push({
+      id: moduleId,
+      type: 'module',
+      name: moduleName,
+      path: packagePath,
+      file: filePath
+    });
+    
+    // Extract imports
+    const importRegex = /^\s*(?:from\s+([.\w]+)\s+)?import\s+([^#\n]+)/gm;
+    let importMatch;
+    
+    while ((importMatch = importRegex.exec(code)) !== null) {
+      const fromModule = importMatch[1] || '';
+      const importItems = importMatch[2].split(',').map(item => {
+        const asMatch = item.trim().match(/(\S+)(?:\s+as\s+(\S+))?/);
+        return asMatch ? asMatch[1].trim() : item.trim();
+      });
+      
+      for (const item of importItems) {
+        const importName = item;
+        const id = generateId('import', importName, packagePath);
+        
+        nodes.push({
+          id,
+          type: 'import',
+          name: importName,
+          path: packagePath,
+          file: filePath
+        });
+        
+        // Create dependency for this import
+        if (fromModule) {
+          const importPath = fromModule + '.' + importName;
+          dependencies.push({
+            source: moduleId,
+            target: generateId('import', importPath, ''),
+            type: 'imports'
+          });
+        } else {
+          dependencies.push({
+            source: moduleId,
+            target: generateId('import', importName, ''),
+            type: 'imports'
+          });
+        }
+      }
+    }
+    
+    // Extract classes
+    const classRegex = /^\s*class\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*(?:\(([^)]*)\))?:/gm;
+    let classMatch;
+    
+    while ((classMatch = classRegex.exec(code)) !== null) {
+      const className = classMatch[1];
+      const parentClasses = classMatch[2] ? classMatch[2].split(',').map(c => c.trim()) : [];
+      const classId = generateId('class', className, packagePath);
+      
+      // Check for docstring
+      const docstringStart = code.indexOf('"""', classMatch.index + classMatch[0].length);
+      let docstring = '';
+      
+      if (docstringStart > -1 && docstringStart < code.indexOf('\n\n', classMatch.index + classMatch[0].length)) {
+        const docstringEnd = code.indexOf('"""', docstringStart + 3);
+        if (docstringEnd > -1) {
+          docstring = code.substring(docstringStart + 3, docstringEnd).trim();
+        }
+      }
+      
+      nodes.push({
+        id: classId,
+        type: 'class',
+        name: className,
+        path: packagePath,
+        file: filePath,
+        signature: `class ${className}${parentClasses.length ? `(${parentClasses.join(', ')})` : ''}`,
+        docstring
+      });
+      
+      // Unindented classes belong directly to the module
+      if (/(^|\n)class\s/.test(classMatch[0])) {
+        dependencies.push({
+          source: moduleId,
+          target: classId,
+          type: 'contains'
+        });
+      }
+      
+      // Add inheritance dependencies
+      for (const parent of parentClasses) {
+        // Skip built-in types like 'object'
+        if (parent !== 'object') {
+          dependencies.push({
+            source: classId,
+            target: generateId('class', parent, ''),
+            type: 'inherits'
+          });
+        }
+      }
+      
+      // Find methods within this class
+      const classEndIndex = findClassEndIndex(code, classMatch.index);
+      if (classEndIndex > classMatch.index) {
+        const classBody = code.substring(classMatch.index, classEndIndex);
+        parseClassMethods(classBody, packagePath, filePath, className, classId, nodes, dependencies);
+      }
+    }
+    
+    // Extract standalone functions
+    const functionRegex = /^\s*def\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\)(?:\s*->\s*([^:]*))?\s*:/gm;
+    let functionMatch;
+    
+    while ((functionMatch = functionRegex.exec(code)) !== null) {
+      // Check if this function is within a class (already processed)
+      const functionStartPos = functionMatch.index;
+      let insideClass = false;
+      
+      for (const node of nodes) {
+        if (node.type === 'class' && node.file === filePath) {
+          const classEndIndex = findClassEndIndex(code, code.indexOf(`class ${node.name}`));
+          if (functionStartPos > code.indexOf(`class ${node.name}`) && functionStartPos < classEndIndex) {
+            insideClass = true;
+            break;
+          }
+        }
+      }
+      
+      if (!insideClass) {
+        const functionName = functionMatch[1];
+        const params = functionMatch[2].trim();
+        const returnType = functionMatch[3] ? functionMatch[3].trim() : '';
+        const functionId = generateId('function', functionName, packagePath);
+        
+        // Check for decorators
+        const decorators: string[] = [];
+        let pos = functionMatch.index;
+        while (pos > 0) {
+          const lineStart = code.lastIndexOf('\n', pos - 1);
+          const line = code.substring(lineStart + 1, pos).trim();
+          if (line.startsWith('@')) {
+            decorators.unshift(line.substring(1));
+            pos = lineStart;
+          } else if (!line || !line.trim()) {
+            pos = lineStart;
+          } else {
+            break;
+          }
+        }
+        
+        // Check for docstring
+        const docstringStart = code.indexOf('"""', functionMatch.index + functionMatch[0].length);
+        let docstring = '';
+        
+        if (docstringStart > -1 && docstringStart < code.indexOf('\n\n', functionMatch.index + functionMatch[0].length)) {
+          const docstringEnd = code.indexOf('"""', docstringStart + 3);
+          if (docstringEnd > -1) {
+            docstring = code.substring(docstringStart + 3, docstringEnd).trim();
+          }
+        }
+        
+        nodes.push({
+          id: functionId,
+          type: 'function',
+          name: functionName,
+          path: packagePath,
+          file: filePath,
+          signature: `def ${functionName}(${params})${returnType ? ` -> ${returnType}` : ''}`,
+          docstring,
+          decorators: decorators.length > 0 ? decorators : undefined
+        });
+        
+        if (/(^|\n)def\s/.test(functionMatch[0])) {
+          dependencies.push({
+            source: moduleId,
+            target: functionId,
+            type: 'contains'
+          });
+        }
+
+        // Each decorator becomes a node the function contains, using what it names
+        for (const decorator of decorators) {
+          const decoratorName = decorator.replace(/\([\s\S]*$/, '').trim();
+          const decoratorId = generateId('decorator', `${functionName}.@${decoratorName}`, packagePath);
+          if (nodes.some(node => node.id === decoratorId)) {
+            continue;
+          }
+
+          nodes.push({
+            id: decoratorId,
+            type: 'decorator',
+            name: decoratorName,
+            path: packagePath,
+            file: filePath,
+            signature: `@${decorator}`
+          });
+
+          dependencies.push({
+            source: functionId,
+            target: decoratorId,
+            type: 'contains'
+          });
+
+          if (/^[\w.]+$/.test(decoratorName)) {
+            dependencies.push({
+              source: decoratorId,
+              target: generateId('function', decoratorName, ''),
+              type: 'uses'
+            });
+          }
+        }
+        
+        // Extract function calls within this function
+        const endIndex = findFunctionEndIndex(code, functionMatch.index);
+        if (endIndex > functionMatch.index) {
+          const functionBody = code.substring(functionMatch.index, endIndex);
+          const callRegex = /([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
+          let callMatch;
+          
+          while ((callMatch = callRegex.exec(functionBody)) !== null) {
+            const calledFunc = callMatch[1];
+            // Skip if it's a common keyword or the function itself
+            if (['if', 'while', 'for', 'print', 'len', 'str', 'int', 'float'].includes(calledFunc) || calledFunc === functionName) {
+              continue;
+            }
+            
+            const targetId = generateId('function', calledFunc, '');
+            
+            dependencies.push({
+              source: functionId,
+              target: targetId,
+              type: 'calls'
+            });
+          }
+        }
+      }
+    }
+    
+    // Extract module-level variables and constants from unindented assignments
+    const variableRegex = /^([a-zA-Z_][a-zA-Z0-9_]*)\s*(?::\s*([^=\n]+?))?\s*=\s*([^=\n].*)$/gm;
+    let variableMatch;
+    
+    while ((variableMatch = variableRegex.exec(code)) !== null) {
+      const variableName = variableMatch[1];
+      const annotation = variableMatch[2] ? `: ${variableMatch[2].trim()}` : '';
+      const value = variableMatch[3].trim();
+      
+      // `__all__ = ['a', 'b']` lists the module's public names
+      if (variableName === '__all__') {
+        exportedNames = [...value.matchAll(/['"]([^'"]+)['"]/g)].map(match => match[1]);
+        continue;
+      }
+      
+      // Skip rebinding of functions and classes, e.g. `name = decorate(name)`
+      if (nodes.some(node => (node.type === 'function' || node.type === 'class') && node.name === variableName)) {
+        continue;
+      }
+      
+      const variableType = /^_*[A-Z][A-Z0-9_]*$/.test(variableName) ? 'constant' : 'variable';
+      const variableId = generateId(variableType, variableName, packagePath);
+      if (nodes.some(node => node.id === variableId)) {
+        continue;
+      }
+      
+      nodes.push({
+        id: variableId,
+        type: variableType,
+        name: variableName,
+        path: packagePath,
+        file: filePath,
+        signature: `${variableName}${annotation} = ${value.length > 60 ? `${value.substring(0, 57)}...` : value}`
+      });
+      
+      dependencies.push({
+        source: moduleId,
+        target: variableId,
+        type: 'contains'
+      });
+    }
+    
+    return { nodes, dependencies, exports: exportedNames };
+  } catch (error) {
+    console.error(`Error parsing Python file ${filePath}:`, error);
+    return { nodes: [], dependencies: [] };
+  }
+};
+
+// Helper function to find the end of a class definition
+const findClassEndIndex = (code: string, startIndex: number): number => {
+  const lines = code.substring(startIndex).split('\n');
+  let indentLevel = -1;
+  let lineIndex = 0;
+  
+  // Find indentation level of class declaration
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim().startsWith('class ')) {
+      const match = line.match(/^(\s*)/);
+      indentLevel = match ? match[1].length : 0;
+      lineIndex = i + 1;
+      break;
+    }
+  }
+  
+  // Find first line with same or less indentation (end of class)
+  for (let i = lineIndex; i < lines.length; i++) {
+    const line = lines[i].trimRight();
+    if (line.length > 0) {
+      const match = line.match(/^(\s*)/);
+      const currentIndent = match ? match[1].length : 0;
+      if (currentIndent <= indentLevel && !line.trim().startsWith('#')) {
+        return startIndex + lines.slice(0, i).join('\n').length;
+      }
+    }
+  }
+  
+  return code.length;
+};
+
+// Helper function to find the end of a function definition
+const findFunctionEndIndex = (code: string, startIndex: number): number => {
+  const lines = code.substring(startIndex).split('\n');
+  let indentLevel = -1;
+  let lineIndex = 0;
+  
+  // Find indentation level of function declaration
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim().startsWith('def ')) {
+      const match = line.match(/^(\s*)/);
+      indentLevel = match ? match[1].length : 0;
+      lineIndex = i + 1;
+      break;
+    }
+  }
+  
+  // Find first line with same or less indentation (end of function)
+  for (let i = lineIndex; i < lines.length; i++) {
+    const line = lines[i].trimRight();
+    if (line.length > 0) {
+      const match = line.match(/^(\s*)/);
+      const currentIndent = match ? match[1].length : 0;
+      if (currentIndent <= indentLevel && !line.trim().startsWith('#')) {
+        return startIndex + lines.slice(0, i).join('\n').length;
+      }
+    }
+  }
+  
+  return code.length;
+};
+
+// Parse methods within a class
+const parseClassMethods = (
+  classBody: string, 
+  packagePath: string, 
+  filePath: string, 
+  className: string, 
+  classId: string,
+  nodes: PythonNode[], 
+  dependencies: PythonDependency[]
+) => {
+  const methodRegex = /\n\s+def\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\)(?:\s*->\s*([^:]*))?\s*:/g;
+  let methodMatch;
+  
+  while ((methodMatch = methodRegex.exec(classBody)) !== null) {
+    const methodName = methodMatch[1];
+    let params = methodMatch[2].trim();
+    const returnType = methodMatch[3] ? methodMatch[3].trim() : '';
+    
+    // Check if this is an instance method (has self parameter)
+    const isInstanceMethod = params.startsWith('self') || params.startsWith('cls');
+    
+    // Remove self/cls from displayed signature
+    if (isInstanceMethod) {
+      params = params.replace(/^(?:self|cls)(?:,\s*)?/, '');
+    }
+    
+    const methodId = generateId('method', `${className}.${methodName}`, packagePath);
+    
+    // Check for docstring
+    const docstringStart = classBody.indexOf('"""', methodMatch.index + methodMatch[0].length);
+    let docstring = '';
+    
+    if (docstringStart > -1 && docstringStart < classBody.indexOf('\n\n', methodMatch.index + methodMatch[0].length)) {
+      const docstringEnd = classBody.indexOf('"""', docstringStart + 3);
+      if (docstringEnd > -1) {
+        docstring = classBody.substring(docstringStart + 3, docstringEnd).trim();
+      }
+    }
+    
+    nodes.push({
+      id: methodId,
+      type: 'method',
+      name: methodName,
+      path: packagePath,
+      file: filePath,
+      signature: `def ${methodName}(${params})${returnType ? ` -> ${returnType}` : ''}`,
+      docstring
+    });
+    
+    // Add containment dependency (class contains method)
+    dependencies.push({
+      source: classId,
+      target: methodId,
+      type: 'contains'
+    });
+    
+    // Extract method calls
+    const endIndex = findFunctionEndIndex(classBody, methodMatch.index);
+    if (endIndex > methodMatch.index) {
+      const methodBody = classBody.substring(methodMatch.index, endIndex);
+      const callRegex = /(?:self\.)?([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
+      let callMatch;
+      
+      while ((callMatch = callRegex.exec(methodBody)) !== null) {
+        const calledFunc = callMatch[1];
+        // Skip if it's a common keyword or the method itself
+        if (['if', 'while', 'for', 'print', 'len', 'str', 'int', 'float'].includes(calledFunc) || calledFunc === methodName) {
+          continue;
+        }
+        
+        const targetId = calledFunc.includes('.') 
+          ? generateId('method', calledFunc, '')
+          : generateId('method', `${className}.${calledFunc}`, packagePath);
+        
+        dependencies.push({
+          source: methodId,
+          target: targetId,
+          type: 'calls'
+        });
+      }
+    }
+  }
+};
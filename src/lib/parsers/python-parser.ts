@@ -1,12 +1,21 @@
 // This module is server-only and should not be imported from client components
-// Uses regular expressions to parse Python code
+// Uses tree-sitter to parse Python code, falling back to the regex parser when
+// the native binding cannot be loaded or VISCODE_PYTHON_PARSER=regex is set
 
+import type Parser from 'tree-sitter';
 import fs from 'fs';
 import path from 'path';
-import { PythonNode, PythonDependency, PythonProject, PythonGraphData, PythonHierarchicalData, PythonTreeNode } from '../../types/python-types';
+import { PythonNode, PythonDependency, PythonImportBinding, PythonProject, PythonGraphData, PythonHierarchicalData, PythonTreeNode } from '../../types/python-types';
+import { FileFilter, FileParsedListener, ParseCache } from '../../types/analyzer-types';
+import { parsePythonFile as parsePythonFileSimple } from './python-parser-simple';
+import { loadTreeSitterParser } from './tree-sitter-loader';
+import { runParseTasks } from './worker-pool';
+import { parseWithCache } from './parse-cache';
 
-// Helper to recursively find all Python files in a directory
-export const findPythonFiles = (dir: string): string[] => {
+type SyntaxNode = Parser.SyntaxNode;
+
+// Helper to recursively find all Python files in a directory, without those the filter excludes
+export const findPythonFiles = (dir: string, filter?: FileFilter): string[] => {
   const files: string[] = [];
   
   try {
@@ -26,8 +35,10 @@ export const findPythonFiles = (dir: string): string[] => {
       }
       
       if (entry.isDirectory()) {
-        files.push(...findPythonFiles(fullPath));
-      } else if (entry.name.endsWith('.py')) {
+        if (!filter?.excludesDirectory(fullPath)) {
+          files.push(...findPythonFiles(fullPath, filter));
+        }
+      } else if (entry.name.endsWith('.py') && !filter?.excludesFile(fullPath)) {
         files.push(fullPath);
       }
     }
@@ -38,98 +49,356 @@ export const findPythonFiles = (dir: string): string[] => {
   return files;
 };
 
+// Get Python package path from a directory path and module name
+const getPackagePath = (dirPath: string, moduleName: string): string => {
+  // Check if there's an __init__.py to determine if it's part of a package
+  if (fs.existsSync(path.join(dirPath, '__init__.py'))) {
+    const parentDir = path.dirname(dirPath);
+    const dirName = path.basename(dirPath);
+    
+    if (fs.existsSync(path.join(parentDir, '__init__.py'))) {
+      return `${getPackagePath(parentDir, dirName)}.${moduleName}`;
+    }
+    
+    return `${dirName}.${moduleName}`;
+  }
+  
+  return moduleName;
+};
+
 // Generate a unique ID for a Python node
 const generateId = (type: string, name: string, path: string): string => {
   return `${type}:${path}:${name}`;
 };
 
+// Version of the results of parsePythonFile, part of their parse cache key
+const PARSER_VERSION = 2;
+
+// Builtins that are called too often to be useful in the call graph
+const IGNORED_CALLS = new Set(['print', 'len', 'str', 'int', 'float', 'super', 'isinstance']);
+
+// Load the tree-sitter Python parser, or null if the native binding is unavailable
+export const loadPythonParser = (): Promise<Parser | null> => {
+  return loadTreeSitterParser('python', () => import('tree-sitter-python'));
+};
+
+// Strip quotes and string prefixes from a docstring literal and dedent its body,
+// following the rules of Python's inspect.cleandoc
+const cleanDocstring = (literal: string): string => {
+  const content = literal
+    .replace(/^[rRuUbBfF]*("""|'''|"|')/, '')
+    .replace(/("""|'''|"|')$/, '');
+  const lines = content.split('\n');
+  const indents = lines.slice(1)
+    .filter(line => line.trim())
+    .map(line => line.length - line.trimStart().length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+
+  return [lines[0], ...lines.slice(1).map(line => line.substring(indent))]
+    .join('\n')
+    .trim();
+};
+
+// Result of parsing one file; bindings are resolved project-wide in parsePythonProject
+export type PythonFileParseResult = {
+  nodes: PythonNode[];
+  dependencies: PythonDependency[];
+  bindings?: PythonImportBinding[];
+  // Names listed in the module's `__all__`, if it defines one
+  exports?: string[];
+};
+
+// Lexical scope a definition is nested in
+type PythonScope = {
+  kind: 'module' | 'class' | 'function';
+  // Dotted name of the scope within its module, e.g. `Outer.method`
+  qualifiedName: string;
+  // ID of the module, class or function node that owns this scope
+  id?: string;
+  // Name of the enclosing class, for resolving `self.method()` calls
+  className?: string;
+  // Parameters and local variables visible in a function, which shadow module names
+  locals?: Set<string>;
+};
+
 // Parse a single Python file
-export const parsePythonFile = (filePath: string): { nodes: PythonNode[], dependencies: PythonDependency[] } => {
+export const parsePythonFile = (filePath: string, parser: Parser): PythonFileParseResult => {
   try {
     const code = fs.readFileSync(filePath, 'utf8');
+    const tree = parser.parse(code);
     const nodes: PythonNode[] = [];
     const dependencies: PythonDependency[] = [];
-    
+    const bindings: PythonImportBinding[] = [];
+    const exportedNames: string[] = [];
+
     // Get the module name from file path
     const fileName = path.basename(filePath);
     const moduleName = fileName.replace(/\.py$/, '');
     const dirPath = path.dirname(filePath);
     const packagePath = getPackagePath(dirPath, moduleName);
-    
-    // Extract imports
-    const importRegex = /^\s*(?:from\s+([.\w]+)\s+)?import\s+([^#\n]+)/gm;
-    let importMatch;
-    
-    while ((importMatch = importRegex.exec(code)) !== null) {
-      const fromModule = importMatch[1] || '';
-      const importItems = importMatch[2].split(',').map(item => {
-        const asMatch = item.trim().match(/(\S+)(?:\s+as\s+(\S+))?/);
-        return asMatch ? asMatch[1].trim() : item.trim();
+    const moduleId = generateId('module', moduleName, packagePath);
+
+    const getText = (node: SyntaxNode): string => {
+      return code.substring(node.startIndex, node.endIndex);
+    };
+
+    // Collapse whitespace so multi-line signatures render on one line
+    const normalize = (text: string): string => {
+      return text.replace(/\s+/g, ' ').replace(/\(\s/g, '(').replace(/,?\s\)/g, ')');
+    };
+
+    const qualify = (scope: PythonScope, name: string): string => {
+      return scope.qualifiedName ? `${scope.qualifiedName}.${name}` : name;
+    };
+
+    // Docstring is the string literal that opens a module, class or function body
+    const getDocstring = (block: SyntaxNode | null): string => {
+      const firstStatement = block?.namedChildren[0];
+      const literal = firstStatement?.type === 'expression_statement' ? firstStatement.namedChildren[0] : undefined;
+      return literal?.type === 'string' ? cleanDocstring(getText(literal)) : '';
+    };
+
+    // Parameter list without the parentheses and the implicit self/cls parameter
+    const getParameters = (parametersNode: SyntaxNode | null, isMethod: boolean): string => {
+      if (!parametersNode) return '';
+
+      const params = parametersNode.namedChildren
+        .filter(param => param.type !== 'comment')
+        .map(param => normalize(getText(param)));
+
+      if (isMethod && (params[0] === 'self' || params[0] === 'cls')) {
+        params.shift();
+      }
+
+      return params.join(', ');
+    };
+
+    // Names bound by a parameter list, including `*args` and `**kwargs`
+    const getParameterNames = (parametersNode: SyntaxNode | null): string[] => {
+      return (parametersNode?.namedChildren || []).flatMap(param => {
+        const nameNode = param.type === 'identifier'
+          ? param
+          : param.childForFieldName('name') || param.namedChildren.find(n => n.type === 'identifier');
+        return nameNode ? [getText(nameNode)] : [];
       });
-      
-      for (const item of importItems) {
-        const importName = item;
-        const id = generateId('import', importName, packagePath);
-        
-        nodes.push({
-          id,
+    };
+
+    const addNode = (node: PythonNode) => {
+      if (!nodes.some(existing => existing.id === node.id)) {
+        nodes.push(node);
+      }
+    };
+
+    // Dotted name of a plain name or attribute chain, e.g. `os.path.join`;
+    // null for anything else, such as `foo().bar` or `items[0].bar`
+    const getDottedName = (node: SyntaxNode): string | null => {
+      if (node.type === 'identifier') {
+        return getText(node);
+      }
+
+      if (node.type === 'attribute') {
+        const objectNode = node.childForFieldName('object');
+        const attributeNode = node.childForFieldName('attribute');
+        const objectName = objectNode ? getDottedName(objectNode) : null;
+        return objectName && attributeNode ? `${objectName}.${getText(attributeNode)}` : null;
+      }
+
+      return null;
+    };
+
+    // Record a call made from within a function or method. Targets are
+    // resolved to project symbols in parsePythonProject
+    const processCall = (callNode: SyntaxNode, scope: PythonScope) => {
+      if (scope.kind !== 'function' || !scope.id) return;
+
+      const functionNode = callNode.childForFieldName('function');
+      const calledFunc = functionNode ? getDottedName(functionNode) : null;
+      if (!calledFunc || IGNORED_CALLS.has(calledFunc)) return;
+
+      // `self.method()` and `cls.method()` call a method of the enclosing class,
+      // and `cls()` instantiates it
+      const [receiver, ...rest] = calledFunc.split('.');
+      const isClassReceiver = Boolean(scope.className) && (receiver === 'self' || receiver === 'cls');
+      let targetId = generateId('function', calledFunc, '');
+
+      if (isClassReceiver && rest.length === 1) {
+        targetId = generateId('method', `${scope.className}.${rest[0]}`, packagePath);
+      } else if (isClassReceiver && receiver === 'cls' && rest.length === 0) {
+        targetId = generateId('class', scope.className!, packagePath);
+      } else if (scope.locals?.has(receiver)) {
+        // Calls through parameters and local variables cannot be resolved statically
+        return;
+      }
+
+      dependencies.push({
+        source: scope.id,
+        target: targetId,
+        type: 'calls'
+      });
+    };
+
+    const processImport = (importNode: SyntaxNode) => {
+      const moduleNameNode = importNode.childForFieldName('module_name');
+      const fromModule = moduleNameNode ? getText(moduleNameNode) : '';
+
+      // `from m import *` makes every public name of m visible
+      if (fromModule && importNode.namedChildren.some(n => n.type === 'wildcard_import')) {
+        bindings.push({ module: packagePath, name: '*', target: fromModule });
+        dependencies.push({
+          source: moduleId,
+          target: generateId('import', fromModule, ''),
+          type: 'imports'
+        });
+      }
+
+      for (const nameNode of importNode.childrenForFieldName('name')) {
+        const importedNode = nameNode.type === 'aliased_import' ? nameNode.childForFieldName('name') : nameNode;
+        const aliasNode = nameNode.type === 'aliased_import' ? nameNode.childForFieldName('alias') : null;
+        if (!importedNode) continue;
+
+        const importName = getText(importedNode);
+        // Relative module names such as `.` or `..` already end with the separator
+        const importPath = !fromModule
+          ? importName
+          : fromModule.endsWith('.') ? `${fromModule}${importName}` : `${fromModule}.${importName}`;
+
+        addNode({
+          id: generateId('import', importName, packagePath),
           type: 'import',
           name: importName,
           path: packagePath,
           file: filePath
         });
-        
-        // Create dependency for this import
-        if (fromModule) {
-          const importPath = fromModule + '.' + importName;
-          dependencies.push({
-            source: generateId('module', moduleName, packagePath),
-            target: generateId('import', importPath, ''),
-            type: 'imports'
-          });
+
+        // `import a.b` binds `a`, while `import a.b as c` and `from a import b` bind the alias or name
+        if (aliasNode) {
+          bindings.push({ module: packagePath, name: getText(aliasNode), target: importPath });
+        } else if (fromModule) {
+          bindings.push({ module: packagePath, name: importName, target: importPath });
         } else {
+          const topLevel = importName.split('.')[0];
+          bindings.push({ module: packagePath, name: topLevel, target: topLevel });
+        }
+
+        dependencies.push({
+          source: moduleId,
+          target: generateId('import', importPath, ''),
+          type: 'imports'
+        });
+      }
+    };
+
+    // Decorators of a definition become decorator nodes it contains, each
+    // using the function or class it names, e.g. `app.route` for `@app.route('/')`
+    const addDecorators = (definitionId: string, qualifiedName: string, decorators: string[]) => {
+      for (const decorator of decorators) {
+        const name = decorator.replace(/\([\s\S]*$/, '').trim();
+        const id = generateId('decorator', `${qualifiedName}.@${name}`, packagePath);
+
+        addNode({
+          id,
+          type: 'decorator',
+          name,
+          path: packagePath,
+          file: filePath,
+          signature: `@${decorator}`
+        });
+
+        dependencies.push({
+          source: definitionId,
+          target: id,
+          type: 'contains'
+        });
+
+        if (/^[\w.]+$/.test(name)) {
           dependencies.push({
-            source: generateId('module', moduleName, packagePath),
-            target: generateId('import', importName, ''),
-            type: 'imports'
+            source: id,
+            target: generateId('function', name, ''),
+            type: 'uses'
           });
         }
       }
-    }
-    
-    // Extract classes
-    const classRegex = /^\s*class\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*(?:\(([^)]*)\))?:/gm;
-    let classMatch;
-    
-    while ((classMatch = classRegex.exec(code)) !== null) {
-      const className = classMatch[1];
-      const parentClasses = classMatch[2] ? classMatch[2].split(',').map(c => c.trim()) : [];
-      const classId = generateId('class', className, packagePath);
-      
-      // Check for docstring
-      const docstringStart = code.indexOf('"""', classMatch.index + classMatch[0].length);
-      let docstring = '';
-      
-      if (docstringStart > -1 && docstringStart < code.indexOf('\n\n', classMatch.index + classMatch[0].length)) {
-        const docstringEnd = code.indexOf('"""', docstringStart + 3);
-        if (docstringEnd > -1) {
-          docstring = code.substring(docstringStart + 3, docstringEnd).trim();
-        }
+    };
+
+    const processFunction = (definition: SyntaxNode, scope: PythonScope, decorators: string[]) => {
+      const nameNode = definition.childForFieldName('name');
+      if (!nameNode) return;
+
+      const name = getText(nameNode);
+      const isMethod = scope.kind === 'class';
+      const qualifiedName = qualify(scope, name);
+      const id = isMethod
+        ? generateId('method', qualifiedName, packagePath)
+        : generateId('function', qualifiedName, packagePath);
+
+      const isAsync = definition.children[0]?.type === 'async';
+      const params = getParameters(definition.childForFieldName('parameters'), isMethod);
+      const returnTypeNode = definition.childForFieldName('return_type');
+      const returnType = returnTypeNode ? ` -> ${normalize(getText(returnTypeNode))}` : '';
+
+      addNode({
+        id,
+        type: isMethod ? 'method' : 'function',
+        name,
+        path: packagePath,
+        file: filePath,
+        signature: `${isAsync ? 'async ' : ''}def ${name}(${params})${returnType}`,
+        docstring: getDocstring(definition.childForFieldName('body')),
+        decorators: decorators.length > 0 ? decorators : undefined
+      });
+
+      // Add containment dependency (class contains method, function contains nested function)
+      if (scope.id) {
+        dependencies.push({
+          source: scope.id,
+          target: id,
+          type: 'contains'
+        });
       }
-      
-      nodes.push({
+      addDecorators(id, qualifiedName, decorators);
+
+      const bodyNode = definition.childForFieldName('body');
+      if (bodyNode) {
+        const locals = new Set([...(scope.locals || []), ...getParameterNames(definition.childForFieldName('parameters'))]);
+        processBlock(bodyNode, { kind: 'function', qualifiedName, id, className: scope.className, locals });
+      }
+    };
+
+    const processClass = (definition: SyntaxNode, scope: PythonScope, decorators: string[]) => {
+      const nameNode = definition.childForFieldName('name');
+      if (!nameNode) return;
+
+      const className = getText(nameNode);
+      const qualifiedName = qualify(scope, className);
+      const classId = generateId('class', qualifiedName, packagePath);
+
+      // Positional superclasses; keyword arguments such as metaclass= are not bases
+      const parentClasses = (definition.childForFieldName('superclasses')?.namedChildren || [])
+        .filter(base => base.type === 'identifier' || base.type === 'attribute')
+        .map(base => getText(base));
+
+      addNode({
         id: classId,
         type: 'class',
         name: className,
         path: packagePath,
         file: filePath,
         signature: `class ${className}${parentClasses.length ? `(${parentClasses.join(', ')})` : ''}`,
-        docstring
+        docstring: getDocstring(definition.childForFieldName('body')),
+        decorators: decorators.length > 0 ? decorators : undefined
       });
-      
-      // Add inheritance dependencies
+
+      if (scope.id) {
+        dependencies.push({
+          source: scope.id,
+          target: classId,
+          type: 'contains'
+        });
+      }
+      addDecorators(classId, qualifiedName, decorators);
+
+      // Add inheritance dependencies, skipping the implicit `object` base
       for (const parent of parentClasses) {
-        // Skip built-in types like 'object'
         if (parent !== 'object') {
           dependencies.push({
             source: classId,
@@ -138,299 +407,637 @@ export const parsePythonFile = (filePath: string): { nodes: PythonNode[], depend
           });
         }
       }
-      
-      // Find methods within this class
-      const classEndIndex = findClassEndIndex(code, classMatch.index);
-      if (classEndIndex > classMatch.index) {
-        const classBody = code.substring(classMatch.index, classEndIndex);
-        parseClassMethods(classBody, packagePath, filePath, className, classId, nodes, dependencies);
+
+      const bodyNode = definition.childForFieldName('body');
+      if (bodyNode) {
+        processBlock(bodyNode, { kind: 'class', qualifiedName, id: classId, className: qualifiedName });
       }
-    }
-    
-    // Extract standalone functions
-    const functionRegex = /^\s*def\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\)(?:\s*->\s*([^:]*))?\s*:/gm;
-    let functionMatch;
-    
-    while ((functionMatch = functionRegex.exec(code)) !== null) {
-      // Check if this function is within a class (already processed)
-      const functionStartPos = functionMatch.index;
-      let insideClass = false;
-      
-      for (const node of nodes) {
-        if (node.type === 'class' && node.file === filePath) {
-          const classEndIndex = findClassEndIndex(code, code.indexOf(`class ${node.name}`));
-          if (functionStartPos > code.indexOf(`class ${node.name}`) && functionStartPos < classEndIndex) {
-            insideClass = true;
-            break;
-          }
+    };
+
+    // `name = lambda ...` defines a function (or method, in a class body) named `name`
+    const processLambdaAssignment = (assignment: SyntaxNode, scope: PythonScope): boolean => {
+      const left = assignment.childForFieldName('left');
+      const right = assignment.childForFieldName('right');
+      if (left?.type !== 'identifier' || right?.type !== 'lambda') return false;
+
+      const name = getText(left);
+      const isMethod = scope.kind === 'class';
+      const qualifiedName = qualify(scope, name);
+      const id = isMethod
+        ? generateId('method', qualifiedName, packagePath)
+        : generateId('function', qualifiedName, packagePath);
+      const parametersNode = right.childForFieldName('parameters');
+
+      addNode({
+        id,
+        type: isMethod ? 'method' : 'function',
+        name,
+        path: packagePath,
+        file: filePath,
+        signature: `${name} = lambda${parametersNode ? ` ${normalize(getText(parametersNode))}` : ''}`
+      });
+
+      if (scope.id) {
+        dependencies.push({
+          source: scope.id,
+          target: id,
+          type: 'contains'
+        });
+      }
+
+      const bodyNode = right.childForFieldName('body');
+      if (bodyNode) {
+        const locals = new Set([...(scope.locals || []), ...getParameterNames(parametersNode)]);
+        processNode(bodyNode, { kind: 'function', qualifiedName, id, className: scope.className, locals });
+      }
+
+      return true;
+    };
+
+    // Identifiers bound by an assignment target such as `a` or `a, (b, c)`;
+    // attribute and subscript targets (`self.x`, `d[k]`) bind no new name
+    const getTargetNames = (target: SyntaxNode): string[] => {
+      if (target.type === 'identifier') {
+        return [getText(target)];
+      }
+
+      if (['pattern_list', 'tuple_pattern', 'list_pattern'].includes(target.type)) {
+        return target.namedChildren.flatMap(getTargetNames);
+      }
+
+      return [];
+    };
+
+    // Contents of the string literals in a list, tuple or argument list, e.g. `['a', 'b']`
+    const getStringList = (node: SyntaxNode | null): string[] => {
+      if (!node || !['list', 'tuple', 'argument_list'].includes(node.type)) return [];
+
+      return node.namedChildren
+        .filter(item => item.type === 'string')
+        .map(item => item.namedChildren
+          .filter(part => part.type === 'string_content')
+          .map(getText)
+          .join(''));
+    };
+
+    // Module-level assignments and class attributes (including annotated
+    // dataclass fields) become variable nodes, or constant nodes when the name
+    // is UPPER_CASE. `__all__` is recorded as the module's exports instead
+    const processVariableAssignment = (assignment: SyntaxNode, scope: PythonScope) => {
+      const left = assignment.childForFieldName('left');
+      const typeNode = assignment.childForFieldName('type');
+      if (!left) return;
+
+      // `a = b = value` nests the second assignment as the right-hand side
+      let valueNode = assignment.childForFieldName('right');
+      while (valueNode?.type === 'assignment') {
+        valueNode = valueNode.childForFieldName('right');
+      }
+
+      const names = getTargetNames(left);
+      if (scope.kind === 'module' && names.length === 1 && names[0] === '__all__') {
+        exportedNames.push(...getStringList(valueNode));
+        return;
+      }
+
+      const annotation = typeNode ? `: ${normalize(getText(typeNode))}` : '';
+      const value = valueNode ? normalize(getText(valueNode)) : '';
+      const shortValue = value.length > 60 ? `${value.substring(0, 57)}...` : value;
+
+      for (const name of names) {
+        const qualifiedName = qualify(scope, name);
+
+        // `name = decorate(name)` rebinds a function or class rather than defining a variable
+        if (nodes.some(node => ['function', 'class', 'method'].includes(node.type) && splitId(node.id).qualifiedName === qualifiedName)) {
+          continue;
+        }
+
+        const type = /^_*[A-Z][A-Z0-9_]*$/.test(name) ? 'constant' : 'variable';
+        const id = generateId(type, qualifiedName, packagePath);
+
+        addNode({
+          id,
+          type,
+          name,
+          path: packagePath,
+          file: filePath,
+          signature: names.length === 1
+            ? `${name}${annotation}${shortValue ? ` = ${shortValue}` : ''}`
+            : `${normalize(getText(left))} = ${shortValue}`
+        });
+
+        if (scope.id) {
+          dependencies.push({
+            source: scope.id,
+            target: id,
+            type: 'contains'
+          });
         }
       }
-      
-      if (!insideClass) {
-        const functionName = functionMatch[1];
-        const params = functionMatch[2].trim();
-        const returnType = functionMatch[3] ? functionMatch[3].trim() : '';
-        const functionId = generateId('function', functionName, packagePath);
-        
-        // Check for decorators
-        const decorators: string[] = [];
-        let pos = functionMatch.index;
-        while (pos > 0) {
-          const lineStart = code.lastIndexOf('\n', pos - 1);
-          const line = code.substring(lineStart + 1, pos).trim();
-          if (line.startsWith('@')) {
-            decorators.push(line.substring(1));
-            pos = lineStart;
-          } else if (!line || !line.trim()) {
-            pos = lineStart;
-          } else {
-            break;
+    };
+
+    // Dispatch definitions, imports and calls to their handlers. Compound
+    // statements (if/try/with/...) keep the scope of their enclosing block
+    const processNode = (node: SyntaxNode, scope: PythonScope): void => {
+      switch (node.type) {
+        case 'decorated_definition': {
+          const decorators = node.namedChildren
+            .filter(n => n.type === 'decorator')
+            .map(decorator => normalize(getText(decorator).replace(/^@\s*/, '')));
+          const definition = node.childForFieldName('definition');
+
+          if (definition?.type === 'function_definition') {
+            processFunction(definition, scope, decorators);
+          } else if (definition?.type === 'class_definition') {
+            processClass(definition, scope, decorators);
           }
+
+          // Calls in decorator arguments run in the enclosing scope
+          for (const decorator of node.namedChildren.filter(n => n.type === 'decorator')) {
+            processBlock(decorator, scope);
+          }
+          break;
         }
-        
-        // Check for docstring
-        const docstringStart = code.indexOf('"""', functionMatch.index + functionMatch[0].length);
-        let docstring = '';
-        
-        if (docstringStart > -1 && docstringStart < code.indexOf('\n\n', functionMatch.index + functionMatch[0].length)) {
-          const docstringEnd = code.indexOf('"""', docstringStart + 3);
-          if (docstringEnd > -1) {
-            docstring = code.substring(docstringStart + 3, docstringEnd).trim();
+
+        case 'function_definition':
+          processFunction(node, scope, []);
+          break;
+
+        case 'class_definition':
+          processClass(node, scope, []);
+          break;
+
+        case 'import_statement':
+        case 'import_from_statement':
+          processImport(node);
+          break;
+
+        case 'assignment': {
+          if (processLambdaAssignment(node, scope)) break;
+
+          if (scope.kind !== 'function') {
+            processVariableAssignment(node, scope);
+          }
+
+          // Names assigned in a function body are locals of that function
+          const left = node.childForFieldName('left');
+          if (scope.locals && left?.type === 'identifier') {
+            scope.locals.add(getText(left));
           }
+          processBlock(node, scope);
+          break;
         }
-        
-        nodes.push({
-          id: functionId,
-          type: 'function',
-          name: functionName,
-          path: packagePath,
-          file: filePath,
-          signature: `def ${functionName}(${params})${returnType ? ` -> ${returnType}` : ''}`,
-          docstring,
-          decorators: decorators.length > 0 ? decorators : undefined
-        });
-        
-        // Extract function calls within this function
-        const endIndex = findFunctionEndIndex(code, functionMatch.index);
-        if (endIndex > functionMatch.index) {
-          const functionBody = code.substring(functionMatch.index, endIndex);
-          const callRegex = /([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
-          let callMatch;
-          
-          while ((callMatch = callRegex.exec(functionBody)) !== null) {
-            const calledFunc = callMatch[1];
-            // Skip if it's a common keyword or the function itself
-            if (['if', 'while', 'for', 'print', 'len', 'str', 'int', 'float'].includes(calledFunc) || calledFunc === functionName) {
-              continue;
-            }
-            
-            const targetId = generateId('function', calledFunc, '');
-            
-            dependencies.push({
-              source: functionId,
-              target: targetId,
-              type: 'calls'
-            });
+
+        // `__all__ += [...]` extends the module's exports
+        case 'augmented_assignment': {
+          const left = node.childForFieldName('left');
+          if (scope.kind === 'module' && left && getText(left) === '__all__') {
+            exportedNames.push(...getStringList(node.childForFieldName('right')));
           }
+          processBlock(node, scope);
+          break;
         }
+
+        case 'call': {
+          // `__all__.extend([...])` and `__all__.append('name')` also extend the exports
+          const functionNode = node.childForFieldName('function');
+          const calledFunc = functionNode ? getDottedName(functionNode) : null;
+          const argumentsNode = node.childForFieldName('arguments');
+          if (scope.kind === 'module' && calledFunc === '__all__.extend') {
+            exportedNames.push(...getStringList(argumentsNode?.namedChildren[0] || null));
+          } else if (scope.kind === 'module' && calledFunc === '__all__.append') {
+            exportedNames.push(...getStringList(argumentsNode));
+          }
+
+          processCall(node, scope);
+          processBlock(node, scope);
+          break;
+        }
+
+        default:
+          processBlock(node, scope);
       }
-    }
-    
-    return { nodes, dependencies };
+    };
+
+    const processBlock = (node: SyntaxNode, scope: PythonScope): void => {
+      for (const child of node.namedChildren) {
+        processNode(child, scope);
+      }
+    };
+
+    addNode({
+      id: moduleId,
+      type: 'module',
+      name: moduleName,
+      path: packagePath,
+      file: filePath,
+      docstring: getDocstring(tree.rootNode)
+    });
+
+    // Module scope owns top-level definitions, giving module -> definition `contains` edges
+    processBlock(tree.rootNode, { kind: 'module', qualifiedName: '', id: moduleId });
+
+    return { nodes, dependencies, bindings, exports: exportedNames.length > 0 ? exportedNames : undefined };
   } catch (error) {
     console.error(`Error parsing Python file ${filePath}:`, error);
-    return { nodes: [], dependencies: [] };
+    return { nodes: [], dependencies: [], bindings: [] };
   }
 };
 
-// Helper function to find the end of a class definition
-const findClassEndIndex = (code: string, startIndex: number): number => {
-  const lines = code.substring(startIndex).split('\n');
-  let indentLevel = -1;
-  let lineIndex = 0;
-  
-  // Find indentation level of class declaration
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (line.trim().startsWith('class ')) {
-      const match = line.match(/^(\s*)/);
-      indentLevel = match ? match[1].length : 0;
-      lineIndex = i + 1;
-      break;
+// Python name of the module at a package path; a package's __init__ module is
+// named after the package itself (`pkg.sub.__init__` -> `pkg.sub`)
+const toModuleName = (packagePath: string): string => {
+  return packagePath.replace(/\.__init__$/, '');
+};
+
+// Names with a leading underscore are private by convention, except dunder names
+const isPrivateName = (name: string): boolean => {
+  return name.startsWith('_') && !/^__.*__$/.test(name);
+};
+
+// Fill in the visibility of a file's nodes: module-level names are public if
+// listed in `__all__` (or, without one, unless underscore-prefixed), class
+// members follow the underscore convention and function locals are private
+const assignVisibility = (nodes: PythonNode[], dependencies: PythonDependency[], exportedNames?: string[]): PythonNode[] => {
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const parents = new Map<string, PythonNode>();
+  for (const dep of dependencies) {
+    const parent = nodesById.get(dep.source);
+    if (dep.type === 'contains' && parent) {
+      parents.set(dep.target, parent);
     }
   }
-  
-  // Find first line with same or less indentation (end of class)
-  for (let i = lineIndex; i < lines.length; i++) {
-    const line = lines[i].trimRight();
-    if (line.length > 0) {
-      const match = line.match(/^(\s*)/);
-      const currentIndent = match ? match[1].length : 0;
-      if (currentIndent <= indentLevel && !line.trim().startsWith('#')) {
-        return startIndex + lines.slice(0, i).join('\n').length;
-      }
+
+  const exported = exportedNames ? new Set(exportedNames) : null;
+
+  return nodes.map(node => {
+    if (node.type === 'import' || node.type === 'decorator') return node;
+
+    const parent = parents.get(node.id);
+    let isPublic = !isPrivateName(node.name);
+    if (parent?.type === 'function' || parent?.type === 'method') {
+      isPublic = false;
+    } else if (parent?.type === 'module' && exported) {
+      isPublic = exported.has(node.name);
     }
+
+    return { ...node, visibility: isPublic ? 'public' : 'private' };
+  });
+};
+
+// Create a package node for each directory with an __init__.py, with `contains`
+// edges to its modules (including __init__ itself) and to its subpackages
+const createPackageNodes = (nodes: PythonNode[]): { nodes: PythonNode[], dependencies: PythonDependency[] } => {
+  const moduleNodes = nodes.filter(node => node.type === 'module');
+  const packages = new Map<string, PythonNode>();
+
+  for (const moduleNode of moduleNodes) {
+    if (moduleNode.name !== '__init__') continue;
+
+    const packagePath = toModuleName(moduleNode.path);
+    packages.set(packagePath, {
+      id: generateId('package', packagePath.split('.').pop() || packagePath, packagePath),
+      type: 'package',
+      name: packagePath.split('.').pop() || packagePath,
+      path: packagePath,
+      file: path.dirname(moduleNode.file),
+      docstring: moduleNode.docstring,
+      visibility: isPrivateName(packagePath.split('.').pop() || packagePath) ? 'private' : 'public'
+    });
   }
-  
-  return code.length;
+
+  const parentPath = (dottedPath: string) => dottedPath.split('.').slice(0, -1).join('.');
+  const dependencies: PythonDependency[] = [];
+
+  for (const child of [...moduleNodes, ...packages.values()]) {
+    const parent = packages.get(parentPath(child.path));
+    if (parent) {
+      dependencies.push({
+        source: parent.id,
+        target: child.id,
+        type: 'contains'
+      });
+    }
+  }
+
+  return { nodes: [...packages.values()], dependencies };
 };
 
-// Helper function to find the end of a function definition
-const findFunctionEndIndex = (code: string, startIndex: number): number => {
-  const lines = code.substring(startIndex).split('\n');
-  let indentLevel = -1;
-  let lineIndex = 0;
-  
-  // Find indentation level of function declaration
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (line.trim().startsWith('def ')) {
-      const match = line.match(/^(\s*)/);
-      indentLevel = match ? match[1].length : 0;
-      lineIndex = i + 1;
-      break;
+// Resolve a relative import target (`.a`, `..a.b`) against the importing module
+const toAbsoluteImport = (packagePath: string, target: string): string => {
+  const dots = target.match(/^\.*/)?.[0].length || 0;
+  if (dots === 0) return target;
+
+  // One dot is the package containing the module, each further dot a parent package
+  const packageParts = packagePath.split('.').slice(0, -dots);
+  const rest = target.substring(dots);
+  return [...packageParts, ...(rest ? [rest] : [])].join('.');
+};
+
+// Split a node ID (`type:path:qualifiedName`) into its package path and qualified name
+const splitId = (id: string): { path: string, qualifiedName: string } => {
+  const [, idPath = '', ...rest] = id.split(':');
+  return { path: idPath, qualifiedName: rest.join(':') };
+};
+
+// Resolve call, inheritance and import targets to the IDs of project nodes,
+// using a symbol table keyed by dotted package path (e.g. `pkg.core.Service.run`).
+// Targets outside the project become `external` nodes; duplicate edges are merged
+const resolvePythonDependencies = (
+  nodes: PythonNode[],
+  dependencies: PythonDependency[],
+  bindings: PythonImportBinding[]
+): { nodes: PythonNode[], dependencies: PythonDependency[] } => {
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const symbols = new Map<string, string>();
+  const modules = new Set<string>();
+
+  for (const node of nodes) {
+    if (node.type === 'import' || node.type === 'package') continue;
+
+    if (node.type === 'module') {
+      modules.add(toModuleName(node.path));
+      symbols.set(toModuleName(node.path), node.id);
+    } else {
+      symbols.set(`${toModuleName(node.path)}.${splitId(node.id).qualifiedName}`, node.id);
     }
   }
-  
-  // Find first line with same or less indentation (end of function)
-  for (let i = lineIndex; i < lines.length; i++) {
-    const line = lines[i].trimRight();
-    if (line.length > 0) {
-      const match = line.match(/^(\s*)/);
-      const currentIndent = match ? match[1].length : 0;
-      if (currentIndent <= indentLevel && !line.trim().startsWith('#')) {
-        return startIndex + lines.slice(0, i).join('\n').length;
+
+  // `import pkg` refers to the package rather than its __init__ module
+  for (const node of nodes) {
+    if (node.type === 'package') {
+      symbols.set(node.path, node.id);
+    }
+  }
+
+  // Import bindings by importing module, with wildcard imports kept separately
+  const importsByModule = new Map<string, Map<string, string>>();
+  const wildcardsByModule = new Map<string, string[]>();
+  for (const binding of bindings) {
+    const moduleName = toModuleName(binding.module);
+    const target = toAbsoluteImport(binding.module, binding.target);
+
+    if (binding.name === '*') {
+      if (!wildcardsByModule.has(moduleName)) {
+        wildcardsByModule.set(moduleName, []);
+      }
+      wildcardsByModule.get(moduleName)!.push(target);
+    } else {
+      if (!importsByModule.has(moduleName)) {
+        importsByModule.set(moduleName, new Map());
       }
+      importsByModule.get(moduleName)!.set(binding.name, target);
     }
   }
-  
-  return code.length;
-};
 
-// Parse methods within a class
-const parseClassMethods = (
-  classBody: string, 
-  packagePath: string, 
-  filePath: string, 
-  className: string, 
-  classId: string,
-  nodes: PythonNode[], 
-  dependencies: PythonDependency[]
-) => {
-  const methodRegex = /\n\s+def\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\)(?:\s*->\s*([^:]*))?\s*:/g;
-  let methodMatch;
-  
-  while ((methodMatch = methodRegex.exec(classBody)) !== null) {
-    const methodName = methodMatch[1];
-    let params = methodMatch[2].trim();
-    const returnType = methodMatch[3] ? methodMatch[3].trim() : '';
-    
-    // Check if this is an instance method (has self parameter)
-    const isInstanceMethod = params.startsWith('self') || params.startsWith('cls');
-    
-    // Remove self/cls from displayed signature
-    if (isInstanceMethod) {
-      params = params.replace(/^(?:self|cls)(?:,\s*)?/, '');
+  // Resolve an absolute dotted name, following names re-exported by imports
+  // (e.g. `pkg.Service` where pkg/__init__.py does `from .core import Service`)
+  const resolveName = (name: string, depth = 0): string | undefined => {
+    const symbol = symbols.get(name);
+    if (symbol || depth > 10) return symbol;
+
+    const parts = name.split('.');
+    for (let i = parts.length - 1; i > 0; i--) {
+      const moduleName = parts.slice(0, i).join('.');
+      if (!modules.has(moduleName)) continue;
+
+      const [local, ...rest] = parts.slice(i);
+      const target = importsByModule.get(moduleName)?.get(local);
+      if (target) {
+        return resolveName([target, ...rest].join('.'), depth + 1);
+      }
+
+      for (const wildcard of wildcardsByModule.get(moduleName) || []) {
+        const resolved = resolveName([wildcard, local, ...rest].join('.'), depth + 1);
+        if (resolved) return resolved;
+      }
+
+      return undefined;
     }
-    
-    const methodId = generateId('method', `${className}.${methodName}`, packagePath);
-    
-    // Check for docstring
-    const docstringStart = classBody.indexOf('"""', methodMatch.index + methodMatch[0].length);
-    let docstring = '';
-    
-    if (docstringStart > -1 && docstringStart < classBody.indexOf('\n\n', methodMatch.index + methodMatch[0].length)) {
-      const docstringEnd = classBody.indexOf('"""', docstringStart + 3);
-      if (docstringEnd > -1) {
-        docstring = classBody.substring(docstringStart + 3, docstringEnd).trim();
+
+    return undefined;
+  };
+
+  // Resolve a dotted name as written in the scope of a function or class.
+  // Returns the ID of a project node, the dotted name of an external symbol,
+  // or neither for attributes of local values (`items.append`)
+  const resolveInScope = (packagePath: string, scope: string, name: string): { id?: string, external?: string } => {
+    const moduleName = toModuleName(packagePath);
+    const [head, ...rest] = name.split('.');
+
+    // Enclosing scopes from the innermost outwards, then module globals
+    const scopeParts = scope ? scope.split('.') : [];
+    for (let i = scopeParts.length; i >= 0; i--) {
+      const id = resolveName([moduleName, ...scopeParts.slice(0, i), name].join('.'));
+      if (id) return { id };
+    }
+
+    const imported = importsByModule.get(moduleName)?.get(head);
+    if (imported) {
+      const target = [imported, ...rest].join('.');
+      const id = resolveName(target);
+      return id ? { id } : { external: target };
+    }
+
+    for (const wildcard of wildcardsByModule.get(moduleName) || []) {
+      const id = resolveName(`${wildcard}.${name}`);
+      if (id) return { id };
+    }
+
+    // Unknown bare names are builtins or come from outside the project
+    return rest.length === 0 ? { external: head } : {};
+  };
+
+  const externalNodes = new Map<string, PythonNode>();
+  const toTarget = (resolved: { id?: string, external?: string }): string | undefined => {
+    if (resolved.id) return resolved.id;
+    if (!resolved.external) return undefined;
+
+    const id = generateId('external', resolved.external, '');
+    if (!externalNodes.has(id)) {
+      externalNodes.set(id, {
+        id,
+        type: 'external',
+        name: resolved.external,
+        path: resolved.external.split('.')[0],
+        file: ''
+      });
+    }
+    return id;
+  };
+
+  // Resolve inheritance first so methods can be looked up through base classes
+  const basesByClass = new Map<string, string[]>();
+  const resolvedDependencies: PythonDependency[] = [];
+
+  for (const dep of dependencies.filter(d => d.type === 'inherits')) {
+    const source = splitId(dep.source);
+    const enclosingScope = source.qualifiedName.split('.').slice(0, -1).join('.');
+    const target = toTarget(resolveInScope(source.path, enclosingScope, splitId(dep.target).qualifiedName));
+
+    if (target) {
+      if (!basesByClass.has(dep.source)) {
+        basesByClass.set(dep.source, []);
       }
+      basesByClass.get(dep.source)!.push(target);
+      resolvedDependencies.push({ ...dep, target });
     }
-    
-    nodes.push({
-      id: methodId,
-      type: 'method',
-      name: methodName,
-      path: packagePath,
-      file: filePath,
-      signature: `def ${methodName}(${params})${returnType ? ` -> ${returnType}` : ''}`,
-      docstring
-    });
-    
-    // Add containment dependency (class contains method)
-    dependencies.push({
-      source: classId,
-      target: methodId,
-      type: 'contains'
-    });
-    
-    // Extract method calls
-    const endIndex = findFunctionEndIndex(classBody, methodMatch.index);
-    if (endIndex > methodMatch.index) {
-      const methodBody = classBody.substring(methodMatch.index, endIndex);
-      const callRegex = /(?:self\.)?([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
-      let callMatch;
-      
-      while ((callMatch = callRegex.exec(methodBody)) !== null) {
-        const calledFunc = callMatch[1];
-        // Skip if it's a common keyword or the method itself
-        if (['if', 'while', 'for', 'print', 'len', 'str', 'int', 'float'].includes(calledFunc) || calledFunc === methodName) {
-          continue;
+  }
+
+  // Find a method on a class or, breadth-first, on its base classes
+  const resolveMethod = (classId: string, methodName: string): { id?: string, external?: string } => {
+    const queue = [classId];
+    const seen = new Set<string>();
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+
+      if (current.startsWith('external:')) {
+        return { external: `${splitId(current).qualifiedName}.${methodName}` };
+      }
+
+      const { path: classPath, qualifiedName } = splitId(current);
+      const methodId = generateId('method', `${qualifiedName}.${methodName}`, classPath);
+      if (nodeIds.has(methodId)) return { id: methodId };
+
+      queue.push(...(basesByClass.get(current) || []));
+    }
+
+    return {};
+  };
+
+  for (const dep of dependencies) {
+    const source = splitId(dep.source);
+    const target = splitId(dep.target);
+    let resolved: string | undefined;
+
+    switch (dep.type) {
+      case 'inherits':
+        continue;
+
+      case 'calls':
+        if (nodeIds.has(dep.target)) {
+          resolved = dep.target;
+        } else if (dep.target.startsWith('method:')) {
+          // `self.method()`: the enclosing class is the method's qualified name minus the method
+          const className = target.qualifiedName.split('.').slice(0, -1).join('.');
+          const methodName = target.qualifiedName.split('.').pop() || '';
+          resolved = toTarget(resolveMethod(generateId('class', className, target.path), methodName));
+        } else {
+          resolved = toTarget(resolveInScope(source.path, source.qualifiedName, target.qualifiedName));
         }
-        
-        const targetId = calledFunc.includes('.') 
-          ? generateId('method', calledFunc, '')
-          : generateId('method', `${className}.${calledFunc}`, packagePath);
-        
-        dependencies.push({
-          source: methodId,
-          target: targetId,
-          type: 'calls'
-        });
+        break;
+
+      case 'uses':
+        // A decorator names a function or class as seen from the definition it decorates
+        resolved = toTarget(resolveInScope(source.path, source.qualifiedName.replace(/\.@[\s\S]*$/, ''), target.qualifiedName));
+        break;
+
+      case 'imports': {
+        const importPath = toAbsoluteImport(source.path, target.qualifiedName);
+        const id = resolveName(importPath);
+        resolved = toTarget(id ? { id } : { external: importPath });
+        break;
       }
+
+      default:
+        resolved = nodeIds.has(dep.target) ? dep.target : undefined;
+    }
+
+    if (resolved) {
+      resolvedDependencies.push({ ...dep, target: resolved });
     }
   }
-};
 
-// Get Python package path from a directory path and module name
-const getPackagePath = (dirPath: string, moduleName: string): string => {
-  // Check if there's an __init__.py to determine if it's part of a package
-  if (fs.existsSync(path.join(dirPath, '__init__.py'))) {
-    const parentDir = path.dirname(dirPath);
-    const dirName = path.basename(dirPath);
-    
-    if (fs.existsSync(path.join(parentDir, '__init__.py'))) {
-      return `${getPackagePath(parentDir, dirName)}.${moduleName}`;
+  // Merge repeated edges, counting them in the weight
+  const mergedDependencies = new Map<string, PythonDependency>();
+  for (const dep of resolvedDependencies) {
+    const key = `${dep.type}|${dep.source}|${dep.target}`;
+    const existing = mergedDependencies.get(key);
+    if (existing) {
+      existing.weight = (existing.weight || 1) + (dep.weight || 1);
+    } else {
+      mergedDependencies.set(key, { ...dep });
     }
-    
-    return `${dirName}.${moduleName}`;
   }
-  
-  return moduleName;
+
+  return {
+    nodes: [...nodes, ...externalNodes.values()],
+    dependencies: [...mergedDependencies.values()]
+  };
+};
+
+// A file to parse, as run on the parse pool (see worker-pool.ts). The package
+// path depends on the __init__.py files around it, so it is part of the task
+export type PythonParseTask = { filePath: string, packagePath: string };
+
+// The regex parser can be forced for comparison or to work around parser bugs
+const loadProjectParser = (): Promise<Parser | null> =>
+  process.env.VISCODE_PYTHON_PARSER === 'regex' ? Promise.resolve(null) : loadPythonParser();
+
+// Parse a file with tree-sitter, or the regex parser if it is unavailable or
+// forced, and fill in the visibility of its nodes
+export const parsePythonTask = async ({ filePath, packagePath }: PythonParseTask): Promise<PythonFileParseResult> => {
+  const parser = await loadProjectParser();
+  const { nodes, dependencies, bindings = [], exports: exportedNames }: PythonFileParseResult = parser
+    ? parsePythonFile(filePath, parser)
+    : parsePythonFileSimple(filePath, packagePath);
+
+  return { nodes: assignVisibility(nodes, dependencies, exportedNames), dependencies, bindings };
 };
 
 // Parse a Python project and generate a PythonProject object
-export const parsePythonProject = async (projectPath: string): Promise<PythonProject> => {
+export const parsePythonProject = async (
+  projectPath: string,
+  filter?: FileFilter,
+  onFileParsed?: FileParsedListener,
+  cache?: ParseCache
+): Promise<PythonProject> => {
   // Find all Python files in the project
-  const pythonFiles = findPythonFiles(projectPath);
+  const pythonFiles = findPythonFiles(projectPath, filter);
+  const parser = await loadProjectParser();
   
-  let allNodes: PythonNode[] = [];
-  let allDependencies: PythonDependency[] = [];
+  const allNodes: PythonNode[] = [];
+  const allDependencies: PythonDependency[] = [];
+  const allBindings: PythonImportBinding[] = [];
   
-  // Parse each Python file
-  for (const filePath of pythonFiles) {
-    const { nodes, dependencies } = parsePythonFile(filePath);
-    allNodes = [...allNodes, ...nodes];
-    allDependencies = [...allDependencies, ...dependencies];
+  // Parse the files that changed since the last analysis, in parallel on the
+  // worker pool for large projects
+  const tasks = pythonFiles.map(filePath => ({
+    filePath,
+    packagePath: getPackagePath(path.dirname(filePath), path.basename(filePath, '.py'))
+  }));
+  const results = await parseWithCache(
+    cache,
+    `python:${PARSER_VERSION}:${parser ? 'tree-sitter' : 'regex'}`,
+    tasks,
+    changed => runParseTasks('python', changed, parsePythonTask, task => onFileParsed?.(task.filePath)),
+    onFileParsed
+  );
+  for (const { nodes, dependencies, bindings = [] } of results) {
+    allNodes.push(...nodes);
+    allDependencies.push(...dependencies);
+    allBindings.push(...bindings);
   }
   
+  // Group modules into packages
+  const packages = createPackageNodes(allNodes);
+  allNodes.push(...packages.nodes);
+  allDependencies.push(...packages.dependencies);
+  
+  // Resolve call, inheritance and import targets against the whole project
+  const resolved = resolvePythonDependencies(allNodes, allDependencies, allBindings);
+  
   // Create project name from directory name
   const projectName = path.basename(projectPath);
   
   return {
     name: projectName,
     root: projectPath,
-    nodes: allNodes,
-    dependencies: allDependencies
+    nodes: resolved.nodes,
+    dependencies: resolved.dependencies
   };
 };
 
@@ -441,10 +1048,12 @@ export const convertToGraphData = (pythonProject: PythonProject): PythonGraphDat
     class: { val: 10, color: '#2196F3' },
     method: { val: 3, color: '#4FC3F7' },
     module: { val: 15, color: '#673AB7' },
+    package: { val: 20, color: '#E65100' },
     import: { val: 2, color: '#9E9E9E' },
     variable: { val: 1, color: '#FF9800' },
     constant: { val: 1, color: '#FFC107' },
-    decorator: { val: 2, color: '#F44336' }
+    decorator: { val: 2, color: '#F44336' },
+    external: { val: 2, color: '#BDBDBD' }
   };
   
   // Map nodes to graph format
@@ -460,7 +1069,8 @@ export const convertToGraphData = (pythonProject: PythonProject): PythonGraphDat
       group: node.path,
       path: node.path,
       file: node.file,
-      signature: node.signature
+      signature: node.signature,
+      visibility: node.visibility
     };
   });
   
@@ -482,7 +1092,15 @@ export const convertToGraphData = (pythonProject: PythonProject): PythonGraphDat
 export const convertToHierarchicalData = (pythonProject: PythonProject): PythonHierarchicalData => {
   const modules: Record<string, PythonTreeNode> = {};
   
-  // Create module nodes
+  // Module and package nodes stand for the dotted path they are defined at
+  const containers = new Map<string, PythonNode>();
+  for (const node of pythonProject.nodes) {
+    if (node.type === 'module' || node.type === 'package') {
+      containers.set(node.path, node);
+    }
+  }
+  
+  // Create module nodes, using the parsed module or package where there is one
   for (const node of pythonProject.nodes) {
     const pathParts = node.path.split('.');
     let currentPath = '';
@@ -492,11 +1110,13 @@ export const convertToHierarchicalData = (pythonProject: PythonProject): PythonH
       currentPath = currentPath ? `${currentPath}.${part}` : part;
       
       if (!modules[currentPath]) {
+        const container = containers.get(currentPath);
         modules[currentPath] = {
-          id: `module:${currentPath}`,
+          id: container ? container.id : `module:${currentPath}`,
           name: part,
-          type: 'module',
+          type: container ? container.type : 'module',
           path: currentPath,
+          file: container?.file,
           children: []
         };
       }
@@ -514,22 +1134,42 @@ export const convertToHierarchicalData = (pythonProject: PythonProject): PythonH
     }
   });
   
-  // Add nodes to the appropriate modules
+  // Nest classes, functions and methods under their enclosing definition
+  const parentIds = new Map<string, string>();
+  for (const dep of pythonProject.dependencies) {
+    if (dep.type === 'contains') {
+      parentIds.set(dep.target, dep.source);
+    }
+  }
+  
+  const treeNodes = new Map<string, PythonTreeNode>();
   for (const node of pythonProject.nodes) {
-    if (node.type !== 'module') {
-      const treeNode: PythonTreeNode = {
+    if (node.type !== 'module' && node.type !== 'package') {
+      treeNodes.set(node.id, {
         id: node.id,
         name: node.name,
         type: node.type,
         path: node.path,
         file: node.file,
         signature: node.signature,
+        visibility: node.visibility,
         children: []
-      };
-      
-      if (modules[node.path]) {
-        modules[node.path].children.push(treeNode);
-      }
+      });
+    }
+  }
+  
+  // Add nodes to their parent definition, or else to the appropriate module
+  for (const node of pythonProject.nodes) {
+    const treeNode = treeNodes.get(node.id);
+    if (!treeNode) {
+      continue;
+    }
+    
+    const parent = treeNodes.get(parentIds.get(node.id) || '');
+    if (parent) {
+      parent.children.push(treeNode);
+    } else if (modules[node.path]) {
+      modules[node.path].children.push(treeNode);
     }
   }
   
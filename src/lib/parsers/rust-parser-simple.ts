@@ -4,9 +4,10 @@
 import fs from 'fs';
 import path from 'path';
 import { RustNode, RustDependency, RustProject, GraphData } from '../../types/rust-types';
+import { FileFilter, FileParsedListener } from '../../types/analyzer-types';
 
-// Helper to recursively find all Rust files in a directory
-export const findRustFiles = (dir: string): string[] => {
+// Helper to recursively find all Rust files in a directory, without those the filter excludes
+export const findRustFiles = (dir: string, filter?: FileFilter): string[] => {
   const files: string[] = [];
   
   try {
@@ -23,8 +24,10 @@ export const findRustFiles = (dir: string): string[] => {
       }
       
       if (entry.isDirectory()) {
-        files.push(...findRustFiles(fullPath));
-      } else if (entry.name.endsWith('.rs')) {
+        if (!filter?.excludesDirectory(fullPath)) {
+          files.push(...findRustFiles(fullPath, filter));
+        }
+      } else if (entry.name.endsWith('.rs') && !filter?.excludesFile(fullPath)) {
         files.push(fullPath);
       }
     }
@@ -47,6 +50,17 @@ export const parseRustFile = (filePath: string): { nodes: RustNode[], dependenci
       return `${type}:${path}:${name}`;
     };
     
+    // Visibility from the modifier before an item's keyword, e.g. `pub(crate) fn`
+    const getVisibility = (index: number): RustNode['visibility'] => {
+      const lineStart = code.lastIndexOf('\n', index - 1) + 1;
+      const modifierMatch = code.substring(lineStart, index)
+        .match(/\bpub\s*(?:\(\s*(crate|super|self|in)\b[^)]*\))?\s+(?:(?:async|const|unsafe|extern(?:\s+"[^"]*")?)\s+)*$/);
+
+      if (!modifierMatch) return 'private';
+      if (modifierMatch[1] === 'self') return 'private';
+      return (modifierMatch[1] as 'crate' | 'super' | 'in' | undefined) || 'public';
+    };
+    
     // Get the module name from file path
     const fileName = path.basename(filePath);
     const moduleName = fileName.replace(/\.rs$/, '');
@@ -60,9 +74,7 @@ export const parseRustFile = (filePath: string): { nodes: RustNode[], dependenci
       const signature = match[0];
       const id = generateId('function', name, moduleName);
       
-      // Check if this is a public function
-      const funcSection = code.substring(Math.max(0, match.index - 5), match.index);
-      const visibility = funcSection.includes('pub ') ? 'public' : 'private';
+      const visibility = getVisibility(match.index);
       
       nodes.push({
         id,
@@ -106,9 +118,7 @@ export const parseRustFile = (filePath: string): { nodes: RustNode[], dependenci
       const name = match[1];
       const id = generateId('struct', name, moduleName);
       
-      // Check visibility
-      const structSection = code.substring(Math.max(0, match.index - 5), match.index);
-      const visibility = structSection.includes('pub ') ? 'public' : 'private';
+      const visibility = getVisibility(match.index);
       
       nodes.push({
         id,
@@ -127,9 +137,7 @@ export const parseRustFile = (filePath: string): { nodes: RustNode[], dependenci
       const name = match[1];
       const id = generateId('enum', name, moduleName);
       
-      // Check visibility
-      const enumSection = code.substring(Math.max(0, match.index - 5), match.index);
-      const visibility = enumSection.includes('pub ') ? 'public' : 'private';
+      const visibility = getVisibility(match.index);
       
       nodes.push({
         id,
@@ -148,9 +156,7 @@ export const parseRustFile = (filePath: string): { nodes: RustNode[], dependenci
       const name = match[1];
       const id = generateId('trait', name, moduleName);
       
-      // Check visibility
-      const traitSection = code.substring(Math.max(0, match.index - 5), match.index);
-      const visibility = traitSection.includes('pub ') ? 'public' : 'private';
+      const visibility = getVisibility(match.index);
       
       nodes.push({
         id,
@@ -198,9 +204,7 @@ export const parseRustFile = (filePath: string): { nodes: RustNode[], dependenci
       const name = match[1];
       const id = generateId('module', name, moduleName);
       
-      // Check visibility
-      const modSection = code.substring(Math.max(0, match.index - 5), match.index);
-      const visibility = modSection.includes('pub ') ? 'public' : 'private';
+      const visibility = getVisibility(match.index);
       
       nodes.push({
         id,
@@ -212,21 +216,6 @@ export const parseRustFile = (filePath: string): { nodes: RustNode[], dependenci
       });
     }
     
-    // Extract use statements
-    const useRegex = /use\s+([^;]+);/g;
-    while ((match = useRegex.exec(code)) !== null) {
-      const path = match[1];
-      const id = generateId('use', path, moduleName);
-      
-      nodes.push({
-        id,
-        type: 'use',
-        name: path,
-        path: moduleName,
-        file: filePath
-      });
-    }
-    
     return { nodes, dependencies };
   } catch (error) {
     console.error(`Error parsing file ${filePath}:`, error);
@@ -235,21 +224,26 @@ export const parseRustFile = (filePath: string): { nodes: RustNode[], dependenci
 };
 
 // Parse an entire Rust project
-export const parseRustProject = async (projectPath: string): Promise<RustProject> => {
-  const rustFiles = findRustFiles(projectPath);
+export const parseRustProject = async (
+  projectPath: string,
+  filter?: FileFilter,
+  onFileParsed?: FileParsedListener
+): Promise<RustProject> => {
+  const rustFiles = findRustFiles(projectPath, filter);
   
-  let allNodes: RustNode[] = [];
-  let allDependencies: RustDependency[] = [];
+  const parsedNodes: RustNode[] = [];
+  const parsedDependencies: RustDependency[] = [];
   
   // Parse each Rust file
   for (const file of rustFiles) {
     const { nodes, dependencies } = parseRustFile(file);
-    allNodes = [...allNodes, ...nodes];
-    allDependencies = [...allDependencies, ...dependencies];
+    onFileParsed?.(file);
+    parsedNodes.push(...nodes);
+    parsedDependencies.push(...dependencies);
   }
   
   // Post-process to resolve module paths and fix dependencies
-  allNodes = allNodes.map(node => {
+  const allNodes = parsedNodes.map(node => {
     // Create full path for each node by prepending the module path
     const modulePath = path.relative(projectPath, node.file)
       .replace(/\.rs$/, '')
@@ -263,20 +257,26 @@ export const parseRustProject = async (projectPath: string): Promise<RustProject
     };
   });
   
+  // Index the nodes by ID, and by type and name keeping the first node of each
+  const nodeIds = new Set(allNodes.map(node => node.id));
+  const nodesByName = new Map<string, RustNode>();
+  for (const node of allNodes) {
+    const key = `${node.type}|${node.name}`;
+    if (!nodesByName.has(key)) {
+      nodesByName.set(key, node);
+    }
+  }
+  
   // Resolve dependencies between nodes
-  allDependencies = allDependencies.filter(dep => {
+  const allDependencies = parsedDependencies.filter(dep => {
     // Find matching target for dependencies
-    const sourceNode = allNodes.find(node => node.id === dep.source);
-    const targetCandidate = allNodes.find(node => 
-      node.type === dep.type.replace('calls', 'function')
-        .replace('implements', 'trait')
-        .replace('uses', 'use')
-        .replace('contains', 'module')
-        .replace('extends', 'struct') && 
-      node.name === dep.target.split(':').pop()
-    );
+    const targetType = dep.type.replace('calls', 'function')
+      .replace('implements', 'trait')
+      .replace('contains', 'module')
+      .replace('extends', 'struct');
+    const targetCandidate = nodesByName.get(`${targetType}|${dep.target.split(':').pop()}`);
     
-    if (sourceNode && targetCandidate) {
+    if (nodeIds.has(dep.source) && targetCandidate) {
       // Update the target with the found node id
       dep.target = targetCandidate.id;
       return true;
@@ -305,8 +305,7 @@ export const convertToGraphData = (rustProject: RustProject): GraphData => {
     impl: '#9C27B0',      // Purple
     module: '#FF9800',    // Orange
     constant: '#795548',  // Brown
-    macro: '#607D8B',     // Grey-Blue
-    use: '#9E9E9E'        // Grey
+    macro: '#607D8B'      // Grey-Blue
   };
   
   // Node size based on type
@@ -318,8 +317,7 @@ export const convertToGraphData = (rustProject: RustProject): GraphData => {
     impl: 6,
     module: 10,
     constant: 4,
-    macro: 6,
-    use: 3
+    macro: 6
   };
   
   const nodes = rustProject.nodes.map(node => ({
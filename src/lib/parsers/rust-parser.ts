@@ -1,360 +1,1725 @@
-import * as Parser from 'tree-sitter';
-import Rust from 'tree-sitter-rust';
+// This module is server-only and should not be imported from client components
+// Uses tree-sitter for accurate parsing, falling back to the regex parser when
+// the native binding cannot be loaded
+
+import type Parser from 'tree-sitter';
 import fs from 'fs';
 import path from 'path';
-import { RustNode, RustDependency, RustProject } from '../../types/rust-types';
+import {
+  RustNode,
+  RustDependency,
+  RustUseBinding,
+  RustImplBlock,
+  RustCallSite,
+  RustDerive,
+  RustProject,
+  GraphData
+} from '../../types/rust-types';
+import { FileFilter, FileParsedListener, ParseCache } from '../../types/analyzer-types';
+import { parseRustProject as parseRustProjectSimple } from './rust-parser-simple';
+import { loadTreeSitterParser } from './tree-sitter-loader';
+import { findCargoPackages, findRustCrates, RustCrate } from './cargo-manifest';
+import { runParseTasks } from './worker-pool';
+import { parseWithCache } from './parse-cache';
+
+type SyntaxNode = Parser.SyntaxNode;
 
-// Initialize Tree-sitter parser
-const parser = new Parser();
-parser.setLanguage(Rust);
+// Version of the results of parseRustFile, part of their parse cache key
+const PARSER_VERSION = 3;
+
+// Load the tree-sitter Rust parser, or null if the native binding is unavailable
+export const loadRustParser = (): Promise<Parser | null> => {
+  return loadTreeSitterParser('rust', () => import('tree-sitter-rust'));
+};
 
-// Helper to recursively find all Rust files in a directory
-export const findRustFiles = (dir: string): string[] => {
+// Helper to recursively find all Rust files in a directory, without those the filter excludes
+export const findRustFiles = (dir: string, filter?: FileFilter): string[] => {
   const files: string[] = [];
-  
+
   try {
     const entries = fs.readdirSync(dir, { withFileTypes: true });
-    
+
     for (const entry of entries) {
       const fullPath = path.join(dir, entry.name);
-      
+
       // Skip node_modules, hidden files, and target dirs
-      if (entry.name.startsWith('.') || 
-          entry.name === 'node_modules' || 
+      if (entry.name.startsWith('.') ||
+          entry.name === 'node_modules' ||
           entry.name === 'target') {
         continue;
       }
-      
+
       if (entry.isDirectory()) {
-        files.push(...findRustFiles(fullPath));
-      } else if (entry.name.endsWith('.rs')) {
+        if (!filter?.excludesDirectory(fullPath)) {
+          files.push(...findRustFiles(fullPath, filter));
+        }
+      } else if (entry.name.endsWith('.rs') && !filter?.excludesFile(fullPath)) {
         files.push(fullPath);
       }
     }
   } catch (error) {
     console.error(`Error reading directory ${dir}:`, error);
   }
-  
+
   return files;
 };
 
-// Parse a single Rust file
-export const parseRustFile = (filePath: string): { nodes: RustNode[], dependencies: RustDependency[] } => {
+// A module whose contents live in another file, e.g. `mod net;` -> src/net/mod.rs
+export type RustModuleFile = {
+  // Module path within the crate, e.g. `crate::net`
+  modulePath: string;
+  file: string;
+  // Directory in which the module's own `mod foo;` declarations are looked up
+  moduleDir: string;
+};
+
+// Result of parsing one file; modules are the files it declares with `mod foo;`.
+// Use bindings, impls and calls are resolved project-wide in parseRustProject
+export type RustFileParseResult = {
+  nodes: RustNode[];
+  dependencies: RustDependency[];
+  modules: RustModuleFile[];
+  // Files that would hold the `mod foo;` declarations whose file was not found
+  missingModuleFiles: string[];
+  bindings: RustUseBinding[];
+  impls: RustImplBlock[];
+  calls: RustCallSite[];
+  derives: RustDerive[];
+  // Inner doc comments and attributes (`//!`, `#![...]`) of the file's module
+  moduleDocs: Pick<RustNode, 'description' | 'attributes'>;
+};
+
+// A file to parse, as run on the parse pool (see worker-pool.ts). Files outside
+// every module tree have no crate and no module directory
+export type RustParseTask = {
+  filePath: string;
+  crateName: string;
+  modulePath: string;
+  moduleDir?: string;
+};
+
+// What a local variable is known to hold: a value of a type, or the result of a call
+type LocalBinding = { type?: string[], call?: string[] };
+
+// The function or method whose body is being scanned for calls
+type Caller = {
+  id: string;
+  // Crate-qualified path of the caller's module
+  module: string;
+  selfType?: string[];
+  locals: Map<string, LocalBinding>;
+};
+
+// Docs of a module declared with outer docs on its `mod` item and inner docs in its body
+const mergeDocs = (
+  outer: Pick<RustNode, 'description' | 'attributes'>,
+  inner: Pick<RustNode, 'description' | 'attributes'>
+): Pick<RustNode, 'description' | 'attributes'> => {
+  const descriptions = [outer.description, inner.description].filter(Boolean);
+  const attributes = [...(outer.attributes || []), ...(inner.attributes || [])];
+  return {
+    description: descriptions.length > 0 ? descriptions.join('\n\n') : undefined,
+    attributes: attributes.length > 0 ? attributes : undefined
+  };
+};
+
+// Parse a single Rust file that holds the module at modulePath. Items get paths
+// below modulePath (e.g. `crate::net::Socket`) and IDs that replace the leading
+// `crate` with the crate name, so items of different crates stay distinct
+export const parseRustFile = (
+  filePath: string,
+  parser: Parser,
+  crateName = '',
+  modulePath = 'crate',
+  moduleDir = path.dirname(filePath)
+): RustFileParseResult => {
   try {
     const code = fs.readFileSync(filePath, 'utf8');
     const tree = parser.parse(code);
-    
+
     const nodes: RustNode[] = [];
     const dependencies: RustDependency[] = [];
-    
+    const modules: RustModuleFile[] = [];
+    const missingModuleFiles: string[] = [];
+    const bindings: RustUseBinding[] = [];
+    const impls: RustImplBlock[] = [];
+    const calls: RustCallSite[] = [];
+    const derives: RustDerive[] = [];
+
+    // Path with the leading `crate` replaced by the crate name, e.g. `my_crate::net`
+    const qualifyPath = (path: string): string => {
+      return crateName ? path.replace(/^crate(?=::|$)/, crateName) : path;
+    };
+
     // Helper function to generate unique IDs
     const generateId = (type: string, name: string, path: string): string => {
-      return `${type}:${path}:${name}`;
+      return `${type}:${qualifyPath(path)}:${name}`;
+    };
+
+    // IDs of the impls and associated items declared so far. An item declared
+    // twice, e.g. under different `#[cfg]`s, gets its line appended to tell it apart
+    const declaredIds = new Set<string>();
+    const declareId = (id: string, node: SyntaxNode): string => {
+      const uniqueId = declaredIds.has(id) ? `${id}#L${node.startPosition.row + 1}` : id;
+      declaredIds.add(uniqueId);
+      return uniqueId;
+    };
+
+    // Source text of a syntax node. startIndex/endIndex are offsets into the
+    // parsed string, unlike startPosition/endPosition which are row/column pairs
+    const getText = (node: SyntaxNode): string => {
+      return code.substring(node.startIndex, node.endIndex);
+    };
+
+    // Item text up to (but excluding) its body, e.g. `pub fn foo(a: u32) -> u32`.
+    // Values of consts and statics are kept, shortened if long
+    const getSignature = (node: SyntaxNode): string => {
+      const valueNode = node.type === 'const_item' || node.type === 'static_item'
+        ? node.childForFieldName('value')
+        : null;
+      if (valueNode) {
+        const value = getText(valueNode).replace(/\s+/g, ' ');
+        const shortValue = value.length > 60 ? `${value.substring(0, 57)}...` : value;
+        return `${code.substring(node.startIndex, valueNode.startIndex).trim()} ${shortValue}`;
+      }
+
+      const bodyNode = node.childForFieldName('body');
+      const end = bodyNode ? bodyNode.startIndex : node.endIndex;
+      return code.substring(node.startIndex, end).trim().replace(/;$/, '');
+    };
+
+    // `pub` is public; `pub(crate)`, `pub(super)` and `pub(in path)` restrict it
+    // and `pub(self)` is the same as no modifier
+    const getVisibility = (node: SyntaxNode): RustNode['visibility'] => {
+      const visibilityNode = node.children.find(n => n.type === 'visibility_modifier');
+      if (!visibilityNode) return 'private';
+
+      // `crate` alone is the old spelling of `pub(crate)`
+      const restriction = getText(visibilityNode).match(/^(?:pub\s*\(\s*(crate|super|self|in)\b|(crate)$)/);
+      const scope = restriction ? restriction[1] || restriction[2] : undefined;
+      return scope === 'self' ? 'private' : (scope as 'crate' | 'super' | 'in' | undefined) || 'public';
+    };
+
+    // Outer attributes of an item, e.g. `path = "net.rs"` for `#[path = "net.rs"]`.
+    // They come before the item as siblings
+    const getAttributes = (node: SyntaxNode): string[] => {
+      const attributes: string[] = [];
+      let sibling = node.previousNamedSibling;
+      while (sibling && (sibling.type === 'attribute_item' || sibling.type.endsWith('_comment'))) {
+        const attributeNode = sibling.type === 'attribute_item' ? sibling.namedChildren[0] : null;
+        if (attributeNode) {
+          attributes.unshift(getText(attributeNode));
+        }
+        sibling = sibling.previousNamedSibling;
+      }
+      return attributes;
+    };
+
+    // Text of a doc comment without its markers, e.g. `/// Returns x` -> `Returns x`
+    const getDocText = (comment: SyntaxNode): string => {
+      const docNode = comment.childForFieldName('doc');
+      const isBlock = comment.type === 'block_comment';
+      return (docNode ? getText(docNode) : '')
+        .split('\n')
+        .map(line => isBlock ? line.replace(/^\s*\*? ?/, '') : line.replace(/^ /, ''))
+        .join('\n')
+        .trim();
+    };
+
+    // Doc comments (`///`, `/** */`) and attributes of an item, as shown with it.
+    // Attributes are kept as written, e.g. `#[derive(Debug, Clone)]`
+    const getItemDocs = (node: SyntaxNode): Pick<RustNode, 'description' | 'attributes'> => {
+      const docs: string[] = [];
+      const attributes: string[] = [];
+      let sibling = node.previousNamedSibling;
+      while (sibling && (sibling.type === 'attribute_item' || sibling.type.endsWith('_comment'))) {
+        if (sibling.type === 'attribute_item') {
+          attributes.unshift(getText(sibling));
+        } else if (sibling.childForFieldName('outer')) {
+          docs.unshift(getDocText(sibling));
+        }
+        sibling = sibling.previousNamedSibling;
+      }
+      return {
+        description: docs.length > 0 ? docs.join('\n') : undefined,
+        attributes: attributes.length > 0 ? attributes : undefined
+      };
+    };
+
+    // Inner doc comments (`//!`) and attributes (`#![...]`) of a file or inline module body
+    const getInnerDocs = (body: SyntaxNode): Pick<RustNode, 'description' | 'attributes'> => {
+      const docs = body.namedChildren
+        .filter(child => child.type.endsWith('_comment') && child.childForFieldName('inner'))
+        .map(getDocText);
+      const attributes = body.namedChildren
+        .filter(child => child.type === 'inner_attribute_item')
+        .map(getText);
+      return {
+        description: docs.length > 0 ? docs.join('\n') : undefined,
+        attributes: attributes.length > 0 ? attributes : undefined
+      };
+    };
+
+    // Value of a `#[path = "..."]` attribute on an item
+    const getPathAttribute = (node: SyntaxNode): string | null => {
+      for (const attribute of getAttributes(node)) {
+        const pathMatch = attribute.match(/^path\s*=\s*"([^"]*)"$/);
+        if (pathMatch) {
+          return pathMatch[1];
+        }
+      }
+      return null;
+    };
+
+    // ID of the crate or module node that stands for a module path
+    const getContainerId = (modPath: string): string => {
+      return modPath === 'crate'
+        ? generateId('crate', crateName, modPath)
+        : generateId('module', modPath.split('::').pop() || modPath, modPath);
+    };
+
+    // Files that may hold an out-of-line `mod name;` declared in dir: `#[path]`
+    // if given, else `name.rs` or `name/mod.rs`
+    const getModuleFileCandidates = (node: SyntaxNode, name: string, modPath: string, dir: string): RustModuleFile[] => {
+      const pathAttribute = getPathAttribute(node);
+      if (pathAttribute) {
+        // Outside inline modules the path is relative to the declaring file's directory
+        const baseDir = dir === moduleDir ? path.dirname(filePath) : dir;
+        const file = path.resolve(baseDir, pathAttribute);
+        return [{ modulePath: modPath, file, moduleDir: path.dirname(file) }];
+      }
+
+      return [
+        { modulePath: modPath, file: path.join(dir, `${name}.rs`), moduleDir: path.join(dir, name) },
+        { modulePath: modPath, file: path.join(dir, name, 'mod.rs'), moduleDir: path.join(dir, name) }
+      ];
     };
-    
-    // Process the AST to extract Rust elements
-    const processSyntaxNode = (node: any, parentPath = ''): void => {
-      if (!node || !node.children) return;
-      
-      for (const child of node.children) {
-        if (!child.type) continue;
-        
+
+    // Find the file of an out-of-line `mod name;`, recording where it was looked for if missing
+    const resolveModuleFile = (node: SyntaxNode, name: string, modPath: string, dir: string): RustModuleFile | null => {
+      const candidates = getModuleFileCandidates(node, name, modPath, dir);
+      const moduleFile = candidates.find(candidate => fs.existsSync(candidate.file));
+      if (!moduleFile) {
+        missingModuleFiles.push(...candidates.map(candidate => candidate.file));
+      }
+      return moduleFile || null;
+    };
+
+    // Name of an impl target without generic arguments, e.g. `Foo<T>` -> `Foo`
+    const getTypeName = (node: SyntaxNode): string => {
+      if (node.type === 'generic_type') {
+        const innerType = node.childForFieldName('type');
+        if (innerType) {
+          return getTypeName(innerType);
+        }
+      }
+
+      if (node.type === 'scoped_type_identifier') {
+        const nameNode = node.childForFieldName('name');
+        if (nameNode) {
+          return getText(nameNode);
+        }
+      }
+
+      return getText(node);
+    };
+
+    // Name of a type or trait with its generic arguments, e.g. `From<u8>` for
+    // `std::convert::From<u8>`
+    const getGenericName = (node: SyntaxNode): string => {
+      const argumentsNode = node.type === 'generic_type' ? node.childForFieldName('type_arguments') : null;
+      return argumentsNode
+        ? `${getTypeName(node)}${getText(argumentsNode).replace(/\s+/g, ' ').replace(/,(?=\S)/g, ', ')}`
+        : getTypeName(node);
+    };
+
+    // Segments of a path as written, without generic arguments, e.g.
+    // `crate::net::Socket::<T>` -> ['crate', 'net', 'Socket']. `<T as Trait>`
+    // stands for the trait
+    const getPathSegments = (node: SyntaxNode): string[] => {
+      switch (node.type) {
+        case 'identifier':
+        case 'type_identifier':
+        case 'self':
+        case 'super':
+        case 'crate':
+          return [getText(node)];
+
+        // `$crate::name` in a macro body is the macro's own crate
+        case 'metavariable':
+          return getText(node) === '$crate' ? ['crate'] : [];
+
+        case 'scoped_identifier':
+        case 'scoped_type_identifier': {
+          const pathNode = node.childForFieldName('path');
+          const nameNode = node.childForFieldName('name');
+          return [
+            ...(pathNode ? getPathSegments(pathNode) : []),
+            ...(nameNode ? [getText(nameNode)] : [])
+          ];
+        }
+
+        case 'generic_type':
+        case 'generic_function': {
+          const innerNode = node.childForFieldName('type') || node.childForFieldName('function');
+          return innerNode ? getPathSegments(innerNode) : [];
+        }
+
+        case 'bracketed_type': {
+          const innerNode = node.namedChildren[0];
+          const traitNode = innerNode?.type === 'qualified_type' ? innerNode.childForFieldName('alias') : innerNode;
+          return traitNode ? getPathSegments(traitNode) : [];
+        }
+
+        default:
+          return [];
+      }
+    };
+
+    // Type whose methods a value of the given type has: references and smart
+    // pointers are seen through, `impl Trait` and `dyn Trait` stand for the trait
+    const getReceiverType = (node: SyntaxNode): string[] | undefined => {
+      if (node.type === 'reference_type') {
+        const innerNode = node.childForFieldName('type');
+        return innerNode ? getReceiverType(innerNode) : undefined;
+      }
+
+      if (node.type === 'abstract_type' || node.type === 'dynamic_type') {
+        const traitNode = node.childForFieldName('trait');
+        return traitNode ? getReceiverType(traitNode) : undefined;
+      }
+
+      if (node.type === 'generic_type' && /^(Box|Rc|Arc)$/.test(getTypeName(node))) {
+        const argumentNode = node.childForFieldName('type_arguments')?.namedChildren[0];
+        return argumentNode ? getReceiverType(argumentNode) : undefined;
+      }
+
+      const segments = getPathSegments(node);
+      return segments.length > 0 ? segments : undefined;
+    };
+
+    // Names bound by a use tree, e.g. `use a::{b, c::d as e, f::*}` binds b to
+    // a::b, e to a::c::d and everything in a::f
+    const expandUseTree = (node: SyntaxNode, prefix: string[]): { name: string, target: string[] }[] => {
+      switch (node.type) {
+        case 'use_as_clause': {
+          const pathNode = node.childForFieldName('path');
+          const aliasNode = node.childForFieldName('alias');
+          // `use Trait as _` binds no name, but still uses the trait
+          if (!pathNode || !aliasNode) return [];
+          return [{ name: getText(aliasNode), target: [...prefix, ...getPathSegments(pathNode)] }];
+        }
+
+        case 'use_wildcard': {
+          const pathNode = node.namedChildren[0];
+          return [{ name: '*', target: [...prefix, ...(pathNode ? getPathSegments(pathNode) : [])] }];
+        }
+
+        case 'scoped_use_list': {
+          const pathNode = node.childForFieldName('path');
+          const listNode = node.childForFieldName('list');
+          const listPrefix = [...prefix, ...(pathNode ? getPathSegments(pathNode) : [])];
+          return listNode ? expandUseTree(listNode, listPrefix) : [];
+        }
+
+        case 'use_list':
+          return node.namedChildren.flatMap(child => expandUseTree(child, prefix));
+
+        default: {
+          // `use a::b::{self}` binds b itself
+          const segments = [...prefix, ...getPathSegments(node)];
+          const target = segments[segments.length - 1] === 'self' ? segments.slice(0, -1) : segments;
+          const name = target[target.length - 1];
+          return name && !['crate', 'self', 'super'].includes(name) ? [{ name, target }] : [];
+        }
+      }
+    };
+
+    // Process the AST to extract Rust elements. dir is where `mod foo;`
+    // declarations in this scope find their files
+    const processSyntaxNode = (node: SyntaxNode, parentPath: string, dir: string): void => {
+      for (const child of node.namedChildren) {
         switch (child.type) {
           case 'function_item':
           case 'function_signature_item': {
-            const nameNode = child.children.find((n: any) => n.type === 'identifier');
+            const nameNode = child.childForFieldName('name');
             if (nameNode) {
-              const name = code.substring(nameNode.startPosition.row, nameNode.endPosition.row);
+              const name = getText(nameNode);
               const funcPath = parentPath ? `${parentPath}::${name}` : name;
               const id = generateId('function', name, funcPath);
-              
-              // Extract function signature
-              const signature = code.substring(child.startPosition.row, child.endPosition.row);
-              
-              // Check for visibility (pub)
-              const visibilityNode = child.children.find((n: any) => n.type === 'visibility_modifier');
-              const visibility = visibilityNode ? 'public' : 'private';
-              
+
               nodes.push({
                 id,
                 type: 'function',
                 name,
                 path: funcPath,
                 file: filePath,
-                signature,
-                visibility
+                signature: getSignature(child),
+                visibility: getVisibility(child),
+                ...getItemDocs(child)
               });
-              
+
               // Process body to find function calls and dependencies
-              const bodyNode = child.children.find((n: any) => n.type === 'block');
+              const bodyNode = child.childForFieldName('body');
               if (bodyNode) {
-                processBodyForDependencies(bodyNode, id);
+                processBodyForDependencies(bodyNode, createCaller(id, parentPath, child));
               }
             }
             break;
           }
-          
-          case 'struct_item': {
-            const nameNode = child.children.find((n: any) => n.type === 'type_identifier');
+
+          case 'struct_item':
+          case 'union_item':
+          case 'enum_item':
+          case 'trait_item': {
+            const nameNode = child.childForFieldName('name');
             if (nameNode) {
-              const name = code.substring(nameNode.startPosition.row, nameNode.endPosition.row);
-              const structPath = parentPath ? `${parentPath}::${name}` : name;
-              const id = generateId('struct', name, structPath);
-              
-              // Extract struct definition
-              const signature = code.substring(child.startPosition.row, child.endPosition.row);
-              
-              const visibilityNode = child.children.find((n: any) => n.type === 'visibility_modifier');
-              const visibility = visibilityNode ? 'public' : 'private';
-              
+              const name = getText(nameNode);
+              const itemPath = parentPath ? `${parentPath}::${name}` : name;
+              // Unions are shown as structs; their signature tells them apart
+              const type = child.type === 'union_item'
+                ? 'struct'
+                : child.type.replace(/_item$/, '') as 'struct' | 'enum' | 'trait';
+
               nodes.push({
-                id,
-                type: 'struct',
+                id: generateId(type, name, itemPath),
+                type,
                 name,
-                path: structPath,
+                path: itemPath,
                 file: filePath,
-                signature,
-                visibility
+                signature: getSignature(child),
+                visibility: getVisibility(child),
+                ...getItemDocs(child)
               });
+
+              // Derived traits are resolved in parseRustProject, like the traits of impls
+              for (const attribute of getAttributes(child)) {
+                const deriveMatch = attribute.match(/^derive\s*\(([\s\S]*)\)$/);
+                for (const traitName of deriveMatch ? deriveMatch[1].split(',') : []) {
+                  const traitPath = traitName.split('::').map(segment => segment.trim()).filter(Boolean);
+                  if (traitPath.length > 0) {
+                    derives.push({ source: generateId(type, name, itemPath), module: qualifyPath(parentPath), traitPath });
+                  }
+                }
+              }
+
+              // Trait methods, consts and types belong to the trait and share its visibility
+              if (type === 'trait') {
+                const bodyNode = child.childForFieldName('body');
+                if (bodyNode) {
+                  processAssociatedItems(bodyNode, {
+                    id: generateId(type, name, itemPath),
+                    scopePath: parentPath,
+                    qualifier: name,
+                    selfType: [name],
+                    visibility: getVisibility(child)
+                  });
+                }
+              }
             }
             break;
           }
-          
-          case 'enum_item': {
-            const nameNode = child.children.find((n: any) => n.type === 'type_identifier');
+
+          case 'impl_item': {
+            // Find what is being implemented
+            const typeNode = child.childForFieldName('type');
+            const traitNode = child.childForFieldName('trait');
+
+            if (typeNode) {
+              const typeName = getTypeName(typeNode);
+              const implPath = parentPath ? `${parentPath}::${typeName}` : typeName;
+              // Trait impls keep the generic arguments of the trait and type, as the impls
+              // of `From<u8>` and `From<u16>` for a type, or of a trait for `Wrapper<u8>`
+              // and `Wrapper<u16>`, are different impls
+              const traitName = traitNode ? getGenericName(traitNode) : '';
+              const implType = traitName ? getGenericName(typeNode) : typeName;
+              const name = traitName ? `impl ${traitName} for ${implType}` : `impl ${typeName}`;
+              const qualifier = traitName ? `<${implType} as ${traitName}>` : typeName;
+
+              // The inherent impls of a type are merged into one node; impls of a trait
+              // for the same type, e.g. under different `#[cfg]`s, are told apart by their line
+              const mergedImpl = !traitName && declaredIds.has(generateId('impl', name, implPath));
+              const id = mergedImpl ? generateId('impl', name, implPath) : declareId(generateId('impl', name, implPath), child);
+
+              if (!mergedImpl) {
+                nodes.push({
+                  id,
+                  type: 'impl',
+                  name,
+                  path: implPath,
+                  file: filePath,
+                  signature: getSignature(child),
+                  ...getItemDocs(child)
+                });
+              }
+
+              // Trait impl items are as visible as the trait, inherent ones declare their own
+              const bodyNode = child.childForFieldName('body');
+              if (bodyNode) {
+                processAssociatedItems(bodyNode, {
+                  id,
+                  scopePath: parentPath,
+                  qualifier,
+                  selfType: getPathSegments(typeNode),
+                  visibility: traitName ? 'public' : undefined
+                });
+              }
+
+              // The type and trait are resolved in parseRustProject, giving the impl's
+              // `extends` edge to its type and the type's `implements` edge to the trait
+              if (!mergedImpl) {
+                impls.push({
+                  id,
+                  module: qualifyPath(parentPath),
+                  typePath: getPathSegments(typeNode),
+                  traitPath: traitNode ? getPathSegments(traitNode) : undefined
+                });
+              }
+            }
+            break;
+          }
+
+          case 'const_item':
+          case 'static_item':
+          case 'type_item': {
+            const nameNode = child.childForFieldName('name');
             if (nameNode) {
-              const name = code.substring(nameNode.startPosition.row, nameNode.endPosition.row);
-              const enumPath = parentPath ? `${parentPath}::${name}` : name;
-              const id = generateId('enum', name, enumPath);
-              
-              const signature = code.substring(child.startPosition.row, child.endPosition.row);
-              
-              const visibilityNode = child.children.find((n: any) => n.type === 'visibility_modifier');
-              const visibility = visibilityNode ? 'public' : 'private';
-              
+              const name = getText(nameNode);
+              const itemPath = parentPath ? `${parentPath}::${name}` : name;
+              // Statics are shown as constants; their signature tells them apart
+              const type = child.type === 'type_item' ? 'type' : 'constant';
+
               nodes.push({
-                id,
-                type: 'enum',
+                id: generateId(type, name, itemPath),
+                type,
                 name,
-                path: enumPath,
+                path: itemPath,
                 file: filePath,
-                signature,
-                visibility
+                signature: getSignature(child),
+                visibility: getVisibility(child),
+                ...getItemDocs(child)
               });
             }
             break;
           }
-          
-          case 'trait_item': {
-            const nameNode = child.children.find((n: any) => n.type === 'type_identifier');
+
+          case 'macro_definition': {
+            const nameNode = child.childForFieldName('name');
             if (nameNode) {
-              const name = code.substring(nameNode.startPosition.row, nameNode.endPosition.row);
-              const traitPath = parentPath ? `${parentPath}::${name}` : name;
-              const id = generateId('trait', name, traitPath);
-              
-              const signature = code.substring(child.startPosition.row, child.endPosition.row);
-              
-              const visibilityNode = child.children.find((n: any) => n.type === 'visibility_modifier');
-              const visibility = visibilityNode ? 'public' : 'private';
-              
+              const name = getText(nameNode);
+              const itemPath = parentPath ? `${parentPath}::${name}` : name;
+              // The matchers of the macro's rules, e.g. `macro_rules! square ($x:expr)`
+              const matchers = child.namedChildren
+                .filter(rule => rule.type === 'macro_rule')
+                .map(rule => rule.childForFieldName('left'))
+                .filter((left): left is SyntaxNode => Boolean(left))
+                .map(left => getText(left).replace(/\s+/g, ' '));
+
               nodes.push({
-                id,
-                type: 'trait',
+                id: generateId('macro', name, itemPath),
+                type: 'macro',
                 name,
-                path: traitPath,
+                path: itemPath,
                 file: filePath,
-                signature,
-                visibility
+                signature: `macro_rules! ${name}${matchers.length > 0 ? ` ${matchers.join(' | ')}` : ''}`,
+                // `#[macro_export]` makes a macro usable from other crates
+                visibility: getAttributes(child).includes('macro_export') ? 'public' : 'private',
+                ...getItemDocs(child)
               });
-              
-              // Process trait methods
-              processSyntaxNode(child, traitPath);
             }
             break;
           }
-          
-          case 'impl_item': {
-            // Find what is being implemented
-            const typeNode = child.children.find((n: any) => n.type === 'type_identifier');
-            const traitNode = child.children.find((n: any) => n.type === 'trait_identifier');
-            
-            if (typeNode) {
-              const typeName = code.substring(typeNode.startPosition.row, typeNode.endPosition.row);
-              const implPath = parentPath ? `${parentPath}::${typeName}` : typeName;
-              const id = generateId('impl', typeName, implPath);
-              
-              let name = `impl ${typeName}`;
-              if (traitNode) {
-                name = `impl ${code.substring(traitNode.startPosition.row, traitNode.endPosition.row)} for ${typeName}`;
-              }
-              
-              nodes.push({
-                id,
-                type: 'impl',
-                name,
-                path: implPath,
-                file: filePath
+
+          // Macros invoked among items, e.g. to generate them, are used by the module.
+          // `name!(...);` is parsed as an expression statement
+          case 'macro_invocation':
+          case 'expression_statement': {
+            const invocationNode = child.type === 'macro_invocation' ? child : child.namedChildren[0];
+            const macroNode = invocationNode?.type === 'macro_invocation'
+              ? invocationNode.childForFieldName('macro')
+              : null;
+            if (macroNode) {
+              calls.push({
+                source: getContainerId(parentPath),
+                module: qualifyPath(parentPath),
+                path: getPathSegments(macroNode),
+                macro: true
               });
-              
-              // Process impl methods
-              processSyntaxNode(child, implPath);
-              
-              // Create dependency between impl and struct/trait
-              if (traitNode) {
-                const traitName = code.substring(traitNode.startPosition.row, traitNode.endPosition.row);
-                const traitId = generateId('trait', traitName, traitName);
-                const typeId = generateId('struct', typeName, typeName);
-                
-                dependencies.push({
-                  source: typeId,
-                  target: traitId,
-                  type: 'implements'
-                });
-              }
             }
             break;
           }
-          
+
           case 'mod_item': {
-            const nameNode = child.children.find((n: any) => n.type === 'identifier');
+            const nameNode = child.childForFieldName('name');
             if (nameNode) {
-              const name = code.substring(nameNode.startPosition.row, nameNode.endPosition.row);
+              const name = getText(nameNode);
               const modPath = parentPath ? `${parentPath}::${name}` : name;
-              const id = generateId('module', name, modPath);
-              
-              const visibilityNode = child.children.find((n: any) => n.type === 'visibility_modifier');
-              const visibility = visibilityNode ? 'public' : 'private';
-              
+              const bodyNode = child.childForFieldName('body');
+              const moduleFile = bodyNode ? null : resolveModuleFile(child, name, modPath, dir);
+              // An out-of-line module's inner docs are added by parseRustProject
+              const outerDocs = getItemDocs(child);
+              const innerDocs = bodyNode ? getInnerDocs(bodyNode) : {};
+
               nodes.push({
-                id,
+                id: generateId('module', name, modPath),
                 type: 'module',
                 name,
                 path: modPath,
-                file: filePath,
-                visibility
+                file: moduleFile ? moduleFile.file : filePath,
+                visibility: getVisibility(child),
+                ...mergeDocs(outerDocs, innerDocs)
               });
-              
-              // Process module contents
-              processSyntaxNode(child, modPath);
+
+              // The crate or module the module is declared in contains it
+              dependencies.push({
+                source: getContainerId(parentPath),
+                target: generateId('module', name, modPath),
+                type: 'contains'
+              });
+
+              // Process inline module contents, or leave the module's file to parseRustProject
+              if (bodyNode) {
+                processSyntaxNode(bodyNode, modPath, path.join(dir, name));
+              } else if (moduleFile) {
+                modules.push(moduleFile);
+              }
             }
             break;
           }
-          
+
+          // Imports become `uses` edges from the module once resolved in parseRustProject
           case 'use_declaration': {
-            const pathNode = child.children.find((n: any) => n.type === 'scoped_identifier' || n.type === 'identifier');
-            if (pathNode) {
-              const importPath = code.substring(child.startPosition.row, child.endPosition.row);
-              const id = generateId('use', importPath, parentPath || 'root');
-              
-              nodes.push({
-                id,
-                type: 'use',
-                name: importPath,
-                path: parentPath || 'root',
-                file: filePath
-              });
+            const argumentNode = child.childForFieldName('argument');
+            if (argumentNode) {
+              for (const binding of expandUseTree(argumentNode, [])) {
+                bindings.push({ module: qualifyPath(parentPath), ...binding, visibility: getVisibility(child) });
+              }
             }
             break;
           }
-          
-          // Continue processing recursively
+
+          // Comments, attributes and other items carry nothing we extract
           default:
-            processSyntaxNode(child, parentPath);
+            break;
         }
       }
     };
-    
-    // Process function bodies to extract dependencies
-    const processBodyForDependencies = (node: any, sourceId: string): void => {
-      if (!node) return;
-      
-      // Find function calls
+
+    // Methods, associated consts and associated types of an impl or trait body.
+    // IDs are qualified by the owner, e.g. `Point::new`, or `<Point as Display>::fmt`
+    // in trait impls, so that methods of the same name in different impls stay apart
+    const processAssociatedItems = (body: SyntaxNode, owner: {
+      id: string;
+      // Path of the module the impl or trait is declared in
+      scopePath: string;
+      qualifier: string;
+      // Type path that `Self` stands for in the items' bodies
+      selfType: string[];
+      // Visibility imposed by a trait, if any
+      visibility?: RustNode['visibility'];
+    }): void => {
+      // The type the items are shown under, without generic arguments
+      const typeName = owner.qualifier.replace(/^<(.*) as .*>$/, '$1').replace(/<.*>$/, '');
+
+      for (const child of body.namedChildren) {
+        const nodeType = {
+          function_item: 'method',
+          function_signature_item: 'method',
+          const_item: 'constant',
+          type_item: 'type',
+          associated_type: 'type'
+        }[child.type] as RustNode['type'] | undefined;
+        const nameNode = child.childForFieldName('name');
+        if (!nodeType || !nameNode) continue;
+
+        const name = getText(nameNode);
+        const id = declareId(generateId(nodeType, `${owner.qualifier}::${name}`, owner.scopePath), child);
+
+        nodes.push({
+          id,
+          type: nodeType,
+          name,
+          path: `${owner.scopePath}::${typeName}::${name}`,
+          file: filePath,
+          signature: getSignature(child),
+          visibility: owner.visibility || getVisibility(child),
+          ...getItemDocs(child)
+        });
+
+        dependencies.push({
+          source: owner.id,
+          target: id,
+          type: 'contains'
+        });
+
+        // Process body to find function calls and dependencies
+        const bodyNode = nodeType === 'method' ? child.childForFieldName('body') : null;
+        if (bodyNode) {
+          processBodyForDependencies(bodyNode, createCaller(id, owner.scopePath, child, owner.selfType));
+        }
+      }
+    };
+
+    // A caller whose locals start out as its typed parameters
+    const createCaller = (id: string, scopePath: string, functionNode: SyntaxNode, selfType?: string[]): Caller => {
+      const locals = new Map<string, LocalBinding>();
+
+      for (const parameter of functionNode.childForFieldName('parameters')?.namedChildren || []) {
+        const patternNode = parameter.childForFieldName('pattern');
+        const typeNode = parameter.childForFieldName('type');
+        if (parameter.type === 'parameter' && patternNode?.type === 'identifier' && typeNode) {
+          locals.set(getText(patternNode), { type: getReceiverType(typeNode) });
+        }
+      }
+
+      return { id, module: qualifyPath(scopePath), selfType, locals };
+    };
+
+    // What an expression evaluates to, where it is locally obvious: `self`, a
+    // local with a known type, a struct literal or the result of a path call
+    const getLocalBinding = (node: SyntaxNode, caller: Caller): LocalBinding | undefined => {
+      switch (node.type) {
+        case 'self':
+          return caller.selfType ? { type: caller.selfType } : undefined;
+
+        case 'identifier':
+          return caller.locals.get(getText(node));
+
+        case 'struct_expression': {
+          const nameNode = node.childForFieldName('name');
+          return nameNode ? { type: getPathSegments(nameNode) } : undefined;
+        }
+
+        case 'call_expression': {
+          const functionNode = node.childForFieldName('function');
+
+          // `value.unwrap()` and `value.expect(..)` have the methods of value
+          if (functionNode?.type === 'field_expression') {
+            const fieldNode = functionNode.childForFieldName('field');
+            const valueNode = functionNode.childForFieldName('value');
+            return fieldNode && valueNode && /^(unwrap|expect)$/.test(getText(fieldNode))
+              ? getLocalBinding(valueNode, caller)
+              : undefined;
+          }
+
+          const segments = functionNode ? getPathSegments(functionNode) : [];
+          return segments.length > 0 ? { call: segments } : undefined;
+        }
+
+        // `&value`, `(value)` and `value?` have the methods of value
+        case 'reference_expression':
+        case 'parenthesized_expression':
+        case 'try_expression': {
+          const innerNode = node.childForFieldName('value') || node.namedChildren[0];
+          return innerNode ? getLocalBinding(innerNode, caller) : undefined;
+        }
+
+        default:
+          return undefined;
+      }
+    };
+
+    // Record a call to `path()` or `receiver.method()`. Method calls on receivers
+    // of unknown type are left out, as are calls of local closures
+    const addCall = (functionNode: SyntaxNode, caller: Caller): void => {
+      const calleeNode = functionNode.type === 'generic_function'
+        ? functionNode.childForFieldName('function') || functionNode
+        : functionNode;
+
+      if (calleeNode.type === 'field_expression') {
+        const valueNode = calleeNode.childForFieldName('value');
+        const fieldNode = calleeNode.childForFieldName('field');
+        const receiver = valueNode ? getLocalBinding(valueNode, caller) : undefined;
+
+        if (fieldNode && (receiver?.type || receiver?.call)) {
+          calls.push({
+            source: caller.id,
+            module: caller.module,
+            selfType: caller.selfType,
+            method: getText(fieldNode),
+            receiverType: receiver.type,
+            receiverCall: receiver.call
+          });
+        }
+        return;
+      }
+
+      const segments = getPathSegments(calleeNode);
+      if (segments.length > 0 && !(segments.length === 1 && caller.locals.has(segments[0]))) {
+        calls.push({ source: caller.id, module: caller.module, selfType: caller.selfType, path: segments });
+      }
+    };
+
+    // Macro arguments are token trees rather than expressions, so calls in them
+    // are recognised from their tokens: a path or `receiver.method` followed by `(...)`
+    const processMacroCalls = (tokenTree: SyntaxNode, caller: Caller): void => {
+      const tokens = tokenTree.children;
+
+      tokens.forEach((token, i) => {
+        if (token.type === 'token_tree') {
+          processMacroCalls(token, caller);
+          return;
+        }
+
+        const next = tokens[i + 1];
+        const isMacro = next?.type === '!' && tokens[i + 2]?.type === 'token_tree';
+        if (token.type !== 'identifier' || !(isMacro || (next?.type === 'token_tree' && next.firstChild?.type === '('))) return;
+
+        const segments = [getText(token)];
+        let j = i - 1;
+        while (tokens[j]?.type === '::' && ['identifier', 'self', 'super', 'crate'].includes(tokens[j - 1]?.type)) {
+          segments.unshift(getText(tokens[j - 1]));
+          j -= 2;
+        }
+
+        if (isMacro) {
+          calls.push({ source: caller.id, module: caller.module, selfType: caller.selfType, path: segments, macro: true });
+        } else if (tokens[j]?.type === '.') {
+          const receiverToken = tokens[j - 1];
+          const receiver = segments.length === 1 && receiverToken && tokens[j - 2]?.type !== '.'
+            ? getLocalBinding(receiverToken, caller)
+            : undefined;
+          if (receiver?.type || receiver?.call) {
+            calls.push({
+              source: caller.id,
+              module: caller.module,
+              selfType: caller.selfType,
+              method: segments[0],
+              receiverType: receiver.type,
+              receiverCall: receiver.call
+            });
+          }
+        } else if (!(segments.length === 1 && caller.locals.has(segments[0]))) {
+          calls.push({ source: caller.id, module: caller.module, selfType: caller.selfType, path: segments });
+        }
+      });
+    };
+
+    // Process function bodies to extract calls, tracking the types of locals
+    // so that method calls on them can be resolved
+    const processBodyForDependencies = (node: SyntaxNode, caller: Caller): void => {
       if (node.type === 'call_expression') {
-        const funcNameNode = node.children.find((n: any) => n.type === 'identifier' || n.type === 'field_expression');
-        if (funcNameNode) {
-          const funcName = code.substring(funcNameNode.startPosition.row, funcNameNode.endPosition.row);
-          
-          // This is simplified, in a real implementation you would need to resolve the actual function
-          const targetId = `function:${funcName}:${funcName}`;
-          
-          dependencies.push({
-            source: sourceId,
-            target: targetId,
-            type: 'calls'
+        const functionNode = node.childForFieldName('function');
+        if (functionNode) {
+          addCall(functionNode, caller);
+        }
+      } else if (node.type === 'macro_invocation') {
+        const macroNode = node.childForFieldName('macro');
+        if (macroNode) {
+          calls.push({
+            source: caller.id,
+            module: caller.module,
+            selfType: caller.selfType,
+            path: getPathSegments(macroNode),
+            macro: true
           });
         }
+
+        const tokenTree = node.namedChildren.find(child => child.type === 'token_tree');
+        if (tokenTree) {
+          processMacroCalls(tokenTree, caller);
+        }
       }
-      
-      // Process children recursively
-      if (node.children) {
-        for (const child of node.children) {
-          processBodyForDependencies(child, sourceId);
+
+      // Nested items are not part of this body
+      for (const child of node.namedChildren) {
+        if (!child.type.endsWith('_item')) {
+          processBodyForDependencies(child, caller);
+        }
+      }
+
+      // A `let` binds its name after the initializer has been processed
+      if (node.type === 'let_declaration') {
+        const patternNode = node.childForFieldName('pattern');
+        const typeNode = node.childForFieldName('type');
+        const valueNode = node.childForFieldName('value');
+
+        if (patternNode?.type === 'identifier') {
+          const binding = typeNode
+            ? { type: getReceiverType(typeNode) }
+            : valueNode ? getLocalBinding(valueNode, caller) : undefined;
+          caller.locals.set(getText(patternNode), binding || {});
         }
       }
     };
-    
+
     // Start processing from the root
-    processSyntaxNode(tree.rootNode);
-    
-    return { nodes, dependencies };
+    processSyntaxNode(tree.rootNode, modulePath, moduleDir);
+
+    return { nodes, dependencies, modules, missingModuleFiles, bindings, impls, calls, derives, moduleDocs: getInnerDocs(tree.rootNode) };
   } catch (error) {
     console.error(`Error parsing file ${filePath}:`, error);
-    return { nodes: [], dependencies: [] };
+    return { nodes: [], dependencies: [], modules: [], missingModuleFiles: [], bindings: [], impls: [], calls: [], derives: [], moduleDocs: {} };
+  }
+};
+
+// Paths of the derivable traits of the standard library's prelude
+const STD_DERIVES: Record<string, string> = {
+  Debug: 'std::fmt::Debug',
+  Clone: 'std::clone::Clone',
+  Copy: 'std::marker::Copy',
+  PartialEq: 'std::cmp::PartialEq',
+  Eq: 'std::cmp::Eq',
+  PartialOrd: 'std::cmp::PartialOrd',
+  Ord: 'std::cmp::Ord',
+  Hash: 'std::hash::Hash',
+  Default: 'std::default::Default'
+};
+
+// Path of a node with the leading `crate` replaced by its crate's name
+const getQualifiedPath = (node: RustNode): string => {
+  return node.crate ? node.path.replace(/^crate(?=::|$)/, node.crate) : node.path;
+};
+
+// Path of the type a function returns, as far as method calls on the result
+// go: references, `Option`, `Result` and smart pointers are seen through
+const getReturnTypePath = (signature = ''): string[] | undefined => {
+  const returnMatch = signature.replace(/\s+where\s[\s\S]*$/, '').match(/->\s*([\s\S]+)$/);
+  if (!returnMatch) return undefined;
+
+  let returnType = returnMatch[1].trim();
+  for (;;) {
+    returnType = returnType.replace(/^&\s*('\w+\s+)?(mut\s+)?|^(impl|dyn)\s+/, '').trim();
+    const wrapperMatch = returnType.match(/^(?:[\w:]*::)?(?:Option|Result|Box|Rc|Arc)\s*<([\s\S]*)>$/);
+    if (!wrapperMatch) break;
+
+    // The first generic argument, up to a comma outside nested brackets
+    let depth = 0;
+    let end = wrapperMatch[1].length;
+    for (let i = 0; i < wrapperMatch[1].length; i++) {
+      const char = wrapperMatch[1][i];
+      if (char === '<' || char === '(') depth++;
+      if (char === '>' || char === ')') depth--;
+      if (char === ',' && depth === 0) {
+        end = i;
+        break;
+      }
+    }
+    returnType = wrapperMatch[1].substring(0, end).trim();
+  }
+
+  const pathMatch = returnType.match(/^[\w:]+/);
+  return pathMatch ? pathMatch[0].split('::').filter(Boolean) : undefined;
+};
+
+// Resolve calls, macro invocations and impls against a symbol table keyed by
+// crate-qualified path (e.g. `my_crate::net::Socket`), following `use` imports
+// and the module tree. Calls that do not resolve to a project function, method
+// or macro are dropped; duplicate edges are merged. Nodes are marked with
+// whether they are reachable from their crate root. crateAliases holds, by
+// crate, the names it uses for the project's libraries it depends on
+const resolveRustDependencies = (
+  nodes: RustNode[],
+  dependencies: RustDependency[],
+  bindings: RustUseBinding[],
+  impls: RustImplBlock[],
+  calls: RustCallSite[],
+  derives: RustDerive[],
+  crateAliases: Map<string, Map<string, string>>
+): { nodes: RustNode[], dependencies: RustDependency[] } => {
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+  // Items of impls and traits are reached through their type, not their module
+  const childrenById = new Map<string, RustNode[]>();
+  for (const dep of dependencies) {
+    const child = nodesById.get(dep.target);
+    if (dep.type === 'contains' && child && child.type !== 'module') {
+      if (!childrenById.has(dep.source)) {
+        childrenById.set(dep.source, []);
+      }
+      childrenById.get(dep.source)!.push(child);
+    }
+  }
+  const associatedIds = new Set([...childrenById.values()].flat().map(node => node.id));
+
+  const symbols = new Map<string, RustNode>();
+  const modules = new Set<string>();
+  const crateNames = new Set<string>();
+
+  for (const node of nodes) {
+    if (node.type === 'impl' || associatedIds.has(node.id)) continue;
+
+    symbols.set(getQualifiedPath(node), node);
+    if (node.type === 'module' || node.type === 'crate') {
+      modules.add(getQualifiedPath(node));
+    }
+    if (node.type === 'crate') {
+      crateNames.add(node.name);
+    }
+  }
+
+  // Macros and types by name, for those found by name rather than by path
+  const macrosByName = new Map<string, RustNode[]>();
+  const typesByName = new Map<string, RustNode[]>();
+  for (const node of nodes) {
+    const byName = node.type === 'macro' ? macrosByName
+      : ['struct', 'enum', 'trait'].includes(node.type) && !associatedIds.has(node.id) ? typesByName
+      : undefined;
+    if (byName) {
+      if (!byName.has(node.name)) {
+        byName.set(node.name, []);
+      }
+      byName.get(node.name)!.push(node);
+    }
+  }
+
+  // `#[macro_export]` macros are items of their crate's root, wherever defined
+  for (const node of [...macrosByName.values()].flat()) {
+    const rootPath = `${node.crate}::${node.name}`;
+    if (node.crate && node.visibility === 'public' && !symbols.has(rootPath)) {
+      symbols.set(rootPath, node);
+    }
+  }
+
+  // Use bindings by importing module, with glob imports kept separately
+  const importsByModule = new Map<string, Map<string, string[]>>();
+  const globsByModule = new Map<string, string[][]>();
+  for (const binding of bindings) {
+    if (binding.name === '*') {
+      if (!globsByModule.has(binding.module)) {
+        globsByModule.set(binding.module, []);
+      }
+      globsByModule.get(binding.module)!.push(binding.target);
+    } else {
+      if (!importsByModule.has(binding.module)) {
+        importsByModule.set(binding.module, new Map());
+      }
+      importsByModule.get(binding.module)!.set(binding.name, binding.target);
+    }
+  }
+
+  // Resolve a name in a module: its own items and submodules, then names it
+  // imports (which may be re-exports of other modules), then glob imports
+  const resolveName = (modulePath: string, name: string, depth: number): string | undefined => {
+    const itemPath = `${modulePath}::${name}`;
+    if (symbols.has(itemPath) || depth > 10) {
+      return symbols.has(itemPath) ? itemPath : undefined;
+    }
+
+    const target = importsByModule.get(modulePath)?.get(name);
+    if (target) {
+      return resolvePath(modulePath, target, undefined, depth + 1);
+    }
+
+    for (const glob of globsByModule.get(modulePath) || []) {
+      const globModule = resolvePath(modulePath, glob, undefined, depth + 1);
+      const resolved = globModule && modules.has(globModule)
+        ? resolveName(globModule, name, depth + 1)
+        : undefined;
+      if (resolved) return resolved;
+    }
+
+    return undefined;
+  };
+
+  // Resolve a path as written in a module to a crate-qualified path. Paths
+  // through a type or trait end in its associated item, e.g. `my_crate::Point::new`
+  const resolvePath = (
+    modulePath: string,
+    segments: string[],
+    selfType: string[] | undefined,
+    depth = 0
+  ): string | undefined => {
+    const parentOf = (itemPath: string) => itemPath.includes('::')
+      ? itemPath.substring(0, itemPath.lastIndexOf('::'))
+      : undefined;
+    const [first, ...rest] = segments;
+    let current: string | undefined;
+
+    if (first === 'crate') {
+      current = modulePath.split('::')[0];
+    } else if (first === 'self') {
+      current = modulePath;
+    } else if (first === 'super') {
+      current = parentOf(modulePath);
+    } else if (first === 'Self') {
+      current = selfType ? resolvePath(modulePath, selfType, undefined, depth + 1) : undefined;
+    } else if (first) {
+      current = resolveName(modulePath, first, depth) ||
+        crateAliases.get(modulePath.split('::')[0])?.get(first) ||
+        (crateNames.has(first) ? first : undefined);
+    }
+
+    for (const [i, segment] of rest.entries()) {
+      if (!current) return undefined;
+
+      if (segment === 'super') {
+        current = parentOf(current);
+      } else if (modules.has(current)) {
+        current = resolveName(current, segment, depth);
+      } else {
+        // An associated item ends the path
+        return i === rest.length - 1 ? `${current}::${segment}` : undefined;
+      }
+    }
+
+    return current;
+  };
+
+  // Associated items by `Type::name`: inherent impl items take precedence over
+  // trait impl items, which take precedence over the trait's default methods
+  const associatedItems = new Map<string, string>();
+  const ownerTypes = new Map<string, string>();
+  const resolvedDependencies: RustDependency[] = [];
+
+  const addAssociated = (ownerPath: string, items: RustNode[]) => {
+    for (const item of items) {
+      const key = `${ownerPath}::${item.name}`;
+      if (!associatedItems.has(key)) {
+        associatedItems.set(key, item.id);
+      }
+      ownerTypes.set(item.id, ownerPath);
+    }
+  };
+
+  for (const node of symbols.values()) {
+    if (node.type === 'trait') {
+      addAssociated(getQualifiedPath(node), childrenById.get(node.id) || []);
+    }
+  }
+
+  // An impl's type and trait, resolved in the impl's module. Types that are not
+  // reachable by path fall back to a struct or enum of that name, if unique
+  const findType = (modulePath: string, typePath: string[], types: RustNode['type'][]): RustNode | undefined => {
+    const resolved = resolvePath(modulePath, typePath, undefined);
+    const node = resolved ? symbols.get(resolved) : undefined;
+    if (node && types.includes(node.type)) return node;
+
+    const name = typePath[typePath.length - 1];
+    const candidates = (typesByName.get(name) || []).filter(n => types.includes(n.type));
+    return candidates.length === 1 ? candidates[0] : undefined;
+  };
+
+  const resolvedImpls = impls.flatMap(impl => {
+    const typeNode = findType(impl.module, impl.typePath, ['struct', 'enum']);
+    const traitNode = impl.traitPath ? findType(impl.module, impl.traitPath, ['trait']) : undefined;
+    return nodeIds.has(impl.id) && typeNode ? [{ impl, typeNode, traitNode }] : [];
+  });
+
+  for (const { impl, typeNode, traitNode } of resolvedImpls) {
+    resolvedDependencies.push({ source: impl.id, target: typeNode.id, type: 'extends' });
+    if (traitNode) {
+      resolvedDependencies.push({ source: typeNode.id, target: traitNode.id, type: 'implements' });
+    }
+  }
+
+  for (const pass of ['inherent', 'trait', 'default']) {
+    for (const { impl, typeNode, traitNode } of resolvedImpls) {
+      const typePath = getQualifiedPath(typeNode);
+      if (pass === 'inherent' && !impl.traitPath) {
+        addAssociated(typePath, childrenById.get(impl.id) || []);
+      } else if (pass === 'trait' && impl.traitPath) {
+        addAssociated(typePath, childrenById.get(impl.id) || []);
+      } else if (pass === 'default' && traitNode) {
+        for (const item of childrenById.get(traitNode.id) || []) {
+          const key = `${typePath}::${item.name}`;
+          if (!associatedItems.has(key)) {
+            associatedItems.set(key, item.id);
+          }
+        }
+      }
+    }
+  }
+
+  // Derived traits outside the project get a node of their own, shared by all
+  // their derives. Bare names are the standard library's, unless imported
+  const externalTraits = new Map<string, RustNode>();
+  for (const derive of derives) {
+    const resolved = resolvePath(derive.module, derive.traitPath, undefined);
+    let target = resolved && symbols.get(resolved)?.type === 'trait' ? symbols.get(resolved)!.id : undefined;
+
+    if (!target) {
+      const [first, ...rest] = derive.traitPath;
+      const imported = importsByModule.get(derive.module)?.get(first);
+      const traitPath = imported
+        ? [...imported, ...rest].join('::')
+        : (rest.length === 0 && STD_DERIVES[first]) || derive.traitPath.join('::');
+      const name = traitPath.split('::').pop() || traitPath;
+
+      target = `trait:${traitPath}:${name}`;
+      if (!externalTraits.has(target)) {
+        externalTraits.set(target, {
+          id: target,
+          type: 'trait',
+          name,
+          path: traitPath,
+          file: '',
+          signature: `trait ${traitPath}`,
+          visibility: 'public'
+        });
+      }
+    }
+
+    if (nodeIds.has(derive.source)) {
+      resolvedDependencies.push({ source: derive.source, target, type: 'implements' });
+    }
+  }
+
+  // ID of the function or method a resolved path names, if any
+  const findCallable = (itemPath: string | undefined): string | undefined => {
+    if (!itemPath) return undefined;
+    const id = symbols.get(itemPath)?.id || associatedItems.get(itemPath);
+    const node = id ? nodesById.get(id) : undefined;
+    return node && (node.type === 'function' || node.type === 'method') ? node.id : undefined;
+  };
+
+  // Type path of what a function or method returns, resolved where it is declared
+  const resolveReturnType = (calleeId: string): string | undefined => {
+    const callee = nodesById.get(calleeId);
+    const returnType = getReturnTypePath(callee?.signature);
+    if (!callee || !returnType) return undefined;
+
+    const ownerType = ownerTypes.get(calleeId);
+    if (returnType.length === 1 && returnType[0] === 'Self') return ownerType;
+
+    // Methods are declared in their owner's module, functions in their parent's
+    const declaringPath = ownerType || getQualifiedPath(callee);
+    const modulePath = declaringPath.substring(0, declaringPath.lastIndexOf('::'));
+    const ownerName = ownerType?.split('::').pop();
+    return resolvePath(modulePath, returnType, ownerName ? [ownerName] : undefined);
+  };
+
+  // A `macro_rules!` macro is in scope in the module that defines it and in
+  // its submodules. Macros brought in by `#[macro_use]` are found by name, in
+  // the same crate first and then among exported macros
+  const findMacro = (call: RustCallSite): string | undefined => {
+    const segments = call.path || [];
+    const findByPath = (itemPath: string | undefined) => {
+      const node = itemPath ? symbols.get(itemPath) : undefined;
+      return node?.type === 'macro' ? node.id : undefined;
+    };
+
+    if (segments.length !== 1) {
+      return findByPath(resolvePath(call.module, segments, call.selfType));
+    }
+
+    const name = segments[0];
+    const moduleParts = call.module.split('::');
+    for (let i = moduleParts.length; i > 0; i--) {
+      const id = findByPath(`${moduleParts.slice(0, i).join('::')}::${name}`);
+      if (id) return id;
+    }
+
+    const imported = findByPath(resolveName(call.module, name, 0));
+    if (imported) return imported;
+
+    const macros = macrosByName.get(name) || [];
+    const crateMacros = macros.filter(node => node.crate === moduleParts[0]);
+    const exportedMacros = macros.filter(node => node.visibility === 'public');
+    const candidates = crateMacros.length > 0 ? crateMacros : exportedMacros;
+    return candidates.length === 1 ? candidates[0].id : undefined;
+  };
+
+  // The external crate a path starts from, following the module's imports
+  // (`fmt::Display` after `use std::fmt`), unless it starts in the project
+  const getExternalCrate = (modulePath: string, segments: string[], depth = 0): string | undefined => {
+    const [first] = segments;
+    const imported = importsByModule.get(modulePath)?.get(first);
+    if (imported && imported.join('::') !== segments.join('::') && depth < 10) {
+      return getExternalCrate(modulePath, imported, depth + 1);
+    }
+
+    const isProjectPath = !first || ['crate', 'self', 'super', 'Self'].includes(first) ||
+      crateNames.has(first) || !!crateAliases.get(modulePath.split('::')[0])?.has(first) ||
+      symbols.has(`${modulePath}::${first}`);
+    return isProjectPath ? undefined : first;
+  };
+
+  // `use` declarations link the importing module to each item they import, or
+  // to a node for the external crate the item comes from
+  const externalCrates = new Map<string, RustNode>();
+  for (const binding of bindings) {
+    const source = symbols.get(binding.module);
+    if (!source) continue;
+
+    const resolved = resolvePath(binding.module, binding.target, undefined);
+    let target = resolved ? symbols.get(resolved)?.id || associatedItems.get(resolved) : undefined;
+
+    const externalCrate = target ? undefined : getExternalCrate(binding.module, binding.target);
+    if (externalCrate) {
+      target = `crate:${externalCrate}:${externalCrate}`;
+      if (!externalCrates.has(target)) {
+        externalCrates.set(target, {
+          id: target,
+          type: 'crate',
+          name: externalCrate,
+          path: 'crate',
+          crate: externalCrate,
+          file: '',
+          signature: `extern crate ${externalCrate}`,
+          visibility: 'public'
+        });
+      }
+    }
+
+    if (target) {
+      resolvedDependencies.push({ source: source.id, target, type: 'uses' });
+    }
+  }
+
+  for (const call of calls) {
+    let target: string | undefined;
+
+    if (call.macro) {
+      target = findMacro(call);
+      if (target && nodeIds.has(call.source)) {
+        resolvedDependencies.push({ source: call.source, target, type: 'uses' });
+      }
+      continue;
+    }
+
+    if (call.path) {
+      target = findCallable(resolvePath(call.module, call.path, call.selfType));
+    } else if (call.method) {
+      let receiverType: string | undefined;
+      if (call.receiverType) {
+        receiverType = resolvePath(call.module, call.receiverType, call.selfType);
+      } else if (call.receiverCall) {
+        const calleeId = findCallable(resolvePath(call.module, call.receiverCall, call.selfType));
+        receiverType = calleeId ? resolveReturnType(calleeId) : undefined;
+      }
+      target = receiverType ? findCallable(`${receiverType}::${call.method}`) : undefined;
+    }
+
+    if (target && nodeIds.has(call.source)) {
+      resolvedDependencies.push({ source: call.source, target, type: 'calls' });
+    }
+  }
+
+  // Containment and crate dependencies already refer to nodes by ID
+  for (const dep of dependencies) {
+    if (nodeIds.has(dep.source) && nodeIds.has(dep.target)) {
+      resolvedDependencies.push(dep);
+    }
+  }
+
+  // Items reachable from a crate root: public items of reachable modules,
+  // names re-exported by their `pub use` declarations, and `#[macro_export]`
+  // macros. Public associated items are reachable with their type or trait
+  const reachableIds = new Set<string>();
+  const itemsByModule = new Map<string, RustNode[]>();
+  for (const [itemPath, node] of symbols) {
+    if (itemPath === getQualifiedPath(node) && itemPath.includes('::')) {
+      const modulePath = itemPath.substring(0, itemPath.lastIndexOf('::'));
+      if (!itemsByModule.has(modulePath)) {
+        itemsByModule.set(modulePath, []);
+      }
+      itemsByModule.get(modulePath)!.push(node);
+    }
+  }
+
+  const reExportsByModule = new Map<string, RustUseBinding[]>();
+  for (const binding of bindings) {
+    if (binding.visibility === 'public') {
+      if (!reExportsByModule.has(binding.module)) {
+        reExportsByModule.set(binding.module, []);
+      }
+      reExportsByModule.get(binding.module)!.push(binding);
+    }
+  }
+  const moduleQueue = [...crateNames];
+  const reachModule = (modulePath: string) => {
+    for (const node of itemsByModule.get(modulePath) || []) {
+      if (node.visibility === 'public' && !reachableIds.has(node.id)) {
+        reachableIds.add(node.id);
+        if (modules.has(getQualifiedPath(node))) {
+          moduleQueue.push(getQualifiedPath(node));
+        }
+      }
+    }
+  };
+
+  const reachedModules = new Set<string>();
+  while (moduleQueue.length > 0) {
+    const modulePath = moduleQueue.shift()!;
+    if (reachedModules.has(modulePath)) continue;
+    reachedModules.add(modulePath);
+    reachModule(modulePath);
+
+    for (const binding of reExportsByModule.get(modulePath) || []) {
+      const target = resolvePath(modulePath, binding.target, undefined);
+      if (!target) continue;
+
+      if (binding.name === '*') {
+        if (modules.has(target)) reachModule(target);
+      } else if (symbols.has(target)) {
+        reachableIds.add(symbols.get(target)!.id);
+        if (modules.has(target)) moduleQueue.push(target);
+      }
+    }
+  }
+
+  for (const node of nodes) {
+    if (node.type === 'crate' || (node.type === 'macro' && node.visibility === 'public')) {
+      reachableIds.add(node.id);
+    }
+  }
+
+  for (const { impl, typeNode } of resolvedImpls) {
+    if (reachableIds.has(typeNode.id)) {
+      reachableIds.add(impl.id);
+      for (const item of childrenById.get(impl.id) || []) {
+        if (item.visibility === 'public') reachableIds.add(item.id);
+      }
+    }
+  }
+  for (const node of symbols.values()) {
+    if (node.type === 'trait' && reachableIds.has(node.id)) {
+      for (const item of childrenById.get(node.id) || []) {
+        reachableIds.add(item.id);
+      }
+    }
+  }
+
+  // Merge repeated edges, counting them in the weight
+  const mergedDependencies = new Map<string, RustDependency>();
+  for (const dep of resolvedDependencies) {
+    const key = `${dep.type}|${dep.source}|${dep.target}`;
+    const existing = mergedDependencies.get(key);
+    if (existing) {
+      existing.weight = (existing.weight || 1) + (dep.weight || 1);
+    } else {
+      mergedDependencies.set(key, { ...dep });
+    }
   }
+
+  return {
+    nodes: [
+      ...nodes.map(node => ({ ...node, reachable: reachableIds.has(node.id) })),
+      ...externalCrates.values(),
+      ...externalTraits.values()
+    ],
+    dependencies: [...mergedDependencies.values()]
+  };
 };
 
+// Parse a file with tree-sitter; workers whose native binding fails to load
+// leave the file to the main thread
+export const parseRustTask = async ({ filePath, crateName, modulePath, moduleDir }: RustParseTask): Promise<RustFileParseResult> => {
+  const parser = await loadRustParser();
+  if (!parser) {
+    throw new Error('tree-sitter Rust grammar could not be loaded');
+  }
+  return parseRustFile(filePath, parser, crateName, modulePath, moduleDir);
+};
+
+// Parse files that changed since the last analysis, on the worker pool for
+// large batches. A cached result holds while the module files it found exist
+// and those of the modules it did not find are still missing
+const parseRustTasks = (tasks: RustParseTask[], onFileParsed?: FileParsedListener, cache?: ParseCache) =>
+  parseWithCache(
+    cache,
+    `rust:${PARSER_VERSION}`,
+    tasks,
+    changed => runParseTasks('rust', changed, parseRustTask, task => onFileParsed?.(task.filePath)),
+    onFileParsed,
+    result => result.modules.every(moduleFile => fs.existsSync(moduleFile.file)) &&
+      !result.missingModuleFiles.some(file => fs.existsSync(file))
+  );
+
 // Parse an entire Rust project
-export const parseRustProject = async (projectPath: string): Promise<RustProject> => {
-  const rustFiles = findRustFiles(projectPath);
-  
-  let allNodes: RustNode[] = [];
-  let allDependencies: RustDependency[] = [];
-  
-  // Parse each Rust file
-  for (const file of rustFiles) {
-    const { nodes, dependencies } = parseRustFile(file);
-    allNodes = [...allNodes, ...nodes];
-    allDependencies = [...allDependencies, ...dependencies];
+export const parseRustProject = async (
+  projectPath: string,
+  filter?: FileFilter,
+  onFileParsed?: FileParsedListener,
+  cache?: ParseCache
+): Promise<RustProject> => {
+  const parser = await loadRustParser();
+
+  if (!parser) {
+    return parseRustProjectSimple(projectPath, filter, onFileParsed);
   }
-  
-  // Post-process to resolve dependencies and build a more accurate graph
+
+  const rustFiles = findRustFiles(projectPath, filter);
+
+  const packages = findCargoPackages(projectPath, filter);
+  const crates = findRustCrates(projectPath, packages);
+
+  const allNodes: RustNode[] = [];
+  const allDependencies: RustDependency[] = [];
+  const allBindings: RustUseBinding[] = [];
+  const allImpls: RustImplBlock[] = [];
+  const allCalls: RustCallSite[] = [];
+  const allDerives: RustDerive[] = [];
+  const reachedFiles = new Set<string>();
+  // Inner docs of module files, by the ID of the crate or module node they document
+  const moduleDocs = new Map<string, Pick<RustNode, 'description' | 'attributes'>>();
+
+  // Build each crate's module tree, starting at its root file and following `mod`
+  // items. The trees are walked a level at a time, the files of a level parsed in
+  // parallel across all crates
+  const parsedFiles = new Map<RustCrate, { moduleFile: RustModuleFile, result: RustFileParseResult }[]>(
+    crates.map(crate => [crate, []])
+  );
+  const visitedFiles = new Map(crates.map(crate => [crate, new Set<string>()]));
+  let level = crates.map(crate => (
+    { crate, modulePath: 'crate', file: crate.file, moduleDir: path.dirname(crate.file) }
+  ));
+
+  while (level.length > 0) {
+    const moduleFiles = level.filter(moduleFile => {
+      const visited = visitedFiles.get(moduleFile.crate)!;
+      // Guard against `#[path]` cycles, and skip module files the filter excludes
+      if (visited.has(moduleFile.file) || filter?.excludesFile(moduleFile.file)) return false;
+      visited.add(moduleFile.file);
+      reachedFiles.add(moduleFile.file);
+      return true;
+    });
+
+    const results = await parseRustTasks(
+      moduleFiles.map(({ crate, file, modulePath, moduleDir }) => ({ filePath: file, crateName: crate.name, modulePath, moduleDir })),
+      onFileParsed,
+      cache
+    );
+
+    level = moduleFiles.flatMap(({ crate, ...moduleFile }, i) => {
+      parsedFiles.get(crate)!.push({ moduleFile, result: results[i] });
+      return results[i].modules.map(module => ({ ...module, crate }));
+    });
+  }
+
+  for (const crate of crates) {
+    const cargoPackage = packages.find(p => p.name === crate.packageName);
+
+    // The crate node is the root of the module tree, standing for `crate`
+    allNodes.push({
+      id: `crate:${crate.name}:${crate.name}`,
+      type: 'crate',
+      name: crate.name,
+      path: 'crate',
+      crate: crate.name,
+      file: crate.file,
+      signature: cargoPackage
+        ? `${crate.kind} ${cargoPackage.name}${cargoPackage.version ? ` v${cargoPackage.version}` : ''}`
+        : crate.kind,
+      visibility: 'public',
+      features: cargoPackage && cargoPackage.features.length > 0 ? cargoPackage.features : undefined
+    });
+
+    for (const { moduleFile, result } of parsedFiles.get(crate)!) {
+      const { nodes, dependencies, bindings, impls, calls, derives, moduleDocs: docs } = result;
+      allNodes.push(...nodes.map(node => ({ ...node, crate: crate.name })));
+      allDependencies.push(...dependencies);
+      allBindings.push(...bindings);
+      allImpls.push(...impls);
+      allCalls.push(...calls);
+      allDerives.push(...derives);
+
+      const moduleId = moduleFile.modulePath === 'crate'
+        ? `crate:${crate.name}:${crate.name}`
+        : `module:${moduleFile.modulePath.replace(/^crate(?=::)/, crate.name)}:${moduleFile.modulePath.split('::').pop()}`;
+      moduleDocs.set(moduleId, docs);
+    }
+  }
+
+  // Crates depend on the libraries of the packages their package depends on,
+  // and a package's binaries on its own library. Code names those libraries
+  // as its manifest does, e.g. `core2::f()` for a dependency renamed to core2
+  const crateAliases = new Map<string, Map<string, string>>();
+  for (const crate of crates) {
+    const cargoPackage = packages.find(p => p.name === crate.packageName);
+    if (!cargoPackage) continue;
+
+    const aliases = new Map<string, string>();
+    for (const [localName, packageName] of Object.entries(cargoPackage.dependencyNames)) {
+      const lib = packages.find(p => p.name === packageName)?.crates.find(c => c.kind === 'lib');
+      if (lib && lib.name !== localName) {
+        aliases.set(localName, lib.name);
+      }
+    }
+    crateAliases.set(crate.name, aliases);
+
+    const dependencyLibs = [
+      ...(crate.kind === 'bin' ? [cargoPackage] : []),
+      ...packages.filter(p => cargoPackage.dependencies.includes(p.name))
+    ].flatMap(p => p.crates.filter(c => c.kind === 'lib'));
+
+    for (const lib of dependencyLibs) {
+      allDependencies.push({
+        source: `crate:${crate.name}:${crate.name}`,
+        target: `crate:${lib.name}:${lib.name}`,
+        type: 'depends'
+      });
+    }
+  }
+
+  // Files outside every module tree (tests, examples, stray sources) keep a
+  // path derived from their location
+  const orphanFiles = rustFiles.filter(file => !reachedFiles.has(file)).map(file => ({
+    filePath: file,
+    crateName: '',
+    modulePath: path.relative(projectPath, file)
+      .replace(/\.rs$/, '')
+      .replace(/\\/g, '/')
+      .replace(/^src\//, '')
+      .replace(/\//g, '::')
+  }));
+  const orphanResults = await parseRustTasks(orphanFiles, onFileParsed, cache);
+
+  for (const { nodes, dependencies, bindings, impls, calls, derives } of orphanResults) {
+    allNodes.push(...nodes);
+    allDependencies.push(...dependencies);
+    allBindings.push(...bindings);
+    allImpls.push(...impls);
+    allCalls.push(...calls);
+    allDerives.push(...derives);
+  }
+
+  // Add the inner docs of each module file to its crate or module node
+  for (const node of allNodes) {
+    const docs = moduleDocs.get(node.id);
+    if (docs) {
+      Object.assign(node, mergeDocs(node, docs));
+    }
+  }
+
+  // Resolve calls, impls and derives against the whole project
+  const resolved = resolveRustDependencies(
+    allNodes, allDependencies, allBindings, allImpls, allCalls, allDerives, crateAliases
+  );
+
   const projectName = path.basename(projectPath);
-  
+
   return {
     name: projectName,
     root: projectPath,
-    nodes: allNodes,
-    dependencies: allDependencies
+    nodes: resolved.nodes,
+    dependencies: resolved.dependencies
   };
 };
 
 // Convert a RustProject to a graph data format for visualization
-export const convertToGraphData = (rustProject: RustProject) => {
+export const convertToGraphData = (rustProject: RustProject): GraphData => {
   const nodeColors = {
     function: '#4285F4',  // Blue
+    method: '#03A9F4',    // Light Blue
     struct: '#EA4335',    // Red
     enum: '#FBBC05',      // Yellow
     trait: '#34A853',     // Green
     impl: '#9C27B0',      // Purple
     module: '#FF9800',    // Orange
+    crate: '#00897B',     // Teal
     constant: '#795548',  // Brown
-    macro: '#607D8B',     // Grey-Blue
-    use: '#9E9E9E'        // Grey
+    type: '#8BC34A',      // Light Green
+    macro: '#607D8B'      // Grey-Blue
   };
-  
+
   // Node size based on type
   const nodeSize = {
     function: 5,
+    method: 4,
     struct: 8,
     enum: 7,
     trait: 9,
     impl: 6,
     module: 10,
+    crate: 14,
     constant: 4,
-    macro: 6,
-    use: 3
+    type: 4,
+    macro: 6
   };
-  
+
   const nodes = rustProject.nodes.map(node => ({
     id: node.id,
     name: node.name,
@@ -363,16 +1728,21 @@ export const convertToGraphData = (rustProject: RustProject) => {
     color: nodeColors[node.type as keyof typeof nodeColors] || '#9E9E9E',
     group: node.path.split('::')[0],
     path: node.path,
+    crate: node.crate,
     file: node.file,
-    signature: node.signature
+    signature: node.signature,
+    visibility: node.visibility,
+    reachable: node.reachable,
+    description: node.description,
+    attributes: node.attributes
   }));
-  
+
   const links = rustProject.dependencies.map(dep => ({
     source: dep.source,
     target: dep.target,
     type: dep.type,
     value: dep.weight || 1
   }));
-  
+
   return { nodes, links };
 };
@@ -0,0 +1,33 @@
+// This module is server-only and should not be imported from client components
+// Loads tree-sitter parsers lazily so a missing native binding can be handled
+// by falling back to the regex parsers instead of failing at import time
+
+import type Parser from 'tree-sitter';
+
+// Parsers by language: absent until the first load attempt, null if loading failed
+const parsers = new Map<string, Parser | null>();
+
+// Load a tree-sitter parser for a grammar, or null if the native binding is unavailable
+export const loadTreeSitterParser = async (
+  language: string,
+  loadGrammar: () => Promise<{ default: unknown }>
+): Promise<Parser | null> => {
+  const cached = parsers.get(language);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  try {
+    const { default: TreeSitter } = await import('tree-sitter');
+    const { default: grammar } = await loadGrammar();
+
+    const parser = new TreeSitter();
+    parser.setLanguage(grammar as Parser.Language);
+    parsers.set(language, parser);
+  } catch (error) {
+    console.warn(`tree-sitter ${language} grammar could not be loaded, falling back to the regex parser:`, error);
+    parsers.set(language, null);
+  }
+
+  return parsers.get(language) ?? null;
+};
@@ -0,0 +1,177 @@
+// This module is server-only and should not be imported from client components
+// Reads tsconfig.json and jsconfig.json files and resolves module specifiers
+// (relative paths, `paths` aliases and `baseUrl` imports) to project files
+
+import fs from 'fs';
+import path from 'path';
+
+// Extensions tried, in order, for a specifier without one
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// ESM TypeScript imports name the compiled file, e.g. `./util.js` for util.ts
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts']
+};
+
+// The module resolution options of a config, with paths made absolute
+export type TsConfigPaths = {
+  baseUrl?: string;
+  // `paths` patterns with their substitutions, relative to pathsBase
+  paths: Record<string, string[]>;
+  pathsBase: string;
+};
+
+type TsConfig = {
+  extends?: string | string[];
+  compilerOptions?: {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+  };
+};
+
+// Parse JSON that may contain comments and trailing commas, as tsconfig files do
+const parseJsonc = (text: string): unknown => {
+  let json = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      json += char;
+      if (char === '\\') {
+        json += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      json += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      json += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      json += char;
+    }
+  }
+
+  return JSON.parse(json.replace(/,(\s*[}\]])/g, '$1'));
+};
+
+// Read a config and the configs it extends. Later configs override earlier
+// ones, and `baseUrl` and `paths` are relative to the config that sets them
+const readTsConfig = (configPath: string, depth = 0): TsConfigPaths => {
+  const result: TsConfigPaths = { paths: {}, pathsBase: path.dirname(configPath) };
+
+  try {
+    const config = parseJsonc(fs.readFileSync(configPath, 'utf8')) as TsConfig;
+    const configDir = path.dirname(configPath);
+
+    const parents = typeof config.extends === 'string' ? [config.extends] : config.extends || [];
+    for (const parent of parents) {
+      // Configs extended from packages (`@tsconfig/node20`) are rarely checked in
+      const parentPath = parent.startsWith('.')
+        ? path.resolve(configDir, parent.endsWith('.json') ? parent : `${parent}.json`)
+        : path.join(configDir, 'node_modules', parent);
+      if (depth < 10 && fs.existsSync(parentPath) && fs.statSync(parentPath).isFile()) {
+        Object.assign(result, readTsConfig(parentPath, depth + 1));
+      }
+    }
+
+    const options = config.compilerOptions || {};
+    if (options.baseUrl !== undefined) {
+      result.baseUrl = path.resolve(configDir, options.baseUrl);
+      result.pathsBase = result.baseUrl;
+    }
+    if (options.paths) {
+      result.paths = options.paths;
+      result.pathsBase = result.baseUrl || configDir;
+    }
+  } catch (error) {
+    console.error(`Error reading ${configPath}:`, error);
+  }
+
+  return result;
+};
+
+// Name of the package a bare specifier imports from, e.g. `@scope/pkg` for
+// `@scope/pkg/sub` and `fs` for `node:fs`
+export const getPackageName = (specifier: string): string => {
+  const parts = specifier.replace(/^node:/, '').split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+};
+
+// Create a resolver from an importing file and a specifier to the path of the
+// imported project module, or undefined for packages outside the project.
+// Each file uses the nearest tsconfig.json or jsconfig.json above it
+export const createModuleResolver = (projectPath: string, modules: Map<string, string>) => {
+  const configs = new Map<string, TsConfigPaths | null>();
+
+  const findConfig = (dir: string): TsConfigPaths | null => {
+    if (configs.has(dir)) return configs.get(dir)!;
+
+    let config: TsConfigPaths | null = null;
+    const configPath = ['tsconfig.json', 'jsconfig.json']
+      .map(name => path.join(dir, name))
+      .find(candidate => fs.existsSync(candidate));
+
+    if (configPath) {
+      config = readTsConfig(configPath);
+    } else if (dir !== projectPath && dir.startsWith(projectPath)) {
+      config = findConfig(path.dirname(dir));
+    }
+
+    configs.set(dir, config);
+    return config;
+  };
+
+  // The module at a path, trying it as a file, with each extension, with a
+  // compiled extension swapped for its source and as a directory index
+  const findModule = (basePath: string): string | undefined => {
+    const extension = path.extname(basePath);
+    const candidates = [
+      basePath,
+      ...SOURCE_EXTENSIONS.map(ext => `${basePath}${ext}`),
+      ...(COMPILED_EXTENSIONS[extension] || []).map(ext => `${basePath.slice(0, -extension.length)}${ext}`),
+      ...SOURCE_EXTENSIONS.map(ext => path.join(basePath, `index${ext}`))
+    ];
+
+    for (const candidate of candidates) {
+      const modulePath = modules.get(candidate);
+      if (modulePath !== undefined) return modulePath;
+    }
+    return undefined;
+  };
+
+  return (fromFile: string, specifier: string): string | undefined => {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return findModule(path.resolve(path.dirname(fromFile), specifier));
+    }
+
+    const config = findConfig(path.dirname(fromFile));
+    if (!config) return undefined;
+
+    // `paths` patterns contain at most one `*`, which matches any text
+    for (const [pattern, substitutions] of Object.entries(config.paths)) {
+      const [prefix, suffix = ''] = pattern.split('*');
+      const isMatch = pattern.includes('*')
+        ? specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length
+        : specifier === pattern;
+      if (!isMatch) continue;
+
+      const wildcard = pattern.includes('*') ? specifier.slice(prefix.length, specifier.length - suffix.length) : '';
+      for (const substitution of substitutions) {
+        const modulePath = findModule(path.resolve(config.pathsBase, substitution.replace('*', wildcard)));
+        if (modulePath !== undefined) return modulePath;
+      }
+    }
+
+    return config.baseUrl ? findModule(path.resolve(config.baseUrl, specifier)) : undefined;
+  };
+};
@@ -0,0 +1,365 @@
+// This module is server-only and should not be imported from client components
+// Uses regular expressions to parse TypeScript and JavaScript code. Kept as a
+// fallback for when the tree-sitter parser in typescript-parser.ts is disabled
+// or unavailable
+
+import fs from 'fs';
+import path from 'path';
+import {
+  TypeScriptNode,
+  TypeScriptDependency,
+  TypeScriptImportBinding,
+  TypeScriptExport,
+  TypeScriptCallSite
+} from '../../types/typescript-types';
+
+// Generate a unique ID for a TypeScript node
+const generateId = (type: string, name: string, path: string): string => {
+  return `${type}:${path}:${name}`;
+};
+
+// Keywords that look like calls or method declarations to the regular expressions
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'typeof', 'new', 'super', 'constructor', 'import', 'require']);
+
+// Index just past the brace that closes the one at openIndex, skipping strings and comments
+const findClosingBrace = (code: string, openIndex: number): number => {
+  let depth = 0;
+
+  for (let i = openIndex; i < code.length; i++) {
+    const char = code[i];
+
+    if (char === '"' || char === '\'' || char === '`') {
+      // Skip to the closing quote, honoring escapes
+      for (i++; i < code.length && code[i] !== char; i++) {
+        if (code[i] === '\\') i++;
+      }
+    } else if (char === '/' && code[i + 1] === '/') {
+      i = code.indexOf('\n', i);
+      if (i === -1) return code.length;
+    } else if (char === '/' && code[i + 1] === '*') {
+      i = code.indexOf('*/', i + 2);
+      if (i === -1) return code.length;
+      i++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return code.length;
+};
+
+// Blank out everything nested deeper than the outermost block, keeping offsets
+// and line breaks, so member declarations can be matched without statements
+const maskNestedBlocks = (block: string): string => {
+  let depth = 0;
+  let masked = '';
+
+  for (const char of block) {
+    if (char === '}') depth--;
+    masked += depth >= 2 && char !== '\n' ? ' ' : char;
+    if (char === '{') depth++;
+  }
+
+  return masked;
+};
+
+// Parse a single TypeScript or JavaScript file
+export const parseTypeScriptFile = (filePath: string, modulePath: string): {
+  nodes: TypeScriptNode[],
+  dependencies: TypeScriptDependency[],
+  bindings: TypeScriptImportBinding[],
+  exports: TypeScriptExport[],
+  calls: TypeScriptCallSite[]
+} => {
+  try {
+    const code = fs.readFileSync(filePath, 'utf8');
+    const nodes: TypeScriptNode[] = [];
+    const dependencies: TypeScriptDependency[] = [];
+    const bindings: TypeScriptImportBinding[] = [];
+    const moduleExports: TypeScriptExport[] = [];
+    const calls: TypeScriptCallSite[] = [];
+
+    const moduleName = path.basename(modulePath);
+    const moduleId = generateId('module', moduleName, modulePath);
+
+    nodes.push({
+      id: moduleId,
+      type: 'module',
+      name: moduleName,
+      path: modulePath,
+      file: filePath
+    });
+
+    const addImport = (specifier: string) => {
+      dependencies.push({
+        source: moduleId,
+        target: generateId('import', specifier, ''),
+        type: 'imports'
+      });
+    };
+
+    // Record the calls made in a function or method body
+    const addCalls = (source: string, scope: string, body: string, className?: string) => {
+      const callRegex = /(?:\bnew\s+)?((?:this\.|super\.)?[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*\(/g;
+      let callMatch;
+
+      while ((callMatch = callRegex.exec(body)) !== null) {
+        const callee = callMatch[1];
+        if (KEYWORDS.has(callee) || (/^(this|super)\./.test(callee) && !className)) continue;
+
+        calls.push({ source, module: modulePath, scope, className, callee });
+      }
+    };
+
+    // Extract imports and re-exports
+    const importRegex = /^\s*import\s+(type\s+)?(?:([\w$]+)\s*,?\s*)?(?:\*\s+as\s+([\w$]+)|\{([^}]*)\})?\s*(?:from\s+)?['"]([^'"]+)['"]/gm;
+    let importMatch;
+
+    while ((importMatch = importRegex.exec(code)) !== null) {
+      const [, , defaultName, namespaceName, namedImports, specifier] = importMatch;
+      addImport(specifier);
+
+      if (defaultName) {
+        bindings.push({ module: modulePath, name: defaultName, specifier, imported: 'default' });
+      }
+      if (namespaceName) {
+        bindings.push({ module: modulePath, name: namespaceName, specifier, imported: '*' });
+      }
+      for (const item of (namedImports || '').split(',')) {
+        const itemMatch = item.trim().match(/^(?:type\s+)?([\w$]+)(?:\s+as\s+([\w$]+))?$/);
+        if (itemMatch) {
+          bindings.push({ module: modulePath, name: itemMatch[2] || itemMatch[1], specifier, imported: itemMatch[1] });
+        }
+      }
+    }
+
+    const reexportRegex = /^\s*export\s+(?:type\s+)?(?:\*(?:\s+as\s+([\w$]+))?|\{([^}]*)\})\s*from\s+['"]([^'"]+)['"]/gm;
+    let reexportMatch;
+
+    while ((reexportMatch = reexportRegex.exec(code)) !== null) {
+      const [, namespaceName, namedExports, specifier] = reexportMatch;
+      addImport(specifier);
+
+      if (namedExports === undefined) {
+        moduleExports.push({ module: modulePath, name: namespaceName || '*', specifier, imported: '*' });
+      }
+      for (const item of (namedExports || '').split(',')) {
+        const itemMatch = item.trim().match(/^(?:type\s+)?([\w$]+)(?:\s+as\s+([\w$]+))?$/);
+        if (itemMatch) {
+          moduleExports.push({ module: modulePath, name: itemMatch[2] || itemMatch[1], specifier, imported: itemMatch[1] });
+        }
+      }
+    }
+
+    // Extract `require()` calls, binding the module or destructured exports
+    const requireRegex = /(?:(?:const|let|var)\s+(?:([\w$]+)|\{([^}]*)\})\s*=\s*)?require\(\s*['"]([^'"]+)['"]\s*\)/g;
+    let requireMatch;
+
+    while ((requireMatch = requireRegex.exec(code)) !== null) {
+      const [, localName, destructured, specifier] = requireMatch;
+      addImport(specifier);
+
+      if (localName) {
+        bindings.push({ module: modulePath, name: localName, specifier, imported: '*' });
+      }
+      for (const item of (destructured || '').split(',')) {
+        const itemMatch = item.trim().match(/^([\w$]+)(?:\s*:\s*([\w$]+))?$/);
+        if (itemMatch) {
+          bindings.push({ module: modulePath, name: itemMatch[2] || itemMatch[1], specifier, imported: itemMatch[1] });
+        }
+      }
+    }
+
+    // Extract `export { a, b as c }` of local declarations
+    const exportListRegex = /^\s*export\s+(?:type\s+)?\{([^}]*)\}\s*;?\s*$/gm;
+    let exportListMatch;
+
+    while ((exportListMatch = exportListRegex.exec(code)) !== null) {
+      for (const item of exportListMatch[1].split(',')) {
+        const itemMatch = item.trim().match(/^(?:type\s+)?([\w$]+)(?:\s+as\s+([\w$]+))?$/);
+        if (itemMatch) {
+          moduleExports.push({ module: modulePath, name: itemMatch[2] || itemMatch[1], local: itemMatch[1] });
+        }
+      }
+    }
+
+    const addDeclaration = (type: TypeScriptNode['type'], name: string, signature: string, exportKeyword?: string) => {
+      const id = generateId(type, name, modulePath);
+      if (nodes.some(node => node.id === id)) return id;
+
+      if (exportKeyword) {
+        moduleExports.push({ module: modulePath, name: /default/.test(exportKeyword) ? 'default' : name, local: name });
+      }
+
+      nodes.push({
+        id,
+        type,
+        name,
+        path: modulePath,
+        file: filePath,
+        signature: signature.replace(/\s+/g, ' ').trim(),
+        visibility: exportKeyword ? 'public' : 'private'
+      });
+
+      dependencies.push({
+        source: moduleId,
+        target: id,
+        type: 'contains'
+      });
+      return id;
+    };
+
+    // Extract top-level functions, including `const name = (...) =>` arrow functions
+    const functionRegex = /^(export\s+(?:default\s+)?)?(?:declare\s+)?((?:async\s+)?function\s*\*?\s*([\w$]+)\s*(?:<[^>]*>)?\s*\([^)]*\)[^{;]*)/gm;
+    const arrowRegex = /^(export\s+)?((?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b[^{]*|(?:<[^>]*>)?\([^)]*\)[^=]*=>|[\w$]+\s*=>))/gm;
+
+    for (const regex of [functionRegex, arrowRegex]) {
+      let functionMatch;
+
+      while ((functionMatch = regex.exec(code)) !== null) {
+        const [, exportKeyword, signature, name] = functionMatch;
+        const id = addDeclaration('function', name, signature, exportKeyword);
+
+        const bodyStart = code.indexOf('{', functionMatch.index + functionMatch[0].length);
+        const lineEnd = code.indexOf('\n', functionMatch.index + functionMatch[0].length);
+        if (bodyStart !== -1 && (lineEnd === -1 || bodyStart <= lineEnd)) {
+          addCalls(id, name, code.substring(bodyStart, findClosingBrace(code, bodyStart)));
+        }
+      }
+    }
+
+    // Extract interfaces, type aliases and enums
+    const interfaceRegex = /^(export\s+(?:default\s+)?)?(?:declare\s+)?(interface\s+([\w$]+)(?:\s*<[^{]*>)?(?:\s+extends\s+([^{]+))?)\s*\{/gm;
+    let interfaceMatch;
+
+    while ((interfaceMatch = interfaceRegex.exec(code)) !== null) {
+      const [, exportKeyword, signature, name, bases] = interfaceMatch;
+      const id = addDeclaration('interface', name, signature, exportKeyword);
+
+      for (const base of (bases || '').split(',').map(b => b.replace(/<.*$/, '').trim()).filter(Boolean)) {
+        dependencies.push({ source: id, target: generateId('class', base, ''), type: 'extends' });
+      }
+    }
+
+    const typeRegex = /^(export\s+)?(?:declare\s+)?(type\s+([\w$]+)\s*(?:<[^=]*>)?\s*=\s*[^\n;]{0,60})/gm;
+    const enumRegex = /^(export\s+)?(?:declare\s+)?((?:const\s+)?enum\s+([\w$]+))/gm;
+    let typeMatch;
+
+    while ((typeMatch = typeRegex.exec(code)) !== null) {
+      addDeclaration('type', typeMatch[3], typeMatch[2], typeMatch[1]);
+    }
+    while ((typeMatch = enumRegex.exec(code)) !== null) {
+      addDeclaration('enum', typeMatch[3], typeMatch[2], typeMatch[1]);
+    }
+
+    // Extract classes with their methods
+    const classRegex = /^(export\s+(?:default\s+)?)?(?:declare\s+)?((?:abstract\s+)?class\s+([\w$]+)(?:\s*<[^{]*?>)?(?:\s+extends\s+([\w$.]+)(?:<[^{]*?>)?)?(?:\s+implements\s+([^{]+))?)\s*\{/gm;
+    let classMatch;
+
+    while ((classMatch = classRegex.exec(code)) !== null) {
+      const [, exportKeyword, signature, className, baseClass, interfaces] = classMatch;
+      const classId = addDeclaration('class', className, signature, exportKeyword);
+
+      if (baseClass) {
+        dependencies.push({ source: classId, target: generateId('class', baseClass, ''), type: 'extends' });
+      }
+      for (const base of (interfaces || '').split(',').map(b => b.replace(/<.*$/, '').trim()).filter(Boolean)) {
+        dependencies.push({ source: classId, target: generateId('class', base, ''), type: 'implements' });
+      }
+
+      const bodyStart = classMatch.index + classMatch[0].length - 1;
+      const classBody = code.substring(bodyStart, findClosingBrace(code, bodyStart));
+      parseClassMethods(classBody, modulePath, filePath, className, classId, nodes, dependencies, addCalls);
+    }
+
+    // Extract CommonJS exports: `module.exports = { a, b }` and `exports.name = ...`
+    const moduleExportsMatch = code.match(/module\.exports\s*=\s*(?:\{([^}]*)\}|([\w$]+))/);
+    if (moduleExportsMatch?.[1]) {
+      for (const item of moduleExportsMatch[1].split(',')) {
+        const itemMatch = item.trim().match(/^([\w$]+)(?:\s*:\s*([\w$]+))?$/);
+        if (itemMatch) {
+          moduleExports.push({ module: modulePath, name: itemMatch[1], local: itemMatch[2] || itemMatch[1] });
+        }
+      }
+    } else if (moduleExportsMatch?.[2]) {
+      moduleExports.push({ module: modulePath, name: 'default', local: moduleExportsMatch[2] });
+    }
+
+    const namedExportRegex = /^\s*(?:module\.)?exports\.([\w$]+)\s*=\s*(?:([\w$]+)\s*;?\s*$|((?:async\s+)?function\b[^{]*|(?:async\s+)?\([^)]*\)\s*=>))/gm;
+    let namedExportMatch;
+
+    while ((namedExportMatch = namedExportRegex.exec(code)) !== null) {
+      const [, name, local, functionSignature] = namedExportMatch;
+      if (functionSignature) {
+        addDeclaration('function', name, `exports.${name} = ${functionSignature}`, 'export');
+      } else {
+        moduleExports.push({ module: modulePath, name, local });
+      }
+    }
+
+    // Declarations exported by name after the fact are public too
+    const exportedLocals = new Set(moduleExports.map(moduleExport => moduleExport.local));
+    return {
+      nodes: nodes.map(node => node.visibility === 'private' && exportedLocals.has(node.name) ? { ...node, visibility: 'public' } : node),
+      dependencies,
+      bindings,
+      exports: moduleExports,
+      calls
+    };
+  } catch (error) {
+    console.error(`Error parsing TypeScript file ${filePath}:`, error);
+    return { nodes: [], dependencies: [], bindings: [], exports: [], calls: [] };
+  }
+};
+
+// Parse the methods in a class body, including arrow function fields
+const parseClassMethods = (
+  classBody: string,
+  modulePath: string,
+  filePath: string,
+  className: string,
+  classId: string,
+  nodes: TypeScriptNode[],
+  dependencies: TypeScriptDependency[],
+  addCalls: (source: string, scope: string, body: string, className?: string) => void
+) => {
+  const methodRegex = /\n\s*((?:(?:public|private|protected|static|async|abstract|override|readonly|get|set)\s+)*)(#?[\w$]+)\s*(?:<[^>(]*>)?\s*(\([^)]*\)[^{;=]*|=\s*(?:async\s+)?\([^)]*\)[^{;=]*=>)\s*[{;]/g;
+  let methodMatch;
+
+  const members = maskNestedBlocks(classBody);
+
+  while ((methodMatch = methodRegex.exec(members)) !== null) {
+    const [, modifiers, methodName, rest] = methodMatch;
+    if (KEYWORDS.has(methodName) && methodName !== 'constructor') continue;
+
+    const methodId = generateId('method', `${className}.${methodName}`, modulePath);
+    if (nodes.some(node => node.id === methodId)) continue;
+
+    const accessibility = modifiers.match(/\b(public|private|protected)\b/)?.[1] as TypeScriptNode['visibility'];
+    nodes.push({
+      id: methodId,
+      type: 'method',
+      name: methodName,
+      path: modulePath,
+      file: filePath,
+      signature: `${modifiers}${methodName}${rest.startsWith('=') ? ` ${rest}` : rest}`.replace(/\s+/g, ' ').trim(),
+      visibility: accessibility || (methodName.startsWith('#') ? 'private' : 'public')
+    });
+
+    // Add containment dependency (class contains method)
+    dependencies.push({
+      source: classId,
+      target: methodId,
+      type: 'contains'
+    });
+
+    // Extract method calls
+    if (methodMatch[0].endsWith('{')) {
+      const bodyStart = methodMatch.index + methodMatch[0].length - 1;
+      addCalls(methodId, `${className}.${methodName}`, classBody.substring(bodyStart, findClosingBrace(classBody, bodyStart)), className);
+    }
+  }
+};
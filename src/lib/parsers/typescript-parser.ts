@@ -0,0 +1,1327 @@
+// This module is server-only and should not be imported from client components
+// Uses tree-sitter to parse TypeScript and JavaScript code, falling back to the
+// regex parser when the native binding cannot be loaded or
+// VISCODE_TYPESCRIPT_PARSER=regex is set
+
+import type Parser from 'tree-sitter';
+import fs from 'fs';
+import path from 'path';
+import {
+  TypeScriptNode,
+  TypeScriptDependency,
+  TypeScriptImportBinding,
+  TypeScriptExport,
+  TypeScriptCallSite,
+  TypeScriptProject,
+  TypeScriptGraphData,
+  TypeScriptHierarchicalData,
+  TypeScriptTreeNode
+} from '../../types/typescript-types';
+import { FileFilter, FileParsedListener, ParseCache } from '../../types/analyzer-types';
+import { parseTypeScriptFile as parseTypeScriptFileSimple } from './typescript-parser-simple';
+import { loadTreeSitterParser } from './tree-sitter-loader';
+import { SOURCE_EXTENSIONS, createModuleResolver, getPackageName } from './tsconfig';
+import { parseWithCache } from './parse-cache';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+// Version of the results of parseTypeScriptFile, part of their parse cache key
+const PARSER_VERSION = 1;
+
+// Dependency, build output and cache directories, which hold no project sources
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'bower_components', 'dist', 'build', 'out', 'coverage']);
+
+// Helper to recursively find all TypeScript and JavaScript files in a directory.
+// Minified bundles, JavaScript compiled next to its TypeScript source and files the
+// filter excludes are skipped
+export const findTypeScriptFiles = (dir: string, filter?: FileFilter): string[] => {
+  const files: string[] = [];
+
+  try {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    const names = new Set(entries.map(entry => entry.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.has(entry.name)) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        if (!filter?.excludesDirectory(fullPath)) {
+          files.push(...findTypeScriptFiles(fullPath, filter));
+        }
+      } else if (SOURCE_EXTENSIONS.some(ext => entry.name.endsWith(ext)) && !entry.name.includes('.min.')) {
+        const stem = entry.name.replace(/\.[cm]?jsx?$/, '');
+        const hasSource = stem !== entry.name && ['.ts', '.tsx', '.mts', '.cts'].some(ext => names.has(`${stem}${ext}`));
+        if (!hasSource && !filter?.excludesFile(fullPath)) {
+          files.push(fullPath);
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading directory ${dir}:`, error);
+  }
+
+  return files;
+};
+
+// Path of a module relative to the project root, without its extension, e.g. `src/lib/api`
+export const getModulePath = (projectPath: string, filePath: string): string => {
+  return path.relative(projectPath, filePath).split(path.sep).join('/').replace(/\.[cm]?[jt]sx?$/, '');
+};
+
+// Generate a unique ID for a TypeScript node
+const generateId = (type: string, name: string, path: string): string => {
+  return `${type}:${path}:${name}`;
+};
+
+// Load the tree-sitter grammar for TypeScript, or for TSX, which is also used
+// for JavaScript since TypeScript type assertions clash with JSX
+export const loadTypeScriptParser = (dialect: 'typescript' | 'tsx'): Promise<Parser | null> => {
+  return loadTreeSitterParser(dialect, async () => {
+    const { default: grammars } = await import('tree-sitter-typescript');
+    return { default: grammars[dialect] };
+  });
+};
+
+// Strip the delimiters and leading asterisks from a JSDoc comment
+const cleanJsDoc = (comment: string): string => {
+  return comment
+    .replace(/^\/\*\*/, '')
+    .replace(/\*\/$/, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*\* ?/, ''))
+    .join('\n')
+    .trim();
+};
+
+// Result of parsing one file; bindings, exports and calls are resolved
+// project-wide in parseTypeScriptProject
+export type TypeScriptFileParseResult = {
+  nodes: TypeScriptNode[];
+  dependencies: TypeScriptDependency[];
+  bindings: TypeScriptImportBinding[];
+  exports: TypeScriptExport[];
+  calls: TypeScriptCallSite[];
+};
+
+// Lexical scope a definition is nested in
+type TypeScriptScope = {
+  kind: 'module' | 'class' | 'function';
+  // Dotted name of the scope within its module, e.g. `Service.run`
+  qualifiedName: string;
+  // ID of the module, class or function node that owns this scope
+  id: string;
+  // Qualified name of the enclosing class, for resolving `this.method()` calls
+  className?: string;
+  // Parameters and local variables visible in a function, which shadow module
+  // names, with the type name of those whose type is locally known
+  locals?: Map<string, string | undefined>;
+};
+
+// Parse a single TypeScript or JavaScript file
+export const parseTypeScriptFile = (filePath: string, modulePath: string, parser: Parser): TypeScriptFileParseResult => {
+  try {
+    const code = fs.readFileSync(filePath, 'utf8');
+    const tree = parser.parse(code);
+    const nodes: TypeScriptNode[] = [];
+    const dependencies: TypeScriptDependency[] = [];
+    const bindings: TypeScriptImportBinding[] = [];
+    const moduleExports: TypeScriptExport[] = [];
+    const calls: TypeScriptCallSite[] = [];
+    const nodeIds = new Set<string>();
+
+    const moduleName = path.basename(modulePath);
+    const moduleId = generateId('module', moduleName, modulePath);
+
+    const getText = (node: SyntaxNode): string => {
+      return code.substring(node.startIndex, node.endIndex);
+    };
+
+    // Collapse whitespace so multi-line signatures render on one line
+    const normalize = (text: string): string => {
+      return text.replace(/\s+/g, ' ').replace(/\(\s/g, '(').replace(/,?\s\)/g, ')');
+    };
+
+    const qualify = (scope: TypeScriptScope, name: string): string => {
+      return scope.qualifiedName ? `${scope.qualifiedName}.${name}` : name;
+    };
+
+    // Add a node and the `contains` edge from its scope; declaration merging
+    // and overloads declare the same item more than once
+    const addNode = (node: TypeScriptNode, scope: TypeScriptScope): boolean => {
+      if (nodeIds.has(node.id)) return false;
+
+      nodeIds.add(node.id);
+      nodes.push(node);
+      dependencies.push({
+        source: scope.id,
+        target: node.id,
+        type: 'contains'
+      });
+      return true;
+    };
+
+    // Contents of a string literal, e.g. `./util` for `'./util'`
+    const getStringValue = (node: SyntaxNode | null): string | null => {
+      if (node?.type !== 'string') return null;
+      return node.namedChildren.filter(part => part.type === 'string_fragment').map(getText).join('');
+    };
+
+    // Declaration text up to its body, without decorators, e.g. `async function load(id: string): Promise<void>`
+    const getHeader = (node: SyntaxNode, bodyNode: SyntaxNode | null): string => {
+      const start = node.children.find(child => child.type !== 'decorator' && child.type !== 'comment') || node;
+      const end = bodyNode ? bodyNode.startIndex : node.endIndex;
+      return normalize(code.substring(start.startIndex, end)).replace(/[\s;{]+$/, '');
+    };
+
+    // JSDoc comment right before a declaration, or before the export or variable
+    // statement wrapping it
+    const getDescription = (node: SyntaxNode): string | undefined => {
+      let declaration = node;
+      while (declaration.parent && ['export_statement', 'ambient_declaration', 'lexical_declaration', 'variable_declaration', 'variable_declarator'].includes(declaration.parent.type)) {
+        declaration = declaration.parent;
+      }
+
+      const comment = declaration.previousNamedSibling;
+      const isAdjacent = comment && !code.substring(comment.endIndex, declaration.startIndex).trim();
+      return comment?.type === 'comment' && isAdjacent && getText(comment).startsWith('/**')
+        ? cleanJsDoc(getText(comment))
+        : undefined;
+    };
+
+    // Visibility of a class member from its accessibility modifier or `#name`
+    const getMemberVisibility = (member: SyntaxNode): TypeScriptNode['visibility'] => {
+      const modifier = member.namedChildren.find(child => child.type === 'accessibility_modifier');
+      if (modifier) return getText(modifier) as TypeScriptNode['visibility'];
+      return member.childForFieldName('name')?.type === 'private_property_identifier' ? 'private' : 'public';
+    };
+
+    // Name of a type as written, without type arguments, e.g. `Repo` for
+    // `Repo<User>` and `api.Client` for a qualified type
+    const getTypeName = (node: SyntaxNode | null): string | undefined => {
+      if (!node) return undefined;
+
+      switch (node.type) {
+        case 'type_annotation':
+          return getTypeName(node.namedChildren[0] || null);
+        case 'generic_type':
+          return getTypeName(node.childForFieldName('name'));
+        case 'type_identifier':
+        case 'identifier':
+        case 'nested_type_identifier':
+          return getText(node);
+        default:
+          return undefined;
+      }
+    };
+
+    // Dotted name of a plain name or member chain, e.g. `api.users.get`;
+    // null for anything else, such as `load().then` or `items[0].run`
+    const getDottedName = (node: SyntaxNode | null): string | null => {
+      if (!node) return null;
+
+      switch (node.type) {
+        case 'identifier':
+        case 'this':
+        case 'super':
+          return getText(node);
+        case 'non_null_expression':
+        case 'parenthesized_expression':
+          return getDottedName(node.namedChildren[0] || null);
+        case 'member_expression': {
+          const objectName = getDottedName(node.childForFieldName('object'));
+          const propertyNode = node.childForFieldName('property');
+          return objectName && propertyNode?.type === 'property_identifier'
+            ? `${objectName}.${getText(propertyNode)}`
+            : null;
+        }
+        default:
+          return null;
+      }
+    };
+
+    // Names bound by a binding pattern such as `a`, `{ a, b: c }` or `[a, ...rest]`
+    const getPatternNames = (pattern: SyntaxNode | null): string[] => {
+      if (!pattern) return [];
+
+      switch (pattern.type) {
+        case 'identifier':
+        case 'shorthand_property_identifier_pattern':
+          return [getText(pattern)];
+        case 'pair_pattern':
+          return getPatternNames(pattern.childForFieldName('value'));
+        case 'assignment_pattern':
+        case 'object_assignment_pattern':
+          return getPatternNames(pattern.childForFieldName('left') || pattern.namedChildren[0] || null);
+        case 'object_pattern':
+        case 'array_pattern':
+        case 'rest_pattern':
+          return pattern.namedChildren.flatMap(getPatternNames);
+        default:
+          return [];
+      }
+    };
+
+    // Names bound by a parameter list, with their annotated types
+    const getParameterLocals = (functionNode: SyntaxNode): Map<string, string | undefined> => {
+      const locals = new Map<string, string | undefined>();
+
+      // `x => ...` has a single parameter and no parameter list
+      const parameterNode = functionNode.childForFieldName('parameter');
+      if (parameterNode) {
+        locals.set(getText(parameterNode), undefined);
+      }
+
+      for (const param of functionNode.childForFieldName('parameters')?.namedChildren || []) {
+        if (param.type === 'required_parameter' || param.type === 'optional_parameter') {
+          const pattern = param.childForFieldName('pattern');
+          const type = getTypeName(param.childForFieldName('type'));
+          for (const name of getPatternNames(pattern)) {
+            locals.set(name, pattern?.type === 'identifier' ? type : undefined);
+          }
+        } else {
+          for (const name of getPatternNames(param)) {
+            locals.set(name, undefined);
+          }
+        }
+      }
+
+      return locals;
+    };
+
+    // Specifier of a `require('x')` or dynamic `import('x')` call
+    const getRequiredSpecifier = (node: SyntaxNode | null): string | null => {
+      if (node?.type !== 'call_expression') return null;
+
+      const functionNode = node.childForFieldName('function');
+      const isRequire = functionNode?.type === 'import' || (functionNode?.type === 'identifier' && getText(functionNode) === 'require');
+      return isRequire ? getStringValue(node.childForFieldName('arguments')?.namedChildren[0] || null) : null;
+    };
+
+    const addImport = (specifier: string) => {
+      dependencies.push({
+        source: moduleId,
+        target: generateId('import', specifier, ''),
+        type: 'imports'
+      });
+    };
+
+    // Record a call or `new` expression. Targets are resolved to project
+    // symbols in parseTypeScriptProject
+    const processCall = (callNode: SyntaxNode, scope: TypeScriptScope) => {
+      if (scope.kind === 'class') return;
+
+      const functionNode = callNode.childForFieldName(callNode.type === 'new_expression' ? 'constructor' : 'function');
+      const callee = getDottedName(functionNode);
+      if (!callee || callee === 'require') return;
+
+      const [receiver, ...rest] = callee.split('.');
+      if ((receiver === 'this' || receiver === 'super') && !scope.className) return;
+
+      // Calls through parameters and local variables resolve only through
+      // their type, when it is known
+      let receiverType: string | undefined;
+      if (scope.locals?.has(receiver)) {
+        receiverType = scope.locals.get(receiver);
+        if (!receiverType || rest.length !== 1) return;
+      }
+
+      calls.push({
+        source: scope.id,
+        module: modulePath,
+        scope: scope.kind === 'function' ? scope.qualifiedName : '',
+        className: scope.className,
+        callee,
+        receiverType
+      });
+    };
+
+    // Process a function body with its parameters added to the locals
+    const processFunctionBody = (functionNode: SyntaxNode, scope: TypeScriptScope) => {
+      const bodyNode = functionNode.childForFieldName('body');
+      if (bodyNode) {
+        processNode(bodyNode, { ...scope, locals: new Map([...(scope.locals || []), ...getParameterLocals(functionNode)]) });
+      }
+    };
+
+    // Add a function, or a method when declared in a class body
+    const processFunction = (definition: SyntaxNode, name: string, scope: TypeScriptScope, signature: string, member?: SyntaxNode) => {
+      const isMethod = scope.kind === 'class';
+      const qualifiedName = qualify(scope, name);
+      const id = isMethod
+        ? generateId('method', qualifiedName, modulePath)
+        : generateId('function', qualifiedName, modulePath);
+
+      addNode({
+        id,
+        type: isMethod ? 'method' : 'function',
+        name,
+        path: modulePath,
+        file: filePath,
+        signature,
+        description: getDescription(member || definition),
+        visibility: member ? getMemberVisibility(member) : undefined
+      }, scope);
+
+      processFunctionBody(definition, { kind: 'function', qualifiedName, id, className: scope.className, locals: scope.locals });
+    };
+
+    // Record `extends` and `implements` edges of a class or interface, with the
+    // base type names as written in the target
+    const addHeritage = (source: string, type: 'extends' | 'implements', baseNames: (string | null | undefined)[]) => {
+      for (const baseName of baseNames) {
+        if (baseName) {
+          dependencies.push({
+            source,
+            target: generateId('class', baseName, ''),
+            type
+          });
+        }
+      }
+    };
+
+    const processClass = (definition: SyntaxNode, name: string, scope: TypeScriptScope) => {
+      const qualifiedName = qualify(scope, name);
+      const classId = generateId('class', qualifiedName, modulePath);
+      const bodyNode = definition.childForFieldName('body');
+
+      addNode({
+        id: classId,
+        type: 'class',
+        name,
+        path: modulePath,
+        file: filePath,
+        signature: getHeader(definition, bodyNode),
+        description: getDescription(definition)
+      }, scope);
+
+      const heritage = definition.namedChildren.find(child => child.type === 'class_heritage');
+      for (const clause of heritage?.namedChildren || []) {
+        if (clause.type === 'extends_clause') {
+          addHeritage(classId, 'extends', clause.childrenForFieldName('value').map(getDottedName));
+        } else if (clause.type === 'implements_clause') {
+          addHeritage(classId, 'implements', clause.namedChildren.map(getTypeName));
+        }
+      }
+
+      const classScope: TypeScriptScope = { kind: 'class', qualifiedName, id: classId, className: qualifiedName };
+      for (const member of bodyNode?.namedChildren || []) {
+        const memberName = member.childForFieldName('name');
+        const value = member.childForFieldName('value');
+
+        if (member.type === 'method_definition' || member.type === 'abstract_method_signature' || member.type === 'method_signature') {
+          processFunction(member, memberName ? getText(memberName) : 'anonymous', classScope, getHeader(member, member.childForFieldName('body')), member);
+        } else if (member.type === 'public_field_definition' && memberName && value && ['arrow_function', 'function_expression'].includes(value.type)) {
+          // `handle = (event) => { ... }` fields are methods bound to the instance
+          const fieldStart = member.children.find(child => child.type !== 'decorator') || member;
+          const signature = `${normalize(code.substring(fieldStart.startIndex, value.startIndex))}${getHeader(value, value.childForFieldName('body'))}`;
+          processFunction(value, getText(memberName), classScope, signature, member);
+        } else if (member.type === 'class_static_block') {
+          processNode(member, { kind: 'function', qualifiedName, id: classId, className: qualifiedName });
+        }
+      }
+    };
+
+    const processInterface = (definition: SyntaxNode, name: string, scope: TypeScriptScope) => {
+      const qualifiedName = qualify(scope, name);
+      const id = generateId('interface', qualifiedName, modulePath);
+
+      addNode({
+        id,
+        type: 'interface',
+        name,
+        path: modulePath,
+        file: filePath,
+        signature: getHeader(definition, definition.childForFieldName('body')),
+        description: getDescription(definition)
+      }, scope);
+
+      const extendsClause = definition.namedChildren.find(child => child.type === 'extends_type_clause');
+      addHeritage(id, 'extends', extendsClause?.childrenForFieldName('type').map(getTypeName) || []);
+    };
+
+    // Type aliases and enums, whose signatures show the aliased type or the
+    // enum's header
+    const processTypeDeclaration = (definition: SyntaxNode, name: string, scope: TypeScriptScope) => {
+      const isEnum = definition.type === 'enum_declaration';
+      const valueNode = definition.childForFieldName('value');
+      let signature = getHeader(definition, definition.childForFieldName('body'));
+
+      if (valueNode) {
+        const value = normalize(getText(valueNode));
+        const shortValue = value.length > 60 ? `${value.substring(0, 57)}...` : value;
+        signature = `${normalize(code.substring(definition.startIndex, valueNode.startIndex))}${shortValue}`;
+      }
+
+      addNode({
+        id: generateId(isEnum ? 'enum' : 'type', qualify(scope, name), modulePath),
+        type: isEnum ? 'enum' : 'type',
+        name,
+        path: modulePath,
+        file: filePath,
+        signature,
+        description: getDescription(definition)
+      }, scope);
+    };
+
+    // `const x = require('x')` binds the module and `const { a, b: c } = require('x')`
+    // binds its exports, as do `await import('x')` and `require('x').a`
+    const processRequire = (declarator: SyntaxNode) => {
+      let value = declarator.childForFieldName('value');
+      let imported = '*';
+      if (value?.type === 'await_expression') {
+        value = value.namedChildren[0] || null;
+      }
+      if (value?.type === 'member_expression') {
+        imported = getText(value.childForFieldName('property') || value);
+        value = value.childForFieldName('object');
+      }
+
+      const specifier = getRequiredSpecifier(value);
+      const nameNode = declarator.childForFieldName('name');
+      if (!specifier || !nameNode) return;
+
+      if (nameNode.type === 'identifier') {
+        bindings.push({ module: modulePath, name: getText(nameNode), specifier, imported });
+      } else if (nameNode.type === 'object_pattern' && imported === '*') {
+        for (const property of nameNode.namedChildren) {
+          const key = property.type === 'pair_pattern' ? property.childForFieldName('key') : property;
+          const local = property.type === 'pair_pattern' ? property.childForFieldName('value') : property;
+          if (key && local?.type !== 'object_pattern' && local) {
+            bindings.push({ module: modulePath, name: getText(local), specifier, imported: getText(key) });
+          }
+        }
+      }
+    };
+
+    // `const` and `let` declarations of functions and classes define them;
+    // other names declared in a function are its locals
+    const processVariableDeclaration = (declaration: SyntaxNode, scope: TypeScriptScope) => {
+      const keyword = declaration.children[0] ? getText(declaration.children[0]) : 'const';
+
+      for (const declarator of declaration.namedChildren.filter(child => child.type === 'variable_declarator')) {
+        const nameNode = declarator.childForFieldName('name');
+        const value = declarator.childForFieldName('value');
+        if (!nameNode) continue;
+
+        if (nameNode.type === 'identifier' && value && ['arrow_function', 'function_expression', 'generator_function'].includes(value.type)) {
+          const signature = `${keyword} ${getText(nameNode)} = ${getHeader(value, value.childForFieldName('body'))}`;
+          processFunction(value, getText(nameNode), scope, signature);
+          continue;
+        }
+
+        if (nameNode.type === 'identifier' && value?.type === 'class') {
+          processClass(value, getText(nameNode), scope);
+          continue;
+        }
+
+        if (scope.kind === 'module') {
+          processRequire(declarator);
+        }
+
+        if (scope.locals) {
+          const type = getTypeName(declarator.childForFieldName('type')) ||
+            (value?.type === 'new_expression' ? getDottedName(value.childForFieldName('constructor')) || undefined : undefined);
+          for (const name of getPatternNames(nameNode)) {
+            scope.locals.set(name, nameNode.type === 'identifier' ? type : undefined);
+          }
+        }
+
+        if (value) {
+          processNode(value, scope);
+        }
+      }
+    };
+
+    // Names declared by a declaration, for `export` statements
+    const getDeclaredNames = (declaration: SyntaxNode): string[] => {
+      if (declaration.type === 'lexical_declaration' || declaration.type === 'variable_declaration') {
+        return declaration.namedChildren
+          .filter(child => child.type === 'variable_declarator')
+          .flatMap(declarator => getPatternNames(declarator.childForFieldName('name')));
+      }
+
+      if (declaration.type === 'ambient_declaration') {
+        return declaration.namedChildren.flatMap(getDeclaredNames);
+      }
+
+      const nameNode = declaration.childForFieldName('name');
+      return nameNode && nameNode.type !== 'string' ? [getText(nameNode)] : [];
+    };
+
+    const processImport = (importNode: SyntaxNode) => {
+      // `import fs = require('fs')`
+      const requireClause = importNode.namedChildren.find(child => child.type === 'import_require_clause');
+      const source = importNode.childForFieldName('source') || requireClause?.childForFieldName('source') || null;
+      const specifier = getStringValue(source);
+      if (!specifier) return;
+
+      addImport(specifier);
+
+      const localName = requireClause?.namedChildren.find(child => child.type === 'identifier');
+      if (localName) {
+        bindings.push({ module: modulePath, name: getText(localName), specifier, imported: '*' });
+      }
+
+      const clause = importNode.namedChildren.find(child => child.type === 'import_clause');
+      for (const part of clause?.namedChildren || []) {
+        if (part.type === 'identifier') {
+          bindings.push({ module: modulePath, name: getText(part), specifier, imported: 'default' });
+        } else if (part.type === 'namespace_import') {
+          const nameNode = part.namedChildren.find(child => child.type === 'identifier');
+          if (nameNode) {
+            bindings.push({ module: modulePath, name: getText(nameNode), specifier, imported: '*' });
+          }
+        } else if (part.type === 'named_imports') {
+          for (const importSpecifier of part.namedChildren.filter(child => child.type === 'import_specifier')) {
+            const nameNode = importSpecifier.childForFieldName('name');
+            const aliasNode = importSpecifier.childForFieldName('alias');
+            if (!nameNode) continue;
+
+            const imported = getStringValue(nameNode) ?? getText(nameNode);
+            bindings.push({ module: modulePath, name: aliasNode ? getText(aliasNode) : imported, specifier, imported });
+          }
+        }
+      }
+    };
+
+    const processExport = (exportNode: SyntaxNode, scope: TypeScriptScope) => {
+      const declaration = exportNode.childForFieldName('declaration');
+      const value = exportNode.childForFieldName('value');
+      const specifier = getStringValue(exportNode.childForFieldName('source'));
+      const isDefault = exportNode.children.some(child => child.type === 'default');
+      const exportClause = exportNode.namedChildren.find(child => child.type === 'export_clause');
+
+      if (declaration) {
+        processNode(declaration, scope);
+        for (const name of getDeclaredNames(declaration)) {
+          moduleExports.push({ module: modulePath, name: isDefault ? 'default' : name, local: name });
+        }
+        return;
+      }
+
+      if (specifier) {
+        // `export { a as b } from './x'`, `export * as ns from './x'` and `export * from './x'`
+        addImport(specifier);
+        const namespaceExport = exportNode.namedChildren.find(child => child.type === 'namespace_export');
+        const namespaceName = namespaceExport?.namedChildren[0];
+
+        if (exportClause) {
+          for (const exportSpecifier of exportClause.namedChildren.filter(child => child.type === 'export_specifier')) {
+            const nameNode = exportSpecifier.childForFieldName('name');
+            const aliasNode = exportSpecifier.childForFieldName('alias');
+            if (nameNode) {
+              moduleExports.push({ module: modulePath, name: getText(aliasNode || nameNode), specifier, imported: getText(nameNode) });
+            }
+          }
+        } else if (namespaceName) {
+          moduleExports.push({ module: modulePath, name: getText(namespaceName), specifier, imported: '*' });
+        } else {
+          moduleExports.push({ module: modulePath, name: '*', specifier, imported: '*' });
+        }
+        return;
+      }
+
+      if (exportClause) {
+        for (const exportSpecifier of exportClause.namedChildren.filter(child => child.type === 'export_specifier')) {
+          const nameNode = exportSpecifier.childForFieldName('name');
+          const aliasNode = exportSpecifier.childForFieldName('alias');
+          if (nameNode) {
+            moduleExports.push({ module: modulePath, name: getText(aliasNode || nameNode), local: getText(nameNode) });
+          }
+        }
+        return;
+      }
+
+      // `export default expression`, or TypeScript's CommonJS `export = name`
+      const expression = value || exportNode.namedChildren.find(child => child.type !== 'comment' && child.type !== 'decorator');
+      if (expression) {
+        processDefaultExport(expression, scope);
+      }
+    };
+
+    // Anonymous functions and classes exported as a module's default export are
+    // named `default`, or after the function or class expression's own name
+    const processDefaultExport = (expression: SyntaxNode, scope: TypeScriptScope) => {
+      const ownName = expression.childForFieldName('name');
+      const name = ownName ? getText(ownName) : 'default';
+
+      if (expression.type === 'identifier') {
+        moduleExports.push({ module: modulePath, name: 'default', local: getText(expression) });
+      } else if (['arrow_function', 'function_expression', 'generator_function'].includes(expression.type)) {
+        processFunction(expression, name, scope, `export default ${getHeader(expression, expression.childForFieldName('body'))}`);
+        moduleExports.push({ module: modulePath, name: 'default', local: name });
+      } else if (expression.type === 'class') {
+        processClass(expression, name, scope);
+        moduleExports.push({ module: modulePath, name: 'default', local: name });
+      } else {
+        processNode(expression, scope);
+      }
+    };
+
+    // CommonJS exports: `module.exports = ...`, `exports.name = ...` and
+    // `module.exports.name = ...` at the top level of a module
+    const processCommonJsExport = (assignment: SyntaxNode, scope: TypeScriptScope): boolean => {
+      const target = getDottedName(assignment.childForFieldName('left'));
+      const right = assignment.childForFieldName('right');
+      if (scope.kind !== 'module' || !target || !right) return false;
+
+      if (target === 'module.exports') {
+        const specifier = getRequiredSpecifier(right);
+        if (specifier) {
+          moduleExports.push({ module: modulePath, name: '*', specifier, imported: '*' });
+        } else if (right.type === 'object') {
+          // `module.exports = { a, b: c }` exports each property
+          for (const property of right.namedChildren) {
+            const key = property.type === 'pair' ? property.childForFieldName('key') : property;
+            const local = property.type === 'pair' ? property.childForFieldName('value') : property;
+            if (key && local && (local.type === 'identifier' || local.type === 'shorthand_property_identifier')) {
+              moduleExports.push({ module: modulePath, name: getText(key), local: getText(local) });
+            }
+          }
+        } else {
+          processDefaultExport(right, scope);
+          return true;
+        }
+        processNode(right, scope);
+        return true;
+      }
+
+      const exportMatch = target.match(/^(?:module\.)?exports\.([\w$]+)$/);
+      if (!exportMatch) return false;
+
+      const name = exportMatch[1];
+      if (['arrow_function', 'function_expression', 'generator_function'].includes(right.type)) {
+        processFunction(right, name, scope, `${target} = ${getHeader(right, right.childForFieldName('body'))}`);
+        moduleExports.push({ module: modulePath, name, local: name });
+      } else if (right.type === 'class') {
+        processClass(right, name, scope);
+        moduleExports.push({ module: modulePath, name, local: name });
+      } else {
+        if (right.type === 'identifier') {
+          moduleExports.push({ module: modulePath, name, local: getText(right) });
+        }
+        processNode(right, scope);
+      }
+      return true;
+    };
+
+    // Dispatch declarations, imports, exports and calls to their handlers.
+    // Blocks and control flow keep the scope of their enclosing function
+    const processNode = (node: SyntaxNode, scope: TypeScriptScope): void => {
+      const nameNode = node.childForFieldName('name');
+      const name = nameNode ? getText(nameNode) : '';
+
+      switch (node.type) {
+        case 'import_statement':
+          processImport(node);
+          break;
+
+        case 'export_statement':
+          processExport(node, scope);
+          break;
+
+        case 'function_declaration':
+        case 'generator_function_declaration':
+        case 'function_signature':
+          processFunction(node, name, scope, getHeader(node, node.childForFieldName('body')));
+          break;
+
+        case 'class_declaration':
+        case 'abstract_class_declaration':
+          processClass(node, name, scope);
+          break;
+
+        case 'interface_declaration':
+          processInterface(node, name, scope);
+          break;
+
+        case 'type_alias_declaration':
+        case 'enum_declaration':
+          processTypeDeclaration(node, name, scope);
+          break;
+
+        case 'lexical_declaration':
+        case 'variable_declaration':
+          processVariableDeclaration(node, scope);
+          break;
+
+        // `declare module 'pkg'` and `declare global` describe code outside the module
+        case 'ambient_declaration':
+          if (!node.namedChildren.some(child => child.type === 'module' || child.type === 'statement_block')) {
+            processBlock(node, scope);
+          }
+          break;
+
+        case 'assignment_expression':
+          if (!processCommonJsExport(node, scope)) {
+            processBlock(node, scope);
+          }
+          break;
+
+        // Callbacks see the names of the enclosing scope plus their parameters
+        case 'arrow_function':
+        case 'function_expression':
+        case 'generator_function':
+          processFunctionBody(node, scope);
+          break;
+
+        case 'for_in_statement':
+        case 'catch_clause': {
+          const binding = node.childForFieldName(node.type === 'catch_clause' ? 'parameter' : 'left');
+          for (const localName of getPatternNames(binding)) {
+            scope.locals?.set(localName, undefined);
+          }
+          processBlock(node, scope);
+          break;
+        }
+
+        case 'call_expression': {
+          const specifier = getRequiredSpecifier(node);
+          if (specifier) {
+            addImport(specifier);
+          } else {
+            processCall(node, scope);
+          }
+          processBlock(node, scope);
+          break;
+        }
+
+        case 'new_expression':
+          processCall(node, scope);
+          processBlock(node, scope);
+          break;
+
+        case 'comment':
+          break;
+
+        default:
+          processBlock(node, scope);
+      }
+    };
+
+    const processBlock = (node: SyntaxNode, scope: TypeScriptScope): void => {
+      for (const child of node.namedChildren) {
+        processNode(child, scope);
+      }
+    };
+
+    nodes.push({
+      id: moduleId,
+      type: 'module',
+      name: moduleName,
+      path: modulePath,
+      file: filePath
+    });
+    nodeIds.add(moduleId);
+
+    // Module scope owns top-level declarations, giving module -> declaration `contains` edges
+    processBlock(tree.rootNode, { kind: 'module', qualifiedName: '', id: moduleId });
+
+    // Top-level declarations are public when exported; nested functions are private
+    const exportedLocals = new Set(moduleExports.map(moduleExport => moduleExport.local));
+    const topLevelIds = new Set(dependencies
+      .filter(dep => dep.type === 'contains' && dep.source === moduleId)
+      .map(dep => dep.target));
+
+    return {
+      nodes: nodes.map((node): TypeScriptNode => {
+        if (node.type === 'module' || node.visibility) return node;
+        const isPublic = topLevelIds.has(node.id) && exportedLocals.has(node.name);
+        return { ...node, visibility: isPublic ? 'public' : 'private' };
+      }),
+      dependencies,
+      bindings,
+      exports: moduleExports,
+      calls
+    };
+  } catch (error) {
+    console.error(`Error parsing TypeScript file ${filePath}:`, error);
+    return { nodes: [], dependencies: [], bindings: [], exports: [], calls: [] };
+  }
+};
+
+// Split a node ID (`type:path:qualifiedName`) into its module path and qualified name
+const splitId = (id: string): { path: string, qualifiedName: string } => {
+  const [, idPath = '', ...rest] = id.split(':');
+  return { path: idPath, qualifiedName: rest.join(':') };
+};
+
+// What a name resolves to: a project node, a whole project module, or a
+// package outside the project
+type ResolvedName = { id?: string, module?: string, external?: string };
+
+// Resolve import, call and inheritance targets to the IDs of project nodes,
+// following import bindings and re-exports between modules. Imports of
+// packages outside the project become `external` nodes; duplicate edges are merged
+const resolveTypeScriptDependencies = (
+  nodes: TypeScriptNode[],
+  dependencies: TypeScriptDependency[],
+  bindings: TypeScriptImportBinding[],
+  moduleExports: TypeScriptExport[],
+  calls: TypeScriptCallSite[],
+  resolveSpecifier: (modulePath: string, specifier: string) => string | undefined
+): { nodes: TypeScriptNode[], dependencies: TypeScriptDependency[] } => {
+  const nodeIds = new Set(nodes.map(node => node.id));
+
+  // Declarations keyed by `modulePath:qualifiedName`. A class wins over an
+  // interface merged into it, since only the class has methods
+  const symbols = new Map<string, string>();
+  const moduleIds = new Map<string, string>();
+  for (const node of nodes) {
+    if (node.type === 'module') {
+      moduleIds.set(node.path, node.id);
+    } else if (node.type !== 'external') {
+      const key = `${node.path}:${splitId(node.id).qualifiedName}`;
+      if (!symbols.has(key) || node.type === 'class') {
+        symbols.set(key, node.id);
+      }
+    }
+  }
+
+  const importsByModule = new Map<string, Map<string, TypeScriptImportBinding>>();
+  for (const binding of bindings) {
+    if (!importsByModule.has(binding.module)) {
+      importsByModule.set(binding.module, new Map());
+    }
+    importsByModule.get(binding.module)!.set(binding.name, binding);
+  }
+
+  // Exports by module and name, with `export * from` kept separately
+  const exportsByModule = new Map<string, Map<string, TypeScriptExport>>();
+  const starExportsByModule = new Map<string, TypeScriptExport[]>();
+  for (const moduleExport of moduleExports) {
+    if (moduleExport.name === '*') {
+      starExportsByModule.set(moduleExport.module, [...(starExportsByModule.get(moduleExport.module) || []), moduleExport]);
+    } else {
+      if (!exportsByModule.has(moduleExport.module)) {
+        exportsByModule.set(moduleExport.module, new Map());
+      }
+      exportsByModule.get(moduleExport.module)!.set(moduleExport.name, moduleExport);
+    }
+  }
+
+  // The module a specifier imports. Bare specifiers that are not path aliases
+  // name packages; unresolved relative imports (assets, generated files) are dropped
+  const resolveModule = (modulePath: string, specifier: string): ResolvedName => {
+    const target = resolveSpecifier(modulePath, specifier);
+    if (target !== undefined) return { module: target };
+    return specifier.startsWith('.') || specifier.startsWith('/') ? {} : { external: getPackageName(specifier) };
+  };
+
+  // Resolve a name exported by a module, following re-exports
+  const resolveExport = (modulePath: string, name: string, depth = 0): ResolvedName => {
+    if (name === '*') return { module: modulePath };
+    if (depth > 10) return {};
+
+    const exported = exportsByModule.get(modulePath)?.get(name);
+    if (exported?.local) {
+      return resolveLocal(modulePath, exported.local, depth + 1);
+    }
+    if (exported?.specifier) {
+      const source = resolveModule(modulePath, exported.specifier);
+      return source.module !== undefined ? resolveExport(source.module, exported.imported || name, depth + 1) : source;
+    }
+
+    // `export *` re-exports every name but the default export
+    if (name !== 'default') {
+      for (const starExport of starExportsByModule.get(modulePath) || []) {
+        const source = resolveModule(modulePath, starExport.specifier || '');
+        const resolved = source.module !== undefined ? resolveExport(source.module, name, depth + 1) : {};
+        if (resolved.id || resolved.module !== undefined) return resolved;
+      }
+    }
+
+    return {};
+  };
+
+  // Resolve a module-level name: a declaration of the module or an import binding
+  const resolveLocal = (modulePath: string, name: string, depth = 0): ResolvedName => {
+    const id = symbols.get(`${modulePath}:${name}`);
+    if (id) return { id };
+
+    const binding = importsByModule.get(modulePath)?.get(name);
+    if (!binding || depth > 10) return {};
+
+    const source = resolveModule(modulePath, binding.specifier);
+    return source.module !== undefined ? resolveExport(source.module, binding.imported, depth + 1) : source;
+  };
+
+  // Resolve inheritance first so methods can be looked up through base classes
+  const basesByClass = new Map<string, string[]>();
+
+  // Find a method on a class or, breadth-first, on its base classes
+  const resolveMethod = (classId: string, methodName: string): ResolvedName => {
+    const queue = [classId];
+    const seen = new Set<string>();
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+
+      if (current.startsWith('external:')) {
+        return { external: splitId(current).qualifiedName };
+      }
+
+      const { path: classPath, qualifiedName } = splitId(current);
+      const methodId = generateId('method', `${qualifiedName}.${methodName}`, classPath);
+      if (nodeIds.has(methodId)) return { id: methodId };
+
+      queue.push(...(basesByClass.get(current) || []));
+    }
+
+    return {};
+  };
+
+  // A member of a resolved name: an export of a module (`ns.helper`) or a
+  // static method of a class (`Service.create`)
+  const resolveMember = (resolved: ResolvedName, member: string): ResolvedName => {
+    if (resolved.module !== undefined) return resolveExport(resolved.module, member);
+    if (resolved.id?.startsWith('class:')) return resolveMethod(resolved.id, member);
+    return resolved.external ? resolved : {};
+  };
+
+  // Resolve a dotted name as written in a scope: enclosing functions from the
+  // innermost outwards, then module-level declarations and imports
+  const resolveInScope = (modulePath: string, scope: string, name: string): ResolvedName => {
+    const [head, ...rest] = name.split('.');
+    const scopeParts = scope ? scope.split('.') : [];
+    let resolved: ResolvedName = {};
+
+    for (let i = scopeParts.length; i > 0 && !resolved.id; i--) {
+      const id = symbols.get(`${modulePath}:${[...scopeParts.slice(0, i), head].join('.')}`);
+      if (id) resolved = { id };
+    }
+    if (!resolved.id) {
+      resolved = resolveLocal(modulePath, head);
+    }
+
+    for (const member of rest) {
+      resolved = resolveMember(resolved, member);
+    }
+    return resolved;
+  };
+
+  const externalNodes = new Map<string, TypeScriptNode>();
+  const toTarget = (resolved: ResolvedName): string | undefined => {
+    if (resolved.id) return resolved.id;
+    if (resolved.module !== undefined) return moduleIds.get(resolved.module);
+    if (!resolved.external) return undefined;
+
+    const id = generateId('external', resolved.external, '');
+    if (!externalNodes.has(id)) {
+      externalNodes.set(id, {
+        id,
+        type: 'external',
+        name: resolved.external,
+        path: resolved.external,
+        file: ''
+      });
+    }
+    return id;
+  };
+
+  const resolvedDependencies: TypeScriptDependency[] = [];
+
+  for (const dep of dependencies) {
+    const source = splitId(dep.source);
+    const target = splitId(dep.target);
+    let resolved: string | undefined;
+
+    switch (dep.type) {
+      case 'extends':
+      case 'implements': {
+        // Base types are looked up in the scope enclosing the class or interface
+        const enclosingScope = source.qualifiedName.split('.').slice(0, -1).join('.');
+        const base = resolveInScope(source.path, enclosingScope, target.qualifiedName);
+        resolved = base.module === undefined ? toTarget(base) : undefined;
+
+        if (resolved && dep.type === 'extends') {
+          basesByClass.set(dep.source, [...(basesByClass.get(dep.source) || []), resolved]);
+        }
+        break;
+      }
+
+      case 'imports':
+        resolved = toTarget(resolveModule(source.path, target.qualifiedName));
+        break;
+
+      default:
+        resolved = nodeIds.has(dep.target) ? dep.target : undefined;
+    }
+
+    if (resolved) {
+      resolvedDependencies.push({ ...dep, target: resolved });
+    }
+  }
+
+  for (const call of calls) {
+    const [receiver, ...rest] = call.callee.split('.');
+    const classId = call.className ? symbols.get(`${call.module}:${call.className}`) : undefined;
+    let resolved: ResolvedName = {};
+
+    if (receiver === 'this' || receiver === 'super') {
+      // `this.method()` looks up the class and its bases, `super.method()` only
+      // the bases, and `super()` calls the base class constructor
+      const bases = classId ? basesByClass.get(classId) || [] : [];
+      if (classId && receiver === 'this' && rest.length === 1) {
+        resolved = resolveMethod(classId, rest[0]);
+      } else if (receiver === 'super' && rest.length === 0) {
+        resolved = bases.length > 0 ? { id: bases[0] } : {};
+      } else if (receiver === 'super' && rest.length === 1) {
+        resolved = bases.map(base => resolveMethod(base, rest[0])).find(method => method.id || method.external) || {};
+      }
+    } else if (call.receiverType) {
+      const type = resolveInScope(call.module, call.scope, call.receiverType);
+      resolved = type.id?.startsWith('class:') ? resolveMethod(type.id, rest[0]) : type.external ? type : {};
+    } else {
+      resolved = resolveInScope(call.module, call.scope, call.callee);
+      // Calling a module calls its default export, as with a CommonJS module
+      // whose `module.exports` is a function
+      if (resolved.module !== undefined) {
+        resolved = resolveExport(resolved.module, 'default');
+      }
+    }
+
+    const target = resolved.module === undefined ? toTarget(resolved) : undefined;
+    if (target) {
+      resolvedDependencies.push({ source: call.source, target, type: 'calls' });
+    }
+  }
+
+  // Merge repeated edges, counting them in the weight
+  const mergedDependencies = new Map<string, TypeScriptDependency>();
+  for (const dep of resolvedDependencies) {
+    const key = `${dep.type}|${dep.source}|${dep.target}`;
+    const existing = mergedDependencies.get(key);
+    if (existing) {
+      existing.weight = (existing.weight || 1) + (dep.weight || 1);
+    } else {
+      mergedDependencies.set(key, { ...dep });
+    }
+  }
+
+  return {
+    nodes: [...nodes, ...externalNodes.values()],
+    dependencies: [...mergedDependencies.values()]
+  };
+};
+
+// Parse a TypeScript or JavaScript project and generate a TypeScriptProject object
+export const parseTypeScriptProject = async (
+  projectPath: string,
+  filter?: FileFilter,
+  onFileParsed?: FileParsedListener,
+  cache?: ParseCache
+): Promise<TypeScriptProject> => {
+  // Find all TypeScript and JavaScript files in the project
+  const sourceFiles = findTypeScriptFiles(projectPath, filter);
+  const modulePaths = new Map(sourceFiles.map(filePath => [filePath, getModulePath(projectPath, filePath)]));
+  const filesByModule = new Map([...modulePaths].map(([filePath, modulePath]) => [modulePath, filePath]));
+  const resolveModulePath = createModuleResolver(projectPath, modulePaths);
+
+  // The regex parser can be forced for comparison or to work around parser bugs
+  const useRegexParser = process.env.VISCODE_TYPESCRIPT_PARSER === 'regex';
+
+  const allNodes: TypeScriptNode[] = [];
+  const allDependencies: TypeScriptDependency[] = [];
+  const allBindings: TypeScriptImportBinding[] = [];
+  const allExports: TypeScriptExport[] = [];
+  const allCalls: TypeScriptCallSite[] = [];
+
+  // Parse the files that changed since the last analysis, with the TSX grammar
+  // for JavaScript and JSX
+  const tasks: { filePath: string, modulePath: string, dialect: 'typescript' | 'tsx', regex: boolean }[] = [];
+  for (const filePath of sourceFiles) {
+    const dialect = /\.[cm]?ts$/.test(filePath) ? 'typescript' : 'tsx';
+    const parser = useRegexParser ? null : await loadTypeScriptParser(dialect);
+    tasks.push({ filePath, modulePath: modulePaths.get(filePath)!, dialect, regex: !parser });
+  }
+  const results = await parseWithCache(cache, `typescript:${PARSER_VERSION}`, tasks, async changed => {
+    const parsed: TypeScriptFileParseResult[] = [];
+    for (const { filePath, modulePath, dialect, regex } of changed) {
+      const parser = regex ? null : await loadTypeScriptParser(dialect);
+      parsed.push(parser
+        ? parseTypeScriptFile(filePath, modulePath, parser)
+        : parseTypeScriptFileSimple(filePath, modulePath));
+      onFileParsed?.(filePath);
+    }
+    return parsed;
+  }, onFileParsed);
+
+  for (const result of results) {
+    allNodes.push(...result.nodes);
+    allDependencies.push(...result.dependencies);
+    allBindings.push(...result.bindings);
+    allExports.push(...result.exports);
+    allCalls.push(...result.calls);
+  }
+
+  // Resolve import, call and inheritance targets against the whole project
+  const resolved = resolveTypeScriptDependencies(
+    allNodes,
+    allDependencies,
+    allBindings,
+    allExports,
+    allCalls,
+    (modulePath, specifier) => resolveModulePath(filesByModule.get(modulePath) || projectPath, specifier)
+  );
+
+  // Create project name from directory name
+  const projectName = path.basename(projectPath);
+
+  return {
+    name: projectName,
+    root: projectPath,
+    nodes: resolved.nodes,
+    dependencies: resolved.dependencies
+  };
+};
+
+// Convert TypeScriptProject to GraphData for visualization
+export const convertToGraphData = (project: TypeScriptProject): TypeScriptGraphData => {
+  const nodeTypes = {
+    module: { val: 15, color: '#FF9800' },
+    function: { val: 5, color: '#4285F4' },
+    class: { val: 10, color: '#EA4335' },
+    method: { val: 3, color: '#03A9F4' },
+    interface: { val: 8, color: '#34A853' },
+    type: { val: 4, color: '#8BC34A' },
+    enum: { val: 6, color: '#FBBC05' },
+    external: { val: 2, color: '#BDBDBD' }
+  };
+
+  // Map nodes to graph format
+  const graphNodes = project.nodes.map(node => {
+    const nodeType = nodeTypes[node.type];
+
+    return {
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      val: nodeType.val,
+      color: nodeType.color,
+      group: node.path,
+      path: node.path,
+      file: node.file,
+      signature: node.signature,
+      description: node.description,
+      visibility: node.visibility
+    };
+  });
+
+  // Map dependencies to links
+  const links = project.dependencies.map(dep => ({
+    source: dep.source,
+    target: dep.target,
+    type: dep.type,
+    value: dep.weight || 1
+  }));
+
+  return {
+    nodes: graphNodes,
+    links
+  };
+};
+
+// Convert TypeScriptProject to hierarchical data for tree visualization, with
+// directories and modules nested by their `/`-separated paths
+export const convertToHierarchicalData = (project: TypeScriptProject): TypeScriptHierarchicalData => {
+  const modules: Record<string, TypeScriptTreeNode> = {};
+
+  // Module nodes stand for the path they are defined at
+  const containers = new Map<string, TypeScriptNode>();
+  for (const node of project.nodes) {
+    if (node.type === 'module') {
+      containers.set(node.path, node);
+    }
+  }
+
+  // Create module nodes, using the parsed module where there is one
+  for (const node of project.nodes) {
+    const pathParts = node.path.split('/');
+    let currentPath = '';
+
+    for (const part of pathParts) {
+      currentPath = currentPath ? `${currentPath}/${part}` : part;
+
+      if (!modules[currentPath]) {
+        const container = containers.get(currentPath);
+        modules[currentPath] = {
+          id: container ? container.id : `module:${currentPath}`,
+          name: part,
+          type: 'module',
+          path: currentPath,
+          file: container?.file,
+          children: []
+        };
+      }
+    }
+  }
+
+  // Build the module hierarchy
+  Object.keys(modules).forEach(modulePath => {
+    const lastSlashIndex = modulePath.lastIndexOf('/');
+    if (lastSlashIndex !== -1) {
+      const parentPath = modulePath.substring(0, lastSlashIndex);
+      if (modules[parentPath]) {
+        modules[parentPath].children.push(modules[modulePath]);
+      }
+    }
+  });
+
+  // Nest methods and nested functions under their enclosing declaration
+  const parentIds = new Map<string, string>();
+  for (const dep of project.dependencies) {
+    if (dep.type === 'contains') {
+      parentIds.set(dep.target, dep.source);
+    }
+  }
+
+  const treeNodes = new Map<string, TypeScriptTreeNode>();
+  for (const node of project.nodes) {
+    if (node.type !== 'module') {
+      treeNodes.set(node.id, {
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        path: node.path,
+        file: node.file,
+        signature: node.signature,
+        description: node.description,
+        visibility: node.visibility,
+        children: []
+      });
+    }
+  }
+
+  // Add nodes to their parent declaration, or else to their module
+  for (const node of project.nodes) {
+    const treeNode = treeNodes.get(node.id);
+    if (!treeNode) {
+      continue;
+    }
+
+    const parent = treeNodes.get(parentIds.get(node.id) || '');
+    if (parent) {
+      parent.children.push(treeNode);
+    } else if (modules[node.path]) {
+      modules[node.path].children.push(treeNode);
+    }
+  }
+
+  // Find root modules (those without parents)
+  const rootModules = Object.values(modules).filter(module => {
+    const modulePath = module.path || '';
+    return !modulePath.includes('/') || !modules[modulePath.substring(0, modulePath.lastIndexOf('/'))];
+  });
+
+  return {
+    name: project.name,
+    children: rootModules
+  };
+};
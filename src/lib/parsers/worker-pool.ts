@@ -0,0 +1,164 @@
+// This module is server-only and should not be imported from client components
+// Parses the files of large projects in parallel on a pool of worker threads.
+// Each worker loads the parsers itself (see parse-worker.ts); small projects,
+// single-core machines and workers that fail to start fall back to parsing on
+// the main thread. VISCODE_PARSE_WORKERS sets the pool size, 0 disables it.
+// In production the workers run the entry point `npm run build` compiles with
+// tsconfig.worker.json; in development, its source compiled on the fly by ts-node
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+
+// Kinds of task the workers run, by the parser that handles them
+export type ParseTaskKind = 'python' | 'rust';
+
+// Smaller batches are parsed on the main thread: handing them to workers costs more than it saves
+const MIN_POOL_TASKS = 64;
+
+// Most workers started, however many cores the machine has
+const MAX_POOL_SIZE = 8;
+
+// Entry point of the workers, as built into the tsconfig.worker.json outDir and as source
+const BUILT_WORKER_PATH = path.join(process.cwd(), '.next', 'parse-worker', 'lib', 'parsers', 'parse-worker.js');
+const SOURCE_WORKER_PATH = path.join(process.cwd(), 'src', 'lib', 'parsers', 'parse-worker.ts');
+
+const WORKER_BOOTSTRAP = `
+const { workerData } = require('worker_threads');
+if (workerData.workerPath.endsWith('.ts')) {
+  require('ts-node').register({
+    transpileOnly: true,
+    compilerOptions: { module: 'commonjs', moduleResolution: 'node' }
+  });
+}
+require(workerData.workerPath);
+`;
+
+// The built entry point in production, else the source, which may be newer than the last build
+const getWorkerPath = (): string | null => {
+  const candidates = process.env.NODE_ENV === 'production'
+    ? [BUILT_WORKER_PATH, SOURCE_WORKER_PATH]
+    : [SOURCE_WORKER_PATH];
+  return candidates.find(candidate => fs.existsSync(candidate)) || null;
+};
+
+// A task's result, or the message of the error it threw, under the task's ID
+type WorkerReply = { id: number, result?: unknown, error?: string };
+
+// Started workers, shared by all parses; they don't keep the process alive while idle
+let workers: Worker[] = [];
+
+// Set when a worker fails to start, so later parses don't retry
+let poolUnavailable = false;
+
+// Tasks are told apart by ID, as parses outside the job queue may share a worker with a job's
+let nextTaskId = 0;
+
+// Tasks running on each worker; a worker keeps the process alive while it has any
+const pendingTasks = new Map<Worker, number>();
+
+// Number of workers: VISCODE_PARSE_WORKERS, or one per core but the main thread's
+export const getPoolSize = (): number => {
+  const configured = Number(process.env.VISCODE_PARSE_WORKERS);
+  if (process.env.VISCODE_PARSE_WORKERS && Number.isInteger(configured) && configured >= 0) {
+    return configured;
+  }
+  return Math.min(MAX_POOL_SIZE, os.cpus().length - 1);
+};
+
+// Start workers until the pool has its full size
+const getWorkers = (): Worker[] => {
+  const size = getPoolSize();
+  const workerPath = getWorkerPath();
+  if (poolUnavailable || size < 1 || !workerPath) {
+    return [];
+  }
+
+  while (workers.length < size) {
+    const worker = new Worker(WORKER_BOOTSTRAP, { eval: true, workerData: { workerPath } });
+    worker.on('error', error => {
+      console.warn('Parse worker failed, parsing on the main thread instead:', error);
+      poolUnavailable = true;
+    });
+    worker.on('exit', () => {
+      workers = workers.filter(other => other !== worker);
+      pendingTasks.delete(worker);
+    });
+    worker.unref();
+    workers.push(worker);
+  }
+  return workers;
+};
+
+// Run a task on a worker, rejecting if the task throws or the worker dies
+const runOnWorker = <Task, Result>(worker: Worker, kind: ParseTaskKind, task: Task): Promise<Result> =>
+  new Promise((resolve, reject) => {
+    const id = nextTaskId++;
+    const onMessage = (reply: WorkerReply) => {
+      if (reply.id !== id) return;
+      cleanup();
+      if (reply.error !== undefined) {
+        reject(new Error(reply.error));
+      } else {
+        resolve(reply.result as Result);
+      }
+    };
+    const onExit = () => {
+      cleanup();
+      reject(new Error('Parse worker exited'));
+    };
+    const cleanup = () => {
+      worker.off('message', onMessage);
+      worker.off('exit', onExit);
+      // Workers that exited have no count left
+      const pending = pendingTasks.get(worker);
+      if (pending === undefined) return;
+      pendingTasks.set(worker, pending - 1);
+      if (pending === 1) {
+        worker.unref();
+      }
+    };
+
+    worker.on('message', onMessage);
+    worker.on('exit', onExit);
+    pendingTasks.set(worker, (pendingTasks.get(worker) || 0) + 1);
+    worker.ref();
+    worker.postMessage({ id, kind, task });
+  });
+
+// Run a batch of parse tasks, on the workers when the batch is large enough.
+// Results are in the order of the tasks; a task that fails on a worker is run
+// again on the main thread
+export const runParseTasks = async <Task, Result>(
+  kind: ParseTaskKind,
+  tasks: Task[],
+  runLocally: (task: Task) => Promise<Result>,
+  onTaskDone?: (task: Task) => void
+): Promise<Result[]> => {
+  const results: Result[] = new Array(tasks.length);
+  const pool = tasks.length >= MIN_POOL_TASKS ? getWorkers() : [];
+
+  if (pool.length === 0) {
+    for (const [i, task] of tasks.entries()) {
+      results[i] = await runLocally(task);
+      onTaskDone?.(task);
+    }
+    return results;
+  }
+
+  // Each worker takes the next task as soon as it is done with the previous one
+  let next = 0;
+  const drain = async (worker: Worker) => {
+    while (next < tasks.length) {
+      const i = next++;
+      results[i] = poolUnavailable || !workers.includes(worker)
+        ? await runLocally(tasks[i])
+        : await runOnWorker<Task, Result>(worker, kind, tasks[i]).catch(() => runLocally(tasks[i]));
+      onTaskDone?.(tasks[i]);
+    }
+  };
+  await Promise.all(pool.map(drain));
+
+  return results;
+};
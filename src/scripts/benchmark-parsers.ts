@@ -0,0 +1,152 @@
+// Times the Python and Rust project parsers on a generated repository, by default
+// of 5,000 files per language: npm run benchmark -- [--files N] [--language python|rust]
+// VISCODE_PARSE_WORKERS sets the size of the parse pool, 0 parses on the main thread
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parsePythonProject } from '../lib/parsers/python-parser';
+import { parseRustProject } from '../lib/parsers/rust-parser';
+import { getPoolSize } from '../lib/parsers/worker-pool';
+
+// Modules per package or module directory of the generated repositories
+const MODULES_PER_GROUP = 100;
+
+// Write a file, creating its directory
+const writeFile = (filePath: string, content: string) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+};
+
+// A Python repository of packages of modules, each with a class and functions
+// calling into the previous module of the package
+const generatePythonProject = (root: string, fileCount: number) => {
+  const groups = Math.ceil(fileCount / MODULES_PER_GROUP);
+  for (let g = 0; g < groups; g++) {
+    const modules = Math.min(MODULES_PER_GROUP, fileCount - g * MODULES_PER_GROUP) - 1;
+    writeFile(path.join(root, `pkg${g}`, '__init__.py'), `"""Package ${g}."""\n\nfrom .mod0 import Service0\n`);
+
+    for (let m = 0; m < modules; m++) {
+      const previous = m > 0 ? `from .mod${m - 1} import Service${m - 1}, helper${m - 1}\n` : '';
+      const call = m > 0 ? `        return helper${m - 1}(Service${m - 1}().run(value))\n` : '        return value\n';
+      writeFile(path.join(root, `pkg${g}`, `mod${m}.py`), [
+        `"""Module ${m} of package ${g}."""`,
+        'import os',
+        previous,
+        `LIMIT_${m} = ${m}`,
+        '',
+        `def helper${m}(value):`,
+        `    """Clamp a value."""`,
+        `    return min(value, LIMIT_${m})`,
+        '',
+        `class Service${m}:`,
+        `    """Service ${m}."""`,
+        '',
+        '    def __init__(self):',
+        '        self.root = os.getcwd()',
+        '',
+        '    def run(self, value):',
+        call,
+        '    def _check(self, value):',
+        `        return self.run(value) > LIMIT_${m}`,
+        ''
+      ].join('\n'));
+    }
+  }
+};
+
+// A Rust crate whose root declares module directories of modules, each with a
+// struct, a trait impl and functions calling into the previous module
+const generateRustProject = (root: string, fileCount: number) => {
+  const groups = Math.ceil((fileCount - 1) / (MODULES_PER_GROUP + 1));
+  writeFile(path.join(root, 'Cargo.toml'), '[package]\nname = "bench"\nversion = "0.1.0"\nedition = "2021"\n');
+  writeFile(path.join(root, 'src', 'lib.rs'), [
+    '//! Generated benchmark crate',
+    'pub trait Run {',
+    '    fn run(&self, value: u32) -> u32;',
+    '}',
+    ...Array.from({ length: groups }, (_, g) => `pub mod group${g};`),
+    ''
+  ].join('\n'));
+
+  let written = 1;
+  for (let g = 0; g < groups; g++) {
+    const modules = Math.min(MODULES_PER_GROUP, fileCount - written - 1);
+    written += modules + 1;
+    writeFile(path.join(root, 'src', `group${g}.rs`), [
+      ...Array.from({ length: modules }, (_, m) => `pub mod module${m};`),
+      ''
+    ].join('\n'));
+
+    for (let m = 0; m < modules; m++) {
+      const call = m > 0 ? `super::module${m - 1}::helper(value)` : 'value';
+      writeFile(path.join(root, 'src', `group${g}`, `module${m}.rs`), [
+        'use crate::Run;',
+        '',
+        '#[derive(Debug, Clone)]',
+        `pub struct Service${m} {`,
+        '    limit: u32,',
+        '}',
+        '',
+        `impl Service${m} {`,
+        '    pub fn new() -> Self {',
+        `        Self { limit: ${m} }`,
+        '    }',
+        '}',
+        '',
+        `impl Run for Service${m} {`,
+        '    fn run(&self, value: u32) -> u32 {',
+        '        helper(value).min(self.limit)',
+        '    }',
+        '}',
+        '',
+        '/// Forward a value down the module chain',
+        'pub fn helper(value: u32) -> u32 {',
+        `    ${call}`,
+        '}',
+        ''
+      ].join('\n'));
+    }
+  }
+};
+
+const PARSERS = {
+  python: { generate: generatePythonProject, parse: parsePythonProject },
+  rust: { generate: generateRustProject, parse: parseRustProject }
+};
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const fileCount = Number(option('files') || 5000);
+  const languages = option('language') ? [option('language') as keyof typeof PARSERS] : Object.keys(PARSERS) as (keyof typeof PARSERS)[];
+
+  console.log(`Parse workers: ${getPoolSize() || 'none'}`);
+
+  for (const language of languages) {
+    const { generate, parse } = PARSERS[language];
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), `viscode-benchmark-${language}-`));
+    try {
+      generate(root, fileCount);
+
+      const start = performance.now();
+      const project = await parse(root);
+      const seconds = (performance.now() - start) / 1000;
+
+      console.log(
+        `${language}: ${fileCount} files, ${project.nodes.length} nodes, ` +
+        `${project.dependencies.length} dependencies in ${seconds.toFixed(1)}s`
+      );
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+// Types for the pluggable language analyzers
+
+import { GraphData, HierarchicalData } from './common-types';
+
+// A node or edge type shown in the visibility controls
+export type TypeOption = {
+  id: string;
+  label: string;
+  color: string;
+};
+
+// Sections of the node info panel, rendered in the order listed
+export type InfoPanelSection =
+  | 'signature'
+  | 'definition'
+  | 'path'
+  | 'class'
+  | 'module'
+  | 'visibility'
+  | 'file'
+  | 'fileName'
+  | 'children'
+  | 'docstring'
+  | 'name'
+  | 'type';
+
+// What the client needs to know about a language; sent by GET /api/languages
+export type LanguageProfile = {
+  // Language ID as stored in project metadata, e.g. `rust`
+  id: string;
+  label: string;
+  nodeTypes: TypeOption[];
+  edgeTypes: TypeOption[];
+  // Info panel sections by node type, for node types the panel does not lay out by default
+  infoPanel?: Record<string, InfoPanelSection[]>;
+  // Whether nodes carry `reachable`, so the graph can be restricted to the public API
+  publicApiFilter?: boolean;
+};
+
+// A language analyzer: detection, parsing and graph conversion, together
+// with the client-side profile. Methods take the parsed project as stored in
+// project-data.json
+export type LanguageAnalyzer<Project = unknown> = LanguageProfile & {
+  // Files of the language, e.g. `**/*.rs`; a project with a matching file at
+  // its root is detected as this language
+  fileGlobs: string[];
+  // Build files and manifests marking the root of a sub-project, e.g. `Cargo.toml`
+  manifestFiles: string[];
+  // Build files and other signs of the language beyond its source files
+  detect(projectPath: string): boolean;
+  // Directories below a sub-project root whose manifests belong to its build and
+  // must be parsed with it, e.g. the members of a Cargo workspace. Without it
+  // every nested manifest starts a sub-project of its own
+  getMemberRoots?(rootPath: string): string[];
+  // Without a filter every file of the language below the path is parsed; the
+  // listener is called after each file, to report progress. With a cache only
+  // the files that changed since the last analysis are parsed again
+  parse(projectPath: string, filter?: FileFilter, onFileParsed?: FileParsedListener, cache?: ParseCache): Promise<Project>;
+  toGraphData(project: Project): GraphData;
+  // Without it the hierarchy is built from `::`-separated graph paths
+  toHierarchicalData?(project: Project): HierarchicalData;
+};
+
+// A directory analyzed as one language, found by its build file or manifest
+export type SubProject = {
+  // Language and root, e.g. `python:services/api`
+  id: string;
+  language: string;
+  // Directory relative to the project root, `.` for the root itself
+  root: string;
+  // Build file or manifest marking the root; absent for languages found by their files alone
+  manifest?: string;
+  // Whether the sub-project is analyzed
+  selected: boolean;
+};
+
+// Languages and sub-projects found in an upload, stored in metadata.json
+export type ProjectManifest = {
+  // Number of source files per language
+  files: Record<string, number>;
+  subProjects: SubProject[];
+};
+
+// Settings of a project's .viscode.json, with defaults for the settings it leaves
+// out; the effective settings are stored in metadata.json
+export type ProjectConfig = {
+  // Gitignore-style patterns of the files to analyze; empty to analyze every file
+  include: string[];
+  // Gitignore-style patterns of the files and directories to skip
+  exclude: string[];
+  // Whether files and directories ignored by the project's .gitignore files are skipped
+  gitignore: boolean;
+  // Whether test files, as matched by the test patterns, are analyzed
+  tests: 'include' | 'exclude';
+  testPatterns: string[];
+  // Files larger than this many bytes are skipped, e.g. generated or minified code
+  maxFileSize: number;
+  // Languages by ID to analyze from the root although none was detected (true),
+  // or not to analyze although detected (false)
+  languages: Record<string, boolean>;
+  // Config file the settings were read from; absent when the defaults apply
+  file?: string;
+};
+
+// Called by a parser for each file it has parsed
+export type FileParsedListener = (filePath: string) => void;
+
+// A file to parse, with the inputs its result depends on besides the file's content
+export type ParseCacheTask = { filePath: string };
+
+// Results of parsing files in earlier analyses of a project, by the parser, the
+// task and the content of its file
+export type ParseCache = {
+  get(kind: string, task: ParseCacheTask): unknown;
+  set(kind: string, task: ParseCacheTask, result: unknown): void;
+  // Delete the results no task of the current analysis used
+  prune(): void;
+};
+
+// Decides which directories and files the walkers visit, by the config and
+// .gitignore files of the project they belong to
+export type FileFilter = {
+  config: ProjectConfig;
+  excludesDirectory(fullPath: string): boolean;
+  excludesFile(fullPath: string): boolean;
+};
@@ -9,9 +9,18 @@ export type GraphData = {
     color?: string;
     group?: string;
     path?: string;
+    // Rust crate the item belongs to
+    crate?: string;
     file?: string;
     signature?: string;
+    visibility?: string;
+    reachable?: boolean;
     language?: string;
+    // Language and root the node was merged from, e.g. `python:services/api`,
+    // in a graph of several languages or roots
+    scope?: string;
+    description?: string;
+    attributes?: string[];
   }[];
   links: {
     source: string;
@@ -29,9 +38,12 @@ export type TreeNode = {
   file?: string;
   signature?: string;
   visibility?: string;
+  reachable?: boolean;
   language?: string;
   docstring?: string;
   decorators?: string[];
+  description?: string;
+  attributes?: string[];
   children: TreeNode[];
 };
 
@@ -48,10 +60,44 @@ export type UploadedProject = {
   type: 'git' | 'upload';
   status: 'ready' | 'analyzing' | 'error';
   language?: string;
+  // Checkout of a project cloned from a git repository
+  git?: GitCheckout;
+  // Progress of the background analysis, while it runs or after it failed
+  progress?: AnalysisProgress;
+  // Whether the graph of an earlier analysis is there to visualize, e.g. after a failed refresh
+  hasGraph?: boolean;
 };
 
-// Language type
-export type CodeLanguage = 'rust' | 'python';
+// What a git-backed project was cloned from and is checked out at, stored in metadata.json
+export type GitCheckout = {
+  url: string;
+  // Branch, tag or commit asked for when cloning or refreshing; absent for the default branch
+  ref?: string;
+  // Absent when a tag or commit is checked out
+  branch?: string;
+  commit: string;
+};
+
+// Steps of a project's background analysis
+export type AnalysisPhase = 'queued' | 'extracting' | 'cloning' | 'fetching' | 'detecting' | 'parsing' | 'done' | 'failed';
+
+// Progress of a project's background analysis, as reported by GET /api/projects/:id/status
+export type AnalysisProgress = {
+  status: UploadedProject['status'];
+  phase: AnalysisPhase;
+  // Language being parsed
+  language?: string;
+  filesParsed: number;
+  // Source files of the analyzed languages, as counted when detecting sub-projects
+  totalFiles?: number;
+  errors: string[];
+  updatedAt: number;
+  // Server process running the analysis, so analyses cut short by a restart are not awaited forever
+  processId?: string;
+};
+
+// Language type: the ID of a registered language analyzer, e.g. `rust`
+export type CodeLanguage = string;
 
 // Explicitly define these as string types rather than enums
 export type ViewMode = '3d-force' | 'hierarchical' | 'module-dependency' | 'call-graph';
@@ -0,0 +1,135 @@
+// Types for C and C++ code parsing and visualization
+
+export type CppNode = {
+  id: string;
+  type: 'file' | 'namespace' | 'class' | 'struct' | 'union' | 'enum' | 'function' | 'method' | 'external';
+  name: string;
+  // Path relative to the project root for files; the enclosing namespace,
+  // e.g. `acme::net`, for declarations; the header name for external nodes
+  path: string;
+  file: string;
+  signature?: string;
+  // Text of the Doxygen comment preceding the declaration
+  description?: string;
+  // Access of class members; free functions are private when they have internal linkage
+  visibility?: 'public' | 'protected' | 'private';
+  children?: CppNode[];
+};
+
+export type CppDependency = {
+  source: string;
+  target: string;
+  type: 'calls' | 'includes' | 'extends' | 'contains';
+  weight?: number;
+};
+
+// An `#include` directive of a file
+export type CppInclude = {
+  file: string;
+  // Header as written, e.g. `net/socket.h`
+  header: string;
+  // `<...>` includes search the include path only, `"..."` includes start next to the file
+  system: boolean;
+};
+
+// A `using namespace` directive of a file
+export type CppUsingDirective = {
+  file: string;
+  // Namespace the directive appears in
+  namespace: string;
+  // Namespace named by the directive, as written
+  target: string;
+};
+
+// A function or method that calls can resolve to
+export type CppSymbol = {
+  id: string;
+  // Fully qualified name, e.g. `acme::net::Socket::send`
+  name: string;
+  file: string;
+  kind: 'function' | 'method';
+  // Static functions and members of anonymous namespaces are only visible in their file
+  local: boolean;
+  // Parameter types, which tell overloads apart, e.g. `int` and `const Buffer&`
+  parameters: string[];
+};
+
+// A class, struct, union or enum, with the bases and fields used to resolve calls
+export type CppTypeDeclaration = {
+  id: string;
+  // Fully qualified name, e.g. `acme::net::Socket`; typedef names of C structs
+  // are listed as declarations of their own with the same ID
+  name: string;
+  namespace: string;
+  file: string;
+  kind: 'class' | 'struct' | 'union' | 'enum';
+  // Base classes as written
+  bases: string[];
+  // Types of data members by name, as written
+  fields: Record<string, string>;
+};
+
+// A call expression or object construction, resolved in parseCppProject
+export type CppCallSite = {
+  // ID of the calling function or method
+  source: string;
+  file: string;
+  namespace: string;
+  // Fully qualified name of the class of the calling method
+  className?: string;
+  // Called name as written with member access written as `.`, e.g. `helper`,
+  // `util::log`, `this.buf_.append` or `Socket::create`; the type for a construction
+  callee: string;
+  // Type of the first name of the callee when it is a local or parameter of known type
+  receiverType?: string;
+  // `new Foo(...)` and `Foo foo(...)`
+  isConstructor?: boolean;
+  // Number of arguments, to choose among overloads
+  arguments?: number;
+};
+
+export type CppProject = {
+  name: string;
+  root: string;
+  nodes: CppNode[];
+  dependencies: CppDependency[];
+};
+
+export type CppGraphData = {
+  nodes: {
+    id: string;
+    name: string;
+    type: string;
+    val: number;
+    color?: string;
+    group?: string;
+    path?: string;
+    file?: string;
+    signature?: string;
+    description?: string;
+    visibility?: CppNode['visibility'];
+  }[];
+  links: {
+    source: string;
+    target: string;
+    type: string;
+    value?: number;
+  }[];
+};
+
+export type CppTreeNode = {
+  id: string;
+  name: string;
+  type: string;
+  path?: string;
+  file?: string;
+  signature?: string;
+  description?: string;
+  visibility?: CppNode['visibility'];
+  children: CppTreeNode[];
+};
+
+export type CppHierarchicalData = {
+  name: string;
+  children: CppTreeNode[];
+};
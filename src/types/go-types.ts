@@ -0,0 +1,123 @@
+// Types for Go code parsing and visualization
+
+export type GoNode = {
+  id: string;
+  type: 'module' | 'package' | 'struct' | 'interface' | 'function' | 'method' | 'type' | 'external';
+  name: string;
+  // Import path of the package, e.g. `example.com/app/internal/store`; for
+  // modules the module path and for external nodes the imported path
+  path: string;
+  file: string;
+  signature?: string;
+  // Text of the doc comment preceding the declaration
+  description?: string;
+  // Identifiers starting with an upper-case letter are exported
+  visibility?: 'public' | 'private';
+  children?: GoNode[];
+};
+
+export type GoDependency = {
+  source: string;
+  target: string;
+  type: 'calls' | 'imports' | 'implements' | 'embeds' | 'contains';
+  weight?: number;
+};
+
+// A package imported by a file
+export type GoImport = {
+  // Import path of the importing package
+  package: string;
+  file: string;
+  // Name the package is referred to by in the file: an explicit alias, `.` for
+  // a dot import, `_` for a blank import, or else undefined for the package's own name
+  alias?: string;
+  importPath: string;
+};
+
+// A call expression, resolved in parseGoProject
+export type GoCallSite = {
+  // ID of the calling function or method, or of the package for initializers
+  source: string;
+  package: string;
+  file: string;
+  // Called name as written, e.g. `helper`, `db.Open` or `s.store.Get`
+  callee: string;
+  // Type of the first name of the callee when it is a receiver, parameter or
+  // local variable of known type, as written: e.g. `*Store` or `db.Conn`, or
+  // `New()` for a variable holding the result of a call to `New`
+  receiverType?: string;
+};
+
+// Type information about a declaration, used to resolve method calls and to
+// infer which types implement which interfaces
+export type GoDeclaration = {
+  id: string;
+  package: string;
+  file: string;
+  kind: 'struct' | 'interface' | 'type' | 'function' | 'method';
+  // Type name, function name or `Type.Method` for methods
+  name: string;
+  // Named fields of a struct with their types, as written
+  fields?: Record<string, string>;
+  // Types embedded in a struct or interface, as written
+  embedded?: string[];
+  // Methods declared by an interface
+  methods?: GoMethodShape[];
+  // Parameter and result counts of a function or method
+  shape?: GoMethodShape;
+  // Type of the first result of a function or method, as written
+  resultType?: string;
+};
+
+// Name and arity of a method, which is what interface satisfaction is checked on
+export type GoMethodShape = {
+  name: string;
+  params: number;
+  results: number;
+};
+
+export type GoProject = {
+  name: string;
+  root: string;
+  nodes: GoNode[];
+  dependencies: GoDependency[];
+};
+
+export type GoGraphData = {
+  nodes: {
+    id: string;
+    name: string;
+    type: string;
+    val: number;
+    color?: string;
+    group?: string;
+    path?: string;
+    file?: string;
+    signature?: string;
+    description?: string;
+    visibility?: GoNode['visibility'];
+  }[];
+  links: {
+    source: string;
+    target: string;
+    type: string;
+    value?: number;
+  }[];
+};
+
+export type GoTreeNode = {
+  id: string;
+  name: string;
+  type: string;
+  path?: string;
+  file?: string;
+  signature?: string;
+  description?: string;
+  visibility?: GoNode['visibility'];
+  children: GoTreeNode[];
+};
+
+export type GoHierarchicalData = {
+  name: string;
+  children: GoTreeNode[];
+};
@@ -0,0 +1,119 @@
+// Types for Java and Kotlin code parsing and visualization
+
+export type JavaNode = {
+  id: string;
+  type: 'module' | 'package' | 'class' | 'interface' | 'enum' | 'record' | 'method' | 'function' | 'field' | 'external';
+  name: string;
+  // Package the item is declared in, e.g. `com.acme.api`; for modules the
+  // module name and for external nodes the package referred to
+  path: string;
+  file: string;
+  // Maven or Gradle module the item's source file belongs to
+  module?: string;
+  signature?: string;
+  // Text of the KDoc or Javadoc comment preceding the declaration
+  description?: string;
+  // Java members without a modifier are package-private; Kotlin adds `internal`
+  visibility?: 'public' | 'protected' | 'private' | 'package' | 'internal';
+  children?: JavaNode[];
+};
+
+export type JavaDependency = {
+  source: string;
+  target: string;
+  type: 'calls' | 'imports' | 'extends' | 'implements' | 'contains';
+  weight?: number;
+};
+
+// An import declaration of a file
+export type JavaImport = {
+  file: string;
+  // Package of the importing file
+  package: string;
+  // Imported name without a trailing `.*`, e.g. `java.util.List` or `com.acme.util`
+  name: string;
+  wildcard: boolean;
+  // Java `import static`, which imports members of a class
+  static: boolean;
+  // Kotlin `import a.B as C`
+  alias?: string;
+};
+
+// A type declaration, with the supertypes and fields used to resolve calls
+export type JavaTypeDeclaration = {
+  id: string;
+  package: string;
+  file: string;
+  // Name within the package, with enclosing classes, e.g. `Outer.Inner`
+  name: string;
+  kind: 'class' | 'interface' | 'enum' | 'record';
+  // Supertypes as written; a Kotlin supertype without constructor arguments
+  // is listed under implements until it resolves to a class
+  extends: string[];
+  implements: string[];
+  // Types of fields and properties by name, as written
+  fields: Record<string, string>;
+};
+
+// A method call or constructor invocation, resolved in parseJavaProject
+export type JavaCallSite = {
+  // ID of the calling method or function, or of the class for initializers
+  source: string;
+  file: string;
+  package: string;
+  // Name of the enclosing class within its package, e.g. `Outer.Inner`
+  className?: string;
+  // Called name as written, e.g. `save`, `repo.save`, `this.repo.findAll` or
+  // `Strings.join`; the class name for a constructor invocation
+  callee: string;
+  // Type of the first name of the callee when it is a local or parameter of known type
+  receiverType?: string;
+  // `new Foo()` in Java; Kotlin constructor calls look like function calls
+  isConstructor?: boolean;
+};
+
+export type JavaProject = {
+  name: string;
+  root: string;
+  nodes: JavaNode[];
+  dependencies: JavaDependency[];
+};
+
+export type JavaGraphData = {
+  nodes: {
+    id: string;
+    name: string;
+    type: string;
+    val: number;
+    color?: string;
+    group?: string;
+    path?: string;
+    file?: string;
+    signature?: string;
+    description?: string;
+    visibility?: JavaNode['visibility'];
+  }[];
+  links: {
+    source: string;
+    target: string;
+    type: string;
+    value?: number;
+  }[];
+};
+
+export type JavaTreeNode = {
+  id: string;
+  name: string;
+  type: string;
+  path?: string;
+  file?: string;
+  signature?: string;
+  description?: string;
+  visibility?: JavaNode['visibility'];
+  children: JavaTreeNode[];
+};
+
+export type JavaHierarchicalData = {
+  name: string;
+  children: JavaTreeNode[];
+};
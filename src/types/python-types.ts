@@ -2,13 +2,14 @@
 
 export type PythonNode = {
   id: string;
-  type: 'function' | 'class' | 'method' | 'module' | 'import' | 'variable' | 'constant' | 'decorator';
+  type: 'function' | 'class' | 'method' | 'module' | 'package' | 'import' | 'variable' | 'constant' | 'decorator' | 'external';
   name: string;
   path: string;
   file: string;
   signature?: string;
   docstring?: string;
   decorators?: string[];
+  visibility?: 'public' | 'private';
   children?: PythonNode[];
 };
 
@@ -19,6 +20,16 @@ export type PythonDependency = {
   weight?: number;
 };
 
+// A name bound in a module by an import statement
+export type PythonImportBinding = {
+  // Package path of the importing module
+  module: string;
+  // Local name bound by the import, or '*' for a wildcard import
+  name: string;
+  // Dotted path of the imported module or symbol, possibly relative (`..a.b`)
+  target: string;
+};
+
 export type PythonProject = {
   name: string;
   root: string;
@@ -38,6 +49,7 @@ export type PythonGraphData = {
     path?: string;
     file?: string;
     signature?: string;
+    visibility?: 'public' | 'private';
   }[];
   links: {
     source: string;
@@ -54,6 +66,7 @@ export type PythonTreeNode = {
   path?: string;
   file?: string;
   signature?: string;
+  visibility?: 'public' | 'private';
   children: PythonTreeNode[];
 };
 
@@ -2,24 +2,83 @@
 
 export type RustNode = {
   id: string;
-  type: 'function' | 'struct' | 'enum' | 'trait' | 'impl' | 'module' | 'constant' | 'macro' | 'use';
+  type: 'function' | 'method' | 'struct' | 'enum' | 'trait' | 'impl' | 'module' | 'crate' | 'constant' | 'type' | 'macro';
   name: string;
+  // Path within the crate, e.g. `crate::net::Socket`
   path: string;
+  // Name of the crate the item belongs to; unset for files outside every crate
+  crate?: string;
   file: string;
   signature?: string;
   visibility?: 'public' | 'private' | 'crate' | 'super' | 'in';
+  // Whether other crates can reach the item from the crate root: it is public
+  // and so are the modules on its path, or it is re-exported with `pub use`
+  reachable?: boolean;
   description?: string;
   attributes?: string[];
+  // Cargo features of a crate's package
+  features?: string[];
   children?: RustNode[];
 };
 
 export type RustDependency = {
   source: string;
   target: string;
-  type: 'calls' | 'implements' | 'uses' | 'contains' | 'extends';
+  type: 'calls' | 'implements' | 'uses' | 'contains' | 'extends' | 'depends';
   weight?: number;
 };
 
+// A name bound in a module by a `use` declaration
+export type RustUseBinding = {
+  // Crate-qualified path of the importing module, e.g. `my_crate::net`
+  module: string;
+  // Local name bound by the import, or '*' for a glob import
+  name: string;
+  // Imported path as written, e.g. ['super', 'util', 'helper']
+  target: string[];
+  // Visibility of the `use` declaration; `pub use` re-exports the name
+  visibility?: RustNode['visibility'];
+};
+
+// An impl block, with its type and trait paths as written
+export type RustImplBlock = {
+  id: string;
+  // Crate-qualified path of the module the impl is declared in
+  module: string;
+  typePath: string[];
+  traitPath?: string[];
+};
+
+// A call made in a function or method body, or a macro invocation, resolved in
+// parseRustProject
+export type RustCallSite = {
+  source: string;
+  // Crate-qualified path of the caller's module
+  module: string;
+  // Type path of the enclosing impl, which `Self` and `self` refer to
+  selfType?: string[];
+  // Path of a `func()`, `module::func()` or `Type::func()` call
+  path?: string[];
+  // Name of the method in a `receiver.method()` call
+  method?: string;
+  // The receiver's type, when it is locally obvious: `self`, a typed
+  // parameter or binding, or a struct literal
+  receiverType?: string[];
+  // Path of the call the receiver was bound from, e.g. `let x = Type::new()`
+  receiverCall?: string[];
+  // Set for `path!(...)`, which uses a `macro_rules!` macro rather than calling a function
+  macro?: boolean;
+};
+
+// A trait derived with `#[derive(...)]`, e.g. `Debug` or `serde::Serialize`
+export type RustDerive = {
+  // ID of the struct or enum deriving the trait
+  source: string;
+  // Crate-qualified path of the module the type is declared in
+  module: string;
+  traitPath: string[];
+};
+
 export type RustProject = {
   name: string;
   root: string;
@@ -36,8 +95,13 @@ export type GraphData = {
     color?: string;
     group?: string;
     path?: string;
+    crate?: string;
     file?: string;
     signature?: string;
+    visibility?: RustNode['visibility'];
+    reachable?: boolean;
+    description?: string;
+    attributes?: string[];
   }[];
   links: {
     source: string;
@@ -55,6 +119,9 @@ export type TreeNode = {
   file?: string;
   signature?: string;
   visibility?: 'public' | 'private' | 'crate' | 'super' | 'in';
+  reachable?: boolean;
+  description?: string;
+  attributes?: string[];
   children: TreeNode[];
 };
 
@@ -0,0 +1,112 @@
+// Types for TypeScript and JavaScript code parsing and visualization
+
+export type TypeScriptNode = {
+  id: string;
+  type: 'module' | 'function' | 'class' | 'method' | 'interface' | 'type' | 'enum' | 'external';
+  name: string;
+  // Path of the module relative to the project root, without extension, e.g. `src/lib/api`
+  path: string;
+  file: string;
+  signature?: string;
+  // Text of the JSDoc comment preceding the declaration
+  description?: string;
+  // Module-level items are public when exported; class members follow their
+  // accessibility modifier, with `#name` members private
+  visibility?: 'public' | 'private' | 'protected';
+  children?: TypeScriptNode[];
+};
+
+export type TypeScriptDependency = {
+  source: string;
+  target: string;
+  type: 'calls' | 'imports' | 'extends' | 'implements' | 'contains';
+  weight?: number;
+};
+
+// A name bound in a module by an `import` declaration or a `require()` call
+export type TypeScriptImportBinding = {
+  // Path of the importing module
+  module: string;
+  // Local name bound by the import
+  name: string;
+  // Module specifier as written, e.g. `./util`, `@/lib/api` or `react`
+  specifier: string;
+  // Export the name refers to: an export name, 'default', or '*' for the whole
+  // module (`import * as ns`, `const ns = require(...)`)
+  imported: string;
+};
+
+// A name exported by a module, either declared in it or re-exported from another
+export type TypeScriptExport = {
+  // Path of the exporting module
+  module: string;
+  // Exported name, 'default', or '*' for `export * from`
+  name: string;
+  // Qualified name of the exported local declaration or binding
+  local?: string;
+  // Specifier and export name of a re-export, e.g. `export { a as b } from './x'`
+  specifier?: string;
+  imported?: string;
+};
+
+// A call or `new` expression, resolved in parseTypeScriptProject
+export type TypeScriptCallSite = {
+  // ID of the calling function or method, or of the module for top-level code
+  source: string;
+  module: string;
+  // Qualified name of the calling scope, e.g. `Service.run`, for nested functions
+  scope: string;
+  // Qualified name of the enclosing class, which `this` and `super` refer to
+  className?: string;
+  // Called name as written, e.g. `helper`, `api.fetch` or `this.save`
+  callee: string;
+  // Type of the receiver of a `local.method()` call when it is locally known:
+  // a type annotation or the class of a `new` expression
+  receiverType?: string;
+};
+
+export type TypeScriptProject = {
+  name: string;
+  root: string;
+  nodes: TypeScriptNode[];
+  dependencies: TypeScriptDependency[];
+};
+
+export type TypeScriptGraphData = {
+  nodes: {
+    id: string;
+    name: string;
+    type: string;
+    val: number;
+    color?: string;
+    group?: string;
+    path?: string;
+    file?: string;
+    signature?: string;
+    description?: string;
+    visibility?: TypeScriptNode['visibility'];
+  }[];
+  links: {
+    source: string;
+    target: string;
+    type: string;
+    value?: number;
+  }[];
+};
+
+export type TypeScriptTreeNode = {
+  id: string;
+  name: string;
+  type: string;
+  path?: string;
+  file?: string;
+  signature?: string;
+  description?: string;
+  visibility?: TypeScriptNode['visibility'];
+  children: TypeScriptTreeNode[];
+};
+
+export type TypeScriptHierarchicalData = {
+  name: string;
+  children: TypeScriptTreeNode[];
+};